@@ -9,11 +9,37 @@ async function clearAll() {
   try {
     // Clear in proper order to respect foreign key constraints
     const tables = [
+      'idempotencyKey',
+      'customerLedgerEntry',
+      'giftCardTransaction',
+      'stockMovement', // References productVariant, order, orderReturn, purchaseReceipt and stocktake
+      'stocktakeItem',
+      'stocktake',
+      'purchaseReceiptItem',
+      'purchaseReceipt',
+      'purchaseOrderItem',
+      'purchaseOrder',
+      'supplier',
+      'orderItemLot',
+      'stockLot',
+      'heldCartItem',
+      'heldCart',
+      'posApproval',
+      'orderEvent',
+      'paymentRefund',
+      'orderReturnItem',
+      'orderReturn',
+      'creditNoteItem',
+      'creditNote',
       'invoice',
+      'checkPayment', // References orderPayment and checkDeposit
+      'checkDeposit',
       'orderPayment', // New table
-      'checkPayment',
+      'giftCard', // References orderItem, referenced by orderPayment
       'orderItem',
       'order',
+      'cashMovement',
+      'registerSession',
       'subscriptionPayment',
       'subscription', // Must be before users
       'cartItem',
@@ -44,7 +44,8 @@ async function run(prisma) {
 
   // Clear existing orders in proper order to avoid foreign key constraints
   try {
-    // Delete in order: Invoice -> OrderPayment -> CheckPayment -> OrderItem -> Order
+    // Delete in order: CreditNote -> Invoice -> OrderPayment -> CheckPayment -> OrderItem -> Order
+    await prisma.creditNote.deleteMany({});
     await prisma.invoice.deleteMany({});
     await prisma.orderPayment.deleteMany({}).catch(() => console.log('OrderPayment table not found - this is expected for new schema'));
     await prisma.checkPayment.deleteMany({});
@@ -219,6 +220,7 @@ async function run(prisma) {
         data: {
           invoiceNumber: `INV-${order.orderNumber.slice(4)}`,
           orderId: order.id,
+          shopId: shop.id,
           pdfUrl: `/invoices/${order.orderNumber}.pdf`, // Mock URL
         },
       });
@@ -0,0 +1,54 @@
+/*
+  Warnings:
+
+  - Order and invoice numbers are now unique per shop instead of globally.
+  - Existing invoices are attached to the shop of their order.
+
+*/
+-- CreateEnum
+CREATE TYPE "DocumentSequenceType" AS ENUM ('ORDER', 'INVOICE');
+
+-- DropIndex
+DROP INDEX "Order_orderNumber_key";
+
+-- DropIndex
+DROP INDEX "Invoice_invoiceNumber_key";
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "orderNumberPattern" TEXT NOT NULL DEFAULT 'ORD-{YYYY}-{SEQ:6}',
+ADD COLUMN     "invoiceNumberPattern" TEXT NOT NULL DEFAULT 'INV-{YYYY}-{SEQ:6}';
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "shopId" TEXT;
+
+UPDATE "Invoice" SET "shopId" = "Order"."shopId" FROM "Order" WHERE "Invoice"."orderId" = "Order"."id";
+
+ALTER TABLE "Invoice" ALTER COLUMN "shopId" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "type" "DocumentSequenceType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentSequence_shopId_type_year_key" ON "DocumentSequence"("shopId", "type", "year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_shopId_orderNumber_key" ON "Order"("shopId", "orderNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_shopId_invoiceNumber_key" ON "Invoice"("shopId", "invoiceNumber");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentSequence" ADD CONSTRAINT "DocumentSequence_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PROCESSING';
+
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_PAID';
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED';
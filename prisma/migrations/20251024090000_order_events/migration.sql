@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "OrderEventType" AS ENUM ('CREATED', 'STATUS_CHANGED', 'PAYMENT_STATUS_CHANGED', 'NOTE_UPDATED', 'INVOICE_ISSUED', 'CREDIT_NOTE_ISSUED', 'PRINTED', 'RETURNED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "OrderEvent" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "type" "OrderEventType" NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "message" TEXT,
+    "metadata" JSONB,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderEvent_orderId_createdAt_idx" ON "OrderEvent"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderEvent" ADD CONSTRAINT "OrderEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderEvent" ADD CONSTRAINT "OrderEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start the timeline of existing orders with their creation
+INSERT INTO "OrderEvent" ("id", "orderId", "shopId", "type", "toValue", "actorId", "createdAt")
+SELECT gen_random_uuid()::text, "id", "shopId", 'CREATED', "status"::text, "processedByUserId", "createdAt"
+FROM "Order";
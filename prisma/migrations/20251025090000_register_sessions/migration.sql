@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "RegisterSessionStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "CashMovementType" AS ENUM ('CASH_IN', 'CASH_OUT');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "registerSessionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PaymentRefund" ADD COLUMN     "registerSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RegisterSession" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "RegisterSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "openingFloat" DOUBLE PRECISION NOT NULL,
+    "expectedCash" DOUBLE PRECISION,
+    "countedCash" DOUBLE PRECISION,
+    "cashDifference" DOUBLE PRECISION,
+    "openingNotes" TEXT,
+    "closingNotes" TEXT,
+    "zReport" JSONB,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "closedById" TEXT,
+
+    CONSTRAINT "RegisterSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CashMovement" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "type" "CashMovementType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CashMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RegisterSession_shopId_openedAt_idx" ON "RegisterSession"("shopId", "openedAt");
+
+-- A staff member can only have one open register per shop
+CREATE UNIQUE INDEX "RegisterSession_open_user_key" ON "RegisterSession"("shopId", "userId") WHERE "status" = 'OPEN';
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_registerSessionId_fkey" FOREIGN KEY ("registerSessionId") REFERENCES "RegisterSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentRefund" ADD CONSTRAINT "PaymentRefund_registerSessionId_fkey" FOREIGN KEY ("registerSessionId") REFERENCES "RegisterSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterSession" ADD CONSTRAINT "RegisterSession_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterSession" ADD CONSTRAINT "RegisterSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterSession" ADD CONSTRAINT "RegisterSession_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashMovement" ADD CONSTRAINT "CashMovement_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RegisterSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashMovement" ADD CONSTRAINT "CashMovement_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "clientReference" TEXT,
+ADD COLUMN     "syncedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_shopId_clientReference_key" ON "Order"("shopId", "clientReference");
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "HeldCart" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "customerId" TEXT,
+    "heldById" TEXT NOT NULL,
+    "notes" TEXT,
+    "orderDiscount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "orderDiscountType" TEXT NOT NULL DEFAULT 'PERCENTAGE',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HeldCart_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HeldCartItem" (
+    "id" TEXT NOT NULL,
+    "heldCartId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "HeldCartItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HeldCart_shopId_expiresAt_idx" ON "HeldCart"("shopId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "HeldCartItem_variantId_idx" ON "HeldCartItem"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "HeldCart" ADD CONSTRAINT "HeldCart_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HeldCart" ADD CONSTRAINT "HeldCart_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HeldCart" ADD CONSTRAINT "HeldCart_heldById_fkey" FOREIGN KEY ("heldById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HeldCartItem" ADD CONSTRAINT "HeldCartItem_heldCartId_fkey" FOREIGN KEY ("heldCartId") REFERENCES "HeldCart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HeldCartItem" ADD CONSTRAINT "HeldCartItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HeldCartItem" ADD CONSTRAINT "HeldCartItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
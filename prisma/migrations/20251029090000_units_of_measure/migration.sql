@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "UnitOfMeasure" AS ENUM ('UNIT', 'KILOGRAM', 'GRAM', 'LITER', 'MILLILITER');
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "unit" "UnitOfMeasure" NOT NULL DEFAULT 'UNIT',
+ALTER COLUMN "inventory" SET DATA TYPE DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "unit" "UnitOfMeasure" NOT NULL DEFAULT 'UNIT',
+ALTER COLUMN "quantity" SET DATA TYPE DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "OrderReturnItem" ALTER COLUMN "quantity" SET DATA TYPE DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "HeldCartItem" ALTER COLUMN "quantity" SET DATA TYPE DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "CreditNoteItem" ALTER COLUMN "quantity" SET DATA TYPE DOUBLE PRECISION;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "PosApprovalAction" AS ENUM ('ORDER_DISCOUNT', 'PRICE_OVERRIDE', 'REFUND', 'VOID');
+
+-- AlterEnum
+ALTER TYPE "OrderEventType" ADD VALUE 'APPROVED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "posPinFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "posPinHash" TEXT,
+ADD COLUMN     "posPinLockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PosApproval" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "action" "PosApprovalAction" NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "approvedById" TEXT NOT NULL,
+    "orderId" TEXT,
+    "details" JSONB,
+    "usedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PosApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PosApproval_shopId_createdAt_idx" ON "PosApproval"("shopId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PosApproval_orderId_idx" ON "PosApproval"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "PosApproval" ADD CONSTRAINT "PosApproval_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PosApproval" ADD CONSTRAINT "PosApproval_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PosApproval" ADD CONSTRAINT "PosApproval_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PosApproval" ADD CONSTRAINT "PosApproval_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "PriceAdjustmentReason" AS ENUM ('DAMAGED', 'PRICE_MATCH', 'LOYALTY', 'SHORT_DATED', 'STAFF_PURCHASE', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "adjustmentNote" TEXT,
+ADD COLUMN     "adjustmentReason" "PriceAdjustmentReason",
+ADD COLUMN     "lineDiscountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "priceOverridden" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "maxAdminLineDiscount" DOUBLE PRECISION NOT NULL DEFAULT 100,
+ADD COLUMN     "maxStaffLineDiscount" DOUBLE PRECISION NOT NULL DEFAULT 10;
@@ -0,0 +1,59 @@
+-- AlterEnum
+ALTER TYPE "OrderEventType" ADD VALUE 'CHECK_STATUS_CHANGED';
+
+-- AlterTable
+ALTER TABLE "CheckPayment" ADD COLUMN     "bounceReason" TEXT,
+ADD COLUMN     "bouncedAt" TIMESTAMP(3),
+ADD COLUMN     "depositId" TEXT,
+ADD COLUMN     "orderPaymentId" TEXT,
+ADD COLUMN     "reminderSentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "checksFlagReason" TEXT,
+ADD COLUMN     "checksFlaggedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CheckDeposit" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "slipNumber" TEXT NOT NULL,
+    "bankName" TEXT,
+    "depositedAt" TIMESTAMP(3) NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CheckDeposit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckDeposit_shopId_slipNumber_key" ON "CheckDeposit"("shopId", "slipNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckPayment_orderPaymentId_key" ON "CheckPayment"("orderPaymentId");
+
+-- CreateIndex
+CREATE INDEX "CheckPayment_shopId_status_checkDate_idx" ON "CheckPayment"("shopId", "status", "checkDate");
+
+-- AddForeignKey
+ALTER TABLE "CheckPayment" ADD CONSTRAINT "CheckPayment_orderPaymentId_fkey" FOREIGN KEY ("orderPaymentId") REFERENCES "OrderPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckPayment" ADD CONSTRAINT "CheckPayment_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "CheckDeposit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckDeposit" ADD CONSTRAINT "CheckDeposit_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckDeposit" ADD CONSTRAINT "CheckDeposit_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Track the checks taken through the multi-payment POS in the register. Orders
+-- with legacy check rows already have their checks listed.
+INSERT INTO "CheckPayment" ("id", "orderId", "orderPaymentId", "checkNumber", "bankName", "amount", "checkDate", "receivedDate", "status", "shopId", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, p."orderId", p."id", COALESCE(p."checkNumber", ''), p."checkBankName", p."amount",
+       COALESCE(p."checkDate", p."createdAt"), p."createdAt", COALESCE(p."checkStatus", 'RECEIVED'), o."shopId", p."createdAt", CURRENT_TIMESTAMP
+FROM "OrderPayment" p
+JOIN "Order" o ON o."id" = p."orderId"
+WHERE p."paymentMethod" = 'CHECK'
+  AND NOT EXISTS (SELECT 1 FROM "CheckPayment" c WHERE c."orderId" = p."orderId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "allowBackorder" BOOLEAN NOT NULL DEFAULT false;
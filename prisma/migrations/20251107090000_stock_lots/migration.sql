@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "StockLot" (
+    "id" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "lotNumber" TEXT NOT NULL,
+    "expiryDate" TIMESTAMP(3),
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockLot_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "lotNumber" TEXT;
+
+-- AlterTable
+ALTER TABLE "PurchaseReceiptItem" ADD COLUMN     "expiryDate" TIMESTAMP(3),
+ADD COLUMN     "lotNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "StockLot_variantId_expiryDate_idx" ON "StockLot"("variantId", "expiryDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockLot_variantId_lotNumber_key" ON "StockLot"("variantId", "lotNumber");
+
+-- AddForeignKey
+ALTER TABLE "StockLot" ADD CONSTRAINT "StockLot_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The expiry date of a product becomes a lot holding the stock of each variant
+INSERT INTO "StockLot" ("id", "variantId", "lotNumber", "expiryDate", "quantity", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, v."id", 'INITIAL', p."expiryDate", v."inventory", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "ProductVariant" v
+JOIN "Product" p ON p."id" = v."productId"
+WHERE p."expiryDate" IS NOT NULL AND v."inventory" > 0 AND p."isGiftCard" = false;
+
+-- AlterTable
+ALTER TABLE "Product" DROP COLUMN "expiryDate";
@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "StocktakeStatus" AS ENUM ('IN_PROGRESS', 'APPROVED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "DocumentSequenceType" ADD VALUE 'STOCKTAKE';
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN     "stocktakeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Stocktake" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "StocktakeStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "frozenAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdById" TEXT,
+    "approvedById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Stocktake_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StocktakeItem" (
+    "id" TEXT NOT NULL,
+    "stocktakeId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "productName" TEXT NOT NULL,
+    "variantName" TEXT NOT NULL,
+    "sku" TEXT,
+    "barcode" TEXT,
+    "unit" "UnitOfMeasure" NOT NULL DEFAULT 'UNIT',
+    "cost" DOUBLE PRECISION,
+    "frozenQuantity" DOUBLE PRECISION,
+    "countedQuantity" DOUBLE PRECISION,
+    "countedAt" TIMESTAMP(3),
+    "countedById" TEXT,
+    "adjustment" DOUBLE PRECISION,
+
+    CONSTRAINT "StocktakeItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_StocktakeCategories" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_StocktakeCategories_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "Stocktake_shopId_status_idx" ON "Stocktake"("shopId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Stocktake_shopId_number_key" ON "Stocktake"("shopId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StocktakeItem_stocktakeId_variantId_key" ON "StocktakeItem"("stocktakeId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "_StocktakeCategories_B_index" ON "_StocktakeCategories"("B");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_stocktakeId_fkey" FOREIGN KEY ("stocktakeId") REFERENCES "Stocktake"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Stocktake" ADD CONSTRAINT "Stocktake_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Stocktake" ADD CONSTRAINT "Stocktake_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Stocktake" ADD CONSTRAINT "Stocktake_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StocktakeItem" ADD CONSTRAINT "StocktakeItem_stocktakeId_fkey" FOREIGN KEY ("stocktakeId") REFERENCES "Stocktake"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StocktakeItem" ADD CONSTRAINT "StocktakeItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StocktakeItem" ADD CONSTRAINT "StocktakeItem_countedById_fkey" FOREIGN KEY ("countedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_StocktakeCategories" ADD CONSTRAINT "_StocktakeCategories_A_fkey" FOREIGN KEY ("A") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_StocktakeCategories" ADD CONSTRAINT "_StocktakeCategories_B_fkey" FOREIGN KEY ("B") REFERENCES "Stocktake"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "CustomerLedgerEntryType" ADD VALUE 'REVERSAL';
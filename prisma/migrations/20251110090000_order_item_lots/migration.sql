@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "OrderItemLot" (
+    "id" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "lotId" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "restoredQuantity" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderItemLot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItemLot_orderItemId_idx" ON "OrderItemLot"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "OrderItemLot_lotId_idx" ON "OrderItemLot"("lotId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItemLot" ADD CONSTRAINT "OrderItemLot_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItemLot" ADD CONSTRAINT "OrderItemLot_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "StockLot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
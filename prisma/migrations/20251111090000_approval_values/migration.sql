@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PosApproval" ADD COLUMN     "approvedValue" DOUBLE PRECISION;
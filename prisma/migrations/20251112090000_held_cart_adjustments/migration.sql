@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "HeldCartItem" ADD COLUMN     "adjustmentNote" TEXT,
+ADD COLUMN     "adjustmentReason" "PriceAdjustmentReason",
+ADD COLUMN     "lineDiscount" DOUBLE PRECISION,
+ADD COLUMN     "lineDiscountType" TEXT,
+ADD COLUMN     "priceOverride" DOUBLE PRECISION;
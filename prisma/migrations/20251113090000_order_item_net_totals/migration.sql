@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "netTotal" DOUBLE PRECISION,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "CustomerLedgerEntryType" ADD VALUE 'CHECK_RETURNED';
+
+-- AlterTable
+ALTER TABLE "CheckPayment" ADD COLUMN     "ledgerEntryId" TEXT,
+ALTER COLUMN "orderId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckPayment_ledgerEntryId_key" ON "CheckPayment"("ledgerEntryId");
+
+-- AddForeignKey
+ALTER TABLE "CheckPayment" ADD CONSTRAINT "CheckPayment_ledgerEntryId_fkey" FOREIGN KEY ("ledgerEntryId") REFERENCES "CustomerLedgerEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+// src/app/admin/checks/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import ChecksRegister from "@/components/admin/checks/checks-register";
+
+export default async function ChecksPage() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/checks");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Checks</h1>
+        <p className="text-gray-500 mt-1">
+          Deposit the checks received in store and record what the bank did with them.
+        </p>
+      </div>
+
+      <ChecksRegister isAdmin={session.user.role === "SHOP_ADMIN"} />
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ import {
 import { ArrowLeft, Edit, Mail, Phone, MapPin, ShoppingBag, Calendar } from "lucide-react";
 import { formatDate, formatCurrency } from "@/lib/utils/currency";
 import CustomerActions from "@/components/admin/customers/customer-actions";
+import CheckFlagAlert from "@/components/admin/customers/check-flag-alert";
+import CustomerAccountCard from "@/components/admin/customers/customer-account-card";
 
 interface PageProps {
   params: {
@@ -154,6 +156,15 @@ export default async function CustomerDetailPage({ params }: PageProps) {
         </div>
       </div>
 
+      {customer.checksFlaggedAt && (
+        <CheckFlagAlert
+          customerId={customerId}
+          flaggedAt={customer.checksFlaggedAt}
+          reason={customer.checksFlagReason}
+          canClear={session.user.role === "SHOP_ADMIN"}
+        />
+      )}
+
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Customer Information */}
         <div className="lg:col-span-2 space-y-6">
@@ -205,6 +216,12 @@ export default async function CustomerDetailPage({ params }: PageProps) {
             </Card>
           )}
 
+          {/* Customer Account */}
+          <CustomerAccountCard
+            customerId={customerId}
+            isAdmin={session.user.role === "SHOP_ADMIN"}
+          />
+
           {/* Recent Orders */}
           <Card>
             <CardHeader>
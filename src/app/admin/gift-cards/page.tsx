@@ -0,0 +1,25 @@
+// src/app/admin/gift-cards/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import GiftCardsRegister from "@/components/admin/gift-cards/gift-cards-register";
+
+export default async function GiftCardsPage() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/gift-cards");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Gift Cards</h1>
+        <p className="text-gray-500 mt-1">
+          Look up a card, follow how its balance was spent and issue vouchers.
+        </p>
+      </div>
+
+      <GiftCardsRegister isAdmin={session.user.role === "SHOP_ADMIN"} />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import Link from "next/link";
 import { notFound, redirect } from "next/navigation";
 import { authOptions } from "@/lib/auth";
 import { ordersService } from "@/lib/services/orders.service";
+import { maskGiftCardCode } from "@/lib/gift-card";
 import { formatCurrency, formatDate, getImageUrl } from "@/lib/utils";
 import { FeatureGuard } from "@/components/authorization/feature-guard";
 import { Feature } from "@/lib/feature-authorization";
@@ -29,6 +30,9 @@ import {
 import { Separator } from "@/components/ui/separator";
 import OrderStatusBadge from "@/components/admin/order-status-badge";
 import OrderStatusUpdateForm from "@/components/admin/order-status-update-form";
+import OrderReturnDialog from "@/components/admin/order-return-dialog";
+import OrderHistoryTab from "@/components/admin/order-history-tab";
+import { getReturnState } from "@/lib/services/returns.service";
 import {
   Truck,
   CreditCard,
@@ -43,6 +47,8 @@ import {
   BookOpenText,
   Receipt,
   DollarSign,
+  Undo2,
+  History,
 } from "lucide-react";
 
 interface OrderDetailsPageProps {
@@ -77,6 +83,8 @@ export default async function OrderDetailsPage({
     (sum, item) => sum + item.quantity,
     0
   );
+  const returnState = getReturnState(order.items);
+  const canReturn = order.status === "SHIPPED" || order.status === "DELIVERED";
 
   return (
     <div className="space-y-6">
@@ -100,14 +108,14 @@ export default async function OrderDetailsPage({
           <FeatureGuard feature={Feature.INVOICE_GENERATION}>
             {order.invoice ? (
               <Button variant="outline">
-                <Link href={`/api/orders/${order.id}/invoice`} target="_blank">
+                <Link href={`/api/invoices/${order.invoice.id}/download?inline=1`} target="_blank">
                   <FileText className="h-4 w-4 mr-2" />
                   View Invoice
                 </Link>
               </Button>
             ) : (
               <Button>
-                <Link href={`/api/orders/${order.id}/invoice/generate`}>
+                <Link href={`/api/orders/${order.id}/invoice?format=pdf`} target="_blank">
                   <FileText className="h-4 w-4 mr-2" />
                   Generate Invoice
                 </Link>
@@ -130,9 +138,37 @@ export default async function OrderDetailsPage({
                     Order Items ({totalItems})
                   </span>
                 </CardTitle>
-                <div className="text-md text-gray-700">
-                  Total Quantity:{" "}
-                  <span className="font-semibold">{totalQuantity}</span>
+                <div className="flex items-center gap-4">
+                  <div className="text-md text-gray-700">
+                    Total Quantity:{" "}
+                    <span className="font-semibold">{totalQuantity}</span>
+                  </div>
+                  {canReturn && (
+                    <OrderReturnDialog
+                      orderId={order.id}
+                      allowStoreCredit={order.user.role === "CUSTOMER"}
+                      items={order.items.map((item) => ({
+                        id: item.id,
+                        productName: item.productName,
+                        quantity: item.quantity,
+                        unit: item.unit,
+                        returnedQuantity: item.returnItems.reduce(
+                          (sum, line) => sum + line.quantity,
+                          0
+                        ),
+                        total: item.total,
+                      }))}
+                      payments={order.orderPayments.map((payment) => ({
+                        id: payment.id,
+                        paymentMethod: payment.paymentMethod,
+                        amount: payment.amount,
+                        refundedAmount: payment.refunds.reduce(
+                          (sum, refund) => sum + refund.amount,
+                          0
+                        ),
+                      }))}
+                    />
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -181,6 +217,11 @@ export default async function OrderDetailsPage({
                                     .join(", ")}
                                 </div>
                               )}
+                            {item.lotNumber && (
+                              <div className="text-xs text-gray-500 mt-0.5">
+                                Lot {item.lotNumber}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </TableCell>
@@ -194,6 +235,16 @@ export default async function OrderDetailsPage({
                       </TableCell>
                       <TableCell className="text-gray-700">
                         {item.quantity}
+                        {item.returnItems.length > 0 && (
+                          <div className="text-xs text-orange-600">
+                            (
+                            {item.returnItems.reduce(
+                              (sum, line) => sum + line.quantity,
+                              0
+                            )}{" "}
+                            returned)
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right font-medium text-gray-800">
                         {formatCurrency(item.total)}
@@ -259,6 +310,63 @@ export default async function OrderDetailsPage({
             </CardContent>
           </Card>
 
+          {/* Returns */}
+          {order.returns.length > 0 && (
+            <Card>
+              <CardHeader className="bg-gray-50 border-b rounded-t-md">
+                <CardTitle className="text-lg text-gray-800">
+                  <Undo2 className="h-4 w-4 inline-block mr-2 text-gray-600" />
+                  <span className="text-gray-700">
+                    Returns ({order.returns.length})
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-4 bg-gray-900 space-y-4">
+                {order.returns.map((orderReturn) => (
+                  <div
+                    key={orderReturn.id}
+                    className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-2"
+                  >
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">
+                        {formatDate(orderReturn.createdAt)}
+                      </span>
+                      {orderReturn.refundTotal > 0 && (
+                        <span className="text-gray-100 font-medium">
+                          Refunded {formatCurrency(orderReturn.refundTotal)}
+                        </span>
+                      )}
+                    </div>
+                    <ul className="text-sm text-gray-200 space-y-1">
+                      {orderReturn.items.map((item) => (
+                        <li key={item.id} className="flex justify-between">
+                          <span>
+                            {item.quantity} x {item.orderItem.productName}
+                          </span>
+                          <span className="text-gray-400">
+                            {item.restock ? "Restocked" : "Not restocked"}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    {orderReturn.reason && (
+                      <p className="text-xs text-gray-400">{orderReturn.reason}</p>
+                    )}
+                    {orderReturn.creditNote && (
+                      <Link
+                        href={`/api/credit-notes/${orderReturn.creditNote.id}/download?inline=1`}
+                        target="_blank"
+                        className="text-xs text-indigo-400 hover:underline"
+                      >
+                        Credit note {orderReturn.creditNote.creditNoteNumber}
+                      </Link>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Order Notes */}
           {order.notes && (
             <Card>
@@ -276,6 +384,19 @@ export default async function OrderDetailsPage({
             </Card>
           )}
 
+          {/* Order Timeline */}
+          <Card>
+            <CardHeader className="bg-gray-50 border-b rounded-t-md">
+              <CardTitle className="text-lg text-gray-800">
+                <History className="h-4 w-4 inline-block mr-2 text-gray-600" />
+                <span className="text-gray-700">History</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-6 bg-gray-900">
+              <OrderHistoryTab events={order.events} />
+            </CardContent>
+          </Card>
+
           {/* Order Status Update Form */}
           <Card>
             <CardHeader className="bg-gray-50 border-b rounded-t-md">
@@ -308,7 +429,12 @@ export default async function OrderDetailsPage({
             <CardContent className="p-4 divide-y divide-gray-200 bg-gray-900">
               <div className="py-3 flex justify-between ">
                 <span className="text-gray-200">Status</span>
-                <OrderStatusBadge status={order.status} />
+                <div className="flex gap-2">
+                  <OrderStatusBadge status={order.status} />
+                  {returnState === "PARTIAL" && (
+                    <OrderStatusBadge status="PARTIALLY_RETURNED" />
+                  )}
+                </div>
               </div>
               <div className="py-3 flex justify-between">
                 <span className="text-gray-200">Payment</span>
@@ -445,6 +571,14 @@ export default async function OrderDetailsPage({
                             </div>
                           )}
                           
+                          {/* Gift Card Payment Details */}
+                          {payment.giftCard && (
+                            <div className="text-xs text-gray-400 flex justify-between">
+                              <span>Gift Card:</span>
+                              <span className="font-mono">{maskGiftCardCode(payment.giftCard.code)}</span>
+                            </div>
+                          )}
+
                           {/* Check Payment Details */}
                           {payment.paymentMethod === 'CHECK' && (
                             <div className="text-xs text-gray-400 space-y-1">
@@ -609,12 +743,39 @@ export default async function OrderDetailsPage({
                     </div>
                     <Button size="sm" className="w-full mt-2">
                       <Link
-                        href={`/api/orders/${order.id}/invoice`}
+                        href={`/api/invoices/${order.invoice.id}/download?inline=1`}
                         target="_blank"
                       >
                         View Invoice
                       </Link>
                     </Button>
+                    {order.creditNotes.length > 0 && (
+                      <div className="pt-3 border-t space-y-2">
+                        <span className="text-gray-600 text-sm font-medium">
+                          Credit Notes
+                        </span>
+                        {order.creditNotes.map((creditNote) => (
+                          <div
+                            key={creditNote.id}
+                            className="flex justify-between items-center text-sm"
+                          >
+                            <Link
+                              href={`/api/credit-notes/${creditNote.id}/download?inline=1`}
+                              target="_blank"
+                              className="text-indigo-600 hover:underline"
+                            >
+                              {creditNote.creditNoteNumber}
+                            </Link>
+                            <span className="text-gray-500">
+                              {formatDate(creditNote.createdAt)}
+                            </span>
+                            <span className="text-gray-800">
+                              -{formatCurrency(creditNote.total)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-2">
@@ -622,7 +783,7 @@ export default async function OrderDetailsPage({
                       No invoice generated yet
                     </p>
                     <Button size="sm" className="w-full">
-                      <Link href={`/api/orders/${order.id}/invoice/generate`}>
+                      <Link href={`/api/orders/${order.id}/invoice?format=pdf`} target="_blank">
                         Generate Invoice
                       </Link>
                     </Button>
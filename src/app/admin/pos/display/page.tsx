@@ -0,0 +1,26 @@
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { Metadata } from "next";
+import { authOptions } from "@/lib/auth";
+import CustomerDisplay from "@/components/admin/pos/customer-display";
+
+export const metadata: Metadata = {
+  title: "Customer Display | Admin",
+  description: "Customer-facing screen of the register",
+};
+
+export default async function CustomerDisplayPage() {
+  // Check authentication
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/pos/display");
+  }
+
+  // Only allow shop admins and staff
+  if (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF") {
+    redirect("/admin/dashboard");
+  }
+
+  // Covers the admin layout, the window is shown on the customer's screen
+  return <CustomerDisplay />;
+}
@@ -1,7 +1,11 @@
 import { getServerSession } from "next-auth/next";
 import { redirect } from "next/navigation";
 import { authOptions } from "@/lib/auth";
+import Link from "next/link";
 import POSSystem from "@/components/admin/pos-system";
+import RegisterSessionPanel from "@/components/admin/pos/register-session-panel";
+import StaffSwitch from "@/components/admin/pos/staff-switch";
+import { OfflinePosProvider } from "@/contexts/offline-pos.context";
 import { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -41,11 +45,39 @@ export default async function POSPage() {
           <p className="text-sm text-gray-500">
             Shop: {session.user.shopName}
           </p>
+          <div className="flex items-center justify-end gap-3 mt-1">
+            <Link
+              href="/admin/pos/sessions"
+              className="text-sm text-indigo-600 hover:underline"
+            >
+              Register history
+            </Link>
+            <Link
+              href="/admin/pos/display"
+              target="_blank"
+              className="text-sm text-indigo-600 hover:underline"
+            >
+              Customer display
+            </Link>
+            {session.user.role === "SHOP_ADMIN" && (
+              <Link
+                href="/admin/pos/staff"
+                className="text-sm text-indigo-600 hover:underline"
+              >
+                Staff PINs
+              </Link>
+            )}
+            <StaffSwitch currentUserId={session.user.id} />
+          </div>
         </div>
       </div>
       
-      {/* POS System */}
-      <POSSystem />
+      {/* POS System, available while the register is open and able to sell offline */}
+      <OfflinePosProvider>
+        <RegisterSessionPanel>
+          <POSSystem />
+        </RegisterSessionPanel>
+      </OfflinePosProvider>
     </div>
   );
 }
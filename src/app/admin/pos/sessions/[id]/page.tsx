@@ -0,0 +1,116 @@
+import { getServerSession } from "next-auth/next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import { registerService } from "@/lib/services/register.service";
+import { formatCurrency } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import RegisterZReport from "@/components/admin/pos/register-z-report";
+import { ArrowLeft } from "lucide-react";
+
+interface RegisterSessionPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function RegisterSessionPage({ params }: RegisterSessionPageProps) {
+  // Check authentication
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/pos/sessions");
+  }
+
+  const shopId = session.user.shopId;
+  const registerSession = await registerService.getSession(params.id, shopId);
+  if (
+    !registerSession ||
+    (session.user.role !== "SHOP_ADMIN" && registerSession.userId !== session.user.id)
+  ) {
+    notFound();
+  }
+
+  const report = await registerService.getReport(registerSession.id, shopId);
+  if (!report) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/pos/sessions"
+        className="inline-flex items-center text-sm text-indigo-600 hover:underline"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Register sessions
+      </Link>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardContent className="p-6">
+            <RegisterZReport report={report} />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base text-gray-800">Cash Movements</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {registerSession.movements.length === 0 && (
+                <p className="text-sm text-gray-500">No cash movements</p>
+              )}
+              {registerSession.movements.map((movement) => (
+                <div key={movement.id} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">
+                      {movement.type === "CASH_IN" ? "Cash in" : "Cash out"}
+                    </span>
+                    <span
+                      className={
+                        movement.type === "CASH_IN" ? "text-emerald-600" : "text-red-600"
+                      }
+                    >
+                      {movement.type === "CASH_IN" ? "+" : "-"}
+                      {formatCurrency(movement.amount)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {movement.reason} · {movement.createdBy.name} ·{" "}
+                    {movement.createdAt.toLocaleTimeString("fr-FR")}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {(registerSession.openingNotes || registerSession.closingNotes) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base text-gray-800">Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm text-gray-700">
+                {registerSession.openingNotes && (
+                  <p>
+                    <span className="font-medium">Opening:</span> {registerSession.openingNotes}
+                  </p>
+                )}
+                {registerSession.closingNotes && (
+                  <p>
+                    <span className="font-medium">Closing:</span> {registerSession.closingNotes}
+                  </p>
+                )}
+                {registerSession.closedBy && registerSession.closedBy.id !== registerSession.userId && (
+                  <p className="text-xs text-gray-500">
+                    Closed by {registerSession.closedBy.name}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { getServerSession } from "next-auth/next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Metadata } from "next";
+import { authOptions } from "@/lib/auth";
+import { registerService } from "@/lib/services/register.service";
+import { formatCurrency } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableHeader,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+} from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import Pagination from "@/components/admin/pagination";
+
+export const metadata: Metadata = {
+  title: "Register Sessions | Admin",
+  description: "Register shifts and their Z-reports",
+};
+
+interface RegisterSessionsPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+export default async function RegisterSessionsPage({
+  searchParams,
+}: RegisterSessionsPageProps) {
+  const params = await searchParams;
+
+  // Check authentication
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/pos/sessions");
+  }
+  if (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF") {
+    redirect("/admin/dashboard");
+  }
+
+  const page = Math.max(parseInt((params.page as string) || "1"), 1);
+  const perPage = 20;
+
+  // Staff only see their own shifts
+  const { sessions, total } = await registerService.listSessions(session.user.shopId, {
+    userId: session.user.role === "SHOP_ADMIN" ? undefined : session.user.id,
+    skip: (page - 1) * perPage,
+    take: perPage,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">
+          Register Sessions
+        </h1>
+        <p className="text-gray-500 mt-1">
+          <Link href="/admin/pos" className="text-indigo-600 hover:underline">
+            Back to the Point of Sale
+          </Link>
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Cashier</TableHead>
+                <TableHead className="text-right">Sales</TableHead>
+                <TableHead className="text-right">Opening float</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-gray-500 py-8">
+                    No register sessions yet
+                  </TableCell>
+                </TableRow>
+              )}
+              {sessions.map((registerSession) => (
+                <TableRow key={registerSession.id}>
+                  <TableCell>{registerSession.openedAt.toLocaleString("fr-FR")}</TableCell>
+                  <TableCell>
+                    {registerSession.closedAt ? (
+                      registerSession.closedAt.toLocaleString("fr-FR")
+                    ) : (
+                      <Badge
+                        variant="outline"
+                        className="bg-emerald-50 text-emerald-700 border-emerald-200"
+                      >
+                        Open
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{registerSession.user.name || registerSession.user.email}</TableCell>
+                  <TableCell className="text-right">{registerSession._count.orders}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(registerSession.openingFloat)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {registerSession.expectedCash !== null
+                      ? formatCurrency(registerSession.expectedCash)
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {registerSession.countedCash !== null
+                      ? formatCurrency(registerSession.countedCash)
+                      : "-"}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${
+                      registerSession.cashDifference
+                        ? "text-red-600 font-medium"
+                        : "text-gray-700"
+                    }`}
+                  >
+                    {registerSession.cashDifference !== null
+                      ? formatCurrency(registerSession.cashDifference)
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Link
+                      href={`/admin/pos/sessions/${registerSession.id}`}
+                      className="text-indigo-600 hover:underline text-sm"
+                    >
+                      Report
+                    </Link>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {total > perPage && (
+        <Pagination
+          currentPage={page}
+          totalPages={Math.ceil(total / perPage)}
+          totalItems={total}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { getServerSession } from "next-auth/next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Metadata } from "next";
+import { authOptions } from "@/lib/auth";
+import { staffPinService } from "@/lib/services/staff-pin.service";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableHeader,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+} from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import StaffPinActions from "@/components/admin/pos/staff-pin-actions";
+
+export const metadata: Metadata = {
+  title: "POS Staff | Admin",
+  description: "PINs of the staff members on the registers",
+};
+
+export default async function PosStaffPage() {
+  // Check authentication
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/pos/staff");
+  }
+  // PINs also approve restricted actions, so only admins manage them
+  if (session.user.role !== "SHOP_ADMIN") {
+    redirect("/admin/pos");
+  }
+
+  const staff = await staffPinService.listStaff(session.user.shopId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">
+          POS Staff
+        </h1>
+        <p className="text-gray-500 mt-1">
+          Staff members switch cashier on the register with their PIN. Admin PINs
+          approve manual discounts, price overrides, refunds and cancellations
+          made by staff members.{" "}
+          <Link href="/admin/pos" className="text-indigo-600 hover:underline">
+            Back to the Point of Sale
+          </Link>
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>PIN</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell className="font-medium">{member.name || "-"}</TableCell>
+                  <TableCell>{member.email}</TableCell>
+                  <TableCell>{member.role === "SHOP_ADMIN" ? "Admin" : "Staff"}</TableCell>
+                  <TableCell>
+                    {member.locked ? (
+                      <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                        Locked
+                      </Badge>
+                    ) : member.hasPin ? (
+                      <Badge
+                        variant="outline"
+                        className="bg-emerald-50 text-emerald-700 border-emerald-200"
+                      >
+                        Set
+                      </Badge>
+                    ) : (
+                      <span className="text-gray-400">Not set</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <StaffPinActions
+                      userId={member.id}
+                      name={member.name || member.email}
+                      hasPin={member.hasPin}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -140,6 +140,7 @@ export default function ProductsPage() {
   const categoryId = searchParams.get("category") || "";
   const inStock = searchParams.get("inStock") === "true";
   const lowStock = searchParams.get("lowStock") === "true";
+  const expiringSoon = searchParams.get("expiringSoon") === "true";
   const viewMode = searchParams.get("view") || "list";
 
   // Fetch data effect
@@ -164,6 +165,7 @@ export default function ProductsPage() {
             category: categoryId,
             inStock: inStock ? "true" : undefined,
             lowStock: lowStock ? "true" : undefined,
+            expiringSoon: expiringSoon ? "true" : undefined,
             view: viewMode,
           }),
         ]);
@@ -222,6 +224,7 @@ export default function ProductsPage() {
     categoryId,
     inStock,
     lowStock,
+    expiringSoon,
     viewMode,
     categories.length,
     toast,
@@ -352,6 +355,7 @@ export default function ProductsPage() {
           category: categoryId,
           inStock: inStock ? "true" : undefined,
           lowStock: lowStock ? "true" : undefined,
+          expiringSoon: expiringSoon ? "true" : undefined,
           page: page.toString(),
           perPage: perPage.toString(),
           sort,
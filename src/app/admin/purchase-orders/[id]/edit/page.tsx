@@ -0,0 +1,59 @@
+// src/app/admin/purchase-orders/[id]/edit/page.tsx
+import { getServerSession } from "next-auth/next";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import { purchaseOrderService } from "@/lib/services/purchase-order.service";
+import PurchaseOrderForm from "@/components/admin/purchase-orders/purchase-order-form";
+
+interface EditPurchaseOrderPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function EditPurchaseOrderPage({ params }: EditPurchaseOrderPageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect(`/login?callbackUrl=/admin/purchase-orders/${params.id}/edit`);
+  }
+  if (session.user.role !== "SHOP_ADMIN") {
+    redirect(`/admin/purchase-orders/${params.id}`);
+  }
+
+  const order = await purchaseOrderService.getOrder(session.user.shopId, params.id);
+  if (!order) {
+    notFound();
+  }
+  // Only drafts can be edited
+  if (order.status !== "DRAFT") {
+    redirect(`/admin/purchase-orders/${order.id}`);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Edit {order.number}</h1>
+        <p className="text-gray-500 mt-1">Change the supplier, the delivery date or the items to order.</p>
+      </div>
+
+      <PurchaseOrderForm
+        order={{
+          id: order.id,
+          supplierId: order.supplierId,
+          expectedAt: order.expectedAt?.toISOString() ?? null,
+          notes: order.notes,
+          items: order.items.map((item) => ({
+            variantId: item.variantId,
+            productName: item.productName,
+            variantName: item.variantName,
+            sku: item.sku,
+            unit: item.unit,
+            quantity: item.quantity,
+            cost: item.cost,
+            variant: item.variant ? { inventory: item.variant.inventory } : null,
+          })),
+        }}
+      />
+    </div>
+  );
+}
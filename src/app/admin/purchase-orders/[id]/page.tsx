@@ -0,0 +1,31 @@
+// src/app/admin/purchase-orders/[id]/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import PurchaseOrderDetail from "@/components/admin/purchase-orders/purchase-order-detail";
+
+interface PurchaseOrderPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function PurchaseOrderPage({ params }: PurchaseOrderPageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect(`/login?callbackUrl=/admin/purchase-orders/${params.id}`);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Purchase Order</h1>
+        <p className="text-gray-500 mt-1">
+          Send the order to the supplier and check in deliveries as they arrive.
+        </p>
+      </div>
+
+      <PurchaseOrderDetail purchaseOrderId={params.id} isAdmin={session.user.role === "SHOP_ADMIN"} />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// src/app/admin/purchase-orders/new/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import PurchaseOrderForm from "@/components/admin/purchase-orders/purchase-order-form";
+
+export default async function NewPurchaseOrderPage() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/purchase-orders/new");
+  }
+  if (session.user.role !== "SHOP_ADMIN") {
+    redirect("/admin/purchase-orders");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">New Purchase Order</h1>
+        <p className="text-gray-500 mt-1">
+          The order is saved as a draft until you send it to the supplier.
+        </p>
+      </div>
+
+      <PurchaseOrderForm />
+    </div>
+  );
+}
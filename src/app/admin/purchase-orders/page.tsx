@@ -0,0 +1,34 @@
+// src/app/admin/purchase-orders/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import PurchaseOrdersList from "@/components/admin/purchase-orders/purchase-orders-list";
+
+interface PurchaseOrdersPageProps {
+  searchParams: {
+    supplierId?: string;
+  };
+}
+
+export default async function PurchaseOrdersPage({ searchParams }: PurchaseOrdersPageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/purchase-orders");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Purchase Orders</h1>
+        <p className="text-gray-500 mt-1">
+          Order stock from your suppliers and receive deliveries into inventory.
+        </p>
+      </div>
+
+      <PurchaseOrdersList
+        isAdmin={session.user.role === "SHOP_ADMIN"}
+        supplierId={searchParams.supplierId}
+      />
+    </div>
+  );
+}
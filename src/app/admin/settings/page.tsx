@@ -16,7 +16,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, Save, Settings, Building, Globe, Clock } from "lucide-react";
+import { Loader2, Save, Settings, Building, Globe, Clock, Hash, Percent } from "lucide-react";
 import { settingsService } from "@/lib/services/settings.service";
 
 interface ShopSettings {
@@ -30,6 +30,11 @@ interface ShopSettings {
   contactPhone?: string;
   address?: string;
   socialLinks?: Record<string, string>;
+  orderNumberPattern: string;
+  invoiceNumberPattern: string;
+  creditNotePattern: string;
+  maxStaffLineDiscount: number;
+  maxAdminLineDiscount: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -48,6 +53,11 @@ export default function SettingsPage() {
     contactEmail: "",
     contactPhone: "",
     address: "",
+    orderNumberPattern: "ORD-{YYYY}-{SEQ:6}",
+    invoiceNumberPattern: "INV-{YYYY}-{SEQ:6}",
+    creditNotePattern: "AV-{YYYY}-{SEQ:6}",
+    maxStaffLineDiscount: 10,
+    maxAdminLineDiscount: 100,
     socialLinks: {
       facebook: "",
       instagram: "",
@@ -85,6 +95,11 @@ export default function SettingsPage() {
         contactEmail: data.contactEmail || "",
         contactPhone: data.contactPhone || "",
         address: data.address || "",
+        orderNumberPattern: data.orderNumberPattern || "ORD-{YYYY}-{SEQ:6}",
+        invoiceNumberPattern: data.invoiceNumberPattern || "INV-{YYYY}-{SEQ:6}",
+        creditNotePattern: data.creditNotePattern || "AV-{YYYY}-{SEQ:6}",
+        maxStaffLineDiscount: data.maxStaffLineDiscount ?? 10,
+        maxAdminLineDiscount: data.maxAdminLineDiscount ?? 100,
         socialLinks: data.socialLinks || {
           facebook: "",
           instagram: "",
@@ -309,6 +324,107 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Document Numbering */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="h-5 w-5" />
+              Document Numbering
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="orderNumberPattern">Order Number Pattern</Label>
+                <Input
+                  id="orderNumberPattern"
+                  value={formData.orderNumberPattern}
+                  onChange={(e) => handleInputChange("orderNumberPattern", e.target.value)}
+                  placeholder="ORD-{YYYY}-{SEQ:6}"
+                  className="text-gray-400"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="invoiceNumberPattern">Invoice Number Pattern</Label>
+                <Input
+                  id="invoiceNumberPattern"
+                  value={formData.invoiceNumberPattern}
+                  onChange={(e) => handleInputChange("invoiceNumberPattern", e.target.value)}
+                  placeholder="INV-{YYYY}-{SEQ:6}"
+                  className="text-gray-400"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="creditNotePattern">Credit Note Pattern</Label>
+                <Input
+                  id="creditNotePattern"
+                  value={formData.creditNotePattern}
+                  onChange={(e) => handleInputChange("creditNotePattern", e.target.value)}
+                  placeholder="AV-{YYYY}-{SEQ:6}"
+                  className="text-gray-400"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Available tokens: {"{YYYY}"}, {"{YY}"}, {"{MM}"}, {"{DD}"} and {"{SEQ:n}"} (sequence
+              padded to n digits). Numbers are sequential per shop and restart every year, so the
+              pattern must include the year.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* POS Price Changes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              POS Price Changes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxStaffLineDiscount">Staff Line Discount Limit (%)</Label>
+                <Input
+                  id="maxStaffLineDiscount"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={formData.maxStaffLineDiscount}
+                  onChange={(e) =>
+                    handleInputChange("maxStaffLineDiscount", parseFloat(e.target.value) || 0)
+                  }
+                  className="text-gray-400"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maxAdminLineDiscount">Admin Line Discount Limit (%)</Label>
+                <Input
+                  id="maxAdminLineDiscount"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={formData.maxAdminLineDiscount}
+                  onChange={(e) =>
+                    handleInputChange("maxAdminLineDiscount", parseFloat(e.target.value) || 0)
+                  }
+                  className="text-gray-400"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Largest price override or manual discount a cashier can give on a cart line, in
+              percent of the line. Staff members can go up to the admin limit with the PIN of a
+              shop admin.
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Social Links */}
         <Card>
           <CardHeader>
@@ -0,0 +1,31 @@
+// src/app/admin/stocktakes/[id]/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import StocktakeDetail from "@/components/admin/stocktakes/stocktake-detail";
+
+interface StocktakePageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function StocktakePage({ params }: StocktakePageProps) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect(`/login?callbackUrl=/admin/stocktakes/${params.id}`);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Stocktake</h1>
+        <p className="text-gray-500 mt-1">
+          Scan or enter what is on the shelves, then approve the count to correct the stock.
+        </p>
+      </div>
+
+      <StocktakeDetail stocktakeId={params.id} isAdmin={session.user.role === "SHOP_ADMIN"} />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// src/app/admin/stocktakes/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import StocktakesList from "@/components/admin/stocktakes/stocktakes-list";
+
+export default async function StocktakesPage() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/stocktakes");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Stocktakes</h1>
+        <p className="text-gray-500 mt-1">
+          Count the stock on the shelves and correct the inventory with the variances.
+        </p>
+      </div>
+
+      <StocktakesList isAdmin={session.user.role === "SHOP_ADMIN"} />
+    </div>
+  );
+}
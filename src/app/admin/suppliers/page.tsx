@@ -0,0 +1,25 @@
+// src/app/admin/suppliers/page.tsx
+import { getServerSession } from "next-auth/next";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import SuppliersList from "@/components/admin/suppliers/suppliers-list";
+
+export default async function SuppliersPage() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.shopId) {
+    redirect("/login?callbackUrl=/admin/suppliers");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-800">Suppliers</h1>
+        <p className="text-gray-500 mt-1">
+          Keep the contact details of the suppliers you order stock from.
+        </p>
+      </div>
+
+      <SuppliersList isAdmin={session.user.role === "SHOP_ADMIN"} />
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// src/app/api/checks/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { CHECK_RESOLUTIONS, CheckError, CheckResolution, checkService } from "@/lib/services/check.service";
+
+// Record the outcome of a check: cleared, bounced or cancelled
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { status, date, reason } = await req.json();
+    if (!CHECK_RESOLUTIONS.includes(status)) {
+      return NextResponse.json({ error: "Invalid check status" }, { status: 400 });
+    }
+    const parsedDate = date ? new Date(date) : undefined;
+    if (parsedDate && isNaN(parsedDate.getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    const check = await checkService.changeStatus(
+      session.user.shopId,
+      params.id,
+      {
+        status: status as CheckResolution,
+        date: parsedDate,
+        reason: typeof reason === "string" ? reason : null,
+      },
+      session.user.id
+    );
+
+    return NextResponse.json(check);
+  } catch (error) {
+    if (error instanceof CheckError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating check:", error);
+    return NextResponse.json(
+      { error: "Failed to update check" },
+      { status: 500 }
+    );
+  }
+}
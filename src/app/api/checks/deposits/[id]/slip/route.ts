@@ -0,0 +1,43 @@
+// src/app/api/checks/deposits/[id]/slip/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { checkService } from "@/lib/services/check.service";
+
+// Download the PDF of a deposit slip (use ?inline=1 to display it in the browser)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await checkService.getDepositSlipPdf(params.id, session.user.shopId);
+    if (!result) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const disposition = searchParams.get("inline") ? "inline" : "attachment";
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="deposit-${result.deposit.slipNumber}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading deposit slip:", error);
+    return NextResponse.json(
+      { error: "Failed to download deposit slip" },
+      { status: 500 }
+    );
+  }
+}
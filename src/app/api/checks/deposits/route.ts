@@ -0,0 +1,50 @@
+// src/app/api/checks/deposits/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { CheckError, checkService } from "@/lib/services/check.service";
+
+// Mark checks as deposited with a bank deposit slip
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { checkIds, slipNumber, bankName, depositedAt, notes } = await req.json();
+    if (!Array.isArray(checkIds) || checkIds.some((id) => typeof id !== "string")) {
+      return NextResponse.json({ error: "Invalid checks" }, { status: 400 });
+    }
+    const parsedDate = depositedAt ? new Date(depositedAt) : undefined;
+    if (parsedDate && isNaN(parsedDate.getTime())) {
+      return NextResponse.json({ error: "Invalid deposit date" }, { status: 400 });
+    }
+
+    const deposit = await checkService.depositChecks(
+      session.user.shopId,
+      {
+        checkIds,
+        slipNumber: typeof slipNumber === "string" ? slipNumber : "",
+        bankName: typeof bankName === "string" ? bankName : null,
+        depositedAt: parsedDate,
+        notes: typeof notes === "string" ? notes : null,
+      },
+      session.user.id
+    );
+
+    return NextResponse.json(deposit, { status: 201 });
+  } catch (error) {
+    if (error instanceof CheckError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error depositing checks:", error);
+    return NextResponse.json(
+      { error: "Failed to deposit checks" },
+      { status: 500 }
+    );
+  }
+}
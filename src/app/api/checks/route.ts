@@ -0,0 +1,46 @@
+// src/app/api/checks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isCheckStatus } from "@/lib/check-status";
+import { checkService } from "@/lib/services/check.service";
+
+// GET the checks register (?status=, ?due=1 for checks ready to deposit, ?search=)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+    if (status && !isCheckStatus(status)) {
+      return NextResponse.json({ error: "Invalid check status" }, { status: 400 });
+    }
+
+    // Post-dated checks are reminded when someone looks at the register
+    await checkService.sendDueReminders(shopId);
+
+    const [checks, summary] = await Promise.all([
+      checkService.listChecks(shopId, {
+        status: isCheckStatus(status) ? status : undefined,
+        due: searchParams.get("due") === "1",
+        search: searchParams.get("search") || undefined,
+      }),
+      checkService.getSummary(shopId),
+    ]);
+
+    return NextResponse.json({ checks, summary });
+  } catch (error) {
+    console.error("Error fetching checks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch checks" },
+      { status: 500 }
+    );
+  }
+}
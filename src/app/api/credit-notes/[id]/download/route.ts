@@ -0,0 +1,66 @@
+// src/app/api/credit-notes/[id]/download/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/prisma";
+import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { creditNoteService } from "@/lib/services/credit-note.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+
+// Download a credit note PDF (use ?inline=1 to display it in the browser)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!hasFeatureAccess(session.user, Feature.INVOICE_GENERATION)) {
+      return NextResponse.json(
+        {
+          error:
+            "Access denied. Your plan does not include invoice generation.",
+        },
+        { status: 403 }
+      );
+    }
+
+    const result = await creditNoteService.getCreditNotePdf(params.id, session.user.shopId);
+    if (!result) {
+      return NextResponse.json({ error: "Credit note not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const disposition = searchParams.get("inline") ? "inline" : "attachment";
+
+    await orderEventService.record(db, {
+      orderId: result.creditNote.orderId,
+      shopId: session.user.shopId,
+      type: "PRINTED",
+      toValue: result.creditNote.creditNoteNumber,
+      metadata: { document: "CREDIT_NOTE", creditNoteId: result.creditNote.id },
+      actorId: session.user.id,
+    });
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${result.creditNote.creditNoteNumber}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading credit note:", error);
+    return NextResponse.json(
+      { error: "Failed to download credit note" },
+      { status: 500 }
+    );
+  }
+}
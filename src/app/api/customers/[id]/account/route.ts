@@ -0,0 +1,68 @@
+// src/app/api/customers/[id]/account/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import {
+  CustomerAccountError,
+  customerAccountService,
+} from "@/lib/services/customer-account.service";
+
+// GET the account of a customer: balance, credit limit and latest entries
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const account = await customerAccountService.getAccount(session.user.shopId, params.id);
+    if (!account) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(account);
+  } catch (error) {
+    console.error("Error fetching customer account:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch customer account" },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the credit limit of a customer
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { creditLimit } = await req.json();
+    await customerAccountService.updateCreditLimit(
+      session.user.shopId,
+      params.id,
+      Number(creditLimit)
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof CustomerAccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating credit limit:", error);
+    return NextResponse.json(
+      { error: "Failed to update credit limit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// src/app/api/customers/[id]/account/settlements/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { PaymentMethodType } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import {
+  CustomerAccountError,
+  customerAccountService,
+} from "@/lib/services/customer-account.service";
+
+// Record a payment of the customer towards the account
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const shopId = session.user.shopId;
+
+    // A retried settlement must not be counted twice
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const { amount, paymentMethod, reference, notes, bankName, checkDate } = await req.json();
+
+      const entry = await customerAccountService.recordSettlement(
+        shopId,
+        params.id,
+        {
+          amount: Number(amount),
+          paymentMethod: paymentMethod as PaymentMethodType,
+          reference: typeof reference === "string" ? reference : null,
+          notes: typeof notes === "string" ? notes : null,
+          bankName: typeof bankName === "string" ? bankName : null,
+          checkDate: typeof checkDate === "string" && checkDate ? new Date(checkDate) : null,
+        },
+        session.user.id
+      );
+
+      return NextResponse.json(entry, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof CustomerAccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error recording account settlement:", error);
+    return NextResponse.json(
+      { error: "Failed to record account settlement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// src/app/api/customers/[id]/account/statement/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { customerAccountService } from "@/lib/services/customer-account.service";
+
+// Download the account statement of a customer for ?from=&to= (defaults to
+// the current month, use ?inline=1 to display it in the browser)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = fromParam ? new Date(`${fromParam}T00:00:00`) : undefined;
+    const to = toParam ? new Date(`${toParam}T23:59:59.999`) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ error: "Invalid period" }, { status: 400 });
+    }
+
+    const result = await customerAccountService.getStatementPdf(session.user.shopId, params.id, {
+      from,
+      to,
+    });
+    if (!result) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    const disposition = searchParams.get("inline") ? "inline" : "attachment";
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="statement-${params.id}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading account statement:", error);
+    return NextResponse.json(
+      { error: "Failed to download account statement" },
+      { status: 500 }
+    );
+  }
+}
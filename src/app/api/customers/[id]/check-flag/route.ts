@@ -0,0 +1,31 @@
+// src/app/api/customers/[id]/check-flag/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { CheckError, checkService } from "@/lib/services/check.service";
+
+// Lift the bounced check flag of a customer
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await checkService.clearCustomerFlag(session.user.shopId, params.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof CheckError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error clearing customer check flag:", error);
+    return NextResponse.json(
+      { error: "Failed to clear customer check flag" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// src/app/api/gift-cards/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isGiftCardStatus } from "@/lib/gift-card";
+import { GiftCardError, giftCardService } from "@/lib/services/gift-card.service";
+
+// GET a gift card with its history
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const card = await giftCardService.getCard(session.user.shopId, params.id);
+    if (!card) {
+      return NextResponse.json({ error: "Gift card not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(card);
+  } catch (error) {
+    console.error("Error fetching gift card:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch gift card" },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable a lost or stolen gift card, or enable it again
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { status } = await req.json();
+    if (!isGiftCardStatus(status)) {
+      return NextResponse.json({ error: "Invalid gift card status" }, { status: 400 });
+    }
+
+    await giftCardService.setStatus(session.user.shopId, params.id, status);
+    const card = await giftCardService.getCard(session.user.shopId, params.id);
+
+    return NextResponse.json(card);
+  } catch (error) {
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating gift card:", error);
+    return NextResponse.json(
+      { error: "Failed to update gift card" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// src/app/api/gift-cards/lookup/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { giftCardService } from "@/lib/services/gift-card.service";
+
+// GET the balance and validity of a gift card from its code (?code=)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const code = new URL(req.url).searchParams.get("code");
+    if (!code) {
+      return NextResponse.json({ error: "Gift card code is required" }, { status: 400 });
+    }
+
+    const card = await giftCardService.lookup(session.user.shopId, code);
+    if (!card) {
+      return NextResponse.json({ error: "Gift card not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(card);
+  } catch (error) {
+    console.error("Error looking up gift card:", error);
+    return NextResponse.json(
+      { error: "Failed to look up gift card" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+// src/app/api/gift-cards/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isGiftCardStatus } from "@/lib/gift-card";
+import { withIdempotency } from "@/lib/idempotency";
+import { GiftCardError, giftCardService } from "@/lib/services/gift-card.service";
+
+// GET the gift cards of the shop (?status=, ?search= on code, notes or order number)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+    if (status && !isGiftCardStatus(status)) {
+      return NextResponse.json({ error: "Invalid gift card status" }, { status: 400 });
+    }
+
+    const result = await giftCardService.listCards(session.user.shopId, {
+      status: isGiftCardStatus(status) ? status : undefined,
+      search: searchParams.get("search"),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error fetching gift cards:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch gift cards" },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue a voucher from the back office
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const shopId = session.user.shopId;
+
+    // A retried submit must not issue a second card
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const { value, code, expiresAt, notes } = await req.json();
+
+      const parsedExpiry = expiresAt ? new Date(expiresAt) : null;
+      if (parsedExpiry && isNaN(parsedExpiry.getTime())) {
+        return NextResponse.json({ error: "Invalid expiry date" }, { status: 400 });
+      }
+      // A card is valid until the end of its expiry day
+      parsedExpiry?.setHours(23, 59, 59, 999);
+
+      const card = await giftCardService.issueVoucher(
+        shopId,
+        {
+          value: Number(value),
+          code: typeof code === "string" ? code : null,
+          expiresAt: parsedExpiry,
+          notes: typeof notes === "string" ? notes : null,
+        },
+        session.user.id
+      );
+
+      return NextResponse.json(card, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error issuing gift card:", error);
+    return NextResponse.json(
+      { error: "Failed to issue gift card" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/invoices/[id]/download/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/prisma";
+import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { invoiceService } from "@/lib/services/invoice.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+
+// Download an invoice PDF (use ?inline=1 to display it in the browser)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!hasFeatureAccess(session.user, Feature.INVOICE_GENERATION)) {
+      return NextResponse.json(
+        {
+          error:
+            "Access denied. Your plan does not include invoice generation.",
+        },
+        { status: 403 }
+      );
+    }
+
+    const result = await invoiceService.getInvoicePdf(params.id, session.user.shopId);
+    if (!result) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const disposition = searchParams.get("inline") ? "inline" : "attachment";
+
+    await orderEventService.record(db, {
+      orderId: result.invoice.orderId,
+      shopId: session.user.shopId,
+      type: "PRINTED",
+      toValue: result.invoice.invoiceNumber,
+      metadata: { document: "INVOICE", invoiceId: result.invoice.id },
+      actorId: session.user.id,
+    });
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${result.invoice.invoiceNumber}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading invoice:", error);
+    return NextResponse.json(
+      { error: "Failed to download invoice" },
+      { status: 500 }
+    );
+  }
+}
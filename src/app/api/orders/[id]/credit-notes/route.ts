@@ -0,0 +1,119 @@
+// src/app/api/orders/[id]/credit-notes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { creditNoteService, CreditNoteError } from "@/lib/services/credit-note.service";
+
+// GET the credit notes issued on an order
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const creditNotes = await creditNoteService.getOrderCreditNotes(
+      params.id,
+      session.user.shopId
+    );
+
+    return NextResponse.json(creditNotes);
+  } catch (error) {
+    console.error("Error fetching credit notes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch credit notes" },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue a credit note on an order's invoice.
+// Without items, everything not credited yet is credited (shipping included).
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!hasFeatureAccess(session.user, Feature.INVOICE_GENERATION)) {
+      return NextResponse.json(
+        {
+          error:
+            "Access denied. Your plan does not include invoice generation.",
+        },
+        { status: 403 }
+      );
+    }
+
+    const shopId = session.user.shopId;
+
+    // A retried request must not issue a second credit note
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const body = await req.json();
+      const { items, includeShipping, reason } = body;
+
+      if (items !== undefined) {
+        if (!Array.isArray(items) || items.length === 0) {
+          return NextResponse.json(
+            { error: "Select at least one item to credit" },
+            { status: 400 }
+          );
+        }
+        if (items.some((item) => !item?.orderItemId || item.quantity === undefined)) {
+          return NextResponse.json(
+            { error: "Each item requires an orderItemId and a quantity" },
+            { status: 400 }
+          );
+        }
+      }
+
+      const creditNote = await creditNoteService.createCreditNote(
+        params.id,
+        shopId,
+        {
+          items: items?.map((item: { orderItemId: string; quantity: number | string }) => ({
+            orderItemId: item.orderItemId,
+            quantity: Number(item.quantity),
+          })),
+          includeShipping: includeShipping === undefined ? undefined : Boolean(includeShipping),
+          reason: typeof reason === "string" ? reason.trim() : null,
+          createdById: session.user.id,
+        }
+      );
+
+      return NextResponse.json(
+        {
+          creditNote,
+          downloadUrl: `/api/credit-notes/${creditNote.id}/download`,
+        },
+        { status: 201 }
+      );
+    });
+  } catch (error) {
+    if (error instanceof CreditNoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating credit note:", error);
+    return NextResponse.json(
+      { error: "Failed to create credit note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+// src/app/api/orders/[id]/events/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/prisma";
+import { isOrderEventType, orderEventService } from "@/lib/services/order-event.service";
+
+// GET the timeline of an order.
+// Filter with ?type=STATUS_CHANGED,REFUNDED and ?from= / ?to= (ISO dates).
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+    const order = await db.order.findFirst({
+      where: { id: params.id, shopId },
+      select: { id: true },
+    });
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const types = (searchParams.get("type") || "").split(",").filter(Boolean);
+    if (!types.every(isOrderEventType)) {
+      return NextResponse.json({ error: "Invalid event type" }, { status: 400 });
+    }
+    const from = searchParams.get("from") ? new Date(searchParams.get("from")!) : undefined;
+    const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    const events = await orderEventService.getOrderEvents(order.id, shopId, {
+      types,
+      from,
+      to,
+    });
+
+    return NextResponse.json(events);
+  } catch (error) {
+    console.error("Error fetching order events:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch order events" },
+      { status: 500 }
+    );
+  }
+}
+
+// Record a document printed on the client (e.g. a POS receipt)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+    const order = await db.order.findFirst({
+      where: { id: params.id, shopId },
+      select: { id: true, orderNumber: true },
+    });
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { type, document } = body;
+
+    // Other events are recorded by the changes they describe
+    if (type !== "PRINTED") {
+      return NextResponse.json(
+        { error: "Only print events can be recorded" },
+        { status: 400 }
+      );
+    }
+
+    const event = await orderEventService.record(db, {
+      orderId: order.id,
+      shopId,
+      type: "PRINTED",
+      toValue: order.orderNumber,
+      metadata: { document: typeof document === "string" ? document : "RECEIPT" },
+      actorId: session.user.id,
+    });
+
+    return NextResponse.json(event, { status: 201 });
+  } catch (error) {
+    console.error("Error recording order event:", error);
+    return NextResponse.json(
+      { error: "Failed to record order event" },
+      { status: 500 }
+    );
+  }
+}
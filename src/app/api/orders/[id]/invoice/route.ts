@@ -2,10 +2,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
-import { db } from "@/lib/prisma";
-import { formatCurrency } from "@/lib/utils";
 import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { invoiceService } from "@/lib/services/invoice.service";
 
+// Generate (once) and return the invoice of an order.
+// Use ?format=pdf to get the PDF directly instead of the invoice details.
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
@@ -31,128 +32,36 @@ export async function GET(
     const shopId = session.user.shopId;
     const orderId = params.id;
 
-    // Get order with all necessary information
-    const order = await db.order.findUnique({
-      where: {
-        id: orderId,
-        shopId, // Ensure it belongs to this shop
-      },
-      include: {
-        user: {
-          select: {
-            name: true,
-            email: true,
-          },
-        },
-        address: true,
-        items: true, // This includes all stored product information
-        invoice: true, // Check if invoice already exists
-      },
-    });
-
-    if (!order) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    let result;
+    try {
+      result = await invoiceService.generateInvoice(orderId, shopId, session.user.id);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Order not found") {
+        return NextResponse.json({ error: "Order not found" }, { status: 404 });
+      }
+      throw error;
     }
 
-    // Get shop information for invoice
-    const shop = await db.shop.findUnique({
-      where: { id: shopId },
-      include: {
-        settings: true,
-      },
-    });
+    const { invoice, created } = result;
+    const downloadUrl = `/api/invoices/${invoice.id}/download`;
 
-    if (!shop) {
-      return NextResponse.json({ error: "Shop not found" }, { status: 404 });
+    const { searchParams } = new URL(req.url);
+    if (searchParams.get("format") === "pdf") {
+      return NextResponse.redirect(new URL(`${downloadUrl}?inline=1`, req.url));
     }
 
-    // Check if invoice already exists
-    if (order.invoice) {
-      // Return existing invoice information
-      return NextResponse.json({
-        invoiceNumber: order.invoice.invoiceNumber,
-        pdfUrl: order.invoice.pdfUrl,
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        date: order.createdAt,
-        // Include a link to download the existing invoice
-        downloadUrl: `/api/invoices/${order.invoice.id}/download`,
-      });
-    }
-
-    // Generate invoice number
-    const invoiceNumber = `INV-${order.orderNumber.slice(4)}`;
-
-    // Generate PDF content (simplified - in real implementation this would use a PDF library)
-    const invoiceData = {
-      invoiceNumber,
-      orderNumber: order.orderNumber,
-      date: order.createdAt,
-      dueDate: order.createdAt, // Due immediately for simplicity
-      customer: {
-        name: order.user.name,
-        email: order.user.email,
-        address: order.address
-          ? {
-              line1: order.address.line1,
-              line2: order.address.line2,
-              city: order.address.city,
-              state: order.address.state,
-              postalCode: order.address.postalCode,
-              country: order.address.country,
-            }
-          : null,
-      },
-      shop: {
-        name: shop.name,
-        address: shop.settings?.address,
-        email: shop.settings?.contactEmail,
-        phone: shop.settings?.contactPhone,
-      },
-      items: order.items.map((item) => ({
-        // Use stored information from order time, not current product info
-        name: item.productName,
-        description: item.productDescription,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        originalPrice: item.originalPrice,
-        discountPercentage: item.discountPercentage,
-        discountAmount: item.discountAmount,
-        total: item.total,
-        tva: item.productTva,
-        tvaTotalAmount: (item.total * item.productTva) / 100,
-      })),
-      subtotal: order.subtotal,
-      tax: order.tax,
-      shipping: order.shipping,
-      discount: order.discount,
-      total: order.total,
-      paymentStatus: order.paymentStatus,
-    };
-
-    // In a real implementation, you would generate a PDF here
-    // For this example, we'll just create the invoice record
-
-    // Create the invoice record
-    const invoice = await db.invoice.create({
-      data: {
-        invoiceNumber,
-        orderId: order.id,
-        pdfUrl: `/invoices/${invoiceNumber}.pdf`, // This would be the actual PDF URL in production
-      },
-    });
-
-    // Return invoice data
-    return NextResponse.json({
-      invoice: {
-        id: invoice.id,
-        invoiceNumber: invoice.invoiceNumber,
-        pdfUrl: invoice.pdfUrl,
-        createdAt: invoice.createdAt,
+    return NextResponse.json(
+      {
+        invoice: {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          orderId: invoice.orderId,
+          createdAt: invoice.createdAt,
+        },
+        downloadUrl,
       },
-      // Include the full invoice data for rendering
-      invoiceData,
-    });
+      { status: created ? 201 : 200 }
+    );
   } catch (error) {
     console.error("Error generating invoice:", error);
     return NextResponse.json(
@@ -0,0 +1,121 @@
+// src/app/api/orders/[id]/returns/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { CreditNoteError } from "@/lib/services/credit-note.service";
+import { CustomerAccountError } from "@/lib/services/customer-account.service";
+import { PosApprovalError } from "@/lib/services/pos-approval.service";
+import { returnsService, ReturnError } from "@/lib/services/returns.service";
+
+// GET the returns of an order
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const returns = await returnsService.getOrderReturns(params.id, session.user.shopId);
+
+    return NextResponse.json(returns);
+  } catch (error) {
+    console.error("Error fetching returns:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch returns" },
+      { status: 500 }
+    );
+  }
+}
+
+// Record a return of some items of an order, with optional refunds
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+
+    // A retried return must not restock and refund twice
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const body = await req.json();
+      const { items, refunds, reason, approvalIds } = body;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return NextResponse.json(
+          { error: "Select at least one item to return" },
+          { status: 400 }
+        );
+      }
+      if (refunds !== undefined && !Array.isArray(refunds)) {
+        return NextResponse.json({ error: "Invalid refunds" }, { status: 400 });
+      }
+
+      const orderReturn = await returnsService.createReturn(params.id, shopId, {
+        items: items.map(
+          (item: { orderItemId: string; quantity: number | string; restock?: boolean }) => ({
+            orderItemId: item.orderItemId,
+            quantity: Number(item.quantity),
+            restock: item.restock,
+          })
+        ),
+        refunds: refunds?.map(
+          (refund: {
+            orderPaymentId: string;
+            amount: number | string;
+            notes?: string;
+            storeCredit?: boolean;
+          }) => ({
+            orderPaymentId: refund.orderPaymentId,
+            amount: Number(refund.amount) || 0,
+            notes: refund.notes,
+            storeCredit: refund.storeCredit === true,
+          })
+        ),
+        reason: typeof reason === "string" ? reason.trim() : null,
+        // Returns are credited on the invoice when the plan includes invoicing
+        issueCreditNote: hasFeatureAccess(session.user, Feature.INVOICE_GENERATION),
+        createdById: session.user.id,
+        approvalIds,
+      });
+
+      return NextResponse.json(orderReturn, { status: 201 });
+    });
+  } catch (error) {
+    if (
+      error instanceof ReturnError ||
+      error instanceof CreditNoteError ||
+      error instanceof CustomerAccountError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof PosApprovalError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, action: error.action, value: error.value },
+        { status: error.status }
+      );
+    }
+    console.error("Error creating return:", error);
+    return NextResponse.json(
+      { error: "Failed to create return" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/prisma";
+import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { orderStatusService, OrderStatusError } from "@/lib/services/order-status.service";
+import { PosApprovalError } from "@/lib/services/pos-approval.service";
 
 // GET a specific order
 export async function GET(
@@ -91,59 +94,31 @@ export async function PUT(
     const body = await req.json();
 
     // Extract update fields
-    const { status, paymentStatus, notes } = body;
-
-    // Validate order belongs to this shop
-    const order = await db.order.findUnique({
-      where: {
-        id: orderId,
-        shopId,
-      },
-      select: { id: true },
-    });
-
-    if (!order) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 });
-    }
-
-    // Update the order
-    const updatedOrder = await db.order.update({
-      where: { id: orderId },
-      data: {
-        status: status || undefined,
-        paymentStatus: paymentStatus || undefined,
-        notes: notes !== undefined ? notes : undefined,
-        updatedAt: new Date(),
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        address: true,
-        items: true,
-        invoice: true,
-      },
-    });
-
-    // Generate automatic notification if status changed
-    if (status && status !== order.status) {
-      await db.notification.create({
-        data: {
-          title: `Order ${updatedOrder.orderNumber} Updated`,
-          message: `Your order status has been updated to ${status}`,
-          type: "ORDER_UPDATE",
-          userId: updatedOrder.userId,
-          shopId,
-        },
-      });
-    }
+    const { status, paymentStatus, notes, approvalIds } = body;
+
+    // Transitions, restock, notification and credit notes are handled by the state machine
+    const updatedOrder = await orderStatusService.updateStatus(
+      orderId,
+      shopId,
+      { status, paymentStatus, notes },
+      {
+        actorId: session.user.id,
+        issueCreditNotes: hasFeatureAccess(session.user, Feature.INVOICE_GENERATION),
+        approvalIds,
+      }
+    );
 
     return NextResponse.json(updatedOrder);
   } catch (error) {
+    if (error instanceof OrderStatusError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof PosApprovalError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, action: error.action, value: error.value },
+        { status: error.status }
+      );
+    }
     console.error("Error updating order:", error);
     return NextResponse.json(
       { error: "Failed to update order" },
@@ -176,15 +151,7 @@ export async function DELETE(
         id: orderId,
         shopId,
       },
-      include: {
-        items: {
-          select: {
-            productId: true,
-            variantId: true,
-            quantity: true,
-          },
-        },
-      },
+      select: { paymentStatus: true },
     });
 
     if (!order) {
@@ -193,58 +160,36 @@ export async function DELETE(
 
     // For safety, we don't actually delete the order, but cancel it
     // This is to preserve order history
-    const cancelledOrder = await db.order.update({
-      where: { id: orderId },
-      data: {
+    await orderStatusService.updateStatus(
+      orderId,
+      shopId,
+      {
         status: "CANCELLED",
-        paymentStatus: "FAILED",
-        updatedAt: new Date(),
+        // An unpaid order will never be paid once cancelled
+        paymentStatus: order.paymentStatus === "PENDING" ? "FAILED" : undefined,
       },
-    });
-
-    // Restore inventory for cancelled orders
-    if (order.items.length > 0) {
-      for (const item of order.items) {
-        if (item.variantId) {
-          // Restore variant inventory
-          await db.productVariant.update({
-            where: { id: item.variantId },
-            data: {
-              inventory: {
-                increment: item.quantity,
-              },
-            },
-          });
-        } else if (item.productId) {
-          // Restore product inventory
-          await db.product.update({
-            where: { id: item.productId },
-            data: {
-              inventory: {
-                increment: item.quantity,
-              },
-            },
-          });
-        }
+      {
+        actorId: session.user.id,
+        issueCreditNotes: hasFeatureAccess(session.user, Feature.INVOICE_GENERATION),
+        // Staff members cancel with the approval of a shop admin
+        approvalIds: req.nextUrl.searchParams.getAll("approvalId"),
       }
-    }
-
-    // Create notification
-    await db.notification.create({
-      data: {
-        title: `Order ${order.orderNumber} Cancelled`,
-        message: `Your order has been cancelled.`,
-        type: "ORDER_CANCELLED",
-        userId: order.userId,
-        shopId,
-      },
-    });
+    );
 
     return NextResponse.json({
       success: true,
       message: "Order has been cancelled",
     });
   } catch (error) {
+    if (error instanceof OrderStatusError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof PosApprovalError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, action: error.action, value: error.value },
+        { status: error.status }
+      );
+    }
     console.error("Error cancelling order:", error);
     return NextResponse.json(
       { error: "Failed to cancel order" },
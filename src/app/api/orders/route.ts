@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
+import { PaymentMethodType } from "@prisma/client";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
 import { db } from "@/lib/prisma";
 import { hasFeatureAccess, Feature } from "@/lib/feature-authorization";
+import { heldCartService } from "@/lib/services/held-cart.service";
+import { numberingService } from "@/lib/services/numbering.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { PricingError, pricingService } from "@/lib/services/pricing.service";
+import { formatLotNumbers, LotAllocation, stockLotService } from "@/lib/services/stock-lot.service";
+import { StockError, stockMovementService } from "@/lib/services/stock-movement.service";
 
 export async function GET(req: NextRequest) {
   try {
@@ -71,127 +79,153 @@ export async function POST(req: NextRequest) {
     }
 
     const shopId = session.user.shopId;
-    const body = await req.json();
 
-    const { userId, items, shippingAddressId, paymentMethod, notes } = body;
-
-    // Validate request body
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return NextResponse.json(
-        { error: "Order must contain at least one item" },
-        { status: 400 }
-      );
-    }
-
-    // Create order
-    const order = await db.order.create({
-      data: {
-        userId,
+    // Retries of the same creation are answered with the first response
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const body = await req.json();
+
+      const { userId, items, shippingAddressId, paymentMethod, discountCodeId, notes } = body;
+
+      // Validate request body
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return NextResponse.json(
+          { error: "Order must contain at least one item" },
+          { status: 400 }
+        );
+      }
+
+      if (userId) {
+        const customer = await db.user.findUnique({
+          where: { id: userId, shopId, role: "CUSTOMER" },
+        });
+        if (!customer) {
+          return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+        }
+      }
+
+      // Prices, discounts and TVA come from the shared pricing, never from the client
+      const pricing = await pricingService.calculateOrderPricing({
         shopId,
-        shippingAddressId,
-        paymentMethod,
-        notes,
-        status: "PENDING",
-        paymentStatus: "PENDING",
-        items: {
-          create: items.map((item) => ({
-            productId: item.productId,
-            quantity: item.quantity,
-          })),
-        },
-      },
-    });
-
-    return NextResponse.json(order, { status: 201 });
-  } catch (error) {
-    console.error("Error creating order:", error);
-    return NextResponse.json(
-      { error: "Failed to create order" },
-      { status: 500 }
-    );
-  }
-}
-
-export async function PUT(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (
-      !session?.user?.shopId ||
-      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
-    ) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const shopId = session.user.shopId;
-    const orderId = params.id;
-    const body = await req.json();
-
-    const { status, paymentStatus } = body;
-
-    // Validate order exists and belongs to the shop
-    const order = await db.order.findUnique({
-      where: { id: orderId, shopId },
-    });
-
-    if (!order) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 });
-    }
-
-    // Update order
-    const updatedOrder = await db.order.update({
-      where: { id: orderId },
-      data: { status, paymentStatus },
+        orderSource: "ONLINE",
+        items: items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: Number(item.quantity),
+        })),
+        customerId: userId,
+        discountCodeId: discountCodeId || null,
+      });
+      const { discount, tax, total, subtotalExcludingTax } = pricing.totals;
+
+      const order = await db.$transaction(async (tx) => {
+        // Stock kept in lots is sold first expired first out
+        const lotAllocations: LotAllocation[][] = [];
+        for (const line of pricing.lines) {
+          lotAllocations.push(await stockLotService.allocate(tx, line.variantId, line.quantity));
+        }
+
+        // Allocate the next order number of the shop (rolled back with the order on failure)
+        const orderNumber = await numberingService.nextOrderNumber(tx, shopId);
+
+        // Create order
+        const order = await tx.order.create({
+          data: {
+            orderNumber,
+            userId: userId || session.user.id,
+            shopId,
+            addressId: shippingAddressId || null,
+            paymentMethodType: Object.values(PaymentMethodType).includes(paymentMethod)
+              ? paymentMethod
+              : null,
+            notes: notes || null,
+            status: "PENDING",
+            paymentStatus: "PENDING",
+            orderSource: "ONLINE",
+            subtotal: subtotalExcludingTax,
+            tax,
+            shipping: 0,
+            discount,
+            total,
+            discountCodeId: pricing.discountCode?.id ?? null,
+            discountCodeValue: pricing.discountCode?.code ?? null,
+            items: {
+              create: pricing.lines.map((line, index) => ({
+                productId: line.productId,
+                variantId: line.variantId,
+                lotNumber: formatLotNumbers(lotAllocations[index]),
+                lots: {
+                  create: lotAllocations[index].map(({ lotId, quantity }) => ({ lotId, quantity })),
+                },
+                quantity: line.quantity,
+                unit: line.unit,
+                unitPrice: line.unitPrice,
+                total: line.lineTotal,
+                netTotal: line.netTotal,
+                taxAmount: line.taxAmount,
+                productName: line.productName,
+                productSku: line.productSku,
+                productBarcode: line.productBarcode,
+                productDescription: line.productDescription,
+                productImage: line.productImage,
+                productTva: line.tva,
+                productOptions: line.productOptions ?? undefined,
+                originalPrice: line.originalPrice,
+                discountPercentage: line.discountPercentage,
+                discountAmount: line.discountAmount,
+                discountCode: line.discountCodeApplies ? pricing.discountCode?.code ?? null : null,
+              })),
+            },
+          },
+        });
+
+        // Take the ordered variants out of the stock, refused when short. Held
+        // carts and expired lots are not for sale.
+        const variantIds = pricing.lines.map((line) => line.variantId);
+        await stockMovementService.takeOutLines(tx, {
+          shopId,
+          orderId: order.id,
+          lines: pricing.lines,
+          reserved: await stockLotService.holdExpired(
+            tx,
+            await heldCartService.getReservedQuantities(tx, shopId, variantIds),
+            variantIds
+          ),
+          createdById: session.user.id,
+        });
+
+        if (pricing.discountCode) {
+          await tx.discountCode.update({
+            where: { id: pricing.discountCode.id },
+            data: { usedCount: { increment: 1 } },
+          });
+        }
+
+        await orderEventService.record(tx, {
+          orderId: order.id,
+          shopId,
+          type: "CREATED",
+          toValue: order.status,
+          actorId: session.user.id,
+        });
+
+        return order;
+      });
+
+      return NextResponse.json(order, { status: 201 });
     });
-
-    return NextResponse.json(updatedOrder);
   } catch (error) {
-    console.error("Error updating order:", error);
-    return NextResponse.json(
-      { error: "Failed to update order" },
-      { status: 500 }
-    );
-  }
-}
-
-export async function DELETE(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (
-      !session?.user?.shopId ||
-      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
-    ) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
     }
-
-    const shopId = session.user.shopId;
-    const orderId = params.id;
-
-    // Validate order exists and belongs to the shop
-    const order = await db.order.findUnique({
-      where: { id: orderId, shopId },
-    });
-
-    if (!order) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    if (error instanceof StockError) {
+      return NextResponse.json(
+        { error: error.message, code: "INSUFFICIENT_INVENTORY", lines: error.lines },
+        { status: error.status }
+      );
     }
-
-    // Soft delete (set status to CANCELLED)
-    const cancelledOrder = await db.order.update({
-      where: { id: orderId },
-      data: { status: "CANCELLED" },
-    });
-
-    return NextResponse.json(cancelledOrder);
-  } catch (error) {
-    console.error("Error deleting order:", error);
+    console.error("Error creating order:", error);
     return NextResponse.json(
-      { error: "Failed to delete order" },
+      { error: "Failed to create order" },
       { status: 500 }
     );
   }
@@ -0,0 +1,43 @@
+// src/app/api/pos/approvals/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { posApprovalService, PosApprovalError } from "@/lib/services/pos-approval.service";
+import { StaffPinError } from "@/lib/services/staff-pin.service";
+
+// Approve a restricted action of the signed-in staff member with a shop admin's PIN
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { action, value, approverId, pin } = await req.json();
+    if (typeof approverId !== "string" || typeof pin !== "string") {
+      return NextResponse.json({ error: "Admin and PIN are required" }, { status: 400 });
+    }
+
+    const approval = await posApprovalService.approve(session.user.shopId, session.user.id, {
+      action,
+      value,
+      approverId,
+      pin,
+    });
+
+    return NextResponse.json(approval, { status: 201 });
+  } catch (error) {
+    if (error instanceof PosApprovalError || error instanceof StaffPinError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error approving action:", error);
+    return NextResponse.json(
+      { error: "Failed to approve action" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/api/pos/barcodes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { PosCatalogError, posCatalogService } from "@/lib/services/pos-catalog.service";
+
+// Link a barcode unknown to the catalog to a variant, from the register (admins only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { barcode, variantId } = await req.json();
+    if (typeof barcode !== "string" || typeof variantId !== "string") {
+      return NextResponse.json({ error: "Barcode and variant are required" }, { status: 400 });
+    }
+
+    const match = await posCatalogService.linkBarcode(session.user.shopId, variantId, barcode);
+
+    return NextResponse.json({
+      products: [match.product],
+      found: true,
+      match: { variantId: match.variantId, quantity: match.quantity },
+    });
+  } catch (error) {
+    if (error instanceof PosCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error linking barcode:", error);
+    return NextResponse.json(
+      { error: "Failed to link barcode" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { posCatalogService } from "@/lib/services/pos-catalog.service";
+
+// Full priced catalog and in-store discount codes, cached by the register for offline sales
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const catalog = await posCatalogService.getCatalog(session.user.shopId);
+
+    return NextResponse.json(catalog, {
+      headers: { "Cache-Control": "private, no-store" },
+    });
+  } catch (error) {
+    console.error("Error fetching POS catalog:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch catalog" },
+      { status: 500 }
+    );
+  }
+}
@@ -71,6 +71,10 @@ export async function GET(req: NextRequest) {
         country: customer.addresses[0].country,
       } : null,
       orderCount: customer._count.orders,
+      checksFlaggedAt: customer.checksFlaggedAt,
+      checksFlagReason: customer.checksFlagReason,
+      accountBalance: customer.accountBalance,
+      creditLimit: customer.creditLimit,
       createdAt: customer.createdAt,
     }));
 
@@ -0,0 +1,28 @@
+// src/app/api/pos/display/route.ts
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { customerDisplayService } from "@/lib/services/customer-display.service";
+
+// GET shop branding and in-store promotions for the customer display idle screen
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const content = await customerDisplayService.getIdleContent(session.user.shopId);
+
+    return NextResponse.json(content);
+  } catch (error) {
+    console.error("Error fetching customer display content:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch customer display content" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/pos/held-carts/[id]/resume/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { heldCartService, HeldCartError } from "@/lib/services/held-cart.service";
+import { posCatalogService } from "@/lib/services/pos-catalog.service";
+
+// Bring a held cart back to the register. The cart is removed from the held
+// list and its products are returned with their current prices and stock.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const heldCart = await heldCartService.resumeHeldCart(params.id, session.user.shopId);
+    const products = await posCatalogService.getProducts(
+      session.user.shopId,
+      heldCart.items.map((item) => item.productId)
+    );
+
+    return NextResponse.json({ heldCart, products });
+  } catch (error) {
+    if (error instanceof HeldCartError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error resuming held cart:", error);
+    return NextResponse.json(
+      { error: "Failed to resume held cart" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// src/app/api/pos/held-carts/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { heldCartService, HeldCartError } from "@/lib/services/held-cart.service";
+
+// Cancel a held cart, its items become available again
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await heldCartService.deleteHeldCart(params.id, session.user.shopId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof HeldCartError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error deleting held cart:", error);
+    return NextResponse.json(
+      { error: "Failed to delete held cart" },
+      { status: 500 }
+    );
+  }
+}
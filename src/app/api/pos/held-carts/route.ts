@@ -0,0 +1,91 @@
+// src/app/api/pos/held-carts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { LineAdjustmentInput } from "@/lib/pos/price-adjustments";
+import { heldCartService, HeldCartError } from "@/lib/services/held-cart.service";
+
+// GET the carts held at any register of the shop
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const heldCarts = await heldCartService.listHeldCarts(session.user.shopId);
+
+    return NextResponse.json({ data: heldCarts });
+  } catch (error) {
+    console.error("Error fetching held carts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch held carts" },
+      { status: 500 }
+    );
+  }
+}
+
+// Park the current cart, reserving its items until it expires
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { name, customerId, notes, orderDiscount, orderDiscountType, expiresInMinutes, items } =
+      body;
+
+    const heldCart = await heldCartService.holdCart(session.user.shopId, session.user.id, {
+      name: typeof name === "string" ? name : "",
+      customerId: typeof customerId === "string" ? customerId : null,
+      notes: typeof notes === "string" ? notes : null,
+      orderDiscount: Number(orderDiscount) || 0,
+      orderDiscountType: orderDiscountType === "FIXED" ? "FIXED" : "PERCENTAGE",
+      expiresInMinutes: expiresInMinutes === undefined ? undefined : Number(expiresInMinutes),
+      items: Array.isArray(items)
+        ? items.map(
+            (item: LineAdjustmentInput & {
+              productId: string;
+              variantId: string;
+              quantity: number | string;
+              unitPrice?: number;
+            }) => ({
+              productId: item.productId,
+              variantId: item.variantId,
+              quantity: Number(item.quantity),
+              unitPrice: item.unitPrice === undefined ? undefined : Number(item.unitPrice),
+              priceOverride:
+                item.priceOverride === undefined || item.priceOverride === null
+                  ? null
+                  : Number(item.priceOverride),
+              lineDiscount: Number(item.lineDiscount) || null,
+              lineDiscountType: item.lineDiscountType === "FIXED" ? "FIXED" : "PERCENTAGE",
+              adjustmentReason: item.adjustmentReason ?? null,
+              adjustmentNote: typeof item.adjustmentNote === "string" ? item.adjustmentNote : null,
+            })
+          )
+        : [],
+    });
+
+    return NextResponse.json(heldCart, { status: 201 });
+  } catch (error) {
+    if (error instanceof HeldCartError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error holding cart:", error);
+    return NextResponse.json(
+      { error: "Failed to hold cart" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// src/app/api/pos/orders/[id]/receipt/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/prisma";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { isReceiptPaperWidth, receiptService } from "@/lib/services/receipt.service";
+
+// Receipt of a sale for thermal printers:
+// ?format=html (default) for the browser print dialog, ?format=escpos for the raw printer bytes,
+// ?width=80 (default) or 58 for the paper roll, ?print=1 to open the print dialog on load.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get("format") || "html";
+    const width = parseInt(searchParams.get("width") || "80");
+
+    if (format !== "html" && format !== "escpos") {
+      return NextResponse.json({ error: "Format must be html or escpos" }, { status: 400 });
+    }
+    if (!isReceiptPaperWidth(width)) {
+      return NextResponse.json({ error: "Width must be 58 or 80" }, { status: 400 });
+    }
+
+    const receipt = await receiptService.getReceipt(params.id, session.user.shopId);
+    if (!receipt) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    await orderEventService.record(db, {
+      orderId: params.id,
+      shopId: session.user.shopId,
+      type: "PRINTED",
+      metadata: { document: "RECEIPT", format, width },
+      actorId: session.user.id,
+    });
+
+    if (format === "escpos") {
+      return new NextResponse(Buffer.from(receiptService.renderEscPos(receipt, width)), {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${receipt.orderNumber}.bin"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return new NextResponse(
+      receiptService.renderHtml(receipt, width, { autoPrint: searchParams.get("print") === "1" }),
+      {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "private, no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error rendering receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to render receipt" },
+      { status: 500 }
+    );
+  }
+}
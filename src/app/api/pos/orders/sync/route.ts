@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { posOrderService } from "@/lib/services/pos-order.service";
+
+// Sales synced per request, the register sends the rest in following batches
+const MAX_BATCH_SIZE = 50;
+
+// Sync the sales a register recorded while offline.
+// Every sale gets its own result: CREATED, DUPLICATE (already synced) or REJECTED.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+
+    // Sales are deduplicated by client reference, the key also replays the whole batch answer
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const body = await req.json();
+      const { orders } = body;
+
+      if (!Array.isArray(orders) || orders.length === 0) {
+        return NextResponse.json({ error: "No orders to sync" }, { status: 400 });
+      }
+      if (orders.length > MAX_BATCH_SIZE) {
+        return NextResponse.json(
+          { error: `At most ${MAX_BATCH_SIZE} orders can be synced at once` },
+          { status: 400 }
+        );
+      }
+
+      const results = await posOrderService.syncOfflineOrders(
+        shopId,
+        session.user.id,
+        orders
+      );
+
+      return NextResponse.json({ results });
+    });
+  } catch (error) {
+    console.error("Error syncing offline orders:", error);
+    return NextResponse.json(
+      { error: "Failed to sync offline orders" },
+      { status: 500 }
+    );
+  }
+}
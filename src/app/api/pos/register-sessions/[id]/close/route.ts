@@ -0,0 +1,46 @@
+// src/app/api/pos/register-sessions/[id]/close/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { registerService, RegisterError } from "@/lib/services/register.service";
+
+// Close a register with the counted cash and return its Z-report
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { countedCash, notes } = body;
+
+    const registerSession = await registerService.closeSession(
+      params.id,
+      session.user.shopId,
+      { id: session.user.id, isAdmin: session.user.role === "SHOP_ADMIN" },
+      {
+        countedCash: Number(countedCash),
+        notes: typeof notes === "string" ? notes.trim() : null,
+      }
+    );
+
+    return NextResponse.json({ session: registerSession, report: registerSession.zReport });
+  } catch (error) {
+    if (error instanceof RegisterError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error closing register:", error);
+    return NextResponse.json(
+      { error: "Failed to close register" },
+      { status: 500 }
+    );
+  }
+}
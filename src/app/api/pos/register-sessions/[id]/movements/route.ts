@@ -0,0 +1,53 @@
+// src/app/api/pos/register-sessions/[id]/movements/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { registerService, RegisterError } from "@/lib/services/register.service";
+
+// Record cash put in (CASH_IN) or taken out (CASH_OUT) of an open register
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+
+    // A retried movement must not be counted twice
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const body = await req.json();
+      const { type, amount, reason } = body;
+
+      const movement = await registerService.addMovement(
+        params.id,
+        shopId,
+        { id: session.user.id, isAdmin: session.user.role === "SHOP_ADMIN" },
+        {
+          type,
+          amount: Number(amount),
+          reason: typeof reason === "string" ? reason : "",
+        }
+      );
+
+      return NextResponse.json(movement, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof RegisterError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error recording cash movement:", error);
+    return NextResponse.json(
+      { error: "Failed to record cash movement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/pos/register-sessions/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { registerService } from "@/lib/services/register.service";
+
+// GET a register session with its report (X-report while open, Z-report once closed)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+    const registerSession = await registerService.getSession(params.id, shopId);
+    if (
+      !registerSession ||
+      (session.user.role !== "SHOP_ADMIN" && registerSession.userId !== session.user.id)
+    ) {
+      return NextResponse.json({ error: "Register session not found" }, { status: 404 });
+    }
+
+    const report = await registerService.getReport(registerSession.id, shopId);
+
+    return NextResponse.json({ session: registerSession, report });
+  } catch (error) {
+    console.error("Error fetching register session:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch register session" },
+      { status: 500 }
+    );
+  }
+}
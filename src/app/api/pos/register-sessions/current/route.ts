@@ -0,0 +1,39 @@
+// src/app/api/pos/register-sessions/current/route.ts
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { db } from "@/lib/prisma";
+import { registerService } from "@/lib/services/register.service";
+
+// GET the register the current staff member has open, with its running report
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shopId = session.user.shopId;
+    const open = await registerService.getOpenSession(db, shopId, session.user.id);
+    if (!open) {
+      return NextResponse.json({ session: null, report: null });
+    }
+
+    const [registerSession, report] = await Promise.all([
+      registerService.getSession(open.id, shopId),
+      registerService.getReport(open.id, shopId),
+    ]);
+
+    return NextResponse.json({ session: registerSession, report });
+  } catch (error) {
+    console.error("Error fetching current register:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch current register" },
+      { status: 500 }
+    );
+  }
+}
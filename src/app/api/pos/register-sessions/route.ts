@@ -0,0 +1,79 @@
+// src/app/api/pos/register-sessions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { registerService, RegisterError } from "@/lib/services/register.service";
+
+// GET the register sessions of the shop (staff only see their own)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(parseInt(searchParams.get("page") || "1"), 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "20"), 1), 100);
+    const status = searchParams.get("status");
+
+    const { sessions, total } = await registerService.listSessions(session.user.shopId, {
+      userId:
+        session.user.role === "SHOP_ADMIN"
+          ? searchParams.get("userId") || undefined
+          : session.user.id,
+      status: status === "OPEN" || status === "CLOSED" ? status : undefined,
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return NextResponse.json({ data: sessions, total });
+  } catch (error) {
+    console.error("Error fetching register sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch register sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+// Open a register with its opening float
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { openingFloat, notes } = body;
+
+    const registerSession = await registerService.openSession(
+      session.user.shopId,
+      { id: session.user.id },
+      {
+        openingFloat: Number(openingFloat),
+        notes: typeof notes === "string" ? notes.trim() : null,
+      }
+    );
+
+    return NextResponse.json(registerSession, { status: 201 });
+  } catch (error) {
+    if (error instanceof RegisterError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error opening register:", error);
+    return NextResponse.json(
+      { error: "Failed to open register" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+// src/app/api/pos/staff/[id]/pin/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { staffPinService, StaffPinError } from "@/lib/services/staff-pin.service";
+
+// Set the POS PIN of a staff member (admins, or staff members for their own PIN)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.id !== params.id)
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { pin } = await req.json();
+    await staffPinService.setPin(session.user.shopId, params.id, pin);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof StaffPinError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error setting PIN:", error);
+    return NextResponse.json(
+      { error: "Failed to set PIN" },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove the POS PIN of a staff member (admins only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await staffPinService.clearPin(session.user.shopId, params.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof StaffPinError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error removing PIN:", error);
+    return NextResponse.json(
+      { error: "Failed to remove PIN" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// src/app/api/pos/staff/route.ts
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { staffPinService } from "@/lib/services/staff-pin.service";
+
+// GET the staff members of the shop, for switching cashier and approvals on the register
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const staff = await staffPinService.listStaff(session.user.shopId);
+
+    return NextResponse.json(staff);
+  } catch (error) {
+    console.error("Error fetching staff:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch staff" },
+      { status: 500 }
+    );
+  }
+}
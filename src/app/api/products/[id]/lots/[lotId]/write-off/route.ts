@@ -0,0 +1,36 @@
+// src/app/api/products/[id]/lots/[lotId]/write-off/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { StockLotError, stockLotService } from "@/lib/services/stock-lot.service";
+
+// Take what is left of a lot out of the stock
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; lotId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const lot = await stockLotService.writeOffLot(
+      session.user.shopId,
+      params.id,
+      params.lotId,
+      session.user.id
+    );
+
+    return NextResponse.json(lot);
+  } catch (error) {
+    if (error instanceof StockLotError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error writing off stock lot:", error);
+    return NextResponse.json(
+      { error: "Failed to write off stock lot" },
+      { status: 500 }
+    );
+  }
+}
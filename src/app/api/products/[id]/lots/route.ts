@@ -0,0 +1,85 @@
+// src/app/api/products/[id]/lots/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { StockLotError, stockLotService } from "@/lib/services/stock-lot.service";
+
+// GET the lots of the variants of a product (?includeEmpty=1 for lots sold out)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const lots = await stockLotService.getProductLots(session.user.shopId, params.id, {
+      includeEmpty: !!searchParams.get("includeEmpty"),
+    });
+    if (!lots) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(lots);
+  } catch (error) {
+    console.error("Error fetching stock lots:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stock lots" },
+      { status: 500 }
+    );
+  }
+}
+
+// Put stock received outside of a purchase order in a lot
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const shopId = session.user.shopId;
+
+    // A retried submit must not put the same stock in twice
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const { variantId, lotNumber, expiryDate, quantity } = await req.json();
+
+      const parsedExpiry = expiryDate ? new Date(expiryDate) : null;
+      if (parsedExpiry && isNaN(parsedExpiry.getTime())) {
+        return NextResponse.json({ error: "Invalid expiry date" }, { status: 400 });
+      }
+
+      const lot = await stockLotService.addLot(
+        shopId,
+        params.id,
+        {
+          variantId,
+          lotNumber,
+          expiryDate: parsedExpiry,
+          quantity: Number(quantity),
+        },
+        session.user.id
+      );
+
+      return NextResponse.json(lot, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof StockLotError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error adding stock lot:", error);
+    return NextResponse.json(
+      { error: "Failed to add stock lot" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,10 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/prisma";
 import { slugify } from "@/lib/utils";
+import { isUnitOfMeasure } from "@/lib/units";
 import s3EnhancedService from "@/lib/services/s3-enhanced.service";
+import { stockLotService } from "@/lib/services/stock-lot.service";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
 
 // GET a specific product
 export async function GET(
@@ -123,7 +126,7 @@ export async function PUT(
       categoryIds,
       images,
       variants,
-      expiryDate,
+      isGiftCard,
       customFieldValues,
     } = body;
 
@@ -233,7 +236,7 @@ export async function PUT(
           barcode,
           weight,
           dimensions,
-          expiryDate: expiryDate ? new Date(expiryDate) : null,
+          isGiftCard: isGiftCard === true,
           images: processedImages, // Use the processed images array
           categories: {
             set: [], // Clear existing categories
@@ -280,7 +283,8 @@ export async function PUT(
                 price: variant.price,
                 cost: variant.cost || null,
                 tva: variant.tva || 19,
-                inventory: variant.inventory || 0,
+                unit: isUnitOfMeasure(variant.unit) ? variant.unit : "UNIT",
+                allowBackorder: variant.allowBackorder === true,
                 sku: variant.sku || null,
                 barcode: variant.barcode || null,
                 images: variant.images || [],
@@ -288,6 +292,16 @@ export async function PUT(
               },
             });
 
+            // A stock edited by hand is recorded as an adjustment
+            await stockMovementService.setLevel(tx, {
+              shopId,
+              variantId: variant.id,
+              reason: "ADJUSTMENT",
+              level: variant.inventory || 0,
+              createdById: session.user.id,
+            });
+            await stockLotService.trimToStock(tx, variant.id);
+
             // Delete existing custom field values for this variant
             await tx.variantCustomFieldValue.deleteMany({
               where: { variantId: variant.id },
@@ -300,7 +314,9 @@ export async function PUT(
                 price: variant.price,
                 cost: variant.cost || null,
                 tva: variant.tva || 19,
-                inventory: variant.inventory || 0,
+                unit: isUnitOfMeasure(variant.unit) ? variant.unit : "UNIT",
+                allowBackorder: variant.allowBackorder === true,
+                inventory: 0,
                 sku: variant.sku || null,
                 barcode: variant.barcode || null,
                 images: variant.images || [],
@@ -308,6 +324,14 @@ export async function PUT(
                 productId,
               },
             });
+            await stockMovementService.record(tx, {
+              shopId,
+              variantId: variantRecord.id,
+              reason: "ADJUSTMENT",
+              quantity: variant.inventory || 0,
+              notes: "Initial stock",
+              createdById: session.user.id,
+            });
           }
 
           // Create custom field values for this variant if any
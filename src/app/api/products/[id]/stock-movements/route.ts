@@ -0,0 +1,44 @@
+// src/app/api/products/[id]/stock-movements/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isStockMovementReason } from "@/lib/stock-movement";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
+
+// GET the stock movements of the variants of a product
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const reason = searchParams.get("reason");
+    const movements = await stockMovementService.getProductHistory(
+      session.user.shopId,
+      params.id,
+      {
+        variantId: searchParams.get("variantId"),
+        reason: isStockMovementReason(reason) ? reason : null,
+      }
+    );
+    if (!movements) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(movements);
+  } catch (error) {
+    console.error("Error fetching stock movements:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stock movements" },
+      { status: 500 }
+    );
+  }
+}
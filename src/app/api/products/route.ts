@@ -6,7 +6,9 @@ import { shopService } from "@/lib/services/shop.service";
 import { slugify } from "@/lib/utils";
 import { db } from "@/lib/prisma";
 import { serializeBigInt } from "@/lib/serializer";
+import { isUnitOfMeasure } from "@/lib/units";
 import s3EnhancedService from "@/lib/services/s3-enhanced.service";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
 
 // GET products with filtering, sorting, and pagination
 export async function GET(req: NextRequest) {
@@ -157,7 +159,7 @@ export async function POST(req: NextRequest) {
       categoryIds,
       images,
       variants,
-      expiryDate,
+      isGiftCard,
     } = body;
 
     // Validate required fields
@@ -247,7 +249,7 @@ export async function POST(req: NextRequest) {
           weight,
           dimensions,
           images: processedImages, // Use processed image array
-          expiryDate: expiryDate ? new Date(expiryDate) : null,
+          isGiftCard: isGiftCard === true,
           shopId,
           categories: {
             connect: categoryIds?.map((id: string) => ({ id })) || [],
@@ -267,7 +269,9 @@ export async function POST(req: NextRequest) {
               price: variant.price,
               cost: variant.cost || null,
               tva: variant.tva || 19,
-              inventory: variant.inventory || 0,
+              unit: isUnitOfMeasure(variant.unit) ? variant.unit : "UNIT",
+              allowBackorder: variant.allowBackorder === true,
+              inventory: 0,
               sku: variant.sku || null,
               barcode: variant.barcode || null,
               images: variant.images || [],
@@ -275,6 +279,14 @@ export async function POST(req: NextRequest) {
               productId: newProduct.id,
             },
           });
+          await stockMovementService.record(tx, {
+            shopId,
+            variantId: newVariant.id,
+            reason: "ADJUSTMENT",
+            quantity: variant.inventory || 0,
+            notes: "Initial stock",
+            createdById: session.user.id,
+          });
 
           // Create custom field values for this variant if any
           if (variant.customFieldValues && variant.customFieldValues.length > 0) {
@@ -0,0 +1,43 @@
+// src/app/api/purchase-orders/[id]/download/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { purchaseOrderService } from "@/lib/services/purchase-order.service";
+
+// Download a purchase order PDF (use ?inline=1 to display it in the browser)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await purchaseOrderService.getPdf(session.user.shopId, params.id);
+    if (!result) {
+      return NextResponse.json({ error: "Purchase order not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const disposition = searchParams.get("inline") ? "inline" : "attachment";
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${result.order.number}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading purchase order:", error);
+    return NextResponse.json(
+      { error: "Failed to download purchase order" },
+      { status: 500 }
+    );
+  }
+}
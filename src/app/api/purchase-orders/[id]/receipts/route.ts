@@ -0,0 +1,61 @@
+// src/app/api/purchase-orders/[id]/receipts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { PurchaseOrderError, purchaseOrderService } from "@/lib/services/purchase-order.service";
+
+// Receive a delivery against a purchase order
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const shopId = session.user.shopId;
+
+    // A retried submit must not put the same delivery in stock twice
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const { items, notes } = await req.json();
+
+      const lines = Array.isArray(items) ? items : [];
+      const expiryDates = lines.map((line) => (line?.expiryDate ? new Date(line.expiryDate) : null));
+      if (expiryDates.some((date) => date && isNaN(date.getTime()))) {
+        return NextResponse.json({ error: "Invalid expiry date" }, { status: 400 });
+      }
+
+      await purchaseOrderService.receiveGoods(
+        shopId,
+        params.id,
+        {
+          items: lines.map((line, index) => ({
+            purchaseOrderItemId: line.purchaseOrderItemId,
+            quantity: Number(line.quantity),
+            lotNumber: typeof line.lotNumber === "string" ? line.lotNumber : null,
+            expiryDate: expiryDates[index],
+          })),
+          notes: typeof notes === "string" ? notes : null,
+        },
+        session.user.id
+      );
+      const order = await purchaseOrderService.getOrder(shopId, params.id);
+
+      return NextResponse.json(order, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error receiving purchase order:", error);
+    return NextResponse.json(
+      { error: "Failed to receive goods" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/api/purchase-orders/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isPurchaseOrderStatus } from "@/lib/purchase-order";
+import { PurchaseOrderError, purchaseOrderService } from "@/lib/services/purchase-order.service";
+
+// GET a purchase order with its lines and receipts
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const order = await purchaseOrderService.getOrder(session.user.shopId, params.id);
+    if (!order) {
+      return NextResponse.json({ error: "Purchase order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.error("Error fetching purchase order:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch purchase order" },
+      { status: 500 }
+    );
+  }
+}
+
+// Edit a draft purchase order, or change its status with { status }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+
+    if (body.status !== undefined) {
+      if (!isPurchaseOrderStatus(body.status)) {
+        return NextResponse.json({ error: "Invalid purchase order status" }, { status: 400 });
+      }
+      const order = await purchaseOrderService.setStatus(session.user.shopId, params.id, body.status);
+      return NextResponse.json(order);
+    }
+
+    const parsedExpectedAt = body.expectedAt ? new Date(body.expectedAt) : null;
+    if (parsedExpectedAt && isNaN(parsedExpectedAt.getTime())) {
+      return NextResponse.json({ error: "Invalid delivery date" }, { status: 400 });
+    }
+
+    const order = await purchaseOrderService.updateOrder(session.user.shopId, params.id, {
+      supplierId: body.supplierId,
+      expectedAt: parsedExpectedAt,
+      notes: typeof body.notes === "string" ? body.notes : null,
+      items: Array.isArray(body.items) ? body.items : [],
+    });
+
+    return NextResponse.json(order);
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating purchase order:", error);
+    return NextResponse.json(
+      { error: "Failed to update purchase order" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/purchase-orders/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isPurchaseOrderStatus } from "@/lib/purchase-order";
+import { PurchaseOrderError, purchaseOrderService } from "@/lib/services/purchase-order.service";
+
+// GET the purchase orders of the shop (?status=, ?supplierId=, ?search= on number, supplier or product)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+    if (status && !isPurchaseOrderStatus(status)) {
+      return NextResponse.json({ error: "Invalid purchase order status" }, { status: 400 });
+    }
+
+    const orders = await purchaseOrderService.listOrders(session.user.shopId, {
+      status: isPurchaseOrderStatus(status) ? status : undefined,
+      supplierId: searchParams.get("supplierId"),
+      search: searchParams.get("search"),
+    });
+
+    return NextResponse.json(orders);
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch purchase orders" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a draft purchase order
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { supplierId, expectedAt, notes, items } = await req.json();
+
+    const parsedExpectedAt = expectedAt ? new Date(expectedAt) : null;
+    if (parsedExpectedAt && isNaN(parsedExpectedAt.getTime())) {
+      return NextResponse.json({ error: "Invalid delivery date" }, { status: 400 });
+    }
+
+    const order = await purchaseOrderService.createOrder(
+      session.user.shopId,
+      {
+        supplierId,
+        expectedAt: parsedExpectedAt,
+        notes: typeof notes === "string" ? notes : null,
+        items: Array.isArray(items) ? items : [],
+      },
+      session.user.id
+    );
+
+    return NextResponse.json(order, { status: 201 });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating purchase order:", error);
+    return NextResponse.json(
+      { error: "Failed to create purchase order" },
+      { status: 500 }
+    );
+  }
+}
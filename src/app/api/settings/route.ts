@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { settingsService } from "@/lib/services/settings.service";
+import { validateNumberPattern } from "@/lib/services/numbering.service";
 
 // GET shop settings
 export async function GET(req: NextRequest) {
@@ -54,6 +55,11 @@ export async function PUT(req: NextRequest) {
       contactPhone,
       address,
       socialLinks,
+      orderNumberPattern,
+      invoiceNumberPattern,
+      creditNotePattern,
+      maxStaffLineDiscount,
+      maxAdminLineDiscount,
     } = body;
 
     const updateData: any = {};
@@ -76,6 +82,31 @@ export async function PUT(req: NextRequest) {
     if (address !== undefined) updateData.address = address;
     if (socialLinks !== undefined) updateData.socialLinks = socialLinks;
 
+    // Numbering patterns
+    const patterns = { orderNumberPattern, invoiceNumberPattern, creditNotePattern };
+    for (const [field, pattern] of Object.entries(patterns)) {
+      if (pattern === undefined) continue;
+      const patternError = validateNumberPattern(pattern);
+      if (patternError) {
+        return NextResponse.json({ error: patternError, field }, { status: 400 });
+      }
+      updateData[field] = pattern.trim();
+    }
+
+    // Largest manual price change per role on a POS line, in percent
+    const lineDiscountLimits = { maxStaffLineDiscount, maxAdminLineDiscount };
+    for (const [field, value] of Object.entries(lineDiscountLimits)) {
+      if (value === undefined) continue;
+      const limit = Number(value);
+      if (value === null || value === "" || isNaN(limit) || limit < 0 || limit > 100) {
+        return NextResponse.json(
+          { error: "Line discount limits must be between 0 and 100", field },
+          { status: 400 }
+        );
+      }
+      updateData[field] = limit;
+    }
+
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
         { error: "No valid fields to update" },
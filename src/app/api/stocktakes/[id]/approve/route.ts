@@ -0,0 +1,34 @@
+// src/app/api/stocktakes/[id]/approve/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { StocktakeError, stocktakeService } from "@/lib/services/stocktake.service";
+
+// Approve a count, posting its variances to the stock
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const shopId = session.user.shopId;
+
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const stocktake = await stocktakeService.approve(shopId, params.id, session.user.id);
+      return NextResponse.json(stocktake);
+    });
+  } catch (error) {
+    if (error instanceof StocktakeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error approving stocktake:", error);
+    return NextResponse.json(
+      { error: "Failed to approve stocktake" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// src/app/api/stocktakes/[id]/freeze/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { StocktakeError, stocktakeService } from "@/lib/services/stocktake.service";
+
+// Capture the stock of a count before its first line is counted
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const stocktake = await stocktakeService.freeze(session.user.shopId, params.id);
+    return NextResponse.json(stocktake);
+  } catch (error) {
+    if (error instanceof StocktakeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error freezing stocktake:", error);
+    return NextResponse.json(
+      { error: "Failed to freeze stocktake" },
+      { status: 500 }
+    );
+  }
+}
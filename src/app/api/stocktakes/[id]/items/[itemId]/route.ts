@@ -0,0 +1,44 @@
+// src/app/api/stocktakes/[id]/items/[itemId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { StocktakeError, stocktakeService } from "@/lib/services/stocktake.service";
+
+// Set the counted quantity of a line: { countedQuantity }, null to clear it
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { countedQuantity } = await req.json();
+    if (countedQuantity !== null && !Number.isFinite(Number(countedQuantity))) {
+      return NextResponse.json({ error: "Invalid counted quantity" }, { status: 400 });
+    }
+
+    const item = await stocktakeService.setCount(
+      session.user.shopId,
+      params.id,
+      params.itemId,
+      countedQuantity === null ? null : Number(countedQuantity),
+      session.user.id
+    );
+    return NextResponse.json(item);
+  } catch (error) {
+    if (error instanceof StocktakeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating stocktake count:", error);
+    return NextResponse.json(
+      { error: "Failed to update the count" },
+      { status: 500 }
+    );
+  }
+}
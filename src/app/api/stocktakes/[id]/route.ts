@@ -0,0 +1,67 @@
+// src/app/api/stocktakes/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { StocktakeError, stocktakeService } from "@/lib/services/stocktake.service";
+
+// GET a stocktake with its lines and their variances
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const stocktake = await stocktakeService.getStocktake(session.user.shopId, params.id);
+    if (!stocktake) {
+      return NextResponse.json({ error: "Stocktake not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(stocktake);
+  } catch (error) {
+    console.error("Error fetching stocktake:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stocktake" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a count in progress with { status: "CANCELLED" }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { status } = await req.json();
+    if (status !== "CANCELLED") {
+      return NextResponse.json(
+        { error: "Stocktakes can only be cancelled here, approve them to post the count" },
+        { status: 400 }
+      );
+    }
+
+    const stocktake = await stocktakeService.cancel(session.user.shopId, params.id);
+    return NextResponse.json(stocktake);
+  } catch (error) {
+    if (error instanceof StocktakeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating stocktake:", error);
+    return NextResponse.json(
+      { error: "Failed to update stocktake" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// src/app/api/stocktakes/[id]/scan/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { StocktakeError, stocktakeService } from "@/lib/services/stocktake.service";
+
+// Count a scanned item: { barcode, quantity? }, one unit or the weight of a scale label by default
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const shopId = session.user.shopId;
+
+    // Scans add up, a retried scan must not count the item twice
+    return await withIdempotency(req, { shopId, userId: session.user.id }, async () => {
+      const { barcode, quantity } = await req.json();
+      if (typeof barcode !== "string" || !barcode.trim()) {
+        return NextResponse.json({ error: "Barcode is required" }, { status: 400 });
+      }
+
+      const item = await stocktakeService.scan(
+        shopId,
+        params.id,
+        barcode,
+        quantity === undefined || quantity === null || quantity === "" ? null : Number(quantity),
+        session.user.id
+      );
+      return NextResponse.json(item);
+    });
+  } catch (error) {
+    if (error instanceof StocktakeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error counting scanned item:", error);
+    return NextResponse.json(
+      { error: "Failed to count the item" },
+      { status: 500 }
+    );
+  }
+}
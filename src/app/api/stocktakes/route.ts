@@ -0,0 +1,72 @@
+// src/app/api/stocktakes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { isStocktakeStatus } from "@/lib/stocktake";
+import { StocktakeError, stocktakeService } from "@/lib/services/stocktake.service";
+
+// GET the stocktakes of the shop (?status=)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+    if (status && !isStocktakeStatus(status)) {
+      return NextResponse.json({ error: "Invalid stocktake status" }, { status: 400 });
+    }
+
+    const stocktakes = await stocktakeService.listStocktakes(session.user.shopId, {
+      status: isStocktakeStatus(status) ? status : undefined,
+    });
+
+    return NextResponse.json(stocktakes);
+  } catch (error) {
+    console.error("Error fetching stocktakes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stocktakes" },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a count of some categories, or of all variants without categoryIds
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { categoryIds, notes, freeze } = await req.json();
+
+    const stocktake = await stocktakeService.createStocktake(
+      session.user.shopId,
+      {
+        categoryIds: Array.isArray(categoryIds)
+          ? categoryIds.filter((id): id is string => typeof id === "string")
+          : [],
+        notes: typeof notes === "string" ? notes : null,
+        freeze: freeze === true,
+      },
+      session.user.id
+    );
+
+    return NextResponse.json(stocktake, { status: 201 });
+  } catch (error) {
+    if (error instanceof StocktakeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating stocktake:", error);
+    return NextResponse.json(
+      { error: "Failed to create stocktake" },
+      { status: 500 }
+    );
+  }
+}
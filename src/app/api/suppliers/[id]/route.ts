@@ -0,0 +1,70 @@
+// src/app/api/suppliers/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { SupplierError, supplierService } from "@/lib/services/supplier.service";
+
+// GET a supplier
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supplier = await supplierService.getSupplier(session.user.shopId, params.id);
+    if (!supplier) {
+      return NextResponse.json({ error: "Supplier not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(supplier);
+  } catch (error) {
+    console.error("Error fetching supplier:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch supplier" },
+      { status: 500 }
+    );
+  }
+}
+
+// Update a supplier, or deactivate it
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name, contactName, email, phone, address, taxId, notes, active } = await req.json();
+    const supplier = await supplierService.updateSupplier(session.user.shopId, params.id, {
+      name,
+      contactName,
+      email,
+      phone,
+      address,
+      taxId,
+      notes,
+      active: active !== false,
+    });
+
+    return NextResponse.json(supplier);
+  } catch (error) {
+    if (error instanceof SupplierError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating supplier:", error);
+    return NextResponse.json(
+      { error: "Failed to update supplier" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/suppliers/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { SupplierError, supplierService } from "@/lib/services/supplier.service";
+
+// GET the suppliers of the shop (?search=, ?includeInactive=1)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (
+      !session?.user?.shopId ||
+      (session.user.role !== "SHOP_ADMIN" && session.user.role !== "SHOP_STAFF")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const suppliers = await supplierService.listSuppliers(session.user.shopId, {
+      search: searchParams.get("search"),
+      includeInactive: !!searchParams.get("includeInactive"),
+    });
+
+    return NextResponse.json(suppliers);
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch suppliers" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a supplier
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.shopId || session.user.role !== "SHOP_ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name, contactName, email, phone, address, taxId, notes } = await req.json();
+    const supplier = await supplierService.createSupplier(session.user.shopId, {
+      name,
+      contactName,
+      email,
+      phone,
+      address,
+      taxId,
+      notes,
+    });
+
+    return NextResponse.json(supplier, { status: 201 });
+  } catch (error) {
+    if (error instanceof SupplierError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating supplier:", error);
+    return NextResponse.json(
+      { error: "Failed to create supplier" },
+      { status: 500 }
+    );
+  }
+}
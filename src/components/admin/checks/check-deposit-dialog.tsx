@@ -0,0 +1,154 @@
+// src/components/admin/checks/check-deposit-dialog.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+interface CheckDepositDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  checkIds: string[];
+  total: number;
+  onDeposited: () => void;
+}
+
+function today() {
+  return new Date().toISOString().split("T")[0];
+}
+
+export default function CheckDepositDialog({
+  open,
+  onOpenChange,
+  checkIds,
+  total,
+  onDeposited,
+}: CheckDepositDialogProps) {
+  const { toast } = useToast();
+  const [slipNumber, setSlipNumber] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [depositedAt, setDepositedAt] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setSlipNumber("");
+    setBankName("");
+    setDepositedAt(today());
+    setNotes("");
+  };
+
+  const handleSubmit = async () => {
+    if (!slipNumber.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the number of the deposit slip",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/checks/deposits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checkIds, slipNumber, bankName, depositedAt, notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to deposit the checks");
+      }
+
+      toast({
+        title: "Checks Deposited",
+        description: `${checkIds.length} check(s) recorded on slip ${data.slipNumber}.`,
+      });
+      window.open(`/api/checks/deposits/${data.id}/slip?inline=1`, "_blank");
+      reset();
+      onOpenChange(false);
+      onDeposited();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        onOpenChange(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Deposit Checks</DialogTitle>
+          <DialogDescription>
+            {checkIds.length} check(s) for {formatCurrency(total)} go on this deposit slip.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="slipNumber">Deposit slip number</Label>
+            <Input
+              id="slipNumber"
+              value={slipNumber}
+              onChange={(e) => setSlipNumber(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bankName">Bank</Label>
+              <Input id="bankName" value={bankName} onChange={(e) => setBankName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="depositedAt">Deposit date</Label>
+              <Input
+                id="depositedAt"
+                type="date"
+                value={depositedAt}
+                onChange={(e) => setDepositedAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="depositNotes">Notes</Label>
+            <Textarea id="depositNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Mark Deposited
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
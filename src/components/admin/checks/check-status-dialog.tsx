@@ -0,0 +1,151 @@
+// src/components/admin/checks/check-status-dialog.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+export type CheckResolution = "CLEARED" | "BOUNCED" | "CANCELLED";
+
+interface CheckStatusDialogProps {
+  check: { id: string; checkNumber: string; amount: number } | null;
+  status: CheckResolution;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+const DIALOG_TEXTS: Record<CheckResolution, { title: string; description: string; action: string }> = {
+  CLEARED: {
+    title: "Check Cleared",
+    description: "The amount was credited on the shop account.",
+    action: "Mark Cleared",
+  },
+  BOUNCED: {
+    title: "Check Bounced",
+    description:
+      "The order or customer account goes back to unpaid for this amount and the customer is flagged for check payments.",
+    action: "Mark Bounced",
+  },
+  CANCELLED: {
+    title: "Cancel Check",
+    description:
+      "The check was given back to the customer. The order or customer account goes back to unpaid for this amount.",
+    action: "Cancel Check",
+  },
+};
+
+export default function CheckStatusDialog({ check, status, onClose, onUpdated }: CheckStatusDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => new Date().toISOString().split("T")[0]);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const texts = DIALOG_TEXTS[status];
+
+  const handleSubmit = async () => {
+    if (!check) return;
+    if (status === "BOUNCED" && !reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the reason given by the bank",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/checks/${check.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, date, reason }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update the check");
+      }
+
+      toast({ title: "Success", description: `Check #${check.checkNumber} updated` });
+      setReason("");
+      onClose();
+      onUpdated();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!check} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{texts.title}</DialogTitle>
+          <DialogDescription>
+            {check && `Check #${check.checkNumber} for ${formatCurrency(check.amount)}. `}
+            {texts.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {status !== "CANCELLED" && (
+            <div className="space-y-2">
+              <Label htmlFor="checkStatusDate">
+                {status === "CLEARED" ? "Clearance date" : "Returned by the bank on"}
+              </Label>
+              <Input
+                id="checkStatusDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          )}
+          {status !== "CLEARED" && (
+            <div className="space-y-2">
+              <Label htmlFor="checkStatusReason">
+                {status === "BOUNCED" ? "Reason" : "Reason (optional)"}
+              </Label>
+              <Textarea
+                id="checkStatusReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={status === "BOUNCED" ? "e.g. Insufficient funds" : undefined}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Back
+          </Button>
+          <Button
+            variant={status === "CLEARED" ? "default" : "destructive"}
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {texts.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
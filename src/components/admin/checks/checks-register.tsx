@@ -0,0 +1,365 @@
+// src/components/admin/checks/checks-register.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type { CheckStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { CHECK_STATUS_LABELS, canTransitionCheck } from "@/lib/check-status";
+import { formatCurrency } from "@/lib/utils";
+import { AlertTriangle, Landmark, Loader2 } from "lucide-react";
+import CheckDepositDialog from "./check-deposit-dialog";
+import CheckStatusDialog, { CheckResolution } from "./check-status-dialog";
+
+interface RegisterCheck {
+  id: string;
+  checkNumber: string;
+  bankName: string | null;
+  amount: number;
+  checkDate: string;
+  receivedDate: string;
+  status: CheckStatus;
+  bounceReason: string | null;
+  order: {
+    id: string;
+    orderNumber: string;
+    user: CheckCustomer;
+  } | null;
+  ledgerEntry: { id: string; customer: CheckCustomer } | null; // Set for account payments
+  deposit: { id: string; slipNumber: string; depositedAt: string } | null;
+}
+
+interface CheckCustomer {
+  id: string;
+  name: string | null;
+  email: string;
+  role: string;
+  checksFlaggedAt: string | null;
+}
+
+interface CheckSummary {
+  byStatus: Record<CheckStatus, { count: number; amount: number }>;
+  due: { count: number; amount: number };
+}
+
+type RegisterView = "DUE" | CheckStatus | "ALL";
+
+const VIEWS: { value: RegisterView; label: string }[] = [
+  { value: "DUE", label: "To deposit" },
+  { value: "RECEIVED", label: "Received" },
+  { value: "DEPOSITED", label: "Deposited" },
+  { value: "BOUNCED", label: "Bounced" },
+  { value: "CLEARED", label: "Cleared" },
+  { value: "CANCELLED", label: "Cancelled" },
+  { value: "ALL", label: "All" },
+];
+
+const STATUS_BADGE_CLASSES: Record<CheckStatus, string> = {
+  RECEIVED: "bg-blue-50 text-blue-700 border-blue-200",
+  DEPOSITED: "bg-amber-50 text-amber-700 border-amber-200",
+  CLEARED: "bg-green-50 text-green-700 border-green-200",
+  BOUNCED: "bg-red-50 text-red-700 border-red-200",
+  CANCELLED: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+// Outcomes offered on each row, from the allowed transitions
+const RESOLUTIONS: { status: CheckResolution; label: string }[] = [
+  { status: "CLEARED", label: "Cleared" },
+  { status: "BOUNCED", label: "Bounced" },
+  { status: "CANCELLED", label: "Cancel" },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+// Post-dated checks can only be deposited from their date on
+function isDepositable(check: RegisterCheck) {
+  const endOfToday = new Date();
+  endOfToday.setHours(23, 59, 59, 999);
+  return canTransitionCheck(check.status, "DEPOSITED") && new Date(check.checkDate) <= endOfToday;
+}
+
+interface ChecksRegisterProps {
+  isAdmin: boolean;
+}
+
+/**
+ * Checks received by the shop, from the counter to the bank
+ */
+export default function ChecksRegister({ isAdmin }: ChecksRegisterProps) {
+  const { toast } = useToast();
+  const [view, setView] = useState<RegisterView>("DUE");
+  const [search, setSearch] = useState("");
+  const [checks, setChecks] = useState<RegisterCheck[]>([]);
+  const [summary, setSummary] = useState<CheckSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [depositOpen, setDepositOpen] = useState(false);
+  const [resolution, setResolution] = useState<{ check: RegisterCheck; status: CheckResolution } | null>(
+    null
+  );
+
+  const fetchChecks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (view === "DUE") params.set("due", "1");
+      else if (view !== "ALL") params.set("status", view);
+      if (search.trim()) params.set("search", search.trim());
+
+      const response = await fetch(`/api/checks?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the checks");
+      }
+      setChecks(data.checks);
+      setSummary(data.summary);
+      setSelectedIds([]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the checks",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [view, search, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchChecks, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchChecks]);
+
+  const depositableChecks = useMemo(() => checks.filter(isDepositable), [checks]);
+  const selectedTotal = checks
+    .filter((check) => selectedIds.includes(check.id))
+    .reduce((sum, check) => sum + check.amount, 0);
+
+  const toggleSelected = (checkId: string, selected: boolean) => {
+    setSelectedIds((current) =>
+      selected ? [...current, checkId] : current.filter((id) => id !== checkId)
+    );
+  };
+
+  const summaryCards = summary
+    ? [
+        { label: "To deposit today", ...summary.due, className: "text-blue-600" },
+        { label: "Awaiting clearance", ...summary.byStatus.DEPOSITED, className: "text-amber-600" },
+        { label: "Bounced", ...summary.byStatus.BOUNCED, className: "text-red-600" },
+        {
+          label: "Post-dated",
+          count: summary.byStatus.RECEIVED.count - summary.due.count,
+          amount: Number((summary.byStatus.RECEIVED.amount - summary.due.amount).toFixed(2)),
+          className: "text-gray-700",
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-4">
+          {summaryCards.map((card) => (
+            <Card key={card.label}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-500">{card.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${card.className}`}>{formatCurrency(card.amount)}</div>
+                <p className="text-xs text-gray-500">{card.count} check(s)</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {VIEWS.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={view === option.value ? "default" : "outline"}
+                onClick={() => setView(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Input
+              placeholder="Search by check number, bank, order, customer or slip..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-md"
+            />
+            <Button onClick={() => setDepositOpen(true)} disabled={selectedIds.length === 0}>
+              <Landmark className="h-4 w-4 mr-2" />
+              Mark Deposited
+              {selectedIds.length > 0 && ` (${selectedIds.length} - ${formatCurrency(selectedTotal)})`}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : checks.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No checks</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={
+                          depositableChecks.length > 0 &&
+                          depositableChecks.every((check) => selectedIds.includes(check.id))
+                        }
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(checked === true ? depositableChecks.map((check) => check.id) : [])
+                        }
+                        disabled={depositableChecks.length === 0}
+                      />
+                    </TableHead>
+                    <TableHead>Check</TableHead>
+                    <TableHead>Check date</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Deposit</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {checks.map((check) => {
+                    const customer = check.order?.user ?? check.ledgerEntry?.customer;
+                    const postDated = check.status === "RECEIVED" && !isDepositable(check);
+                    return (
+                      <TableRow key={check.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(check.id)}
+                            onCheckedChange={(checked) => toggleSelected(check.id, checked === true)}
+                            disabled={!isDepositable(check)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">#{check.checkNumber}</div>
+                          {check.bankName && <div className="text-xs text-gray-500">{check.bankName}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(check.checkDate)}
+                          {postDated && <div className="text-xs text-gray-500">Post-dated</div>}
+                        </TableCell>
+                        <TableCell>
+                          {customer?.role === "CUSTOMER" ? (
+                            <Link
+                              href={`/admin/customers/${customer.id}`}
+                              className="inline-flex items-center gap-1 hover:underline"
+                            >
+                              {customer.name || customer.email}
+                              {customer.checksFlaggedAt && (
+                                <AlertTriangle className="h-3 w-3 text-red-600" />
+                              )}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-500">Walk-in customer</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {check.order ? (
+                            <Link
+                              href={`/admin/orders/${check.order.id}`}
+                              className="font-medium text-indigo-600 hover:underline"
+                            >
+                              #{check.order.orderNumber}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-500">Account payment</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={STATUS_BADGE_CLASSES[check.status]}>
+                            {CHECK_STATUS_LABELS[check.status]}
+                          </Badge>
+                          {check.bounceReason && check.status === "BOUNCED" && (
+                            <div className="text-xs text-red-600">{check.bounceReason}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {check.deposit ? (
+                            <a
+                              href={`/api/checks/deposits/${check.deposit.id}/slip?inline=1`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-indigo-600 hover:underline"
+                            >
+                              {check.deposit.slipNumber}
+                            </a>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(check.amount)}</TableCell>
+                        {isAdmin && (
+                          <TableCell className="text-right space-x-1 whitespace-nowrap">
+                            {RESOLUTIONS.filter((option) => canTransitionCheck(check.status, option.status)).map(
+                              (option) => (
+                                <Button
+                                  key={option.status}
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setResolution({ check, status: option.status })}
+                                >
+                                  {option.label}
+                                </Button>
+                              )
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CheckDepositDialog
+        open={depositOpen}
+        onOpenChange={setDepositOpen}
+        checkIds={selectedIds}
+        total={selectedTotal}
+        onDeposited={fetchChecks}
+      />
+      <CheckStatusDialog
+        check={resolution?.check ?? null}
+        status={resolution?.status ?? "CLEARED"}
+        onClose={() => setResolution(null)}
+        onUpdated={fetchChecks}
+      />
+    </div>
+  );
+}
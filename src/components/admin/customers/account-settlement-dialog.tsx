@@ -0,0 +1,238 @@
+// src/components/admin/customers/account-settlement-dialog.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { Loader2 } from "lucide-react";
+
+interface AccountSettlementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: string;
+  balance: number;
+  onRecorded: () => void;
+}
+
+const SETTLEMENT_METHODS = [
+  { value: "CASH", label: "Cash" },
+  { value: "CREDIT_CARD", label: "Card" },
+  { value: "CHECK", label: "Check" },
+  { value: "BANK_TRANSFER", label: "Bank transfer" },
+  { value: "OTHER", label: "Other" },
+];
+
+export default function AccountSettlementDialog({
+  open,
+  onOpenChange,
+  customerId,
+  balance,
+  onRecorded,
+}: AccountSettlementDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("CASH");
+  const [reference, setReference] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [checkDate, setCheckDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { getKey, resetKey } = useIdempotencyKey();
+
+  const reset = () => {
+    setAmount("");
+    setPaymentMethod("CASH");
+    setReference("");
+    setBankName("");
+    setCheckDate("");
+    setNotes("");
+    resetKey();
+  };
+
+  const handleSubmit = async () => {
+    if (!(parseFloat(amount) > 0)) {
+      toast({
+        title: "Error",
+        description: "Enter the amount paid by the customer",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (paymentMethod === "CHECK" && !reference.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the check number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const requestKey = getKey();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/customers/${customerId}/account/settlements`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": requestKey,
+        },
+        body: JSON.stringify({
+          amount: parseFloat(amount),
+          paymentMethod,
+          reference,
+          notes,
+          ...(paymentMethod === "CHECK" && { bankName, checkDate }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to record the payment");
+      }
+
+      toast({
+        title: "Payment Recorded",
+        description: `New balance: ${formatCurrency(data.balanceAfter)}`,
+      });
+      reset();
+      onOpenChange(false);
+      onRecorded();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        onOpenChange(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Account Payment</DialogTitle>
+          <DialogDescription>
+            The customer currently owes {formatCurrency(Math.max(balance, 0))}. Cash is counted in
+            your open register, checks are followed in the checks register.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlementAmount">Amount</Label>
+              <Input
+                id="settlementAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlementMethod">Paid by</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger id="settlementMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SETTLEMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {balance > 0 && (
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="px-0"
+              onClick={() => setAmount(balance.toFixed(2))}
+            >
+              Pay the full balance
+            </Button>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="settlementReference">
+              {paymentMethod === "CHECK" ? "Check number" : "Reference"}
+            </Label>
+            <Input
+              id="settlementReference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Check or transfer number"
+            />
+          </div>
+          {paymentMethod === "CHECK" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="settlementBank">Bank</Label>
+                <Input
+                  id="settlementBank"
+                  value={bankName}
+                  onChange={(e) => setBankName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settlementCheckDate">Check date</Label>
+                <Input
+                  id="settlementCheckDate"
+                  type="date"
+                  value={checkDate}
+                  onChange={(e) => setCheckDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="settlementNotes">Notes</Label>
+            <Textarea id="settlementNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
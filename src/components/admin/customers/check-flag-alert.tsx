@@ -0,0 +1,65 @@
+// src/components/admin/customers/check-flag-alert.tsx
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+
+interface CheckFlagAlertProps {
+  customerId: string;
+  flaggedAt: Date | string;
+  reason: string | null;
+  canClear: boolean;
+}
+
+/**
+ * Warning shown on a customer whose check bounced, until an admin lifts it
+ */
+export default function CheckFlagAlert({ customerId, flaggedAt, reason, canClear }: CheckFlagAlertProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      const response = await fetch(`/api/customers/${customerId}/check-flag`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to clear the flag");
+      }
+      toast({ title: "Success", description: "Bounced check flag cleared" });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to clear the flag",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-start justify-between gap-4 rounded-lg border border-red-200 bg-red-50 p-4">
+      <div className="flex gap-3">
+        <AlertTriangle className="mt-0.5 h-5 w-5 flex-shrink-0 text-red-600" />
+        <div>
+          <p className="font-medium text-red-800">Bounced check</p>
+          <p className="text-sm text-red-700">
+            {reason || "A check of this customer bounced"} (
+            {new Date(flaggedAt).toLocaleDateString("fr-FR")})
+          </p>
+        </div>
+      </div>
+      {canClear && (
+        <Button variant="outline" size="sm" onClick={handleClear} disabled={isClearing}>
+          {isClearing ? "Clearing..." : "Clear flag"}
+        </Button>
+      )}
+    </div>
+  );
+}
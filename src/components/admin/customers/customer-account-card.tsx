@@ -0,0 +1,289 @@
+// src/components/admin/customers/customer-account-card.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { CustomerLedgerEntryType } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { BookUser, FileText, Loader2, Wallet } from "lucide-react";
+import AccountSettlementDialog from "./account-settlement-dialog";
+
+interface LedgerEntry {
+  id: string;
+  type: CustomerLedgerEntryType;
+  amount: number;
+  balanceAfter: number;
+  paymentMethod: string | null;
+  reference: string | null;
+  notes: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+  createdBy: { name: string | null; email: string } | null;
+}
+
+interface CustomerAccount {
+  accountBalance: number;
+  creditLimit: number;
+  available: number;
+  entries: LedgerEntry[];
+}
+
+const ENTRY_LABELS: Record<CustomerLedgerEntryType, string> = {
+  CHARGE: "Sale on account",
+  SETTLEMENT: "Payment",
+  STORE_CREDIT: "Store credit",
+  REVERSAL: "Sale cancelled",
+  CHECK_RETURNED: "Check returned",
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+function firstOfMonth() {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toLocaleDateString("en-CA");
+}
+
+interface CustomerAccountCardProps {
+  customerId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Running balance of a customer: sales on account, payments and store credit
+ */
+export default function CustomerAccountCard({ customerId, isAdmin }: CustomerAccountCardProps) {
+  const { toast } = useToast();
+  const [account, setAccount] = useState<CustomerAccount | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [settlementOpen, setSettlementOpen] = useState(false);
+  const [creditLimit, setCreditLimit] = useState("");
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+  const [from, setFrom] = useState(firstOfMonth);
+  const [to, setTo] = useState(() => new Date().toLocaleDateString("en-CA"));
+
+  const fetchAccount = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/customers/${customerId}/account`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the account");
+      }
+      setAccount(data);
+      setCreditLimit(String(data.creditLimit));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the account",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId, toast]);
+
+  useEffect(() => {
+    fetchAccount();
+  }, [fetchAccount]);
+
+  const handleSaveLimit = async () => {
+    setIsSavingLimit(true);
+    try {
+      const response = await fetch(`/api/customers/${customerId}/account`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ creditLimit: parseFloat(creditLimit) || 0 }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update the credit limit");
+      }
+      toast({ title: "Success", description: "Credit limit updated" });
+      fetchAccount();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingLimit(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <BookUser className="mr-2 h-5 w-5" />
+              Customer Account
+            </CardTitle>
+            <CardDescription>Sales on account, payments and store credit</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setSettlementOpen(true)} disabled={!account}>
+            <Wallet className="mr-2 h-4 w-4" />
+            Record Payment
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !account ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label className="text-sm font-medium text-gray-500">
+                  {account.accountBalance < 0 ? "Store credit" : "Balance due"}
+                </label>
+                <p
+                  className={`text-2xl font-bold ${
+                    account.accountBalance > 0 ? "text-red-600" : "text-green-600"
+                  }`}
+                >
+                  {formatCurrency(Math.abs(account.accountBalance))}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Available on account</label>
+                <p className="text-2xl font-bold text-gray-800">{formatCurrency(account.available)}</p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="creditLimit" className="text-sm font-medium text-gray-500">
+                  Credit limit
+                </Label>
+                {isAdmin ? (
+                  <div className="flex gap-2">
+                    <Input
+                      id="creditLimit"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={creditLimit}
+                      onChange={(e) => setCreditLimit(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleSaveLimit}
+                      disabled={isSavingLimit || parseFloat(creditLimit) === account.creditLimit}
+                    >
+                      {isSavingLimit && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Save
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-2xl font-bold text-gray-800">{formatCurrency(account.creditLimit)}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="statementFrom" className="text-xs text-gray-500">
+                  From
+                </Label>
+                <Input id="statementFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="statementTo" className="text-xs text-gray-500">
+                  To
+                </Label>
+                <Input id="statementTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <a
+                href={`/api/customers/${customerId}/account/statement?inline=1&from=${from}&to=${to}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Button variant="outline">
+                  <FileText className="mr-2 h-4 w-4" />
+                  Statement
+                </Button>
+              </a>
+            </div>
+
+            {account.entries.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No account activity yet</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {account.entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{formatDate(entry.createdAt)}</TableCell>
+                        <TableCell>
+                          <div>{ENTRY_LABELS[entry.type]}</div>
+                          {(entry.reference || entry.notes) && (
+                            <div className="text-xs text-gray-500">
+                              {[entry.reference, entry.notes].filter(Boolean).join(" - ")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {entry.order ? (
+                            <Link
+                              href={`/admin/orders/${entry.order.id}`}
+                              className="font-medium text-indigo-600 hover:underline"
+                            >
+                              #{entry.order.orderNumber}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            entry.amount > 0 ? "text-red-600" : "text-green-600"
+                          }`}
+                        >
+                          {entry.amount > 0 ? "+" : "-"}
+                          {formatCurrency(Math.abs(entry.amount))}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.balanceAfter)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AccountSettlementDialog
+        open={settlementOpen}
+        onOpenChange={setSettlementOpen}
+        customerId={customerId}
+        balance={account?.accountBalance ?? 0}
+        onRecorded={fetchAccount}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+// src/components/admin/gift-cards/gift-card-detail-dialog.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { GiftCardStatus, GiftCardTransactionType } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  GIFT_CARD_STATUS_LABELS,
+  GIFT_CARD_TRANSACTION_LABELS,
+  formatGiftCardCode,
+} from "@/lib/gift-card";
+import { formatCurrency } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+interface GiftCardTransaction {
+  id: string;
+  type: GiftCardTransactionType;
+  amount: number;
+  balanceAfter: number;
+  notes: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+  createdBy: { name: string | null; email: string } | null;
+}
+
+interface GiftCardDetail {
+  id: string;
+  code: string;
+  initialValue: number;
+  balance: number;
+  expiresAt: string | null;
+  expired: boolean;
+  status: GiftCardStatus;
+  notes: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+  createdBy: { name: string | null; email: string } | null;
+  transactions: GiftCardTransaction[];
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+}
+
+interface GiftCardDetailDialogProps {
+  giftCardId: string | null;
+  isAdmin: boolean;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+/**
+ * A gift card with every change of its balance
+ */
+export default function GiftCardDetailDialog({
+  giftCardId,
+  isAdmin,
+  onClose,
+  onUpdated,
+}: GiftCardDetailDialogProps) {
+  const { toast } = useToast();
+  const [card, setCard] = useState<GiftCardDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const fetchCard = useCallback(async () => {
+    if (!giftCardId) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/gift-cards/${giftCardId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the gift card");
+      }
+      setCard(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the gift card",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [giftCardId, toast]);
+
+  useEffect(() => {
+    setCard(null);
+    fetchCard();
+  }, [fetchCard]);
+
+  const handleToggleStatus = async () => {
+    if (!card) return;
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/gift-cards/${card.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: card.status === "ACTIVE" ? "DISABLED" : "ACTIVE" }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update the gift card");
+      }
+      setCard(data);
+      onUpdated();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Dialog open={giftCardId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{card ? formatGiftCardCode(card.code) : "Gift card"}</DialogTitle>
+          <DialogDescription>
+            {card?.order ? (
+              <>
+                Sold in order{" "}
+                <Link href={`/admin/orders/${card.order.id}`} className="text-indigo-600 hover:underline">
+                  #{card.order.orderNumber}
+                </Link>
+              </>
+            ) : (
+              "Voucher issued by the shop"
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !card ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 grid-cols-3">
+              <div>
+                <label className="text-sm font-medium text-gray-500">Balance</label>
+                <p className="text-2xl font-bold text-gray-800">{formatCurrency(card.balance)}</p>
+                <p className="text-xs text-gray-500">of {formatCurrency(card.initialValue)}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Expires</label>
+                <p className={`text-lg font-medium ${card.expired ? "text-red-600" : "text-gray-800"}`}>
+                  {card.expiresAt ? new Date(card.expiresAt).toLocaleDateString("fr-FR") : "Never"}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Status</label>
+                <div className="mt-1">
+                  <Badge variant="outline">
+                    {card.expired && card.status === "ACTIVE" ? "Expired" : GIFT_CARD_STATUS_LABELS[card.status]}
+                  </Badge>
+                </div>
+              </div>
+            </div>
+            {card.notes && <p className="text-sm text-gray-600">{card.notes}</p>}
+
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {card.transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{formatDateTime(transaction.createdAt)}</TableCell>
+                      <TableCell>
+                        <div>{GIFT_CARD_TRANSACTION_LABELS[transaction.type]}</div>
+                        {transaction.createdBy && (
+                          <div className="text-xs text-gray-500">
+                            {transaction.createdBy.name || transaction.createdBy.email}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {transaction.order ? (
+                          <Link
+                            href={`/admin/orders/${transaction.order.id}`}
+                            className="font-medium text-indigo-600 hover:underline"
+                          >
+                            #{transaction.order.orderNumber}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${
+                          transaction.amount < 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                      >
+                        {transaction.amount < 0 ? "-" : "+"}
+                        {formatCurrency(Math.abs(transaction.amount))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(transaction.balanceAfter)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isAdmin && card && (
+            <Button
+              variant={card.status === "ACTIVE" ? "destructive" : "outline"}
+              onClick={handleToggleStatus}
+              disabled={isUpdating}
+            >
+              {isUpdating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {card.status === "ACTIVE" ? "Disable Card" : "Enable Card"}
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+// src/components/admin/gift-cards/gift-card-issue-dialog.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { formatGiftCardCode } from "@/lib/gift-card";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { Loader2 } from "lucide-react";
+
+interface GiftCardIssueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onIssued: () => void;
+}
+
+export default function GiftCardIssueDialog({ open, onOpenChange, onIssued }: GiftCardIssueDialogProps) {
+  const { toast } = useToast();
+  const [value, setValue] = useState("");
+  const [code, setCode] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { getKey, resetKey } = useIdempotencyKey();
+
+  const reset = () => {
+    setValue("");
+    setCode("");
+    setExpiresAt("");
+    setNotes("");
+    resetKey();
+  };
+
+  const handleSubmit = async () => {
+    if (!(parseFloat(value) > 0)) {
+      toast({
+        title: "Error",
+        description: "Enter the value of the voucher",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const requestKey = getKey();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/gift-cards", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": requestKey,
+        },
+        body: JSON.stringify({
+          value: parseFloat(value),
+          code: code.trim() || null,
+          expiresAt: expiresAt || null,
+          notes,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to issue the voucher");
+      }
+
+      toast({
+        title: "Voucher Issued",
+        description: `Code ${formatGiftCardCode(data.code)}`,
+      });
+      reset();
+      onOpenChange(false);
+      onIssued();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Issue Voucher</DialogTitle>
+          <DialogDescription>
+            A voucher works like a gift card at the register. Leave the code empty to generate one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="voucherValue">Value</Label>
+              <Input
+                id="voucherValue"
+                type="number"
+                min="0"
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voucherExpiry">Expires on</Label>
+              <Input
+                id="voucherExpiry"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="voucherCode">Code</Label>
+            <Input
+              id="voucherCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Printed card code, optional"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="voucherNotes">Notes</Label>
+            <Textarea
+              id="voucherNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Who the voucher is for and why"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Issue Voucher
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
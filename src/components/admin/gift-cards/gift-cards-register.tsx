@@ -0,0 +1,223 @@
+// src/components/admin/gift-cards/gift-cards-register.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { GiftCardStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { GIFT_CARD_STATUS_LABELS, formatGiftCardCode } from "@/lib/gift-card";
+import { formatCurrency } from "@/lib/utils";
+import { Gift, Loader2 } from "lucide-react";
+import GiftCardDetailDialog from "./gift-card-detail-dialog";
+import GiftCardIssueDialog from "./gift-card-issue-dialog";
+
+interface RegisterGiftCard {
+  id: string;
+  code: string;
+  initialValue: number;
+  balance: number;
+  expiresAt: string | null;
+  expired: boolean;
+  status: GiftCardStatus;
+  notes: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string } | null;
+}
+
+type RegisterView = GiftCardStatus | "ALL";
+
+const VIEWS: { value: RegisterView; label: string }[] = [
+  { value: "ACTIVE", label: "Active" },
+  { value: "DISABLED", label: "Disabled" },
+  { value: "ALL", label: "All" },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+interface GiftCardsRegisterProps {
+  isAdmin: boolean;
+}
+
+/**
+ * Gift cards sold at the register and vouchers issued by the shop
+ */
+export default function GiftCardsRegister({ isAdmin }: GiftCardsRegisterProps) {
+  const { toast } = useToast();
+  const [view, setView] = useState<RegisterView>("ACTIVE");
+  const [search, setSearch] = useState("");
+  const [cards, setCards] = useState<RegisterGiftCard[]>([]);
+  const [outstanding, setOutstanding] = useState<{ count: number; amount: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const fetchCards = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (view !== "ALL") params.set("status", view);
+      if (search.trim()) params.set("search", search.trim());
+
+      const response = await fetch(`/api/gift-cards?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the gift cards");
+      }
+      setCards(data.cards);
+      setOutstanding(data.outstanding);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the gift cards",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [view, search, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchCards, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchCards]);
+
+  return (
+    <div className="space-y-6">
+      {outstanding && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-gray-500">Outstanding balance</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-indigo-600">{formatCurrency(outstanding.amount)}</div>
+              <p className="text-xs text-gray-500">{outstanding.count} card(s) with a balance</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {VIEWS.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={view === option.value ? "default" : "outline"}
+                onClick={() => setView(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Input
+              placeholder="Search by code, notes or order..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-md"
+            />
+            {isAdmin && (
+              <Button onClick={() => setIssueOpen(true)}>
+                <Gift className="h-4 w-4 mr-2" />
+                Issue Voucher
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : cards.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No gift cards</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Issued</TableHead>
+                    <TableHead>Sold in</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cards.map((card) => (
+                    <TableRow
+                      key={card.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedId(card.id)}
+                    >
+                      <TableCell>
+                        <div className="font-mono font-medium">{formatGiftCardCode(card.code)}</div>
+                        {card.notes && <div className="text-xs text-gray-500">{card.notes}</div>}
+                      </TableCell>
+                      <TableCell>{formatDate(card.createdAt)}</TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {card.order ? (
+                          <Link
+                            href={`/admin/orders/${card.order.id}`}
+                            className="font-medium text-indigo-600 hover:underline"
+                          >
+                            #{card.order.orderNumber}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-500">Voucher</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={card.expired ? "text-red-600" : undefined}>
+                        {card.expiresAt ? formatDate(card.expiresAt) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={
+                            card.status === "ACTIVE" && !card.expired
+                              ? "bg-green-50 text-green-700 border-green-200"
+                              : "bg-gray-50 text-gray-700 border-gray-200"
+                          }
+                        >
+                          {card.expired && card.status === "ACTIVE" ? "Expired" : GIFT_CARD_STATUS_LABELS[card.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(card.initialValue)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(card.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <GiftCardIssueDialog open={issueOpen} onOpenChange={setIssueOpen} onIssued={fetchCards} />
+      <GiftCardDetailDialog
+        giftCardId={selectedId}
+        isAdmin={isAdmin}
+        onClose={() => setSelectedId(null)}
+        onUpdated={fetchCards}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+// src/components/admin/manager-approval-dialog.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { PosApprovalAction } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  APPROVAL_REQUIRED_CODE,
+  formatApprovalValue,
+  isPosApprovalAction,
+  isValidPosPin,
+  POS_APPROVAL_ACTION_LABELS,
+} from "@/lib/pos/approvals";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface StaffMember {
+  id: string;
+  name: string | null;
+  email: string;
+  role: string;
+  hasPin: boolean;
+  locked: boolean;
+}
+
+interface ApprovalRequest {
+  action: PosApprovalAction;
+  value: number; // Amount or percentage the approval will cover
+  reason: string | null;
+  resolve: (approvalId: string | null) => void;
+}
+
+interface ManagerApprovalDialogProps {
+  request: ApprovalRequest | null;
+  onClose: (approvalId: string | null) => void;
+}
+
+/**
+ * Ask a shop admin to type their PIN to approve a restricted action
+ */
+function ManagerApprovalDialog({ request, onClose }: ManagerApprovalDialogProps) {
+  const [admins, setAdmins] = useState<StaffMember[]>([]);
+  const [approverId, setApproverId] = useState("");
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+
+  useEffect(() => {
+    if (!request) return;
+    setPin("");
+    setError(null);
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetch("/api/pos/staff")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load the shop admins");
+        }
+        return data as StaffMember[];
+      })
+      .then((staff) => {
+        if (cancelled) return;
+        const withPin = staff.filter((member) => member.role === "SHOP_ADMIN" && member.hasPin);
+        setAdmins(withPin);
+        setApproverId(withPin.length === 1 ? withPin[0].id : "");
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load the shop admins");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  const approve = async () => {
+    if (!request || !approverId || !isValidPosPin(pin)) return;
+    setIsApproving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/pos/approvals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: request.action, value: request.value, approverId, pin }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to approve");
+      }
+      onClose(data.id);
+    } catch (approveError) {
+      setPin("");
+      setError(approveError instanceof Error ? approveError.message : "Failed to approve");
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!request}
+      onOpenChange={(open) => {
+        if (!open) onClose(null);
+      }}
+    >
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-indigo-600" />
+            Admin Approval
+          </DialogTitle>
+          <DialogDescription>
+            {request?.reason ||
+              (request && `${POS_APPROVAL_ACTION_LABELS[request.action]} needs the approval of a shop admin.`)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <p className="text-sm font-medium">
+            {POS_APPROVAL_ACTION_LABELS[request.action]}: {formatApprovalValue(request.action, request.value)}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : admins.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No shop admin has a POS PIN yet. An admin can set one on the POS staff page.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Shop admin</Label>
+              <Select value={approverId} onValueChange={setApproverId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an admin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {admins.map((admin) => (
+                    <SelectItem key={admin.id} value={admin.id} disabled={admin.locked}>
+                      {admin.name || admin.email}
+                      {admin.locked && " (locked)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-pin">PIN</Label>
+              <Input
+                id="approval-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={8}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") approve();
+                }}
+                autoFocus
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onClose(null)} disabled={isApproving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={approve}
+            disabled={isApproving || !approverId || !isValidPosPin(pin)}
+          >
+            {isApproving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Send requests that may need admin approvals: each time the server answers
+ * that one is required, the approval dialog is shown and the request is sent
+ * again with all the approvals given so far. Render `approvalDialog` in the
+ * component.
+ */
+export function useManagerApproval() {
+  const [request, setRequest] = useState<ApprovalRequest | null>(null);
+
+  const requestApproval = useCallback(
+    (action: PosApprovalAction, value: number, reason: string | null = null) =>
+      new Promise<string | null>((resolve) => setRequest({ action, value, reason, resolve })),
+    []
+  );
+
+  const sendWithApproval = useCallback(
+    async (send: (approvalIds: string[]) => Promise<Response>) => {
+      const approvalIds: string[] = [];
+      let response = await send(approvalIds);
+
+      // A sale can need several approvals (e.g. an order discount and a price override)
+      while (response.status === 403) {
+        const data = await response
+          .clone()
+          .json()
+          .catch(() => null);
+        // The approval is given for the value the server asks for, nothing more
+        if (
+          data?.code !== APPROVAL_REQUIRED_CODE ||
+          !isPosApprovalAction(data.action) ||
+          typeof data.value !== "number"
+        ) {
+          return response;
+        }
+
+        const approvalId = await requestApproval(data.action, data.value, data.error ?? null);
+        // Without an approval the refusal is handed back to the caller
+        if (!approvalId) return response;
+        approvalIds.push(approvalId);
+        response = await send([...approvalIds]);
+      }
+      return response;
+    },
+    [requestApproval]
+  );
+
+  const approvalDialog = (
+    <ManagerApprovalDialog
+      request={request}
+      onClose={(approvalId) => {
+        request?.resolve(approvalId);
+        setRequest(null);
+      }}
+    />
+  );
+
+  return { sendWithApproval, approvalDialog };
+}
@@ -26,6 +26,7 @@ const orderStatuses = [
   { value: "PROCESSING", label: "Processing" },
   { value: "SHIPPED", label: "Shipped" },
   { value: "DELIVERED", label: "Delivered" },
+  { value: "RETURNED", label: "Returned" },
   { value: "CANCELLED", label: "Cancelled" },
   { value: "REFUNDED", label: "Refunded" },
 ];
@@ -33,10 +34,11 @@ const orderStatuses = [
 const paymentStatuses = [
   { value: "all", label: "All Payment" },
   { value: "PENDING", label: "Pending" },
-  { value: "PAID", label: "Paid" },
+  { value: "PARTIALLY_PAID", label: "Partially Paid" },
+  { value: "COMPLETED", label: "Completed" },
   { value: "FAILED", label: "Failed" },
-  { value: "REFUNDED", label: "Refunded" },
   { value: "PARTIALLY_REFUNDED", label: "Partially Refunded" },
+  { value: "REFUNDED", label: "Refunded" },
 ];
 
 const orderSources = [
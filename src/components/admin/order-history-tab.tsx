@@ -0,0 +1,152 @@
+// src/components/admin/order-history-tab.tsx
+import type {
+  CheckStatus,
+  OrderEventType,
+  OrderStatus,
+  PaymentStatus,
+  PosApprovalAction,
+} from "@prisma/client";
+import { CHECK_STATUS_LABELS } from "@/lib/check-status";
+import { ORDER_STATUS_LABELS, PAYMENT_STATUS_LABELS } from "@/lib/order-status";
+import { POS_APPROVAL_ACTION_LABELS } from "@/lib/pos/approvals";
+import { formatCurrency } from "@/lib/utils";
+import {
+  Banknote,
+  CreditCard,
+  FileMinus,
+  FileText,
+  NotebookPen,
+  PackageCheck,
+  Printer,
+  ShieldCheck,
+  ShoppingBag,
+  Undo2,
+  Wallet,
+  type LucideIcon,
+} from "lucide-react";
+
+interface OrderHistoryEvent {
+  id: string;
+  type: OrderEventType;
+  fromValue: string | null;
+  toValue: string | null;
+  message: string | null;
+  metadata: unknown;
+  createdAt: Date | string;
+  actor: { name: string | null; email: string } | null;
+}
+
+interface OrderHistoryTabProps {
+  events: OrderHistoryEvent[];
+}
+
+const EVENT_ICONS: Record<OrderEventType, LucideIcon> = {
+  CREATED: ShoppingBag,
+  STATUS_CHANGED: PackageCheck,
+  PAYMENT_STATUS_CHANGED: CreditCard,
+  NOTE_UPDATED: NotebookPen,
+  INVOICE_ISSUED: FileText,
+  CREDIT_NOTE_ISSUED: FileMinus,
+  PRINTED: Printer,
+  RETURNED: Undo2,
+  REFUNDED: Wallet,
+  APPROVED: ShieldCheck,
+  CHECK_STATUS_CHANGED: Banknote,
+};
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  INVOICE: "Invoice",
+  CREDIT_NOTE: "Credit note",
+  RECEIPT: "Receipt",
+};
+
+function orderStatusLabel(value: string | null) {
+  return value ? ORDER_STATUS_LABELS[value as OrderStatus] ?? value : "-";
+}
+
+function paymentStatusLabel(value: string | null) {
+  return value ? PAYMENT_STATUS_LABELS[value as PaymentStatus] ?? value : "-";
+}
+
+/**
+ * One-line summary of an event
+ */
+function describeEvent(event: OrderHistoryEvent): string {
+  const metadata = (event.metadata ?? {}) as Record<string, unknown>;
+
+  switch (event.type) {
+    case "CREATED":
+      return "Order created";
+    case "STATUS_CHANGED":
+      return `Status changed from ${orderStatusLabel(event.fromValue)} to ${orderStatusLabel(event.toValue)}`;
+    case "PAYMENT_STATUS_CHANGED":
+      return `Payment changed from ${paymentStatusLabel(event.fromValue)} to ${paymentStatusLabel(event.toValue)}`;
+    case "NOTE_UPDATED":
+      return event.toValue ? "Notes updated" : "Notes cleared";
+    case "INVOICE_ISSUED":
+      return `Invoice ${event.toValue} issued`;
+    case "CREDIT_NOTE_ISSUED":
+      return `Credit note ${event.toValue} issued`;
+    case "PRINTED": {
+      const document = DOCUMENT_LABELS[String(metadata.document)] ?? "Document";
+      return `${document} ${event.toValue ?? ""} printed`.trim();
+    }
+    case "RETURNED": {
+      const items = Array.isArray(metadata.items) ? metadata.items : [];
+      const quantity = items.reduce(
+        (sum: number, item: { quantity?: number }) => sum + (item.quantity ?? 0),
+        0
+      );
+      return `${quantity} item(s) returned`;
+    }
+    case "REFUNDED":
+      return `${formatCurrency(Number(event.toValue) || 0)} refunded`;
+    case "APPROVED": {
+      const action =
+        POS_APPROVAL_ACTION_LABELS[event.toValue as PosApprovalAction] ?? event.toValue;
+      return `${action} approved`;
+    }
+    case "CHECK_STATUS_CHANGED": {
+      const status = CHECK_STATUS_LABELS[event.toValue as CheckStatus] ?? event.toValue;
+      return `Check #${metadata.checkNumber ?? ""} ${String(status).toLowerCase()}`;
+    }
+    default:
+      return event.type;
+  }
+}
+
+export default function OrderHistoryTab({ events }: OrderHistoryTabProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-400">No history recorded for this order yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-700 ml-2 space-y-5">
+      {events.map((event) => {
+        const Icon = EVENT_ICONS[event.type] ?? PackageCheck;
+        return (
+          <li key={event.id} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-gray-800 ring-4 ring-gray-900">
+              <Icon className="h-3 w-3 text-indigo-400" />
+            </span>
+            <div className="flex flex-wrap justify-between gap-x-4">
+              <span className="text-sm font-medium text-gray-100">{describeEvent(event)}</span>
+              <time className="text-xs text-gray-400">
+                {new Date(event.createdAt).toLocaleString("fr-FR")}
+              </time>
+            </div>
+            <div className="text-xs text-gray-400">
+              {event.actor ? `by ${event.actor.name || event.actor.email}` : "System"}
+            </div>
+            {event.type === "NOTE_UPDATED" && event.toValue && (
+              <p className="mt-1 text-sm text-gray-300 whitespace-pre-wrap">{event.toValue}</p>
+            )}
+            {event.message && (
+              <p className="mt-1 text-xs text-gray-400">{event.message}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
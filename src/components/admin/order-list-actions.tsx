@@ -31,6 +31,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/components/ui/use-toast";
 import { FeatureGuard } from "@/components/authorization/feature-guard";
+import { useManagerApproval } from "@/components/admin/manager-approval-dialog";
 import { Feature } from "@/lib/feature-authorization";
 
 interface OrderListActionsProps {
@@ -46,14 +47,21 @@ export default function OrderListActions({
   const [isCancelling, setIsCancelling] = useState(false);
   const router = useRouter();
   const { toast } = useToast();
+  const { sendWithApproval, approvalDialog } = useManagerApproval();
 
   const handleCancelOrder = async () => {
     try {
       setIsCancelling(true);
 
-      const response = await fetch(`/api/orders/${orderId}`, {
-        method: "DELETE", // This is actually cancellation, not deletion
-      });
+      // Staff members cancel with the approval of a shop admin
+      const response = await sendWithApproval((approvalIds) =>
+        fetch(
+          `/api/orders/${orderId}?${new URLSearchParams(approvalIds.map((id) => ["approvalId", id]))}`,
+          {
+            method: "DELETE", // This is actually cancellation, not deletion
+          }
+        )
+      );
 
       const responseData = await response.json();
 
@@ -110,11 +118,8 @@ export default function OrderListActions({
           <FeatureGuard feature={Feature.INVOICE_GENERATION}>
             <DropdownMenuItem asChild>
               <Link
-                href={
-                  hasInvoice
-                    ? `/api/orders/${orderId}/invoice`
-                    : `/api/orders/${orderId}/invoice/generate`
-                }
+                href={`/api/orders/${orderId}/invoice?format=pdf`}
+                target="_blank"
                 className="flex items-center"
               >
                 <FileText className="mr-2 h-4 w-4" />
@@ -158,6 +163,8 @@ export default function OrderListActions({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {approvalDialog}
     </>
   );
 }
@@ -0,0 +1,343 @@
+// src/components/admin/order-return-dialog.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { UnitOfMeasure } from "@prisma/client";
+import { useToast } from "@/components/ui/use-toast";
+import { useManagerApproval } from "@/components/admin/manager-approval-dialog";
+import { formatQuantity, isMeasuredUnit, roundQuantity } from "@/lib/units";
+import { formatCurrency } from "@/lib/utils";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { Loader2, Undo2 } from "lucide-react";
+
+interface ReturnableItem {
+  id: string;
+  productName: string;
+  quantity: number;
+  unit: UnitOfMeasure;
+  returnedQuantity: number;
+  total: number;
+}
+
+interface RefundablePayment {
+  id: string;
+  paymentMethod: string;
+  amount: number;
+  refundedAmount: number;
+}
+
+interface OrderReturnDialogProps {
+  orderId: string;
+  items: ReturnableItem[];
+  payments: RefundablePayment[];
+  allowStoreCredit: boolean; // The order belongs to a registered customer
+}
+
+export default function OrderReturnDialog({
+  orderId,
+  items,
+  payments,
+  allowStoreCredit,
+}: OrderReturnDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { sendWithApproval, approvalDialog } = useManagerApproval();
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [refunds, setRefunds] = useState<Record<string, string>>({});
+  const [storeCredit, setStoreCredit] = useState<Record<string, boolean>>({});
+  const [reason, setReason] = useState("");
+  const { getKey, resetKey } = useIdempotencyKey();
+
+  const returnableItems = items.filter(
+    (item) => roundQuantity(item.quantity - item.returnedQuantity) > 0
+  );
+
+  // Value of the selected items at the price paid, to guide the refund amounts
+  const returnedValue = useMemo(
+    () =>
+      items.reduce(
+        (sum, item) => sum + ((quantities[item.id] || 0) * item.total) / item.quantity,
+        0
+      ),
+    [items, quantities]
+  );
+  const refundTotal = Object.values(refunds).reduce(
+    (sum, amount) => sum + (parseFloat(amount) || 0),
+    0
+  );
+
+  const reset = () => {
+    setQuantities({});
+    setRestock({});
+    setRefunds({});
+    setStoreCredit({});
+    setReason("");
+    resetKey();
+  };
+
+  // Spread the returned value over the payments, in order, up to what each can refund
+  const suggestRefunds = () => {
+    let remaining = Math.round(returnedValue * 100) / 100;
+    const suggested: Record<string, string> = {};
+    for (const payment of payments) {
+      const refundable = Math.max(payment.amount - payment.refundedAmount, 0);
+      const amount = Math.min(refundable, remaining);
+      if (amount > 0) {
+        suggested[payment.id] = amount.toFixed(2);
+        remaining -= amount;
+      }
+    }
+    setRefunds(suggested);
+  };
+
+  // What was charged to the account always goes back to the account, and
+  // gift card payments always go back on the card
+  const isStoreCredit = (payment: RefundablePayment) =>
+    payment.paymentMethod === "ON_ACCOUNT" ||
+    (allowStoreCredit && payment.paymentMethod !== "GIFT_CARD" && storeCredit[payment.id] === true);
+
+  const handleSubmit = async () => {
+    const selected = returnableItems.filter((item) => (quantities[item.id] || 0) > 0);
+    if (selected.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one item to return",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const requestKey = getKey();
+    setIsSubmitting(true);
+    try {
+      // Refunds by staff members need a shop admin's approval
+      const response = await sendWithApproval((approvalIds) =>
+        fetch(`/api/orders/${orderId}/returns`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": requestKey,
+          },
+          body: JSON.stringify({
+            items: selected.map((item) => ({
+              orderItemId: item.id,
+              quantity: quantities[item.id],
+              restock: restock[item.id] !== false,
+            })),
+            refunds: Object.entries(refunds)
+              .filter(([, amount]) => parseFloat(amount) > 0)
+              .map(([orderPaymentId, amount]) => {
+                const payment = payments.find((p) => p.id === orderPaymentId);
+                return {
+                  orderPaymentId,
+                  amount: parseFloat(amount),
+                  storeCredit: !!payment && isStoreCredit(payment),
+                };
+              }),
+            reason,
+            approvalIds,
+          }),
+        })
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to record the return");
+      }
+
+      toast({
+        title: "Return Recorded",
+        description: "The returned items have been recorded successfully.",
+      });
+      setOpen(false);
+      reset();
+      router.refresh();
+    } catch (error) {
+      console.error("Error recording return:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={returnableItems.length === 0}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Return Items
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Select the items and quantities given back by the customer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-3">
+            {returnableItems.map((item) => {
+              const maxQuantity = roundQuantity(item.quantity - item.returnedQuantity);
+              return (
+                <div key={item.id} className="grid grid-cols-12 items-center gap-3">
+                  <div className="col-span-6">
+                    <div className="font-medium text-gray-800">{item.productName}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatQuantity(maxQuantity, item.unit)} of {formatQuantity(item.quantity, item.unit)} returnable
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={maxQuantity}
+                    step={isMeasuredUnit(item.unit) ? "0.001" : "1"}
+                    value={quantities[item.id] ?? 0}
+                    onChange={(e) => {
+                      const quantity = isMeasuredUnit(item.unit)
+                        ? roundQuantity(parseFloat(e.target.value) || 0)
+                        : parseInt(e.target.value) || 0;
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [item.id]: Math.min(Math.max(quantity, 0), maxQuantity),
+                      }));
+                    }}
+                    className="col-span-2"
+                  />
+                  <div className="col-span-4 flex items-center gap-2">
+                    <Checkbox
+                      id={`restock-${item.id}`}
+                      checked={restock[item.id] !== false}
+                      onCheckedChange={(checked) =>
+                        setRestock((prev) => ({ ...prev, [item.id]: checked === true }))
+                      }
+                    />
+                    <Label htmlFor={`restock-${item.id}`} className="text-sm text-gray-600">
+                      Back to stock
+                    </Label>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {payments.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <Label className="text-gray-800">Refunds</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={suggestRefunds}
+                  disabled={returnedValue <= 0}
+                >
+                  Refund {formatCurrency(returnedValue)}
+                </Button>
+              </div>
+              {payments.map((payment) => {
+                const refundable = Math.max(payment.amount - payment.refundedAmount, 0);
+                return (
+                  <div key={payment.id} className="grid grid-cols-12 items-center gap-3">
+                    <div className="col-span-5">
+                      <div className="text-gray-800">{payment.paymentMethod.replace("_", " ")}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatCurrency(refundable)} refundable of {formatCurrency(payment.amount)}
+                      </div>
+                    </div>
+                    <div className="col-span-3 flex items-center gap-2">
+                      {payment.paymentMethod === "GIFT_CARD" ? (
+                        <span className="text-sm text-gray-600">Back on the card</span>
+                      ) : (allowStoreCredit || payment.paymentMethod === "ON_ACCOUNT") && (
+                        <>
+                          <Checkbox
+                            id={`store-credit-${payment.id}`}
+                            checked={isStoreCredit(payment)}
+                            disabled={payment.paymentMethod === "ON_ACCOUNT" || refundable <= 0}
+                            onCheckedChange={(checked) =>
+                              setStoreCredit((prev) => ({ ...prev, [payment.id]: checked === true }))
+                            }
+                          />
+                          <Label htmlFor={`store-credit-${payment.id}`} className="text-sm text-gray-600">
+                            Store credit
+                          </Label>
+                        </>
+                      )}
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      max={refundable}
+                      value={refunds[payment.id] ?? ""}
+                      placeholder="0.00"
+                      disabled={refundable <= 0}
+                      onChange={(e) =>
+                        setRefunds((prev) => ({ ...prev, [payment.id]: e.target.value }))
+                      }
+                      className="col-span-4"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="return-reason" className="text-gray-800">
+              Reason
+            </Label>
+            <Textarea
+              id="return-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why are the items returned?"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="text-sm text-gray-600 mr-auto">
+            Total refunded: {formatCurrency(refundTotal)}
+          </span>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Return
+          </Button>
+        </DialogFooter>
+
+        {approvalDialog}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -71,6 +71,24 @@ export default function OrderStatusBadge({
             Refunded
           </Badge>
         );
+      case "RETURNED":
+        return (
+          <Badge
+            variant="outline"
+            className="bg-orange-50 text-orange-700 border-orange-200"
+          >
+            Returned
+          </Badge>
+        );
+      case "PARTIALLY_RETURNED":
+        return (
+          <Badge
+            variant="outline"
+            className="bg-amber-50 text-amber-700 border-amber-200"
+          >
+            Partially Returned
+          </Badge>
+        );
       default:
         return (
           <Badge
@@ -95,7 +113,16 @@ export default function OrderStatusBadge({
             Pending
           </Badge>
         );
-      case "PAID":
+      case "PARTIALLY_PAID":
+        return (
+          <Badge
+            variant="outline"
+            className="bg-amber-50 text-amber-700 border-amber-200"
+          >
+            Partially Paid
+          </Badge>
+        );
+      case "COMPLETED":
         return (
           <Badge
             variant="outline"
@@ -24,25 +24,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
+import { useManagerApproval } from "@/components/admin/manager-approval-dialog";
 import { Loader2 } from "lucide-react";
-
-// Order status options
-const orderStatuses = [
-  { value: "PENDING", label: "Pending" },
-  { value: "SHIPPED", label: "Shipped" },
-  { value: "DELIVERED", label: "Delivered" },
-  { value: "RETURNED", label: "Returned" },
-  { value: "CANCELLED", label: "Cancelled" },
-  { value: "REFUNDED", label: "Refunded" },
-];
-
-// Payment status options
-const paymentStatuses = [
-  { value: "PENDING", label: "Pending" },
-  { value: "FAILED", label: "Failed" },
-  { value: "REFUNDED", label: "Refunded" },
-  { value: "COMPLETED", label: "Completed" },
-];
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_STATUS_LABELS,
+  PAYMENT_STATUS_TRANSITIONS,
+} from "@/lib/order-status";
+
+// Options are limited to the current status and the ones the state machine allows next
+function getStatusOptions<T extends string>(
+  current: string,
+  transitions: Record<T, T[]>,
+  labels: Record<T, string>
+) {
+  const next = transitions[current as T] ?? [];
+  return [current as T, ...next].map((value) => ({
+    value,
+    label: labels[value] ?? value,
+  }));
+}
 
 // Form schema
 const formSchema = z.object({
@@ -66,7 +68,18 @@ export default function OrderStatusUpdateForm({
 }: OrderStatusUpdateFormProps) {
   const router = useRouter();
   const { toast } = useToast();
+  const { sendWithApproval, approvalDialog } = useManagerApproval();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const orderStatuses = getStatusOptions(
+    currentStatus,
+    ORDER_STATUS_TRANSITIONS,
+    ORDER_STATUS_LABELS
+  );
+  const paymentStatuses = getStatusOptions(
+    currentPaymentStatus,
+    PAYMENT_STATUS_TRANSITIONS,
+    PAYMENT_STATUS_LABELS
+  );
 
   // Create form
   const form = useForm<FormValues>({
@@ -83,13 +96,16 @@ export default function OrderStatusUpdateForm({
     setIsSubmitting(true);
 
     try {
-      const response = await fetch(`/api/orders/${orderId}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(values),
-      });
+      // Cancellations and refunds by staff members need a shop admin's approval
+      const response = await sendWithApproval((approvalIds) =>
+        fetch(`/api/orders/${orderId}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ ...values, approvalIds }),
+        })
+      );
 
       if (!response.ok) {
         const data = await response.json();
@@ -211,6 +227,8 @@ export default function OrderStatusUpdateForm({
           </Button>
         </div>
       </form>
+
+      {approvalDialog}
     </Form>
   );
 }
@@ -1,12 +1,28 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { useSession } from "next-auth/react";
+import type { UnitOfMeasure } from "@prisma/client";
 import { useToast } from "@/components/ui/use-toast";
+import { useCustomerDisplayPublisher } from "@/hooks/use-customer-display.hook";
+import {
+  CustomerDisplayPayment,
+  CustomerDisplaySale,
+  CustomerDisplayState,
+  IDLE_CUSTOMER_DISPLAY,
+} from "@/lib/pos/customer-display";
+import { applyLineAdjustment, hasLineAdjustment, LineAdjustmentInput } from "@/lib/pos/price-adjustments";
+import { formatQuantity, isValidQuantity, roundQuantity } from "@/lib/units";
 import ProductSearch from "./pos/product-search";
 import ShoppingCart from "./pos/shopping-cart";
 import CheckoutPanel from "./pos/checkout-panel";
 import MultiPaymentCheckout from "./pos/multi-payment-checkout";
+import HeldCarts, { HeldCartSummary } from "./pos/held-carts";
+import BarcodeScanner from "./pos/barcode-scanner";
+
+// Gift cards are issued when sold and backordered variants are sold past
+// their stock, so any quantity of them can be sold
+const UNLIMITED_STOCK = Number.MAX_SAFE_INTEGER;
 
 // Types
 export interface ProductVariant {
@@ -16,7 +32,9 @@ export interface ProductVariant {
   finalPrice?: number;   // Price after discount
   cost?: number;
   tva: number;
+  unit?: UnitOfMeasure; // Price and inventory are per unit of measure
   inventory: number;
+  allowBackorder?: boolean; // Can be sold past the stock
   sku?: string;
   barcode?: string;
   images: string[];
@@ -41,6 +59,7 @@ export interface Product {
   discounts?: any[];
   hasDiscount?: boolean;
   discountPercentage?: number;
+  isGiftCard?: boolean; // Selling it issues a gift card, no stock is kept
   createdAt?: string;
   updatedAt?: string;
 }
@@ -53,7 +72,8 @@ export interface CartItem {
   sku?: string;
   price: number;
   finalPrice: number;
-  quantity: number;
+  quantity: number; // Decimal for variants sold by weight or volume
+  unit: UnitOfMeasure;
   total: number;
   priceExcludingTva: number;
   tvaAmount: number;
@@ -61,6 +81,8 @@ export interface CartItem {
   inventory: number;
   images: string[];
   variant: ProductVariant;
+  isGiftCard?: boolean;
+  adjustment?: LineAdjustmentInput; // Price override or manual discount given by the cashier
 }
 
 export interface Customer {
@@ -68,6 +90,10 @@ export interface Customer {
   name: string;
   email: string;
   phone?: string;
+  checksFlaggedAt?: string | null; // Set when a check of the customer bounced
+  checksFlagReason?: string | null;
+  accountBalance?: number; // Owed on the customer account, negative for store credit
+  creditLimit?: number;
 }
 
 export interface CashPayment {
@@ -107,12 +133,21 @@ export default function POSSystem() {
   
   // Check payment state
   const [checkPayments, setCheckPayments] = useState<CheckPayment[]>([]);
+
+  // Payment in progress and last sale, shown on the customer display
+  const [displayPayment, setDisplayPayment] = useState<CustomerDisplayPayment | null>(null);
+  const [completedSale, setCompletedSale] = useState<CustomerDisplaySale | null>(null);
   
   // Utility functions
   const calculatePriceExcludingTva = (priceIncludingTva: number, tvaPercentage: number) => {
     return priceIncludingTva / (1 + tvaPercentage / 100);
   };
 
+  // Rounded per line, like the pricing engine does for weighed quantities
+  const calculateLineTotal = (finalPrice: number, quantity: number) => {
+    return Math.round(finalPrice * quantity * 100) / 100;
+  };
+
   const getEffectiveProductData = (product: Product, variantId?: string) => {
     if (variantId && product.variants.length > 0) {
       const variant = product.variants.find(v => v.id === variantId);
@@ -123,7 +158,7 @@ export default function POSSystem() {
           hasDiscount: variant.hasDiscount || false,
           discountPercentage: variant.discountPercentage || 0,
           discountAmount: variant.discountAmount || 0,
-          inventory: variant.inventory,
+          inventory: product.isGiftCard || variant.allowBackorder ? UNLIMITED_STOCK : variant.inventory,
           sku: variant.sku || product.sku,
           barcode: variant.barcode || product.barcode,
           images: variant.images && variant.images.length > 0 ? variant.images : product.images,
@@ -143,7 +178,7 @@ export default function POSSystem() {
         hasDiscount: firstVariant.hasDiscount || false,
         discountPercentage: firstVariant.discountPercentage || 0,
         discountAmount: firstVariant.discountAmount || 0,
-        inventory: firstVariant.inventory,
+        inventory: product.isGiftCard || firstVariant.allowBackorder ? UNLIMITED_STOCK : firstVariant.inventory,
         sku: firstVariant.sku || product.sku,
         barcode: firstVariant.barcode || product.barcode,
         images: firstVariant.images && firstVariant.images.length > 0 ? firstVariant.images : product.images,
@@ -189,22 +224,88 @@ export default function POSSystem() {
   };
 
   // Cart operations
-  const addToCart = (product: Product, variantId?: string) => {
+  // Cart line of a product variant at its in-store price
+  const buildCartItem = (product: Product, variantId: string | undefined, quantity: number): CartItem => {
     const effectiveData = getEffectiveProductData(product, variantId);
     const cartItemId = variantId ? `${product.id}-${variantId}` : product.id;
+
+    // Apply discounts - check variant-specific first, then product-level
+    let finalPrice = effectiveData.price;
+    let discountPercentage = 0;
+    
+    // First check for variant-specific discounts
+    if (effectiveData.hasDiscount) {
+      discountPercentage = effectiveData.discountPercentage;
+      finalPrice = effectiveData.finalPrice;
+    }
+    // Then check for product-level discounts (if no variant discount)
+    else if (product.hasDiscount && product.discountPercentage) {
+      discountPercentage = product.discountPercentage;
+      const discountAmount = (effectiveData.price * discountPercentage) / 100;
+      finalPrice = effectiveData.price - discountAmount;
+    }
+    // Fallback to legacy product discounts structure
+    else if (product.discounts && product.discounts.length > 0) {
+      const now = new Date();
+      const activeDiscount = product.discounts.find(discount => 
+        discount.enabled && 
+        new Date(discount.startDate) <= now && 
+        new Date(discount.endDate) >= now &&
+        discount.availableInStore
+      );
+      
+      if (activeDiscount) {
+        discountPercentage = activeDiscount.percentage;
+        const discountAmount = (effectiveData.price * discountPercentage) / 100;
+        finalPrice = effectiveData.price - discountAmount;
+      }
+    }
+    
+    // Gift cards carry no TVA, it is due on what they buy later
+    const tva = product.isGiftCard ? 0 : effectiveData.tva;
+    const priceExcludingTva = calculatePriceExcludingTva(finalPrice, tva);
+    const tvaAmount = finalPrice - priceExcludingTva;
+    
+    const cartItem: CartItem = {
+      id: cartItemId,
+      productId: product.id,
+      variantId: variantId || (effectiveData.variant ? effectiveData.variant.id : ""),
+      name: effectiveData.name,
+      sku: effectiveData.sku,
+      price: effectiveData.price, // Original price
+      finalPrice: finalPrice, // Price after discount
+      quantity,
+      unit: effectiveData.variant?.unit ?? "UNIT",
+      total: calculateLineTotal(finalPrice, quantity),
+      priceExcludingTva,
+      tvaAmount,
+      tva,
+      inventory: effectiveData.inventory,
+      images: effectiveData.images,
+      isGiftCard: product.isGiftCard === true,
+    };
+    return cartItem;
+  };
+
+  // Quantity is 1 unless weighed, e.g. from a scale label. False when nothing was added.
+  const addToCart = (product: Product, variantId?: string, quantity = 1): boolean => {
+    const effectiveData = getEffectiveProductData(product, variantId);
+    const cartItemId = variantId ? `${product.id}-${variantId}` : product.id;
+    const unit = effectiveData.variant?.unit ?? "UNIT";
     
     const existingItem = cart.find(item => item.id === cartItemId);
     
     if (existingItem) {
-      if (existingItem.quantity >= effectiveData.inventory) {
+      const newQuantity = roundQuantity(existingItem.quantity + quantity);
+      if (newQuantity > effectiveData.inventory) {
         toast({
           title: "Insufficient Inventory",
-          description: `Only ${effectiveData.inventory} items available`,
+          description: `Only ${formatQuantity(effectiveData.inventory, unit)} available`,
           variant: "destructive",
         });
-        return;
+        return false;
       }
-      updateCartItemQuantity(cartItemId, existingItem.quantity + 1);
+      updateCartItemQuantity(cartItemId, newQuantity);
     } else {
       if (effectiveData.inventory <= 0) {
         toast({
@@ -212,67 +313,33 @@ export default function POSSystem() {
           description: "This product is out of stock",
           variant: "destructive",
         });
-        return;
+        return false;
       }
       
-      // Apply discounts - check variant-specific first, then product-level
-      let finalPrice = effectiveData.price;
-      let discountPercentage = 0;
-      
-      // First check for variant-specific discounts
-      if (effectiveData.hasDiscount) {
-        discountPercentage = effectiveData.discountPercentage;
-        finalPrice = effectiveData.finalPrice;
-      }
-      // Then check for product-level discounts (if no variant discount)
-      else if (product.hasDiscount && product.discountPercentage) {
-        discountPercentage = product.discountPercentage;
-        const discountAmount = (effectiveData.price * discountPercentage) / 100;
-        finalPrice = effectiveData.price - discountAmount;
-      }
-      // Fallback to legacy product discounts structure
-      else if (product.discounts && product.discounts.length > 0) {
-        const now = new Date();
-        const activeDiscount = product.discounts.find(discount => 
-          discount.enabled && 
-          new Date(discount.startDate) <= now && 
-          new Date(discount.endDate) >= now &&
-          discount.availableInStore
-        );
-        
-        if (activeDiscount) {
-          discountPercentage = activeDiscount.percentage;
-          const discountAmount = (effectiveData.price * discountPercentage) / 100;
-          finalPrice = effectiveData.price - discountAmount;
-        }
+      if (quantity > effectiveData.inventory) {
+        toast({
+          title: "Insufficient Inventory",
+          description: `Only ${formatQuantity(effectiveData.inventory, unit)} available`,
+          variant: "destructive",
+        });
+        return false;
       }
       
-      const priceExcludingTva = calculatePriceExcludingTva(finalPrice, effectiveData.tva);
-      const tvaAmount = finalPrice - priceExcludingTva;
-      
-      const cartItem: CartItem = {
-        id: cartItemId,
-        productId: product.id,
-        variantId: variantId || (effectiveData.variant ? effectiveData.variant.id : ""),
-        name: effectiveData.name,
-        sku: effectiveData.sku,
-        price: effectiveData.price, // Original price
-        finalPrice: finalPrice, // Price after discount
-        quantity: 1,
-        total: finalPrice,
-        priceExcludingTva,
-        tvaAmount,
-        tva: effectiveData.tva,
-        inventory: effectiveData.inventory,
-        images: effectiveData.images,
-      };
-      setCart(prev => [...prev, cartItem]);
+      setCart(prev => [...prev, buildCartItem(product, variantId, quantity)]);
     }
     
     toast({
       title: "Added to Cart",
       description: `${effectiveData.name} added to cart`,
     });
+    return true;
+  };
+
+  // Scanned items go straight into the cart, replacing any search in progress
+  const addScannedItem = (product: Product, variantId: string, quantity: number) => {
+    setSearchQuery("");
+    setSearchResults([]);
+    return addToCart(product, variantId, quantity);
   };
 
   const updateCartItemQuantity = (cartItemId: string, newQuantity: number) => {
@@ -283,10 +350,13 @@ export default function POSSystem() {
 
     setCart(prev => prev.map(item => {
       if (item.id === cartItemId) {
+        if (!isValidQuantity(newQuantity, item.unit)) {
+          return item;
+        }
         if (newQuantity > item.inventory) {
           toast({
             title: "Insufficient Inventory",
-            description: `Only ${item.inventory} items available`,
+            description: `Only ${formatQuantity(item.inventory, item.unit)} available`,
             variant: "destructive",
           });
           return item;
@@ -295,13 +365,25 @@ export default function POSSystem() {
         return {
           ...item,
           quantity: newQuantity,
-          total: item.finalPrice * newQuantity,
+          total: applyLineAdjustment(item.finalPrice, newQuantity, item.adjustment ?? {}).lineTotal,
         };
       }
       return item;
     }));
   };
 
+  // Set or remove the cashier's price change on a line
+  const updateCartItemAdjustment = (cartItemId: string, adjustment: LineAdjustmentInput | null) => {
+    setCart(prev => prev.map(item => {
+      if (item.id !== cartItemId) return item;
+      return {
+        ...item,
+        adjustment: adjustment ?? undefined,
+        total: applyLineAdjustment(item.finalPrice, item.quantity, adjustment ?? {}).lineTotal,
+      };
+    }));
+  };
+
   const removeFromCart = (cartItemId: string) => {
     setCart(prev => prev.filter(item => item.id !== cartItemId));
   };
@@ -317,6 +399,59 @@ export default function POSSystem() {
     setCheckPayments([]);
   };
 
+  // Put a resumed held cart back at the register, at today's prices with the
+  // cashier's price changes kept
+  const restoreHeldCart = (heldCart: HeldCartSummary, products: Product[]) => {
+    let missingItems = 0;
+    const restored = heldCart.items.flatMap((item) => {
+      const product = products.find((candidate) => candidate.id === item.productId);
+      const variant = product?.variants.find((candidate) => candidate.id === item.variantId);
+      const quantity = product?.isGiftCard || variant?.allowBackorder
+        ? item.quantity
+        : Math.min(item.quantity, variant?.inventory ?? 0);
+      if (!product || quantity <= 0) {
+        missingItems++;
+        return [];
+      }
+      if (quantity < item.quantity) missingItems++;
+      const cartItem = buildCartItem(product, item.variantId, quantity);
+      if (!hasLineAdjustment(item)) return [cartItem];
+      const adjustment: LineAdjustmentInput = {
+        priceOverride: item.priceOverride,
+        lineDiscount: item.lineDiscount,
+        lineDiscountType: item.lineDiscountType,
+        adjustmentReason: item.adjustmentReason,
+        adjustmentNote: item.adjustmentNote,
+      };
+      return [
+        {
+          ...cartItem,
+          adjustment,
+          total: applyLineAdjustment(cartItem.finalPrice, quantity, adjustment).lineTotal,
+        },
+      ];
+    });
+
+    setCart(restored);
+    setCustomer(
+      heldCart.customer
+        ? { id: heldCart.customer.id, name: heldCart.customer.name || "", email: heldCart.customer.email }
+        : null
+    );
+    setOrderDiscount(heldCart.orderDiscount);
+    setOrderDiscountType(heldCart.orderDiscountType);
+    setAppliedDiscountCode(null);
+    setNotes(heldCart.notes || "");
+
+    toast({
+      title: "Cart Resumed",
+      description: missingItems > 0
+        ? `${heldCart.name} is back. ${missingItems} item(s) are no longer fully in stock, check the cart.`
+        : `${heldCart.name} is back at the register.`,
+      variant: missingItems > 0 ? "destructive" : "default",
+    });
+  };
+
   // Calculate totals with discount code support
   const calculateTotals = () => {
     // Safety check for empty cart
@@ -332,9 +467,10 @@ export default function POSSystem() {
       };
     }
 
-    const subtotalIncludingTva = cart.reduce((sum, item) => sum + (item.finalPrice * item.quantity), 0);
-    const subtotalExcludingTva = cart.reduce((sum, item) => sum + (item.priceExcludingTva * item.quantity), 0);
-    const originalTax = cart.reduce((sum, item) => sum + (item.tvaAmount * item.quantity), 0);
+    const subtotalIncludingTva = cart.reduce((sum, item) => sum + item.total, 0);
+    // From line totals, which include the cashier's price changes
+    const subtotalExcludingTva = cart.reduce((sum, item) => sum + calculatePriceExcludingTva(item.total, item.tva), 0);
+    const originalTax = subtotalIncludingTva - subtotalExcludingTva;
     
     // Calculate discount code amount first
     let discountCodeAmount = 0;
@@ -342,9 +478,13 @@ export default function POSSystem() {
       discountCodeAmount = appliedDiscountCode.discountAmount;
     }
     
-    // Calculate manual order discount (applied after discount code)
+    // Calculate manual order discount (applied after discount code, gift cards
+    // are sold at face value)
     let manualDiscountAmount = 0;
-    const subtotalAfterCodeDiscount = subtotalIncludingTva - discountCodeAmount;
+    const giftCardTotal = cart
+      .filter((item) => item.isGiftCard)
+      .reduce((sum, item) => sum + item.total, 0);
+    const subtotalAfterCodeDiscount = subtotalIncludingTva - giftCardTotal - discountCodeAmount;
     if (orderDiscount > 0 && subtotalAfterCodeDiscount > 0) {
       if (orderDiscountType === "PERCENTAGE") {
         manualDiscountAmount = (subtotalAfterCodeDiscount * orderDiscount) / 100;
@@ -376,10 +516,59 @@ export default function POSSystem() {
 
   const totals = calculateTotals();
 
+  // The thank-you screen of the last sale ends with the next item
+  useEffect(() => {
+    if (cart.length > 0) setCompletedSale(null);
+  }, [cart.length]);
+
+  const displayState = useMemo<CustomerDisplayState>(() => {
+    if (cart.length === 0) {
+      return completedSale
+        ? { ...IDLE_CUSTOMER_DISPLAY, status: "COMPLETED", sale: completedSale }
+        : IDLE_CUSTOMER_DISPLAY;
+    }
+    return {
+      status: "CART",
+      lines: cart.map((item) => {
+        const adjusted = applyLineAdjustment(item.finalPrice, item.quantity, item.adjustment ?? {});
+        return {
+          id: item.id,
+          name: item.name,
+          quantity: formatQuantity(item.quantity, item.unit),
+          unitPrice: adjusted.unitPrice,
+          originalPrice: adjusted.unitPrice < item.price ? item.price : null,
+          total: item.total,
+          lineDiscount: adjusted.lineDiscountAmount,
+        };
+      }),
+      subtotal: totals.subtotalIncludingTva,
+      discount: Number((totals.discountAmount + totals.discountCodeAmount).toFixed(2)),
+      tax: totals.tax,
+      total: totals.total,
+      payment: displayPayment,
+      sale: null,
+    };
+  }, [
+    cart,
+    completedSale,
+    displayPayment,
+    totals.subtotalIncludingTva,
+    totals.discountAmount,
+    totals.discountCodeAmount,
+    totals.tax,
+    totals.total,
+  ]);
+  useCustomerDisplayPublisher(session?.user?.shopId, displayState);
+
   return (
     <div className="flex h-full gap-6">
       {/* Left Panel - Product Search & Cart (2/3 width) */}
       <div className="flex-1 flex flex-col min-w-0">
+        <BarcodeScanner
+          onScanned={addScannedItem}
+          canLinkBarcodes={session?.user?.role === "SHOP_ADMIN"}
+        />
+
         <ProductSearch
           searchQuery={searchQuery}
           setSearchQuery={setSearchQuery}
@@ -391,10 +580,22 @@ export default function POSSystem() {
           setSelectedVariants={setSelectedVariants}
           addToCart={addToCart}
         />
+
+        <HeldCarts
+          cart={cart}
+          customer={customer}
+          orderDiscount={orderDiscount}
+          orderDiscountType={orderDiscountType}
+          notes={notes}
+          hasDiscountCode={!!appliedDiscountCode}
+          onHeld={clearCart}
+          onResume={restoreHeldCart}
+        />
         
         <ShoppingCart
           cart={cart}
           updateCartItemQuantity={updateCartItemQuantity}
+          updateCartItemAdjustment={updateCartItemAdjustment}
           removeFromCart={removeFromCart}
           clearCart={clearCart}
         />
@@ -424,6 +625,8 @@ export default function POSSystem() {
         validateDiscountAmount={validateDiscountAmount}
         calculateDiscountPercentageForDB={calculateDiscountPercentageForDB}
         clearCart={clearCart}
+        onPaymentChange={setDisplayPayment}
+        onSaleCompleted={setCompletedSale}
         setSearchQuery={setSearchQuery}
         setSearchResults={setSearchResults}
       />
@@ -0,0 +1,314 @@
+// src/components/admin/pos/barcode-scanner.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useOfflinePos } from "@/contexts/offline-pos.context";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner.hook";
+import { useCurrency } from "@/hooks/use-currency.hook";
+import { lookupCachedBarcode } from "@/lib/pos/offline-store";
+import { Link2, Loader2, ScanLine, Search } from "lucide-react";
+import { Product } from "../pos-system";
+
+interface BarcodeMatchResponse {
+  products: Product[];
+  match: { variantId: string; quantity: number } | null;
+}
+
+interface BarcodeScannerProps {
+  // False when the item could not be added, e.g. out of stock
+  onScanned: (product: Product, variantId: string, quantity: number) => boolean;
+  canLinkBarcodes: boolean;
+}
+
+type ScanFeedback = "success" | "error";
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short high beep for a scanned item, low buzz for a failed scan
+ */
+function playScanTone(feedback: ScanFeedback) {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = feedback === "success" ? "sine" : "square";
+    oscillator.frequency.value = feedback === "success" ? 1800 : 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (feedback === "success" ? 0.08 : 0.3));
+  } catch {
+    // Audio is unavailable (no user gesture yet or unsupported), visual feedback only
+  }
+}
+
+/**
+ * Handle USB barcode scanners on the POS page: scanned variants go straight
+ * into the cart, unknown barcodes can be linked to a variant by an admin
+ */
+export default function BarcodeScanner({ onScanned, canLinkBarcodes }: BarcodeScannerProps) {
+  const { toast } = useToast();
+  const { formatPrice } = useCurrency();
+  const { isOnline, catalog } = useOfflinePos();
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [lastBarcode, setLastBarcode] = useState<string | null>(null);
+  const feedbackTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Unknown barcode
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [linkQuery, setLinkQuery] = useState("");
+  const [linkResults, setLinkResults] = useState<Product[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+
+  const signal = useCallback((result: ScanFeedback) => {
+    playScanTone(result);
+    setFeedback(result);
+    if (feedbackTimer.current) clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = setTimeout(() => setFeedback(null), 400);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (feedbackTimer.current) clearTimeout(feedbackTimer.current);
+    };
+  }, []);
+
+  const lookup = useCallback(
+    async (barcode: string): Promise<BarcodeMatchResponse> => {
+      try {
+        if (!isOnline) {
+          throw new Error("Offline");
+        }
+        const response = await fetch(`/api/pos/products?${new URLSearchParams({ barcode })}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to look up the barcode");
+        }
+        return data;
+      } catch (error) {
+        // Offline or unreachable: look the barcode up in the cached catalog
+        if (!catalog) {
+          throw error;
+        }
+        const match = lookupCachedBarcode(catalog, barcode);
+        return {
+          products: match ? [match.product as unknown as Product] : [],
+          match: match && { variantId: match.variantId, quantity: match.quantity },
+        };
+      }
+    },
+    [isOnline, catalog]
+  );
+
+  const addMatch = useCallback(
+    (data: BarcodeMatchResponse) => {
+      const added =
+        !!data.match && onScanned(data.products[0], data.match.variantId, data.match.quantity);
+      signal(added ? "success" : "error");
+      return added;
+    },
+    [onScanned, signal]
+  );
+
+  const handleScan = useCallback(
+    async (barcode: string) => {
+      setLastBarcode(barcode);
+      try {
+        const data = await lookup(barcode);
+        if (!data.match) {
+          signal("error");
+          setLinkQuery("");
+          setLinkResults([]);
+          setUnknownBarcode(barcode);
+          return;
+        }
+        addMatch(data);
+      } catch (error) {
+        signal("error");
+        toast({
+          title: "Scan Error",
+          description: error instanceof Error ? error.message : "Failed to look up the barcode",
+          variant: "destructive",
+        });
+      }
+    },
+    [lookup, addMatch, signal, toast]
+  );
+
+  // Scans are paused while the unknown barcode is being dealt with
+  useBarcodeScanner(handleScan, !unknownBarcode);
+
+  const searchVariants = async () => {
+    if (!linkQuery.trim()) return;
+    setIsSearching(true);
+    try {
+      const response = await fetch(
+        `/api/pos/products?${new URLSearchParams({ query: linkQuery.trim() })}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to search products");
+      }
+      setLinkResults(data.products);
+    } catch (error) {
+      toast({
+        title: "Search Error",
+        description: error instanceof Error ? error.message : "Failed to search products",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const linkBarcode = async (variantId: string) => {
+    if (!unknownBarcode) return;
+    setIsLinking(true);
+    try {
+      const response = await fetch("/api/pos/barcodes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ barcode: unknownBarcode, variantId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to link the barcode");
+      }
+
+      toast({
+        title: "Barcode Linked",
+        description: `${unknownBarcode} now scans as ${data.products[0].name}.`,
+      });
+      setUnknownBarcode(null);
+      addMatch(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to link the barcode",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Flash around the screen on each scan */}
+      {feedback && (
+        <div
+          className={`pointer-events-none fixed inset-0 z-50 border-8 ${
+            feedback === "success" ? "border-green-500/70" : "border-red-500/70"
+          }`}
+        />
+      )}
+
+      <div className="flex items-center gap-2 mb-4 text-xs text-slate-500">
+        <ScanLine
+          className={`h-4 w-4 ${
+            feedback === "success"
+              ? "text-green-600"
+              : feedback === "error"
+                ? "text-red-600"
+                : "text-slate-400"
+          }`}
+        />
+        <span>Scanner ready{lastBarcode && ` · last scan ${lastBarcode}`}</span>
+      </div>
+
+      <Dialog
+        open={!!unknownBarcode}
+        onOpenChange={(open) => {
+          if (!open) setUnknownBarcode(null);
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Unknown Barcode</DialogTitle>
+            <DialogDescription>
+              No product of the catalog has the barcode{" "}
+              <span className="font-mono font-semibold">{unknownBarcode}</span>.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!canLinkBarcodes ? (
+            <p className="text-sm text-gray-600">
+              Ask an admin to link this barcode to a product, or search the product by name.
+            </p>
+          ) : !isOnline ? (
+            <p className="text-sm text-gray-600">
+              Barcodes can be linked to products once the register is back online.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Find the product by name or SKU"
+                  value={linkQuery}
+                  onChange={(e) => setLinkQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") searchVariants();
+                  }}
+                  autoFocus
+                />
+                <Button variant="outline" onClick={searchVariants} disabled={isSearching}>
+                  {isSearching ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Search className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+              <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                {linkResults.map((product) =>
+                  product.variants.map((variant) => (
+                    <div
+                      key={variant.id}
+                      className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-800">
+                          {product.name} - {variant.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatPrice(variant.finalPrice || variant.price)}
+                          {variant.barcode && ` · replaces barcode ${variant.barcode}`}
+                        </p>
+                      </div>
+                      <Button size="sm" onClick={() => linkBarcode(variant.id)} disabled={isLinking}>
+                        <Link2 className="h-4 w-4 mr-2" />
+                        Link
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUnknownBarcode(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,257 @@
+// src/components/admin/pos/customer-display.tsx
+"use client";
+
+import Image from "next/image";
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useCurrency } from "@/hooks/use-currency.hook";
+import { useCustomerDisplayState } from "@/hooks/use-customer-display.hook";
+import { getImageUrl } from "@/lib/utils";
+import { CustomerDisplayState, IDLE_CUSTOMER_DISPLAY } from "@/lib/pos/customer-display";
+import { Maximize, ShoppingBag } from "lucide-react";
+
+interface Promotion {
+  id: string;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  percentage: number;
+  endDate: string;
+}
+
+interface IdleContent {
+  shopName: string;
+  logo: string | null;
+  description: string | null;
+  promotions: Promotion[];
+}
+
+// Each promotion stays on screen this long
+const PROMOTION_INTERVAL_MS = 8000;
+// The thank-you screen goes back to idle after this long
+const COMPLETED_SCREEN_MS = 20000;
+
+/**
+ * Customer-facing screen of the register, mirroring the cart from the POS
+ * window of the same browser. Open it on the second monitor.
+ */
+export default function CustomerDisplay() {
+  const { data: session } = useSession();
+  const state = useCustomerDisplayState(session?.user?.shopId) ?? IDLE_CUSTOMER_DISPLAY;
+  const [idleContent, setIdleContent] = useState<IdleContent | null>(null);
+  const [saleExpired, setSaleExpired] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/pos/display")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: IdleContent | null) => setIdleContent(data))
+      .catch(() => setIdleContent(null));
+  }, []);
+
+  // Back to the idle screen a while after the sale
+  useEffect(() => {
+    setSaleExpired(false);
+    if (state.status !== "COMPLETED") return;
+    const timeout = setTimeout(() => setSaleExpired(true), COMPLETED_SCREEN_MS);
+    return () => clearTimeout(timeout);
+  }, [state.status, state.sale]);
+
+  const showIdle = state.status === "IDLE" || (state.status === "COMPLETED" && saleExpired);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-slate-900 text-white">
+      {showIdle ? (
+        <IdleScreen content={idleContent} fallbackName={session?.user?.shopName} />
+      ) : state.status === "COMPLETED" ? (
+        <CompletedScreen state={state} />
+      ) : (
+        <CartScreen state={state} />
+      )}
+
+      {/* Browsers only allow full screen after a click on the page */}
+      <button
+        type="button"
+        onClick={() => document.documentElement.requestFullscreen?.().catch(() => undefined)}
+        className="absolute right-3 top-3 rounded p-2 text-slate-500 hover:bg-slate-800 hover:text-slate-300"
+        title="Full screen"
+      >
+        <Maximize className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+function IdleScreen({
+  content,
+  fallbackName,
+}: {
+  content: IdleContent | null;
+  fallbackName?: string | null;
+}) {
+  const [index, setIndex] = useState(0);
+  const promotions = content?.promotions ?? [];
+
+  useEffect(() => {
+    if (promotions.length <= 1) return;
+    const interval = setInterval(
+      () => setIndex((current) => (current + 1) % promotions.length),
+      PROMOTION_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [promotions.length]);
+
+  const promotion = promotions[index % Math.max(promotions.length, 1)];
+
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-8 p-10">
+      <div className="flex items-center gap-4">
+        {content?.logo && (
+          <Image
+            src={getImageUrl(content.logo)}
+            alt=""
+            width={64}
+            height={64}
+            className="h-16 w-16 rounded-lg bg-white object-contain p-1"
+            unoptimized
+          />
+        )}
+        <div>
+          <h1 className="text-4xl font-bold">{content?.shopName || fallbackName}</h1>
+          {content?.description && <p className="text-lg text-slate-300">{content.description}</p>}
+        </div>
+      </div>
+
+      {promotion?.image ? (
+        <div className="flex w-full max-w-4xl flex-col items-center gap-4">
+          <Image
+            key={promotion.id}
+            src={getImageUrl(promotion.image)}
+            alt={promotion.title ?? ""}
+            width={1280}
+            height={720}
+            className="h-auto max-h-[60vh] w-full rounded-xl object-contain"
+            unoptimized
+          />
+          <div className="text-center">
+            <p className="text-3xl font-semibold">
+              {promotion.title || `-${promotion.percentage}%`}
+            </p>
+            {promotion.description && (
+              <p className="text-lg text-slate-300">{promotion.description}</p>
+            )}
+            <p className="mt-1 text-sm text-slate-400">
+              Until {new Date(promotion.endDate).toLocaleDateString("fr-FR")}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-2xl text-slate-300">Welcome!</p>
+      )}
+    </div>
+  );
+}
+
+function CartScreen({ state }: { state: CustomerDisplayState }) {
+  const { formatPrice } = useCurrency();
+
+  return (
+    <div className="flex flex-1 gap-8 overflow-hidden p-8">
+      <div className="flex flex-1 flex-col overflow-hidden rounded-xl bg-slate-800">
+        <h2 className="flex items-center gap-2 border-b border-slate-700 p-5 text-xl font-semibold">
+          <ShoppingBag className="h-5 w-5" />
+          Your purchase
+        </h2>
+        <ul className="flex-1 divide-y divide-slate-700 overflow-y-auto">
+          {state.lines.map((line) => (
+            <li key={line.id} className="flex justify-between gap-4 px-5 py-3 text-lg">
+              <div>
+                <p className="font-medium">{line.name}</p>
+                <p className="text-sm text-slate-400">
+                  {line.quantity} x{" "}
+                  {line.originalPrice !== null && (
+                    <span className="mr-1 line-through">{formatPrice(line.originalPrice)}</span>
+                  )}
+                  {formatPrice(line.unitPrice)}
+                </p>
+                {line.lineDiscount > 0 && (
+                  <p className="text-sm text-green-400">Discount -{formatPrice(line.lineDiscount)}</p>
+                )}
+              </div>
+              <span className="font-semibold">{formatPrice(line.total)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex w-96 flex-col justify-end gap-3 rounded-xl bg-slate-800 p-6 text-lg">
+        <div className="flex justify-between">
+          <span className="text-slate-300">Subtotal</span>
+          <span>{formatPrice(state.subtotal)}</span>
+        </div>
+        {state.discount > 0 && (
+          <div className="flex justify-between text-green-400">
+            <span>Discount</span>
+            <span>-{formatPrice(state.discount)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-slate-300">
+          <span>Incl. TVA</span>
+          <span>{formatPrice(state.tax)}</span>
+        </div>
+        <div className="flex justify-between border-t border-slate-600 pt-3 text-3xl font-bold">
+          <span>Total</span>
+          <span>{formatPrice(state.total)}</span>
+        </div>
+
+        {state.payment && state.payment.tendered > 0 && (
+          <div className="mt-4 space-y-2 rounded-lg bg-slate-700 p-4">
+            <div className="flex justify-between">
+              <span className="text-slate-300">Paid</span>
+              <span>{formatPrice(state.payment.tendered)}</span>
+            </div>
+            {state.payment.remaining > 0 ? (
+              <div className="flex justify-between text-amber-300">
+                <span>Remaining</span>
+                <span>{formatPrice(state.payment.remaining)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between text-2xl font-semibold text-green-400">
+                <span>Change</span>
+                <span>{formatPrice(state.payment.change)}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CompletedScreen({ state }: { state: CustomerDisplayState }) {
+  const { formatPrice } = useCurrency();
+  const sale = state.sale;
+
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-6 p-10 text-center">
+      <h1 className="text-5xl font-bold">Thank you!</h1>
+      {sale && (
+        <div className="space-y-2 text-2xl">
+          <p>
+            Total <span className="font-semibold">{formatPrice(sale.total)}</span>
+          </p>
+          {sale.tendered > 0 && (
+            <p className="text-slate-300">Paid {formatPrice(sale.tendered)}</p>
+          )}
+          {sale.change > 0 && (
+            <p className="text-4xl font-bold text-green-400">
+              Your change: {formatPrice(sale.change)}
+            </p>
+          )}
+          {sale.orderNumber && (
+            <p className="text-base text-slate-400">Order {sale.orderNumber}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
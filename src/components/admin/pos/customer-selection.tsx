@@ -1,14 +1,19 @@
 import React from "react";
-import { X } from "lucide-react";
+import { AlertTriangle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useCurrency } from "@/hooks/use-currency.hook";
 
 interface Customer {
   id: string;
   name: string;
   email: string;
   phone?: string;
+  checksFlaggedAt?: string | null;
+  checksFlagReason?: string | null;
+  accountBalance?: number;
+  creditLimit?: number;
 }
 
 interface CustomerSelectionProps {
@@ -26,6 +31,8 @@ export default function CustomerSelection({
   setCustomers,
   onSearchCustomers,
 }: CustomerSelectionProps) {
+  const { formatPrice } = useCurrency();
+
   return (
     <div className="mb-6">
       <Label htmlFor="customer" className="text-slate-700 font-semibold text-sm">
@@ -48,7 +55,12 @@ export default function CustomerSelection({
                   setCustomers([]);
                 }}
               >
-                <p className="font-semibold text-slate-900">{cust.name}</p>
+                <p className="font-semibold text-slate-900">
+                  {cust.name}
+                  {cust.checksFlaggedAt && (
+                    <AlertTriangle className="ml-1 inline h-3 w-3 text-red-600" />
+                  )}
+                </p>
                 <p className="text-sm text-slate-600">{cust.email}</p>
                 {cust.phone && (
                   <p className="text-sm text-slate-600">{cust.phone}</p>
@@ -65,6 +77,19 @@ export default function CustomerSelection({
               {customer.phone && (
                 <p className="text-sm text-slate-600">{customer.phone}</p>
               )}
+              {customer.checksFlaggedAt && (
+                <p className="mt-1 flex items-center gap-1 text-sm font-medium text-red-600">
+                  <AlertTriangle className="h-3 w-3" />
+                  {customer.checksFlagReason || "A check of this customer bounced"}
+                </p>
+              )}
+              {!!customer.accountBalance && (
+                <p className="text-sm text-slate-600">
+                  {customer.accountBalance > 0
+                    ? `Owes ${formatPrice(customer.accountBalance)} on account`
+                    : `Store credit: ${formatPrice(-customer.accountBalance)}`}
+                </p>
+              )}
             </div>
             <Button 
               size="sm" 
@@ -10,6 +10,8 @@ import { Check, X, Tag, Loader2, AlertCircle, ChevronDown, ChevronUp } from "luc
 import { useToast } from "@/components/ui/use-toast";
 import { useCurrency } from "@/hooks/use-currency.hook";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useOfflinePos } from "@/contexts/offline-pos.context";
+import { applyCachedDiscountCode } from "@/lib/pos/offline-store";
 
 interface CartItem {
   id: string;
@@ -17,6 +19,7 @@ interface CartItem {
   variantId: string;
   name: string;
   price: number;
+  finalPrice: number;
   quantity: number;
   total: number;
 }
@@ -55,6 +58,7 @@ export default function DiscountCodeInput({
 }: DiscountCodeInputProps) {
   const { toast } = useToast();
   const { formatPrice } = useCurrency();
+  const { isOnline, catalog } = useOfflinePos();
   
   const [discountCode, setDiscountCode] = useState("");
   const [isValidating, setIsValidating] = useState(false);
@@ -91,32 +95,44 @@ export default function DiscountCodeInput({
     setValidationError(null);
 
     try {
-      // Prepare cart data for validation
+      // Prepare cart data for validation (codes apply on top of automatic discounts)
       const cartItems = cart.map(item => ({
         productId: item.productId,
         variantId: item.variantId,
         quantity: item.quantity,
-        price: item.price,
+        price: item.finalPrice,
       }));
 
-      const response = await fetch("/api/discount-codes/validate", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          code: discountCode.trim(),
-          orderSource: "IN_STORE",
-          customerId: customer?.id,
-          cartItems,
-          subtotal,
-        }),
-      });
+      let result;
+      if (isOnline) {
+        const response = await fetch("/api/discount-codes/validate", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            code: discountCode.trim(),
+            orderSource: "IN_STORE",
+            customerId: customer?.id,
+            cartItems,
+            subtotal,
+          }),
+        });
 
-      const result = await response.json();
+        result = await response.json();
 
-      if (!response.ok) {
-        throw new Error(result.error || "Failed to validate discount code");
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to validate discount code");
+        }
+      } else {
+        // Offline: check the code against the ones cached with the catalog
+        if (!catalog) {
+          throw new Error("Discount codes are not available offline yet");
+        }
+        const cached = applyCachedDiscountCode(catalog, discountCode, cart, customer?.id);
+        result = "error" in cached
+          ? { valid: false, error: cached.error }
+          : { valid: true, ...cached };
       }
 
       if (result.valid && result.discountCode && result.discountAmount) {
@@ -0,0 +1,360 @@
+// src/components/admin/pos/held-carts.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { PriceAdjustmentReason } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useCurrency } from "@/hooks/use-currency.hook";
+import { applyLineAdjustment, LineDiscountType } from "@/lib/pos/price-adjustments";
+import { Loader2, PauseCircle, PlayCircle, Trash2 } from "lucide-react";
+import { CartItem, Customer, Product } from "../pos-system";
+
+export interface HeldCartSummary {
+  id: string;
+  name: string;
+  notes: string | null;
+  orderDiscount: number;
+  orderDiscountType: "PERCENTAGE" | "FIXED";
+  expiresAt: string;
+  createdAt: string;
+  customer: { id: string; name: string | null; email: string } | null;
+  heldBy: { id: string; name: string | null };
+  items: {
+    id: string;
+    productId: string;
+    variantId: string;
+    quantity: number;
+    unitPrice: number;
+    priceOverride: number | null;
+    lineDiscount: number | null;
+    lineDiscountType: LineDiscountType | null;
+    adjustmentReason: PriceAdjustmentReason | null;
+    adjustmentNote: string | null;
+    product: { name: string };
+    variant: { name: string };
+  }[];
+}
+
+interface HeldCartsProps {
+  cart: CartItem[];
+  customer: Customer | null;
+  orderDiscount: number;
+  orderDiscountType: "PERCENTAGE" | "FIXED";
+  notes: string;
+  hasDiscountCode: boolean;
+  onHeld: () => void;
+  onResume: (heldCart: HeldCartSummary, products: Product[]) => void;
+}
+
+const HOLD_DURATIONS = [
+  { minutes: 60, label: "1 hour" },
+  { minutes: 4 * 60, label: "4 hours" },
+  { minutes: 8 * 60, label: "8 hours" },
+  { minutes: 24 * 60, label: "24 hours" },
+];
+
+/**
+ * Park the current cart to serve another customer, and resume parked carts
+ * from any register of the shop
+ */
+export default function HeldCarts({
+  cart,
+  customer,
+  orderDiscount,
+  orderDiscountType,
+  notes,
+  hasDiscountCode,
+  onHeld,
+  onResume,
+}: HeldCartsProps) {
+  const { toast } = useToast();
+  const { formatPrice } = useCurrency();
+  const [heldCarts, setHeldCarts] = useState<HeldCartSummary[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Hold
+  const [isHolding, setIsHolding] = useState(false);
+  const [name, setName] = useState("");
+  const [holdMinutes, setHoldMinutes] = useState(String(4 * 60));
+
+  // List
+  const [isListOpen, setIsListOpen] = useState(false);
+
+  const loadHeldCarts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/pos/held-carts");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load held carts");
+      }
+      setHeldCarts(data.data);
+    } catch (error) {
+      console.error("Error loading held carts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHeldCarts();
+  }, [loadHeldCarts]);
+
+  const startHolding = () => {
+    setName(customer?.name || "");
+    setIsHolding(true);
+  };
+
+  const handleHold = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/pos/held-carts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name,
+          customerId: customer?.id,
+          notes,
+          orderDiscount,
+          orderDiscountType,
+          expiresInMinutes: Number(holdMinutes),
+          items: cart.map((item) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            unitPrice: item.finalPrice,
+            ...item.adjustment,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to hold the cart");
+      }
+
+      toast({
+        title: "Cart Held",
+        description: hasDiscountCode
+          ? `${data.name} is on hold. Apply the discount code again when resuming it.`
+          : `${data.name} is on hold.`,
+      });
+      setIsHolding(false);
+      onHeld();
+      await loadHeldCarts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to hold the cart",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResume = async (heldCart: HeldCartSummary) => {
+    if (cart.length > 0) {
+      toast({
+        title: "Cart Not Empty",
+        description: "Hold or clear the current cart before resuming another one.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/pos/held-carts/${heldCart.id}/resume`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resume the cart");
+      }
+
+      onResume(data.heldCart, data.products);
+      setIsListOpen(false);
+      await loadHeldCarts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resume the cart",
+        variant: "destructive",
+      });
+      await loadHeldCarts();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (heldCart: HeldCartSummary) => {
+    if (!confirm(`Delete the held cart "${heldCart.name}"? Its items will be released.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/pos/held-carts/${heldCart.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete the cart");
+      }
+      await loadHeldCarts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete the cart",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex gap-2 mb-4">
+      <Button variant="outline" size="sm" onClick={startHolding} disabled={cart.length === 0}>
+        <PauseCircle className="h-4 w-4 mr-2" />
+        Hold Cart
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          setIsListOpen(true);
+          loadHeldCarts();
+        }}
+      >
+        <PlayCircle className="h-4 w-4 mr-2" />
+        Held Carts ({heldCarts.length})
+      </Button>
+
+      {/* Hold the current cart */}
+      <Dialog open={isHolding} onOpenChange={setIsHolding}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Hold Cart</DialogTitle>
+            <DialogDescription>
+              The items stay reserved for this customer until the cart is resumed or expires.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="held-cart-name">Name</Label>
+              <Input
+                id="held-cart-name"
+                placeholder="e.g. Lady in the red coat"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Keep for</Label>
+              <Select value={holdMinutes} onValueChange={setHoldMinutes}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOLD_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.minutes} value={String(duration.minutes)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsHolding(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleHold} disabled={isSubmitting || !name.trim()}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Hold Cart
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Carts held at any register */}
+      <Dialog open={isListOpen} onOpenChange={setIsListOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Held Carts</DialogTitle>
+            <DialogDescription>Carts parked at the registers of the shop.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {heldCarts.length === 0 && (
+              <p className="text-sm text-gray-500">No carts on hold.</p>
+            )}
+            {heldCarts.map((heldCart) => {
+              const total = heldCart.items.reduce(
+                (sum, item) =>
+                  sum + applyLineAdjustment(item.unitPrice, item.quantity, item).lineTotal,
+                0
+              );
+              return (
+                <div key={heldCart.id} className="rounded-md border p-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-800">{heldCart.name}</p>
+                      <p className="text-gray-500">
+                        {heldCart.customer?.name || heldCart.customer?.email || "Walk-in customer"}{" "}
+                        · held by {heldCart.heldBy.name || "staff"} at{" "}
+                        {new Date(heldCart.createdAt).toLocaleTimeString("fr-FR", {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </p>
+                      <p className="text-gray-500">
+                        Expires{" "}
+                        {new Date(heldCart.expiresAt).toLocaleString("fr-FR", {
+                          dateStyle: "short",
+                          timeStyle: "short",
+                        })}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-gray-800">{formatPrice(total)}</p>
+                      <div className="flex gap-1 mt-1">
+                        <Button
+                          size="sm"
+                          onClick={() => handleResume(heldCart)}
+                          disabled={isSubmitting}
+                        >
+                          Resume
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(heldCart)}
+                          disabled={isSubmitting}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  <ul className="mt-2 text-xs text-gray-600">
+                    {heldCart.items.map((item) => (
+                      <li key={item.id}>
+                        {item.quantity} × {item.product.name} - {item.variant.name}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
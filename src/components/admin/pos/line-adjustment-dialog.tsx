@@ -0,0 +1,240 @@
+// src/components/admin/pos/line-adjustment-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useShopSettings } from "@/contexts/shop-settings.context";
+import { useCurrency } from "@/hooks/use-currency.hook";
+import {
+  applyLineAdjustment,
+  getAdjustmentPercentage,
+  getLineAdjustmentError,
+  hasLineAdjustment,
+  LineAdjustmentInput,
+  LineDiscountType,
+  PRICE_ADJUSTMENT_REASON_LABELS,
+  PRICE_ADJUSTMENT_REASONS,
+} from "@/lib/pos/price-adjustments";
+import { ShieldCheck } from "lucide-react";
+import { CartItem } from "../pos-system";
+
+interface LineAdjustmentDialogProps {
+  item: CartItem | null;
+  onClose: () => void;
+  onApply: (cartItemId: string, adjustment: LineAdjustmentInput | null) => void;
+}
+
+/**
+ * Override the price of a cart line or give a manual discount on it, with a
+ * reason. Limited to the role's maximum set in the shop settings.
+ */
+export default function LineAdjustmentDialog({ item, onClose, onApply }: LineAdjustmentDialogProps) {
+  const { data: session } = useSession();
+  const { settings } = useShopSettings();
+  const { formatPrice } = useCurrency();
+  const [priceOverride, setPriceOverride] = useState("");
+  const [lineDiscount, setLineDiscount] = useState("");
+  const [lineDiscountType, setLineDiscountType] = useState<LineDiscountType>("PERCENTAGE");
+  const [reason, setReason] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!item) return;
+    const adjustment = item.adjustment;
+    setPriceOverride(
+      adjustment?.priceOverride !== undefined && adjustment.priceOverride !== null
+        ? String(adjustment.priceOverride)
+        : ""
+    );
+    setLineDiscount(adjustment?.lineDiscount ? String(adjustment.lineDiscount) : "");
+    setLineDiscountType(adjustment?.lineDiscountType ?? "PERCENTAGE");
+    setReason(adjustment?.adjustmentReason ?? "");
+    setNote(adjustment?.adjustmentNote ?? "");
+  }, [item]);
+
+  if (!item) return null;
+
+  const isAdmin = session?.user?.role === "SHOP_ADMIN";
+  const staffLimit = settings?.maxStaffLineDiscount ?? 10;
+  const adminLimit = settings?.maxAdminLineDiscount ?? 100;
+
+  const input: LineAdjustmentInput = {
+    priceOverride: priceOverride.trim() === "" ? null : parseFloat(priceOverride),
+    lineDiscount: parseFloat(lineDiscount) || 0,
+    lineDiscountType,
+    adjustmentReason: reason || null,
+    adjustmentNote: note.trim() || null,
+  };
+  const changed = hasLineAdjustment(input);
+  const error = changed ? getLineAdjustmentError(item.price, input) : null;
+  const referenceTotal = applyLineAdjustment(item.finalPrice, item.quantity, {}).lineTotal;
+  const adjusted = applyLineAdjustment(item.finalPrice, item.quantity, input);
+  const percentage = getAdjustmentPercentage(referenceTotal, adjusted.lineTotal);
+  const overLimit = percentage > adminLimit;
+  const needsApproval = !isAdmin && !overLimit && percentage > staffLimit;
+
+  return (
+    <Dialog
+      open={!!item}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Line Price</DialogTitle>
+          <DialogDescription>
+            {item.name} - catalog price {formatPrice(item.price)}
+            {item.finalPrice !== item.price && `, now ${formatPrice(item.finalPrice)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="line-price-override">New unit price (TVA incl.)</Label>
+            <Input
+              id="line-price-override"
+              type="number"
+              min="0"
+              step="0.01"
+              max={item.price}
+              placeholder={item.finalPrice.toFixed(2)}
+              value={priceOverride}
+              onChange={(e) => setPriceOverride(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="line-discount">Line discount</Label>
+            <div className="flex gap-2">
+              <Input
+                id="line-discount"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0"
+                value={lineDiscount}
+                onChange={(e) => setLineDiscount(e.target.value)}
+              />
+              <Select
+                value={lineDiscountType}
+                onValueChange={(value) => setLineDiscountType(value as LineDiscountType)}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENTAGE">%</SelectItem>
+                  <SelectItem value="FIXED">Amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {PRICE_ADJUSTMENT_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {PRICE_ADJUSTMENT_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {reason === "OTHER" && (
+            <div className="space-y-2">
+              <Label htmlFor="line-adjustment-note">Details</Label>
+              <Input
+                id="line-adjustment-note"
+                maxLength={120}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+
+          {changed && !error && (
+            <div className="rounded-md bg-slate-50 p-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-slate-600">Line total</span>
+                <span className="font-semibold text-slate-900">
+                  <span className="mr-2 text-xs text-gray-400 line-through">
+                    {formatPrice(referenceTotal)}
+                  </span>
+                  {formatPrice(adjusted.lineTotal)}
+                </span>
+              </div>
+              {percentage > 0 && (
+                <p className="text-xs text-slate-500">{percentage}% off the current price</p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {overLimit && (
+            <p className="text-sm text-red-600">
+              Line price changes are limited to {adminLimit}% of the line.
+            </p>
+          )}
+          {needsApproval && (
+            <p className="flex items-center gap-2 text-sm text-amber-700">
+              <ShieldCheck className="h-4 w-4" />
+              Above {staffLimit}%, a shop admin approves the sale with their PIN at checkout.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {item.adjustment && (
+            <Button
+              variant="ghost"
+              className="mr-auto text-red-600 hover:text-red-700"
+              onClick={() => {
+                onApply(item.id, null);
+                onClose();
+              }}
+            >
+              Remove change
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onApply(item.id, input);
+              onClose();
+            }}
+            disabled={!changed || !!error || overLimit}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
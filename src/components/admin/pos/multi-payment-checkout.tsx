@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { DollarSign } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,6 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/components/ui/use-toast";
 import { useCurrency } from "@/hooks/use-currency.hook";
+import { useOfflinePos } from "@/contexts/offline-pos.context";
+import { useManagerApproval } from "@/components/admin/manager-approval-dialog";
 
 // Import our new components
 import CustomerSelection from "./customer-selection";
@@ -14,16 +16,19 @@ import PaymentMethodCard from "./payment-method-card";
 import OrderActions from "./order-actions";
 import DiscountCodeInput from "./discount-code-input";
 import { Customer, CartItem, AppliedDiscountCode } from "../pos-system";
+import type { CustomerDisplayPayment, CustomerDisplaySale } from "@/lib/pos/customer-display";
 
 interface PaymentMethod {
   id: string;
-  method: "CASH" | "CREDIT_CARD" | "CHECK";
+  method: "CASH" | "CREDIT_CARD" | "CHECK" | "ON_ACCOUNT" | "GIFT_CARD";
   amount: number;
   cashGiven?: number;
   cashChange?: number;
   checkNumber?: string;
   checkBankName?: string;
   checkDate?: Date;
+  giftCardCode?: string;
+  giftCardBalance?: number; // Known once the card was checked
   notes?: string;
 }
 
@@ -57,6 +62,8 @@ interface MultiPaymentCheckoutProps {
   validateDiscountAmount: (amount: number, type: "PERCENTAGE" | "FIXED", subtotalIncludingTva: number) => boolean;
   calculateDiscountPercentageForDB: (amount: number, type: "PERCENTAGE" | "FIXED", subtotalIncludingTva: number) => number;
   clearCart: () => void;
+  onPaymentChange: (payment: CustomerDisplayPayment | null) => void;
+  onSaleCompleted: (sale: CustomerDisplaySale) => void;
   setSearchQuery: (query: string) => void;
   setSearchResults: (results: any[]) => void;
 }
@@ -82,10 +89,18 @@ export default function MultiPaymentCheckout({
   validateDiscountAmount,
   calculateDiscountPercentageForDB,
   clearCart,
+  onPaymentChange,
+  onSaleCompleted,
   setSearchQuery,
   setSearchResults,
 }: MultiPaymentCheckoutProps) {
   const { toast } = useToast();
+  const { isOnline, queueSale } = useOfflinePos();
+  const { sendWithApproval, approvalDialog } = useManagerApproval();
+  // Reference of the sale being checked out, kept across retries until it is recorded
+  const saleReferenceRef = useRef<string | null>(null);
+  // Last recorded sale, to print its receipt
+  const [lastSale, setLastSale] = useState<{ id: string; orderNumber: string } | null>(null);
   const { formatPrice, currencySymbol } = useCurrency();
 
   // Payment methods state - start with cash by default with empty amount
@@ -111,6 +126,23 @@ export default function MultiPaymentCheckout({
     }
   }, [totals.total]);
 
+  // Cash handed over plus other payments, and the change, for the customer display
+  const tendered = Number(
+    paymentMethods
+      .reduce((sum, p) => sum + (p.method === 'CASH' ? p.cashGiven ?? 0 : p.amount), 0)
+      .toFixed(2)
+  );
+  const cashChange = Number(
+    paymentMethods.reduce((sum, p) => sum + (p.cashChange ?? 0), 0).toFixed(2)
+  );
+  React.useEffect(() => {
+    onPaymentChange(
+      tendered > 0
+        ? { tendered, remaining: Math.max(0, Number((totals.total - tendered).toFixed(2))), change: cashChange }
+        : null
+    );
+  }, [tendered, cashChange, totals.total, onPaymentChange]);
+
   // Search customers
   const searchCustomers = async (query: string) => {
     if (!query.trim() || query.trim().length < 3) {
@@ -143,11 +175,20 @@ export default function MultiPaymentCheckout({
   };
 
   // Add new payment method
-  const addPaymentMethod = (type: "CASH" | "CREDIT_CARD" | "CHECK") => {
+  const addPaymentMethod = (type: "CASH" | "CREDIT_CARD" | "CHECK" | "ON_ACCOUNT" | "GIFT_CARD") => {
     const remainingAmount = getTotalPaidAmount() - totals.total;
     
-    // Check if this payment type already exists (except for CHECK which can have multiple)
-    if (type !== "CHECK") {
+    if (type === "ON_ACCOUNT" && !customer) {
+      toast({
+        title: "Customer Required",
+        description: "Select a customer to charge the sale to their account.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Check if this payment type already exists (except for checks and gift cards which can have multiple)
+    if (type !== "CHECK" && type !== "GIFT_CARD") {
       const existingPayment = paymentMethods.find(p => p.method === type);
       if (existingPayment) {
         toast({
@@ -280,6 +321,15 @@ export default function MultiPaymentCheckout({
     }
   }, [paymentMethods.filter(p => p.method !== 'CASH').map(p => p.amount), totals.total]); // Only watch non-cash amounts
 
+  // What the selected customer can still charge to their account
+  const availableCredit = customer
+    ? Math.max(0, Math.round(((customer.creditLimit ?? 0) - (customer.accountBalance ?? 0)) * 100) / 100)
+    : null;
+
+  // Gift cards cannot buy other gift cards, and need the server to check their balance
+  const hasGiftCardItems = cart.some((item) => item.isGiftCard);
+  const canPayWithGiftCard = isOnline && !hasGiftCardItems;
+
   // Get total amount paid across all payment methods (with proper rounding)
   const getTotalPaidAmount = () => {
     const total = paymentMethods.reduce((sum, payment) => sum + (payment.amount || 0), 0);
@@ -322,6 +372,62 @@ export default function MultiPaymentCheckout({
         }
       }
 
+      // Sales on account stay within the customer credit limit
+      if (payment.method === 'ON_ACCOUNT') {
+        if (availableCredit === null) {
+          return {
+            valid: false,
+            message: "Select a customer to charge the account"
+          };
+        }
+        if (payment.amount > availableCredit + tolerance) {
+          return {
+            valid: false,
+            message: `Only ${formatPrice(availableCredit)} is available on the customer account`
+          };
+        }
+      }
+
+      // Gift cards are checked for their balance before paying with them
+      if (payment.method === 'GIFT_CARD') {
+        if (!payment.giftCardCode || payment.giftCardCode.trim() === '') {
+          return {
+            valid: false,
+            message: "Gift card code is required"
+          };
+        }
+        if (payment.giftCardBalance === undefined) {
+          return {
+            valid: false,
+            message: "Check the gift card balance before paying"
+          };
+        }
+        if (payment.amount > payment.giftCardBalance + tolerance) {
+          return {
+            valid: false,
+            message: `Only ${formatPrice(payment.giftCardBalance)} is left on the gift card`
+          };
+        }
+        if (paymentMethods.filter(p => p.method === 'GIFT_CARD' && p.giftCardCode?.trim().toUpperCase() === payment.giftCardCode?.trim().toUpperCase()).length > 1) {
+          return {
+            valid: false,
+            message: "The same gift card is used twice"
+          };
+        }
+        if (hasGiftCardItems) {
+          return {
+            valid: false,
+            message: "Gift cards cannot be paid with a gift card"
+          };
+        }
+        if (!isOnline) {
+          return {
+            valid: false,
+            message: "Gift cards can only be used while online"
+          };
+        }
+      }
+
       // Check payment validations
       if (payment.method === 'CHECK' && payment.amount > 0) {
         if (!payment.checkNumber || payment.checkNumber.trim() === '') {
@@ -383,6 +489,26 @@ export default function MultiPaymentCheckout({
       return;
     }
 
+    // Reset the form once the sale is recorded or queued
+    const resetCheckout = () => {
+      saleReferenceRef.current = null;
+      clearCart();
+      setSearchQuery("");
+      setSearchResults([]);
+      setPaymentMethods([{
+        id: 'cash-1',
+        method: 'CASH',
+        amount: 0,
+        cashGiven: undefined,
+        cashChange: 0
+      }]);
+    };
+
+    // One reference per sale, also sent as Idempotency-Key: a double submit,
+    // a retry or a queued sale is never recorded twice
+    saleReferenceRef.current ??= crypto.randomUUID();
+    const clientReference = saleReferenceRef.current;
+
     setIsProcessing(true);
     try {
       // Send the exact discount amounts that were calculated in frontend
@@ -392,6 +518,8 @@ export default function MultiPaymentCheckout({
           productId: item.productId,
           variantId: item.variantId,
           quantity: item.quantity,
+          // Price override / manual discount with its reason, checked again by the server
+          ...item.adjustment,
         })),
         paymentMethods: paymentMethods.map(payment => ({
           method: payment.method,
@@ -401,6 +529,7 @@ export default function MultiPaymentCheckout({
           checkNumber: payment.checkNumber,
           checkBankName: payment.checkBankName,
           checkDate: payment.checkDate,
+          giftCardCode: payment.giftCardCode,
           notes: payment.notes,
         })),
         // Send discount code info if applied
@@ -415,18 +544,42 @@ export default function MultiPaymentCheckout({
         expectedManualDiscountAmount: totals.discountAmount,
         expectedTotal: totals.total,
         notes,
-        // Set status based on payment methods
-        orderStatus: "DELIVERED", // IN_STORE orders are delivered immediately
-        paymentStatus: paymentMethods.some(p => p.method === 'CHECK') ? "PENDING" : "COMPLETED"
       };
 
-      const response = await fetch("/api/pos/orders", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(orderData),
-      });
+      const queueOfflineSale = async () => {
+        await queueSale({ clientReference, total: totals.total, payload: orderData });
+        onSaleCompleted({ orderNumber: null, total: totals.total, tendered, change: cashChange });
+        toast({
+          title: "Sale Saved Offline",
+          description: `${formatPrice(totals.total)} will be synced when the connection is back.`,
+        });
+        resetCheckout();
+      };
+
+      if (!isOnline) {
+        await queueOfflineSale();
+        return;
+      }
+
+      let response: Response;
+      try {
+        // Manual discounts and price overrides given by a staff member need a shop admin's approval
+        response = await sendWithApproval((approvalIds) =>
+          fetch("/api/pos/orders", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": clientReference,
+            },
+            body: JSON.stringify({ ...orderData, clientReference, approvalIds }),
+          })
+        );
+      } catch (networkError) {
+        // The server never answered: keep the sale, the reference prevents a double record
+        console.error("Network error while creating order, queueing it:", networkError);
+        await queueOfflineSale();
+        return;
+      }
 
       const data = await response.json();
 
@@ -441,20 +594,24 @@ export default function MultiPaymentCheckout({
           title: "Order Completed",
           description: successMessage,
         });
+        // The codes of the cards sold are also printed on the receipt
+        if (data.order.giftCards?.length > 0) {
+          toast({
+            title: "Gift Cards Issued",
+            description: data.order.giftCards
+              .map((card: { code: string; value: number }) => `${card.code} (${formatPrice(card.value)})`)
+              .join(", "),
+          });
+        }
+        setLastSale({ id: data.order.id, orderNumber: data.order.orderNumber });
+        onSaleCompleted({
+          orderNumber: data.order.orderNumber,
+          total: totals.total,
+          tendered,
+          change: cashChange,
+        });
         
-        // Clear the cart and reset form
-        clearCart();
-        setSearchQuery("");
-        setSearchResults([]);
-        
-        // Reset payment methods to default
-        setPaymentMethods([{
-          id: 'cash-1',
-          method: 'CASH',
-          amount: 0,
-          cashGiven: undefined,
-          cashChange: 0
-        }]);
+        resetCheckout();
       } else {
         throw new Error(data.error || "Failed to create order");
       }
@@ -478,6 +635,7 @@ export default function MultiPaymentCheckout({
   const cashPayments = paymentMethods.filter(p => p.method === 'CASH');
   const cardPayments = paymentMethods.filter(p => p.method === 'CREDIT_CARD');
   const checkPayments = paymentMethods.filter(p => p.method === 'CHECK');
+  const accountPayments = paymentMethods.filter(p => p.method === 'ON_ACCOUNT');
 
   return (
     <div className="w-[450px] bg-slate-50 rounded-lg border border-slate-200 p-6 max-h-screen overflow-y-auto">
@@ -504,6 +662,9 @@ export default function MultiPaymentCheckout({
         cashPayments={cashPayments}
         cardPayments={cardPayments}
         checkPayments={checkPayments}
+        accountPayments={accountPayments}
+        canChargeAccount={!!customer}
+        canPayWithGiftCard={canPayWithGiftCard}
         onAddPaymentMethod={addPaymentMethod}
       />
 
@@ -517,6 +678,7 @@ export default function MultiPaymentCheckout({
             totalPayments={paymentMethods.length}
             checkPayments={checkPayments}
             cart={cart}
+            availableCredit={availableCredit}
             onUpdate={updatePaymentMethod}
             onRemove={removePaymentMethod}
           />
@@ -680,7 +842,10 @@ export default function MultiPaymentCheckout({
         remainingAmount={remainingAmount}
         onProcessOrder={processOrder}
         paymentValidation={paymentValidation}
+        lastSale={lastSale}
       />
+
+      {approvalDialog}
     </div>
   );
 }
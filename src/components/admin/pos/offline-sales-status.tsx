@@ -0,0 +1,105 @@
+// src/components/admin/pos/offline-sales-status.tsx
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useOfflinePos } from "@/contexts/offline-pos.context";
+import { formatCurrency } from "@/lib/utils";
+import { AlertCircle, Loader2, RefreshCw, Wifi, WifiOff } from "lucide-react";
+
+/**
+ * Connection state of the register and the sales waiting to be synced
+ */
+export default function OfflineSalesStatus() {
+  const { isOnline, pendingSales, rejectedSales, isSyncing, syncNow, discardSale } =
+    useOfflinePos();
+  const [showRejected, setShowRejected] = useState(false);
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {isOnline ? (
+        <span className="flex items-center gap-1 text-emerald-700">
+          <Wifi className="h-4 w-4" />
+          Online
+        </span>
+      ) : (
+        <span className="flex items-center gap-1 text-amber-700">
+          <WifiOff className="h-4 w-4" />
+          Offline
+        </span>
+      )}
+
+      {pendingSales.length > 0 && (
+        <span className="flex items-center gap-2 text-gray-600">
+          {pendingSales.length} sale(s) waiting to sync
+          {isOnline && (
+            <Button variant="ghost" size="sm" onClick={() => syncNow()} disabled={isSyncing}>
+              {isSyncing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+            </Button>
+          )}
+        </span>
+      )}
+
+      {rejectedSales.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-red-600"
+          onClick={() => setShowRejected(true)}
+        >
+          <AlertCircle className="h-4 w-4 mr-2" />
+          {rejectedSales.length} rejected
+        </Button>
+      )}
+
+      <Dialog open={showRejected} onOpenChange={setShowRejected}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Rejected Offline Sales</DialogTitle>
+            <DialogDescription>
+              These sales were made offline but could not be recorded. Settle them with the
+              customer or ring them up again, then discard them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {rejectedSales.map((sale) => (
+              <div
+                key={sale.clientReference}
+                className="flex items-start justify-between gap-3 rounded-md border p-3"
+              >
+                <div className="text-sm">
+                  <p className="font-medium text-gray-800">
+                    {formatCurrency(sale.total)} —{" "}
+                    {new Date(sale.soldAt).toLocaleString("fr-FR")}
+                  </p>
+                  <p className="text-red-600">{sale.error}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => discardSale(sale.clientReference)}
+                >
+                  Discard
+                </Button>
+              </div>
+            ))}
+            {rejectedSales.length === 0 && (
+              <p className="text-sm text-gray-500">No rejected sales.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import React from "react";
-import { AlertCircle, Receipt, CheckCircle, XCircle } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import { AlertCircle, Receipt, CheckCircle, XCircle, Printer, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useCurrency } from "@/hooks/use-currency.hook";
 
@@ -9,16 +9,35 @@ interface OrderActionsProps {
   remainingAmount: number;
   onProcessOrder: () => void;
   paymentValidation?: { valid: boolean; message?: string };
+  lastSale?: { id: string; orderNumber: string } | null;
 }
 
+type ReceiptWidth = "80" | "58";
+const RECEIPT_WIDTH_KEY = "pos-receipt-width";
+
 export default function OrderActions({
   cart,
   isProcessing,
   remainingAmount,
   onProcessOrder,
   paymentValidation,
+  lastSale,
 }: OrderActionsProps) {
   const { formatPrice } = useCurrency();
+  // Paper roll of the register's printer, remembered on this device
+  const [receiptWidth, setReceiptWidth] = useState<ReceiptWidth>("80");
+
+  useEffect(() => {
+    if (localStorage.getItem(RECEIPT_WIDTH_KEY) === "58") setReceiptWidth("58");
+  }, []);
+
+  const changeReceiptWidth = (width: ReceiptWidth) => {
+    setReceiptWidth(width);
+    localStorage.setItem(RECEIPT_WIDTH_KEY, width);
+  };
+
+  const receiptUrl = (format: "html" | "escpos") =>
+    `/api/pos/orders/${lastSale?.id}/receipt?format=${format}&width=${receiptWidth}${format === "html" ? "&print=1" : ""}`;
 
   const canProcessOrder = cart.length > 0 && 
                          !isProcessing && 
@@ -74,6 +93,53 @@ export default function OrderActions({
           ✓ Ready to process order
         </div>
       )}
+
+      {/* Receipt of the last sale */}
+      {lastSale && (
+        <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-700 font-medium">Last sale {lastSale.orderNumber}</span>
+            <div className="flex gap-1">
+              {(["80", "58"] as ReceiptWidth[]).map((width) => (
+                <button
+                  key={width}
+                  type="button"
+                  onClick={() => changeReceiptWidth(width)}
+                  className={`px-2 py-0.5 rounded text-xs border ${
+                    receiptWidth === width
+                      ? "bg-slate-800 text-white border-slate-800"
+                      : "bg-white text-slate-600 border-slate-300"
+                  }`}
+                >
+                  {width}mm
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => window.open(receiptUrl("html"), "_blank", "width=420,height=640")}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print Receipt
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Raw ESC/POS commands for the printer bridge"
+              onClick={() => {
+                window.location.href = receiptUrl("escpos");
+              }}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              ESC/POS
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
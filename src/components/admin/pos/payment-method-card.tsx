@@ -1,5 +1,5 @@
 import React from "react";
-import { CreditCard, Banknote, Receipt, Trash2 } from "lucide-react";
+import { CreditCard, Banknote, Receipt, Trash2, BookUser, Gift, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,13 +8,15 @@ import { useCurrency } from "@/hooks/use-currency.hook";
 
 interface PaymentMethod {
   id: string;
-  method: "CASH" | "CREDIT_CARD" | "CHECK";
+  method: "CASH" | "CREDIT_CARD" | "CHECK" | "ON_ACCOUNT" | "GIFT_CARD";
   amount: number;
   cashGiven?: number;
   cashChange?: number;
   checkNumber?: string;
   checkBankName?: string;
   checkDate?: Date;
+  giftCardCode?: string;
+  giftCardBalance?: number; // Known once the card was checked
   notes?: string;
 }
 
@@ -24,6 +26,7 @@ interface PaymentMethodCardProps {
   totalPayments: number;
   checkPayments: PaymentMethod[];
   cart: any[]; // Add cart prop with proper type
+  availableCredit: number | null; // Left on the customer account, null without a customer
   onUpdate: (id: string, updates: Partial<PaymentMethod>) => void;
   onRemove: (id: string) => void;
 }
@@ -34,10 +37,46 @@ export default function PaymentMethodCard({
   totalPayments,
   checkPayments,
   cart,
+  availableCredit,
   onUpdate,
   onRemove,
 }: PaymentMethodCardProps) {
   const { formatPrice } = useCurrency();
+  const [isCheckingCard, setIsCheckingCard] = React.useState(false);
+  const [giftCardMessage, setGiftCardMessage] = React.useState<string | null>(null);
+
+  // Look the card up so the amount stays within its balance
+  const checkGiftCard = async () => {
+    const code = payment.giftCardCode?.trim();
+    if (!code) return;
+    setIsCheckingCard(true);
+    setGiftCardMessage(null);
+    try {
+      const response = await fetch(`/api/gift-cards/lookup?code=${encodeURIComponent(code)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Gift card not found");
+      }
+      if (data.status !== 'ACTIVE') {
+        throw new Error("This gift card is disabled");
+      }
+      if (data.expired) {
+        throw new Error("This gift card has expired");
+      }
+      onUpdate(payment.id, {
+        giftCardBalance: data.balance,
+        amount: Math.min(payment.amount || 0, data.balance),
+      });
+      if (data.expiresAt) {
+        setGiftCardMessage(`Valid until ${new Date(data.expiresAt).toLocaleDateString("fr-FR")}`);
+      }
+    } catch (error) {
+      onUpdate(payment.id, { giftCardBalance: undefined });
+      setGiftCardMessage(error instanceof Error ? error.message : "Gift card not found");
+    } finally {
+      setIsCheckingCard(false);
+    }
+  };
 
   const getPaymentTitle = () => {
     switch (payment.method) {
@@ -47,6 +86,10 @@ export default function PaymentMethodCard({
         return 'Card Payment';
       case 'CHECK':
         return `Check #${checkPayments.indexOf(payment) + 1}`;
+      case 'ON_ACCOUNT':
+        return 'On Account';
+      case 'GIFT_CARD':
+        return 'Gift Card';
       default:
         return 'Payment';
     }
@@ -60,6 +103,10 @@ export default function PaymentMethodCard({
         return <CreditCard className="h-4 w-4 mr-2 text-blue-600" />;
       case 'CHECK':
         return <Receipt className="h-4 w-4 mr-2 text-purple-600" />;
+      case 'ON_ACCOUNT':
+        return <BookUser className="h-4 w-4 mr-2 text-amber-600" />;
+      case 'GIFT_CARD':
+        return <Gift className="h-4 w-4 mr-2 text-pink-600" />;
       default:
         return null;
     }
@@ -220,6 +267,80 @@ export default function PaymentMethodCard({
             </div>
           )}
 
+          {/* On account: charged to the customer ledger, within the credit limit */}
+          {payment.method === 'ON_ACCOUNT' && (
+            <div className="space-y-2 p-2 bg-amber-50 border border-amber-200 rounded">
+              {availableCredit === null ? (
+                <p className="text-xs text-red-800 font-bold">⚠️ Select a customer to charge the account</p>
+              ) : (
+                <>
+                  <p className="text-xs text-slate-600">
+                    Available on account: {formatPrice(availableCredit)}
+                  </p>
+                  {payment.amount > availableCredit + 0.01 && (
+                    <div className="mt-2 p-2 bg-gradient-to-r from-red-50 to-red-100 border-l-4 border-red-500 rounded">
+                      <p className="text-xs text-red-800 font-bold">
+                        ⚠️ Amount is above the customer credit limit
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Gift card: paid from the card balance, partially if needed */}
+          {payment.method === 'GIFT_CARD' && (
+            <div className="space-y-2 p-2 bg-pink-50 border border-pink-200 rounded">
+              <Label className="text-xs text-slate-600 font-bold">Card Code *</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="text"
+                  value={payment.giftCardCode || ''}
+                  onChange={(e) => {
+                    setGiftCardMessage(null);
+                    onUpdate(payment.id, { giftCardCode: e.target.value, giftCardBalance: undefined });
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      checkGiftCard();
+                    }
+                  }}
+                  placeholder="Scan or type the code"
+                  className="text-xs bg-white font-mono"
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={checkGiftCard}
+                  disabled={isCheckingCard || !payment.giftCardCode?.trim()}
+                  className="text-xs"
+                >
+                  {isCheckingCard ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Check'}
+                </Button>
+              </div>
+              {payment.giftCardBalance !== undefined && (
+                <p className="text-xs text-slate-600">
+                  Balance: {formatPrice(payment.giftCardBalance)}
+                </p>
+              )}
+              {giftCardMessage && (
+                <p className={`text-xs ${payment.giftCardBalance !== undefined ? 'text-slate-500' : 'text-red-800 font-bold'}`}>
+                  {giftCardMessage}
+                </p>
+              )}
+              {payment.giftCardBalance !== undefined && payment.amount > payment.giftCardBalance + 0.001 && (
+                <div className="mt-2 p-2 bg-gradient-to-r from-red-50 to-red-100 border-l-4 border-red-500 rounded">
+                  <p className="text-xs text-red-800 font-bold">
+                    ⚠️ Amount is above the card balance
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Notes for this payment */}
           <div>
             <Label className="text-xs text-slate-600">Payment Notes (Optional)</Label>
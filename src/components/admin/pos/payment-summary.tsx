@@ -1,12 +1,12 @@
 import React from "react";
-import { CreditCard, Banknote, Receipt } from "lucide-react";
+import { CreditCard, Banknote, Receipt, BookUser, Gift } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { useCurrency } from "@/hooks/use-currency.hook";
 
 interface PaymentMethod {
   id: string;
-  method: "CASH" | "CREDIT_CARD" | "CHECK";
+  method: "CASH" | "CREDIT_CARD" | "CHECK" | "ON_ACCOUNT" | "GIFT_CARD";
   amount: number;
 }
 
@@ -18,7 +18,10 @@ interface PaymentSummaryProps {
   cashPayments: PaymentMethod[];
   cardPayments: PaymentMethod[];
   checkPayments: PaymentMethod[];
-  onAddPaymentMethod: (type: "CASH" | "CREDIT_CARD" | "CHECK") => void;
+  accountPayments: PaymentMethod[];
+  canChargeAccount: boolean; // Sales on account need a customer
+  canPayWithGiftCard: boolean; // Not offline, and not to buy other gift cards
+  onAddPaymentMethod: (type: "CASH" | "CREDIT_CARD" | "CHECK" | "ON_ACCOUNT" | "GIFT_CARD") => void;
 }
 
 export default function PaymentSummary({
@@ -29,6 +32,9 @@ export default function PaymentSummary({
   cashPayments,
   cardPayments,
   checkPayments,
+  accountPayments,
+  canChargeAccount,
+  canPayWithGiftCard,
   onAddPaymentMethod,
 }: PaymentSummaryProps) {
   const { formatPrice } = useCurrency();
@@ -72,6 +78,30 @@ export default function PaymentSummary({
             <Receipt className="h-3 w-3 mr-1" />
             Add Check
           </Button>
+          {canChargeAccount && accountPayments.length === 0 && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => onAddPaymentMethod('ON_ACCOUNT')}
+              className="text-amber-600 border-amber-300 hover:bg-amber-50 text-xs px-2 py-1"
+            >
+              <BookUser className="h-3 w-3 mr-1" />
+              Account
+            </Button>
+          )}
+          {canPayWithGiftCard && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => onAddPaymentMethod('GIFT_CARD')}
+              className="text-pink-600 border-pink-300 hover:bg-pink-50 text-xs px-2 py-1"
+            >
+              <Gift className="h-3 w-3 mr-1" />
+              Gift Card
+            </Button>
+          )}
         </div>
       </div>
 
@@ -110,9 +140,13 @@ export default function PaymentSummary({
                   {payment.method === 'CASH' && <Banknote className="h-3 w-3 mr-1 text-green-600" />}
                   {payment.method === 'CREDIT_CARD' && <CreditCard className="h-3 w-3 mr-1 text-blue-600" />}
                   {payment.method === 'CHECK' && <Receipt className="h-3 w-3 mr-1 text-purple-600" />}
+                  {payment.method === 'ON_ACCOUNT' && <BookUser className="h-3 w-3 mr-1 text-amber-600" />}
+                  {payment.method === 'GIFT_CARD' && <Gift className="h-3 w-3 mr-1 text-pink-600" />}
                   {payment.method === 'CASH' && 'CASH'}
                   {payment.method === 'CREDIT_CARD' && 'CARD'}
                   {payment.method === 'CHECK' && `CHECK #${checkPayments.indexOf(payment) + 1}`}
+                  {payment.method === 'ON_ACCOUNT' && 'ACCOUNT'}
+                  {payment.method === 'GIFT_CARD' && 'GIFT CARD'}
                   :
                 </span>
                 <span>{formatPrice(payment.amount || 0)}</span>
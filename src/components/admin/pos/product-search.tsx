@@ -5,6 +5,9 @@ import {Label} from "@/components/ui/label";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
 import {useToast} from "@/components/ui/use-toast";
 import {getImageUrl} from "@/lib/utils";
+import {useOfflinePos} from "@/contexts/offline-pos.context";
+import {lookupCachedBarcode, searchCachedCatalog} from "@/lib/pos/offline-store";
+import {formatQuantity, referencePrice} from "@/lib/units";
 import {Product} from "../pos-system";
 
 interface ProductSearchProps {
@@ -16,7 +19,7 @@ interface ProductSearchProps {
     setIsSearching: (searching: boolean) => void;
     selectedVariants: Record<string, string>;
     setSelectedVariants: (variants: (prev) => any) => void;
-    addToCart: (product: Product, variantId?: string) => void;
+    addToCart: (product: Product, variantId?: string, quantity?: number) => void;
 }
 
 export default function ProductSearch({
@@ -31,6 +34,7 @@ export default function ProductSearch({
                                           addToCart,
                                       }: ProductSearchProps) {
     const {toast} = useToast();
+    const {isOnline, catalog} = useOfflinePos();
 
     // Search products
     const searchProducts = async (query: string, isBarcode = false) => {
@@ -48,15 +52,40 @@ export default function ProductSearch({
                 params.append("query", query);
             }
 
-            const response = await fetch(`/api/pos/products?${params}`);
-            const data = await response.json();
+            // match: variant and quantity designated by an exact barcode
+            let data: { products?: Product[]; match?: { variantId: string; quantity: number } | null };
+            try {
+                if (!isOnline) {
+                    throw new Error("Offline");
+                }
+                const response = await fetch(`/api/pos/products?${params}`);
+                data = await response.json();
+            } catch (networkError) {
+                // Offline or unreachable: search the catalog cached for offline sales
+                if (!catalog) {
+                    throw networkError;
+                }
+                const match = isBarcode ? lookupCachedBarcode(catalog, query) : null;
+                data = isBarcode
+                    ? {
+                        products: match ? [match.product as unknown as Product] : [],
+                        match: match && {variantId: match.variantId, quantity: match.quantity},
+                    }
+                    : {
+                        products: searchCachedCatalog(catalog, {query}) as unknown as Product[],
+                    };
+            }
 
             if (data.products) {
                 setSearchResults(data.products);
 
                 // If it's a barcode search and we found exactly one product, add it to cart
                 if (isBarcode && data.products.length === 1) {
-                    addToCart(data.products[0]);
+                    if (data.match) {
+                        addToCart(data.products[0], data.match.variantId, data.match.quantity);
+                    } else {
+                        addToCart(data.products[0]);
+                    }
                     setSearchQuery("");
                     setSearchResults([]);
                 }
@@ -101,8 +130,10 @@ export default function ProductSearch({
                         <div className="relative mt-2">
                             <Search
                                 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 h-4 w-4"/>
+                            {/* Scans typed here are handled by the barcode scanner */}
                             <Input
                                 id="search"
+                                data-barcode-scanner
                                 value={searchQuery}
                                 onChange={(e) => {
                                     setSearchQuery(e.target.value);
@@ -273,7 +304,15 @@ export default function ProductSearch({
                                                                       </span>
                                                                     </div>
                                                                     <div className="text-xs text-slate-400 pl-5">
-                                                                        {variant.inventory} left
+                                                                        {product.isGiftCard
+                                                                            ? "Gift card"
+                                                                            : variant.allowBackorder && variant.inventory <= 0
+                                                                              ? "On backorder"
+                                                                              : `${formatQuantity(variant.inventory, variant.unit)} left`}
+                                                                        {(() => {
+                                                                            const reference = referencePrice(variant.finalPrice || variant.price, variant.unit);
+                                                                            return reference ? ` · ${reference.price.toFixed(2)} DT/${reference.per}` : null;
+                                                                        })()}
                                                                     </div>
                                                                 </div>
 
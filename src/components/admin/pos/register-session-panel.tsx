@@ -0,0 +1,409 @@
+// src/components/admin/pos/register-session-panel.tsx
+"use client";
+
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useOfflinePos } from "@/contexts/offline-pos.context";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { offlineStore } from "@/lib/pos/offline-store";
+import { formatCurrency } from "@/lib/utils";
+import type { ZReport } from "@/lib/services/register.service";
+import RegisterZReport from "./register-z-report";
+import OfflineSalesStatus from "./offline-sales-status";
+import { ArrowDownToLine, ArrowUpFromLine, Loader2, Lock, Vault } from "lucide-react";
+
+interface RegisterSession {
+  id: string;
+  openingFloat: number;
+  openedAt: string;
+}
+
+interface RegisterSessionPanelProps {
+  children: ReactNode;
+}
+
+type MovementType = "CASH_IN" | "CASH_OUT";
+
+/**
+ * Till shift of the current staff member. The POS is only shown while a
+ * register is open; sales are counted in it until it is closed.
+ */
+export default function RegisterSessionPanel({ children }: RegisterSessionPanelProps) {
+  const { toast } = useToast();
+  const { pendingSales, syncNow } = useOfflinePos();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [registerSession, setRegisterSession] = useState<RegisterSession | null>(null);
+  const [report, setReport] = useState<ZReport | null>(null);
+
+  // Opening
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [openingNotes, setOpeningNotes] = useState("");
+
+  // Cash movements
+  const [movementType, setMovementType] = useState<MovementType | null>(null);
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const { getKey: getMovementKey, resetKey: resetMovementKey } = useIdempotencyKey();
+
+  // Closing
+  const [isClosing, setIsClosing] = useState(false);
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+  const [zReport, setZReport] = useState<ZReport | null>(null);
+
+  const loadCurrent = useCallback(async () => {
+    try {
+      const response = await fetch("/api/pos/register-sessions/current");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the register");
+      }
+      setRegisterSession(data.session);
+      setReport(data.report);
+      offlineStore.saveRegisterSession(data.session);
+    } catch (error) {
+      console.error("Error loading register:", error);
+      // Offline: keep selling in the register that was open before the connection dropped
+      const cachedSession = !navigator.onLine ? offlineStore.loadRegisterSession() : null;
+      if (cachedSession) {
+        setRegisterSession(cachedSession);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the register",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCurrent();
+  }, [loadCurrent]);
+
+  const submit = async (url: string, body: Record<string, unknown>, idempotencyKey?: string) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(idempotencyKey && { "Idempotency-Key": idempotencyKey }),
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      return data;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpen = async () => {
+    const data = await submit("/api/pos/register-sessions", {
+      openingFloat: parseFloat(openingFloat) || 0,
+      notes: openingNotes,
+    });
+    if (data) {
+      toast({ title: "Register Opened", description: "You can start selling." });
+      setOpeningFloat("");
+      setOpeningNotes("");
+      await loadCurrent();
+    }
+  };
+
+  const handleMovement = async () => {
+    if (!registerSession || !movementType) return;
+    const data = await submit(
+      `/api/pos/register-sessions/${registerSession.id}/movements`,
+      {
+        type: movementType,
+        amount: parseFloat(movementAmount) || 0,
+        reason: movementReason,
+      },
+      getMovementKey()
+    );
+    if (data) {
+      resetMovementKey();
+      toast({
+        title: movementType === "CASH_IN" ? "Cash Added" : "Cash Removed",
+        description: formatCurrency(data.amount),
+      });
+      setMovementType(null);
+      setMovementAmount("");
+      setMovementReason("");
+      await loadCurrent();
+    }
+  };
+
+  const startClosing = async () => {
+    if (!navigator.onLine) {
+      toast({
+        title: "Offline",
+        description: "The register can only be closed once the connection is back.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // Offline sales belong to this register, they must be recorded before counting
+    if (pendingSales.length > 0 && !(await syncNow())) {
+      toast({
+        title: "Offline Sales Pending",
+        description: "Some offline sales could not be synced yet. Try again in a moment.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // Refresh the expected cash with the latest sales before counting
+    await loadCurrent();
+    setIsClosing(true);
+  };
+
+  const handleClose = async () => {
+    if (!registerSession) return;
+    const data = await submit(`/api/pos/register-sessions/${registerSession.id}/close`, {
+      countedCash: parseFloat(countedCash) || 0,
+      notes: closingNotes,
+    });
+    if (data) {
+      setIsClosing(false);
+      setCountedCash("");
+      setClosingNotes("");
+      setZReport(data.report);
+      setRegisterSession(null);
+      setReport(null);
+      offlineStore.saveRegisterSession(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  const expectedCash = report?.cash.expected ?? 0;
+  const difference = countedCash ? (parseFloat(countedCash) || 0) - expectedCash : null;
+
+  return (
+    <>
+      {registerSession ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-gray-50 px-4 py-2">
+            <div className="flex items-center gap-3 text-sm text-gray-700">
+              <Vault className="h-4 w-4 text-emerald-600" />
+              <span>
+                Register open since{" "}
+                {new Date(registerSession.openedAt).toLocaleTimeString("fr-FR", {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+              <span className="text-gray-500">
+                Float {formatCurrency(registerSession.openingFloat)}
+              </span>
+              <OfflineSalesStatus />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMovementType("CASH_IN")}>
+                <ArrowDownToLine className="h-4 w-4 mr-2" />
+                Cash In
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setMovementType("CASH_OUT")}>
+                <ArrowUpFromLine className="h-4 w-4 mr-2" />
+                Cash Out
+              </Button>
+              <Button variant="destructive" size="sm" onClick={startClosing}>
+                <Lock className="h-4 w-4 mr-2" />
+                Close Register
+              </Button>
+            </div>
+          </div>
+          {children}
+        </div>
+      ) : (
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="text-gray-800">Open the Register</CardTitle>
+            <CardDescription>Count the cash in the drawer to start your shift.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening-float">Opening float</Label>
+              <Input
+                id="opening-float"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opening-notes">Notes</Label>
+              <Textarea
+                id="opening-notes"
+                rows={2}
+                value={openingNotes}
+                onChange={(e) => setOpeningNotes(e.target.value)}
+              />
+            </div>
+            <Button className="w-full" onClick={handleOpen} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Open Register
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cash in / out */}
+      <Dialog
+        open={!!movementType}
+        onOpenChange={(open) => {
+          if (!open) {
+            setMovementType(null);
+            resetMovementKey();
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{movementType === "CASH_IN" ? "Cash In" : "Cash Out"}</DialogTitle>
+            <DialogDescription>
+              {movementType === "CASH_IN"
+                ? "Cash added to the drawer, e.g. change brought from the bank."
+                : "Cash taken out of the drawer, e.g. a bank deposit or a petty expense."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="movement-amount">Amount</Label>
+              <Input
+                id="movement-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movement-reason">Reason</Label>
+              <Input
+                id="movement-reason"
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleMovement} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Closing with the cash count */}
+      <Dialog open={isClosing} onOpenChange={setIsClosing}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Close Register</DialogTitle>
+            <DialogDescription>Count the cash in the drawer and enter the total.</DialogDescription>
+          </DialogHeader>
+          {report && <RegisterZReport report={report} />}
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="counted-cash">Counted cash</Label>
+              <Input
+                id="counted-cash"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+              />
+              {difference !== null && (
+                <p
+                  className={`text-sm ${
+                    Math.abs(difference) < 0.005 ? "text-emerald-600" : "text-red-600"
+                  }`}
+                >
+                  Difference: {difference > 0 ? "+" : ""}
+                  {formatCurrency(difference)}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closing-notes">Notes</Label>
+              <Textarea
+                id="closing-notes"
+                rows={2}
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={handleClose}
+              disabled={isSubmitting || countedCash === ""}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Close Register
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Z-report of the register just closed */}
+      <Dialog open={!!zReport} onOpenChange={(open) => !open && setZReport(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Register Closed</DialogTitle>
+          </DialogHeader>
+          {zReport && <RegisterZReport report={zReport} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => window.print()}>
+              Print
+            </Button>
+            <Button onClick={() => setZReport(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,121 @@
+// src/components/admin/pos/register-z-report.tsx
+import type { ZReport } from "@/lib/services/register.service";
+import { formatCurrency } from "@/lib/utils";
+import { Separator } from "@/components/ui/separator";
+
+interface RegisterZReportProps {
+  report: ZReport;
+  title?: string;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  CASH: "Cash",
+  BANK_TRANSFER: "Bank transfer",
+  REMITLY: "Remitly",
+  CREDIT_CARD: "Card",
+  PAYPAL: "PayPal",
+  CHECK: "Check",
+  ON_ACCOUNT: "On account",
+  GIFT_CARD: "Gift card",
+  OTHER: "Other",
+};
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between text-sm ${strong ? "font-semibold text-gray-900" : "text-gray-700"}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+export default function RegisterZReport({ report, title }: RegisterZReportProps) {
+  const closed = !!report.closedAt;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">
+          {title ?? (closed ? "Z-Report" : "X-Report (register open)")}
+        </h3>
+        <p className="text-xs text-gray-500">
+          {report.cashier} · {new Date(report.openedAt).toLocaleString("fr-FR")}
+          {closed && ` → ${new Date(report.closedAt!).toLocaleString("fr-FR")}`}
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Row label="Sales" value={String(report.orders.count)} />
+        <Row label="Total HT" value={formatCurrency(report.orders.subtotal)} />
+        {report.tva.map((rate) => (
+          <Row
+            key={rate.rate}
+            label={`TVA ${rate.rate}% on ${formatCurrency(rate.base)}`}
+            value={formatCurrency(rate.tax)}
+          />
+        ))}
+        {report.orders.discount > 0 && (
+          <Row label="Discounts" value={`-${formatCurrency(report.orders.discount)}`} />
+        )}
+        <Row label="Total TTC" value={formatCurrency(report.orders.total)} strong />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-4 text-xs font-medium text-gray-500">
+          <span>Payment</span>
+          <span className="text-right">Collected</span>
+          <span className="text-right">Refunded</span>
+          <span className="text-right">Net</span>
+        </div>
+        {report.payments.length === 0 && (
+          <p className="text-sm text-gray-500">No payments</p>
+        )}
+        {report.payments.map((line) => (
+          <div key={line.method} className="grid grid-cols-4 text-sm text-gray-700">
+            <span>
+              {PAYMENT_METHOD_LABELS[line.method] ?? line.method} ({line.count})
+            </span>
+            <span className="text-right">{formatCurrency(line.amount)}</span>
+            <span className="text-right">{formatCurrency(line.refunded)}</span>
+            <span className="text-right font-medium">{formatCurrency(line.net)}</span>
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-1">
+        <Row label="Opening float" value={formatCurrency(report.cash.openingFloat)} />
+        <Row label="Cash sales" value={formatCurrency(report.cash.sales)} />
+        <Row label="Cash refunds" value={`-${formatCurrency(report.cash.refunds)}`} />
+        {/* Reports saved before customer accounts have no settlements */}
+        {report.cash.settlements > 0 && (
+          <Row label="Account payments" value={formatCurrency(report.cash.settlements)} />
+        )}
+        <Row label="Cash in" value={formatCurrency(report.cash.cashIn)} />
+        <Row label="Cash out" value={`-${formatCurrency(report.cash.cashOut)}`} />
+        <Row label="Expected in drawer" value={formatCurrency(report.cash.expected)} strong />
+        {report.cash.counted !== null && (
+          <>
+            <Row label="Counted" value={formatCurrency(report.cash.counted)} strong />
+            <div
+              className={`flex justify-between text-sm font-semibold ${
+                report.cash.difference === 0
+                  ? "text-emerald-600"
+                  : "text-red-600"
+              }`}
+            >
+              <span>Difference</span>
+              <span>
+                {(report.cash.difference ?? 0) > 0 ? "+" : ""}
+                {formatCurrency(report.cash.difference ?? 0)}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,23 @@
-import { ShoppingCart, X, Plus, Minus, Package } from "lucide-react";
+import { useState } from "react";
+import { ShoppingCart, X, Plus, Minus, Package, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { getImageUrl } from "@/lib/utils";
+import { isMeasuredUnit, roundQuantity, UNIT_SYMBOLS } from "@/lib/units";
+import {
+  applyLineAdjustment,
+  describeLineAdjustment,
+  isPriceAdjustmentReason,
+  LineAdjustmentInput,
+} from "@/lib/pos/price-adjustments";
 import { CartItem } from "../pos-system";
 import { useCurrency } from "@/hooks/use-currency.hook";
+import LineAdjustmentDialog from "./line-adjustment-dialog";
 
 interface ShoppingCartProps {
   cart: CartItem[];
   updateCartItemQuantity: (cartItemId: string, newQuantity: number) => void;
+  updateCartItemAdjustment: (cartItemId: string, adjustment: LineAdjustmentInput | null) => void;
   removeFromCart: (cartItemId: string) => void;
   clearCart: () => void;
 }
@@ -14,10 +25,17 @@ interface ShoppingCartProps {
 export default function ShoppingCartComponent({
   cart,
   updateCartItemQuantity,
+  updateCartItemAdjustment,
   removeFromCart,
   clearCart,
 }: ShoppingCartProps) {
   const { formatPrice } = useCurrency();
+  // Line whose price is being changed
+  const [adjustingItemId, setAdjustingItemId] = useState<string | null>(null);
+  // "12.50 DT" or "12.50 DT / kg" for items sold by weight or volume
+  const formatUnitPrice = (item: CartItem, price: number) =>
+    isMeasuredUnit(item.unit) ? `${formatPrice(price)} / ${UNIT_SYMBOLS[item.unit]}` : formatPrice(price);
+
   return (
     <div className="bg-slate-50 rounded-lg border border-slate-200 p-6 flex-1">
       <div className="flex items-center justify-between mb-4">
@@ -63,13 +81,15 @@ export default function ShoppingCartComponent({
                   <h4 className="font-semibold text-sm text-slate-900">{item.name}</h4>
                   
                   {/* Show discount info if item has discount */}
-                  {item.price !== item.finalPrice ? (
+                  {item.adjustment ? (
+                    <LineAdjustmentSummary item={item} formatUnitPrice={formatUnitPrice} />
+                  ) : item.price !== item.finalPrice ? (
                     <div className="flex items-center gap-2 text-xs">
                       <span className="line-through text-gray-400">
-                        {formatPrice(item.price)}
+                        {formatUnitPrice(item, item.price)}
                       </span>
                       <span className="font-semibold text-green-600">
-                        {formatPrice(item.finalPrice)}
+                        {formatUnitPrice(item, item.finalPrice)}
                       </span>
                       <span className="bg-red-100 text-red-800 px-1.5 py-0.5 rounded font-medium">
                         {Math.round(((item.price - item.finalPrice) / item.price) * 100)}% OFF
@@ -77,7 +97,7 @@ export default function ShoppingCartComponent({
                     </div>
                   ) : (
                     <p className="text-xs text-slate-600">
-                      {formatPrice(item.finalPrice)}
+                      {formatUnitPrice(item, item.finalPrice)}
                     </p>
                   )}
                   
@@ -90,28 +110,60 @@ export default function ShoppingCartComponent({
               </div>
               
               <div className="flex items-center gap-2">
+                {isMeasuredUnit(item.unit) ? (
+                  // Weighed quantity, applied when the field loses focus
+                  <div className="flex items-center gap-1">
+                    <Input
+                      key={item.quantity}
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      defaultValue={item.quantity}
+                      onBlur={(e) =>
+                        updateCartItemQuantity(item.id, roundQuantity(parseFloat(e.target.value) || 0))
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur();
+                      }}
+                      className="w-24 h-8 text-right text-sm font-semibold text-slate-900 bg-white border-slate-300"
+                    />
+                    <span className="text-xs text-slate-600">{UNIT_SYMBOLS[item.unit]}</span>
+                  </div>
+                ) : (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateCartItemQuantity(item.id, item.quantity - 1)}
+                      className="border-slate-300 text-slate-700 hover:bg-slate-100"
+                    >
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <span className="w-8 text-center text-sm font-semibold text-slate-900">
+                      {item.quantity}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateCartItemQuantity(item.id, item.quantity + 1)}
+                      className="border-slate-300 text-slate-700 hover:bg-slate-100"
+                    >
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+                <div className="w-20 text-right font-bold text-slate-900">
+                  {formatPrice(item.total)}
+                </div>
                 <Button
                   size="sm"
-                  variant="outline"
-                  onClick={() => updateCartItemQuantity(item.id, item.quantity - 1)}
-                  className="border-slate-300 text-slate-700 hover:bg-slate-100"
-                >
-                  <Minus className="h-3 w-3" />
-                </Button>
-                <span className="w-8 text-center text-sm font-semibold text-slate-900">
-                  {item.quantity}
-                </span>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => updateCartItemQuantity(item.id, item.quantity + 1)}
-                  className="border-slate-300 text-slate-700 hover:bg-slate-100"
+                  variant="ghost"
+                  title="Change price"
+                  onClick={() => setAdjustingItemId(item.id)}
+                  className={item.adjustment ? "text-amber-600 hover:bg-amber-50" : "text-slate-500 hover:bg-slate-100"}
                 >
-                  <Plus className="h-3 w-3" />
+                  <Tag className="h-3 w-3" />
                 </Button>
-                <div className="w-20 text-right font-bold text-slate-900">
-                  {formatPrice(item.total)}
-                </div>
                 <Button
                   size="sm"
                   variant="ghost"
@@ -125,6 +177,46 @@ export default function ShoppingCartComponent({
           ))}
         </div>
       )}
+
+      <LineAdjustmentDialog
+        item={cart.find((item) => item.id === adjustingItemId) ?? null}
+        onClose={() => setAdjustingItemId(null)}
+        onApply={updateCartItemAdjustment}
+      />
+    </div>
+  );
+}
+
+// New unit price and reason of a line changed by the cashier
+function LineAdjustmentSummary({
+  item,
+  formatUnitPrice,
+}: {
+  item: CartItem;
+  formatUnitPrice: (item: CartItem, price: number) => string;
+}) {
+  const adjustment = item.adjustment ?? {};
+  const adjusted = applyLineAdjustment(item.finalPrice, item.quantity, adjustment);
+  const label = describeLineAdjustment({
+    priceOverridden: adjusted.priceOverridden,
+    lineDiscountAmount: adjusted.lineDiscountAmount,
+    adjustmentReason: isPriceAdjustmentReason(adjustment.adjustmentReason)
+      ? adjustment.adjustmentReason
+      : null,
+    adjustmentNote: adjustment.adjustmentNote,
+  });
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center gap-2">
+        {adjusted.unitPrice !== item.price && (
+          <span className="line-through text-gray-400">{formatUnitPrice(item, item.price)}</span>
+        )}
+        <span className="font-semibold text-amber-700">
+          {formatUnitPrice(item, adjusted.unitPrice)}
+        </span>
+      </div>
+      {label && <p className="text-amber-700">{label}</p>}
     </div>
   );
 }
@@ -0,0 +1,162 @@
+// src/components/admin/pos/staff-pin-actions.tsx
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { isValidPosPin } from "@/lib/pos/approvals";
+import { KeyRound, Loader2 } from "lucide-react";
+
+interface StaffPinActionsProps {
+  userId: string;
+  name: string;
+  hasPin: boolean;
+}
+
+/**
+ * Set, replace or remove the POS PIN of a staff member
+ */
+export default function StaffPinActions({ userId, name, hasPin }: StaffPinActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (method: "PUT" | "DELETE") => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/pos/staff/${userId}/pin`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: method === "PUT" ? JSON.stringify({ pin }) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update the PIN");
+      }
+
+      toast({
+        title: method === "PUT" ? "PIN Saved" : "PIN Removed",
+        description:
+          method === "PUT"
+            ? `${name} can now use the PIN on the register.`
+            : `${name} no longer has a POS PIN.`,
+      });
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the PIN",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pinError =
+    pin && !isValidPosPin(pin)
+      ? "The PIN must be 4 to 8 digits"
+      : confirmPin && confirmPin !== pin
+        ? "The PINs do not match"
+        : null;
+
+  return (
+    <>
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setPin("");
+            setConfirmPin("");
+            setOpen(true);
+          }}
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          {hasPin ? "Change PIN" : "Set PIN"}
+        </Button>
+        {hasPin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => submit("DELETE")}
+            disabled={isSubmitting}
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>POS PIN of {name}</DialogTitle>
+            <DialogDescription>
+              4 to 8 digits. Setting a PIN also unlocks it after too many wrong attempts.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pos-pin">PIN</Label>
+              <Input
+                id="pos-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pos-pin-confirm">Confirm PIN</Label>
+              <Input
+                id="pos-pin-confirm"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={confirmPin}
+                onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+              />
+            </div>
+            {pinError && <p className="text-sm text-red-600">{pinError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => submit("PUT")}
+              disabled={isSubmitting || !isValidPosPin(pin) || confirmPin !== pin}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save PIN
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
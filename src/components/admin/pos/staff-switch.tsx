@@ -0,0 +1,187 @@
+// src/components/admin/pos/staff-switch.tsx
+"use client";
+
+import { useState } from "react";
+import { signIn } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { isValidPosPin } from "@/lib/pos/approvals";
+import { Loader2, Lock, UserRound, Users } from "lucide-react";
+
+interface StaffMember {
+  id: string;
+  name: string | null;
+  email: string;
+  role: string;
+  hasPin: boolean;
+  locked: boolean;
+}
+
+interface StaffSwitchProps {
+  currentUserId: string;
+}
+
+/**
+ * Let another staff member take over the register with their PIN, without
+ * signing out and in again with a password
+ */
+export default function StaffSwitch({ currentUserId }: StaffSwitchProps) {
+  const [open, setOpen] = useState(false);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [selected, setSelected] = useState<StaffMember | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const openDialog = async () => {
+    setOpen(true);
+    setSelected(null);
+    setPin("");
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/pos/staff");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the staff");
+      }
+      setStaff(
+        (data as StaffMember[]).filter((member) => member.hasPin && member.id !== currentUserId)
+      );
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load the staff");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchStaff = async () => {
+    if (!selected || !isValidPosPin(pin)) return;
+    setIsSwitching(true);
+    setError(null);
+    try {
+      const result = await signIn("pos-pin", {
+        redirect: false,
+        userId: selected.id,
+        pin,
+      });
+      if (!result || result.error) {
+        throw new Error(
+          result?.error && result.error !== "CredentialsSignin" ? result.error : "Wrong PIN"
+        );
+      }
+      // Reload so the whole register (open shift, permissions) follows the new cashier
+      window.location.reload();
+    } catch (switchError) {
+      setPin("");
+      setError(switchError instanceof Error ? switchError.message : "Failed to switch cashier");
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openDialog}>
+        <Users className="h-4 w-4 mr-2" />
+        Switch cashier
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Switch Cashier</DialogTitle>
+            <DialogDescription>
+              {selected
+                ? `Enter the PIN of ${selected.name || selected.email}.`
+                : "Select who takes over the register. Park the current cart first to keep it."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : selected ? (
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              placeholder="PIN"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") switchStaff();
+              }}
+              className="text-center text-2xl tracking-[0.5em]"
+              autoFocus
+            />
+          ) : staff.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No other staff member has a POS PIN yet. An admin can set PINs on the POS staff page.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {staff.map((member) => (
+                <button
+                  key={member.id}
+                  type="button"
+                  disabled={member.locked}
+                  onClick={() => {
+                    setSelected(member);
+                    setError(null);
+                  }}
+                  className="flex items-center gap-2 rounded-md border p-3 text-left text-sm hover:bg-slate-50 disabled:opacity-50"
+                >
+                  {member.locked ? (
+                    <Lock className="h-4 w-4 text-gray-400" />
+                  ) : (
+                    <UserRound className="h-4 w-4 text-indigo-600" />
+                  )}
+                  <span>
+                    <span className="block font-medium text-gray-800">
+                      {member.name || member.email}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {member.role === "SHOP_ADMIN" ? "Admin" : "Staff"}
+                      {member.locked && " · locked"}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            {selected ? (
+              <>
+                <Button variant="outline" onClick={() => setSelected(null)} disabled={isSwitching}>
+                  Back
+                </Button>
+                <Button onClick={switchStaff} disabled={isSwitching || !isValidPosPin(pin)}>
+                  {isSwitching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Switch
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Close
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { EXPIRING_SOON_DAYS } from "@/lib/stock-lot";
 import { Search, X } from "lucide-react";
 
 interface Category {
@@ -28,6 +29,7 @@ interface ProductFiltersProps {
     category?: string;
     inStock?: string;
     lowStock?: string;
+    expiringSoon?: string;
     page?: string;
     perPage?: string;
     sort?: string;
@@ -54,6 +56,9 @@ export default function ProductFilters({
   const [isLowStock, setIsLowStock] = useState(
     currentFilters.lowStock === "true"
   );
+  const [isExpiringSoon, setIsExpiringSoon] = useState(
+    currentFilters.expiringSoon === "true"
+  );
 
   // Update URL when filters change
   const updateFilters = () => {
@@ -89,6 +94,12 @@ export default function ProductFilters({
       params.delete("lowStock");
     }
 
+    if (isExpiringSoon) {
+      params.set("expiringSoon", "true");
+    } else {
+      params.delete("expiringSoon");
+    }
+
     router.push(`${pathname}?${params.toString()}`);
   };
 
@@ -99,7 +110,7 @@ export default function ProductFilters({
     }, 500); // 500ms debounce
 
     return () => clearTimeout(timeoutId);
-  }, [searchTerm, selectedCategory, isInStock, isLowStock]);
+  }, [searchTerm, selectedCategory, isInStock, isLowStock, isExpiringSoon]);
 
   // Clear all filters
   const clearFilters = () => {
@@ -107,6 +118,7 @@ export default function ProductFilters({
     setSelectedCategory("all");
     setIsInStock(false);
     setIsLowStock(false);
+    setIsExpiringSoon(false);
 
     router.push(pathname);
   };
@@ -176,10 +188,22 @@ export default function ProductFilters({
             </Label>
           </div>
 
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="expiringSoon"
+              checked={isExpiringSoon}
+              onCheckedChange={(checked) => setIsExpiringSoon(checked === true)}
+            />
+            <Label htmlFor="expiringSoon" className="text-gray-800">
+              Expiring Soon (≤{EXPIRING_SOON_DAYS} days)
+            </Label>
+          </div>
+
           {(searchTerm ||
             selectedCategory !== "all" ||
             isInStock ||
-            isLowStock) && (
+            isLowStock ||
+            isExpiringSoon) && (
             <Button
               variant="outline"
               size="sm"
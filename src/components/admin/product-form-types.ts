@@ -1,5 +1,6 @@
 // src/components/admin/product-form-types.ts
 import { z } from "zod";
+import { UNITS_OF_MEASURE } from "@/lib/units";
 
 // Custom field value for variants
 export interface VariantCustomFieldValue {
@@ -28,7 +29,9 @@ export const productSchema = z.object({
         price: z.coerce.number().min(0, { message: "Price must be positive" }),
         cost: z.coerce.number().optional().nullable(),
         tva: z.coerce.number().min(0).max(100).default(19),
-        inventory: z.coerce.number().int().min(0).default(0),
+        unit: z.enum(UNITS_OF_MEASURE).default("UNIT"),
+        inventory: z.coerce.number().default(0), // Decimal for weights and volumes
+        allowBackorder: z.boolean().default(false), // Keeps selling once the stock runs out
         sku: z.string().optional(),
         barcode: z.string().optional(),
         options: z.record(z.string(), z.string()),
@@ -42,9 +45,14 @@ export const productSchema = z.object({
           )
           .default([]), // Move custom fields to variant level
       })
+      // Only backordered variants are sold below zero
+      .refine((variant) => variant.allowBackorder || variant.inventory >= 0, {
+        message: "Inventory cannot be negative",
+        path: ["inventory"],
+      })
     )
     .min(1, { message: "At least one variant is required" }), // Products must have variants
-  expiryDate: z.string().optional().nullable(),
+  isGiftCard: z.boolean().default(false), // Sold at the register to issue gift cards
 });
 
 export type ProductFormValues = z.infer<typeof productSchema>;
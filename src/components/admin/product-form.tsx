@@ -24,6 +24,8 @@ import BasicInfoTab from "./product-tabs/basic-info-tab";
 import ImagesTab from "./product-tabs/images-tab";
 import CategoriesTab from "./product-tabs/categories-tab";
 import VariantsTab from "./product-tabs/variants-tab";
+import StockHistoryTab from "./product-tabs/stock-history-tab";
+import LotsTab from "./product-tabs/lots-tab";
 
 export default function ProductForm({
   product,
@@ -73,7 +75,9 @@ export default function ProductForm({
             price: v.price,
             cost: v.cost,
             tva: v.tva || 19,
+            unit: v.unit || "UNIT",
             inventory: v.inventory,
+            allowBackorder: v.allowBackorder ?? false,
             sku: v.sku || "",
             barcode: v.barcode || "",
             options: v.options,
@@ -88,16 +92,16 @@ export default function ProductForm({
               price: 0,
               cost: null,
               tva: 19,
+              unit: "UNIT",
               inventory: 0,
+              allowBackorder: false,
               sku: "",
               barcode: "",
               options: {},
               customFieldValues: [],
             },
           ],
-        expiryDate: product.expiryDate
-          ? new Date(product.expiryDate).toISOString().split("T")[0]
-          : null,
+        isGiftCard: product.isGiftCard ?? false,
       }
     : {
         name: "",
@@ -114,14 +118,16 @@ export default function ProductForm({
             price: 0,
             cost: null,
             tva: 19,
+            unit: "UNIT",
             inventory: 0,
+            allowBackorder: false,
             sku: "",
             barcode: "",
             options: {},
             customFieldValues: [],
           },
         ],
-        expiryDate: null,
+        isGiftCard: false,
       };
 
   // Create form with schema validation and default values
@@ -173,6 +179,16 @@ export default function ProductForm({
     }));
   };
 
+  // Adding or writing off a lot changes the stock, keep the form in step so
+  // saving the product does not set it back
+  const handleInventoryChange = (variantId: string, inventory: number) => {
+    const variants = form
+      .getValues("variants")
+      .map((variant) => (variant.id === variantId ? { ...variant, inventory } : variant));
+    form.setValue("variants", variants);
+    updateFormState("variants", variants);
+  };
+
   // Handle form submission
   const onSubmit = async (values: ProductFormValues) => {
     setIsSubmitting(true);
@@ -334,6 +350,32 @@ export default function ProductForm({
             >
               Variants & Custom Fields
             </TabsTrigger>
+            {isEditing && (
+              <TabsTrigger
+                className="rounded-md"
+                style={{
+                  backgroundColor:
+                    activeTab === "stock" ? "#2c3e50" : "transparent",
+                  color: activeTab === "stock" ? "white" : "#bdc3c7",
+                }}
+                value="stock"
+              >
+                Stock History
+              </TabsTrigger>
+            )}
+            {isEditing && (
+              <TabsTrigger
+                className="rounded-md"
+                style={{
+                  backgroundColor:
+                    activeTab === "lots" ? "#2c3e50" : "transparent",
+                  color: activeTab === "lots" ? "white" : "#bdc3c7",
+                }}
+                value="lots"
+              >
+                Lots
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Tab Contents */}
@@ -364,6 +406,25 @@ export default function ProductForm({
               onRefreshCustomFields={refreshCustomFields}
             />
           </TabsContent>
+
+          {isEditing && (
+            <TabsContent value="stock">
+              <StockHistoryTab
+                productId={product.id}
+                variants={product.variants ?? []}
+              />
+            </TabsContent>
+          )}
+
+          {isEditing && (
+            <TabsContent value="lots">
+              <LotsTab
+                productId={product.id}
+                variants={product.variants ?? []}
+                onInventoryChange={handleInventoryChange}
+              />
+            </TabsContent>
+          )}
         </Tabs>
         
         {/* Form Error Summary */}
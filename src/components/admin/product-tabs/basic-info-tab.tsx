@@ -16,6 +16,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { ProductFormValues } from "../product-form-types";
 
@@ -162,6 +163,26 @@ export default function BasicInfoTab({ control }: BasicInfoTabProps) {
 
 
         </div>
+
+        <FormField
+          control={control}
+          name="isGiftCard"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border-2 p-4" style={{ borderColor: "#bdc3c7" }}>
+              <div className="space-y-0.5">
+                <FormLabel style={{ color: "#2c3e50" }} className="font-medium text-base">
+                  Gift Card
+                </FormLabel>
+                <FormDescription style={{ color: "#7f8c8d" }}>
+                  Selling this product at the register issues a gift card worth its price. No stock is kept.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
       </CardContent>
     </Card>
   );
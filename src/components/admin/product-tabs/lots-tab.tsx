@@ -0,0 +1,385 @@
+// src/components/admin/product-tabs/lots-tab.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import type { UnitOfMeasure } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { lotExpiryState } from "@/lib/stock-lot";
+import { formatQuantity, isMeasuredUnit } from "@/lib/units";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { Loader2, Plus } from "lucide-react";
+
+interface StockLot {
+  id: string;
+  lotNumber: string;
+  expiryDate: string | null;
+  quantity: number;
+  createdAt: string;
+  variant: { id: string; name: string; unit: UnitOfMeasure; inventory: number };
+}
+
+interface LotsTabProps {
+  productId: string;
+  variants: { id: string; name: string; unit?: UnitOfMeasure | null }[];
+  onInventoryChange: (variantId: string, inventory: number) => void;
+}
+
+const EXPIRY_BADGES = {
+  EXPIRED: { label: "Expired", className: "bg-red-50 text-red-700 border-red-200" },
+  EXPIRING_SOON: { label: "Expiring soon", className: "bg-amber-50 text-amber-700 border-amber-200" },
+} as const;
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+/**
+ * Stock of the product variants by lot, in the order they are sold
+ */
+export default function LotsTab({ productId, variants, onInventoryChange }: LotsTabProps) {
+  const { toast } = useToast();
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === "SHOP_ADMIN";
+  const [lots, setLots] = useState<StockLot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [addOpen, setAddOpen] = useState(false);
+  const [variantId, setVariantId] = useState(variants[0]?.id ?? "");
+  const [lotNumber, setLotNumber] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [writingOffId, setWritingOffId] = useState<string | null>(null);
+  const { getKey, resetKey } = useIdempotencyKey();
+
+  const fetchLots = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/products/${productId}/lots`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the lots");
+      }
+      setLots(data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load the lots");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    fetchLots();
+  }, [fetchLots]);
+
+  const resetForm = () => {
+    setLotNumber("");
+    setExpiryDate("");
+    setQuantity("");
+    resetKey();
+  };
+
+  const handleAddLot = async () => {
+    if (!lotNumber.trim() || !(parseFloat(quantity) > 0)) {
+      toast({
+        title: "Error",
+        description: "Enter the lot number and the quantity received",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const requestKey = getKey();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/products/${productId}/lots`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": requestKey,
+        },
+        body: JSON.stringify({
+          variantId,
+          lotNumber,
+          expiryDate: expiryDate || null,
+          quantity: parseFloat(quantity),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add the lot");
+      }
+
+      toast({
+        title: "Lot Added",
+        description: `Lot ${data.lotNumber} is now in stock`,
+      });
+      onInventoryChange(data.variant.id, data.variant.inventory);
+      resetForm();
+      setAddOpen(false);
+      fetchLots();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWriteOff = async (lot: StockLot) => {
+    if (
+      !confirm(
+        `Write off lot ${lot.lotNumber}? ${formatQuantity(lot.quantity, lot.variant.unit)} will be taken out of the stock.`
+      )
+    ) {
+      return;
+    }
+
+    setWritingOffId(lot.id);
+    try {
+      const response = await fetch(`/api/products/${productId}/lots/${lot.id}/write-off`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to write off the lot");
+      }
+      onInventoryChange(data.variant.id, data.variant.inventory);
+      fetchLots();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setWritingOffId(null);
+    }
+  };
+
+  const selectedUnit = variants.find((variant) => variant.id === variantId)?.unit;
+  const expiredLots = lots.filter((lot) => lotExpiryState(lot.expiryDate) === "EXPIRED");
+  const sellableLots = lots.filter((lot) => lotExpiryState(lot.expiryDate) !== "EXPIRED");
+
+  const renderLots = (rows: StockLot[]) => (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Lot</TableHead>
+            <TableHead>Variant</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Received</TableHead>
+            <TableHead className="text-right">In stock</TableHead>
+            {isAdmin && <TableHead />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((lot) => {
+            const state = lotExpiryState(lot.expiryDate);
+            return (
+              <TableRow key={lot.id}>
+                <TableCell className="font-mono font-medium">{lot.lotNumber}</TableCell>
+                <TableCell>{lot.variant.name}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {lot.expiryDate ? formatDate(lot.expiryDate) : "-"}
+                    {state !== "OK" && (
+                      <Badge variant="outline" className={EXPIRY_BADGES[state].className}>
+                        {EXPIRY_BADGES[state].label}
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>{formatDate(lot.createdAt)}</TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatQuantity(lot.quantity, lot.variant.unit)}
+                </TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleWriteOff(lot)}
+                      disabled={writingOffId === lot.id}
+                    >
+                      {writingOffId === lot.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Write Off
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <Card className="border-0 shadow">
+      <CardHeader
+        style={{ backgroundColor: "#2c3e50" }}
+        className="text-white rounded-t-lg"
+      >
+        <CardTitle className="text-xl font-medium">Lots</CardTitle>
+        <CardDescription
+          style={{ color: "#bdc3c7" }}
+          className="mt-1 text-base"
+        >
+          Stock received by lot and expiry date. The lot that expires first is sold first, expired lots are not sold.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 bg-white space-y-4">
+        {isAdmin && (
+          <Button type="button" onClick={() => setAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Lot
+          </Button>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">{error}</div>
+        ) : lots.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No lots in stock</div>
+        ) : (
+          <>
+            {sellableLots.length > 0 && renderLots(sellableLots)}
+            {expiredLots.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-red-700">Expired stock</h3>
+                <p className="text-sm text-gray-500">
+                  Not sold at the register or online. Write it off once it is thrown away.
+                </p>
+                {renderLots(expiredLots)}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={addOpen}
+        onOpenChange={(open) => {
+          setAddOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Lot</DialogTitle>
+            <DialogDescription>
+              Stock received outside of a purchase order. The quantity is added to the stock of the variant.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {variants.length > 1 && (
+              <div className="space-y-2">
+                <Label>Variant</Label>
+                <Select value={variantId} onValueChange={setVariantId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variants.map((variant) => (
+                      <SelectItem key={variant.id} value={variant.id}>
+                        {variant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lotNumber">Lot number</Label>
+                <Input
+                  id="lotNumber"
+                  value={lotNumber}
+                  onChange={(e) => setLotNumber(e.target.value)}
+                  className="font-mono"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lotExpiry">Expires on</Label>
+                <Input
+                  id="lotExpiry"
+                  type="date"
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lotQuantity">Quantity received</Label>
+              <Input
+                id="lotQuantity"
+                type="number"
+                min="0"
+                step={isMeasuredUnit(selectedUnit) ? "0.001" : "1"}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setAddOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleAddLot} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Lot
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
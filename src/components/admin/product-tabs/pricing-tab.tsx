@@ -274,38 +274,6 @@ export default function PricingTab({ control }: PricingTabProps) {
             )}
           />
         </div>
-
-        <FormField
-          control={control}
-          name="expiryDate"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel
-                style={{ color: "#2c3e50" }}
-                className="font-medium text-base"
-              >
-                Expiry Date
-              </FormLabel>
-              <FormControl>
-                <Input
-                  type="date"
-                  className="border-2"
-                  style={{
-                    borderColor: "#bdc3c7",
-                    color: "#2c3e50",
-                    backgroundColor: "white",
-                  }}
-                  value={field.value || ""}
-                  onChange={field.onChange}
-                />
-              </FormControl>
-              <FormDescription style={{ color: "#7f8c8d" }}>
-                Set if product has an expiration date
-              </FormDescription>
-              <FormMessage className="text-red-600" />
-            </FormItem>
-          )}
-        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,189 @@
+// src/components/admin/product-tabs/stock-history-tab.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { StockMovementReason, UnitOfMeasure } from "@prisma/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { STOCK_MOVEMENT_REASON_LABELS } from "@/lib/stock-movement";
+import { formatQuantity } from "@/lib/units";
+import { Loader2 } from "lucide-react";
+
+interface StockMovement {
+  id: string;
+  reason: StockMovementReason;
+  quantity: number;
+  levelAfter: number;
+  notes: string | null;
+  createdAt: string;
+  variant: { id: string; name: string; unit: UnitOfMeasure };
+  order: { id: string; orderNumber: string } | null;
+  createdBy: { name: string | null; email: string } | null;
+}
+
+interface StockHistoryTabProps {
+  productId: string;
+  variants: { id: string; name: string }[];
+}
+
+const ALL_VARIANTS = "all";
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+}
+
+/**
+ * Every change of the stock of the product variants, latest first
+ */
+export default function StockHistoryTab({ productId, variants }: StockHistoryTabProps) {
+  const [variantId, setVariantId] = useState(ALL_VARIANTS);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMovements = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (variantId !== ALL_VARIANTS) params.set("variantId", variantId);
+
+      const response = await fetch(`/api/products/${productId}/stock-movements?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the stock history");
+      }
+      setMovements(data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load the stock history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId, variantId]);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [fetchMovements]);
+
+  return (
+    <Card className="border-0 shadow">
+      <CardHeader
+        style={{ backgroundColor: "#2c3e50" }}
+        className="text-white rounded-t-lg"
+      >
+        <CardTitle className="text-xl font-medium">Stock History</CardTitle>
+        <CardDescription
+          style={{ color: "#bdc3c7" }}
+          className="mt-1 text-base"
+        >
+          Sales, returns and adjustments that changed the stock of each variant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 bg-white space-y-4">
+        {variants.length > 1 && (
+          <Select value={variantId} onValueChange={setVariantId}>
+            <SelectTrigger className="max-w-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_VARIANTS}>All variants</SelectItem>
+              {variants.map((variant) => (
+                <SelectItem key={variant.id} value={variant.id}>
+                  {variant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">{error}</div>
+        ) : movements.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No stock movements yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{formatDateTime(movement.createdAt)}</TableCell>
+                    <TableCell>{movement.variant.name}</TableCell>
+                    <TableCell>
+                      <div>{STOCK_MOVEMENT_REASON_LABELS[movement.reason]}</div>
+                      {movement.notes && (
+                        <div className="text-xs text-gray-500">{movement.notes}</div>
+                      )}
+                      {movement.createdBy && (
+                        <div className="text-xs text-gray-500">
+                          {movement.createdBy.name || movement.createdBy.email}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {movement.order ? (
+                        <Link
+                          href={`/admin/orders/${movement.order.id}`}
+                          className="font-medium text-indigo-600 hover:underline"
+                        >
+                          #{movement.order.orderNumber}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${
+                        movement.quantity < 0 ? "text-red-600" : "text-green-600"
+                      }`}
+                    >
+                      {movement.quantity < 0 ? "-" : "+"}
+                      {formatQuantity(Math.abs(movement.quantity), movement.variant.unit)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(movement.levelAfter, movement.variant.unit)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
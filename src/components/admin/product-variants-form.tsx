@@ -5,6 +5,8 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trash, Plus, ChevronDown, ChevronUp } from "lucide-react";
 import {
   Card,
@@ -12,7 +14,16 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import type { UnitOfMeasure } from "@prisma/client";
 import { useCurrency } from "@/hooks/use-currency.hook";
+import {
+  formatQuantity,
+  isMeasuredUnit,
+  roundQuantity,
+  UNIT_LABELS,
+  UNIT_SYMBOLS,
+  UNITS_OF_MEASURE,
+} from "@/lib/units";
 import VariantCustomFields from "./variant-custom-fields";
 
 interface VariantCustomFieldValue {
@@ -27,7 +38,9 @@ interface Variant {
   price: number;   // Required
   cost?: number;
   tva: number;
+  unit?: UnitOfMeasure; // Price and inventory are per unit of measure
   inventory: number;
+  allowBackorder?: boolean;
   sku?: string;
   barcode?: string;
   options: Record<string, string>;
@@ -101,7 +114,9 @@ export default function ProductVariantsForm({
       price: 0,        // Required - default to 0
       cost: undefined,
       tva: 19,         // Default TVA
+      unit: "UNIT",
       inventory: 0,
+      allowBackorder: false,
       sku: "",
       barcode: "",
       options: optionTypes.reduce((acc, type) => {
@@ -396,12 +411,13 @@ export default function ProductVariantsForm({
                   <div className="flex items-center">
                     <span style={{ color: "#2c3e50" }}>
                       {formatPrice(variant.price)}
+                      {isMeasuredUnit(variant.unit) && ` / ${UNIT_SYMBOLS[variant.unit ?? "UNIT"]}`}
                     </span>
                     <span className="mx-2 text-sm" style={{ color: "#7f8c8d" }}>
                       |
                     </span>
                     <span style={{ color: "#2c3e50" }}>
-                      {variant.inventory} in stock
+                      {formatQuantity(variant.inventory, variant.unit)} in stock
                     </span>
                     <span className="mx-2 text-sm" style={{ color: "#7f8c8d" }}>
                       |
@@ -458,17 +474,50 @@ export default function ProductVariantsForm({
                         >
                           Inventory
                         </h4>
-                        <div className="grid grid-cols-1 md:grid-cols-1 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div className="space-y-2">
-                            <Label className="text-gray-400">Quantity</Label>
+                            <Label className="text-gray-400">Sold by</Label>
+                            <Select
+                              value={variant.unit || "UNIT"}
+                              onValueChange={(value) => updateVariant(index, "unit", value)}
+                            >
+                              <SelectTrigger
+                                className="border-2"
+                                style={{
+                                  borderColor: "#bdc3c7",
+                                  color: "#2c3e50",
+                                  backgroundColor: "white",
+                                }}
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {UNITS_OF_MEASURE.map((unit) => (
+                                  <SelectItem key={unit} value={unit}>
+                                    {unit === "UNIT"
+                                      ? "Unit (piece)"
+                                      : `${UNIT_LABELS[unit]} (${UNIT_SYMBOLS[unit]})`}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label className="text-gray-400">
+                              Quantity
+                              {isMeasuredUnit(variant.unit) && ` (${UNIT_SYMBOLS[variant.unit ?? "UNIT"]})`}
+                            </Label>
                             <Input
                               type="number"
+                              step={isMeasuredUnit(variant.unit) ? "0.001" : "1"}
                               value={variant.inventory}
                               onChange={(e) =>
                                 updateVariant(
                                   index,
                                   "inventory",
-                                  parseInt(e.target.value) || 0
+                                  isMeasuredUnit(variant.unit)
+                                    ? roundQuantity(parseFloat(e.target.value) || 0)
+                                    : parseInt(e.target.value) || 0
                                 )
                               }
                               className="border-2"
@@ -479,6 +528,18 @@ export default function ProductVariantsForm({
                               }}
                             />
                           </div>
+                          <div className="flex items-center space-x-2 md:col-span-2">
+                            <Switch
+                              id={`allowBackorder-${index}`}
+                              checked={variant.allowBackorder ?? false}
+                              onCheckedChange={(checked) =>
+                                updateVariant(index, "allowBackorder", checked)
+                              }
+                            />
+                            <Label htmlFor={`allowBackorder-${index}`} className="text-gray-400">
+                              Allow backorders (keep selling when out of stock)
+                            </Label>
+                          </div>
                         </div>
                       </div>
 
@@ -491,7 +552,10 @@ export default function ProductVariantsForm({
                         </h4>
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                           <div className="space-y-2">
-                            <Label className="text-gray-400">Price ({currencySymbol})</Label>
+                            <Label className="text-gray-400">
+                              Price ({currencySymbol}
+                              {isMeasuredUnit(variant.unit) && ` / ${UNIT_SYMBOLS[variant.unit ?? "UNIT"]}`})
+                            </Label>
                             <Input
                               type="number"
                               step="0.01"
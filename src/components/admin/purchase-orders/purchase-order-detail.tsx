@@ -0,0 +1,377 @@
+// src/components/admin/purchase-orders/purchase-order-detail.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { PurchaseOrderStatus } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { RECEIVABLE_PURCHASE_ORDER_STATUSES } from "@/lib/purchase-order";
+import { formatQuantity, roundQuantity } from "@/lib/units";
+import { formatCurrency } from "@/lib/utils";
+import { Ban, Download, Loader2, Mail, Pencil, PackageCheck, Send } from "lucide-react";
+import PurchaseOrderStatusBadge from "./purchase-order-status-badge";
+import ReceiveGoodsDialog, { type ReceivableItem } from "./receive-goods-dialog";
+
+interface PurchaseOrderItem extends ReceivableItem {
+  sku: string | null;
+  cost: number;
+  total: number;
+  variant: { id: string; productId: string; inventory: number } | null;
+}
+
+interface PurchaseReceipt {
+  id: string;
+  notes: string | null;
+  createdAt: string;
+  createdBy: { name: string | null; email: string } | null;
+  items: {
+    id: string;
+    purchaseOrderItemId: string;
+    quantity: number;
+    lotNumber: string | null;
+    expiryDate: string | null;
+  }[];
+}
+
+interface PurchaseOrderDetails {
+  id: string;
+  number: string;
+  status: PurchaseOrderStatus;
+  expectedAt: string | null;
+  sentAt: string | null;
+  notes: string | null;
+  total: number;
+  createdAt: string;
+  supplier: {
+    id: string;
+    name: string;
+    contactName: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  createdBy: { name: string | null; email: string } | null;
+  items: PurchaseOrderItem[];
+  receipts: PurchaseReceipt[];
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+}
+
+interface PurchaseOrderDetailProps {
+  purchaseOrderId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * A purchase order with what has been received so far
+ */
+export default function PurchaseOrderDetail({ purchaseOrderId, isAdmin }: PurchaseOrderDetailProps) {
+  const { toast } = useToast();
+  const [order, setOrder] = useState<PurchaseOrderDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [receiveOpen, setReceiveOpen] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the purchase order");
+      }
+      setOrder(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the purchase order",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [purchaseOrderId, toast]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  const updateStatus = async (status: PurchaseOrderStatus) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update the purchase order");
+      }
+      setOrder(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+  if (!order) {
+    return <div className="text-center py-8 text-gray-500">Purchase order not found</div>;
+  }
+
+  const pdfUrl = `/api/purchase-orders/${order.id}/download`;
+  const canReceive = RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(order.status);
+  const canCancel = isAdmin && order.status !== "RECEIVED" && order.status !== "CANCELLED";
+
+  // The mail client cannot attach files: the PDF is downloaded to attach it by hand
+  const handleEmailSupplier = async () => {
+    if (!order.supplier.email) return;
+    window.open(pdfUrl, "_blank");
+    const greeting = order.supplier.contactName ? `Hello ${order.supplier.contactName},` : "Hello,";
+    const body = [
+      greeting,
+      "",
+      `Please find attached our purchase order ${order.number}${
+        order.expectedAt ? `, to be delivered by ${formatDate(order.expectedAt)}` : ""
+      }.`,
+      "",
+      "Thank you",
+    ].join("\n");
+    window.location.href = `mailto:${order.supplier.email}?subject=${encodeURIComponent(
+      `Purchase order ${order.number}`
+    )}&body=${encodeURIComponent(body)}`;
+    if (order.status === "DRAFT") {
+      await updateStatus("SENT");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-bold text-gray-800">{order.number}</h2>
+            <PurchaseOrderStatusBadge status={order.status} />
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            Created {formatDate(order.createdAt)}
+            {order.createdBy && ` by ${order.createdBy.name || order.createdBy.email}`}
+            {order.sentAt && ` · Sent ${formatDate(order.sentAt)}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <a href={pdfUrl}>
+            <Button variant="outline">
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
+          </a>
+          {isAdmin && order.supplier.email && order.status !== "CANCELLED" && (
+            <Button variant="outline" onClick={handleEmailSupplier} disabled={isUpdating}>
+              <Mail className="h-4 w-4 mr-2" />
+              Email Supplier
+            </Button>
+          )}
+          {isAdmin && order.status === "DRAFT" && (
+            <>
+              <Link href={`/admin/purchase-orders/${order.id}/edit`}>
+                <Button variant="outline">
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              </Link>
+              <Button variant="outline" onClick={() => updateStatus("SENT")} disabled={isUpdating}>
+                <Send className="h-4 w-4 mr-2" />
+                Mark as Sent
+              </Button>
+            </>
+          )}
+          {canCancel && (
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (confirm(`Cancel purchase order ${order.number}? Items not received yet will no longer be expected.`)) {
+                  updateStatus("CANCELLED");
+                }
+              }}
+              disabled={isUpdating}
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              Cancel Order
+            </Button>
+          )}
+          {canReceive && (
+            <Button onClick={() => setReceiveOpen(true)}>
+              <PackageCheck className="h-4 w-4 mr-2" />
+              Receive Goods
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Supplier</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm">
+            <div className="text-lg font-medium text-gray-800">{order.supplier.name}</div>
+            {order.supplier.contactName && <div>{order.supplier.contactName}</div>}
+            {order.supplier.email && <div>{order.supplier.email}</div>}
+            {order.supplier.phone && <div>{order.supplier.phone}</div>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Delivery by</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-800">
+              {order.expectedAt ? formatDate(order.expectedAt) : "-"}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Total</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-indigo-600">{formatCurrency(order.total)}</div>
+          </CardContent>
+        </Card>
+      </div>
+      {order.notes && <p className="text-sm text-gray-600">{order.notes}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead className="text-right">Unit cost</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      {item.variant ? (
+                        <Link
+                          href={`/admin/products/${item.variant.productId}`}
+                          className="font-medium text-indigo-600 hover:underline"
+                        >
+                          {item.productName} - {item.variantName}
+                        </Link>
+                      ) : (
+                        <span className="font-medium">
+                          {item.productName} - {item.variantName}
+                        </span>
+                      )}
+                      {item.sku && <div className="text-xs text-gray-500">{item.sku}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.quantity, item.unit)}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.receivedQuantity, item.unit)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(roundQuantity(Math.max(item.quantity - item.receivedQuantity, 0)), item.unit)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.cost)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(item.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Receipts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {order.receipts.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">Nothing received yet</div>
+          ) : (
+            <div className="space-y-4">
+              {order.receipts.map((receipt) => (
+                <div key={receipt.id} className="rounded-md border p-4">
+                  <div className="text-sm font-medium text-gray-800">
+                    {formatDateTime(receipt.createdAt)}
+                    {receipt.createdBy && (
+                      <span className="font-normal text-gray-500">
+                        {" "}
+                        by {receipt.createdBy.name || receipt.createdBy.email}
+                      </span>
+                    )}
+                  </div>
+                  {receipt.notes && <p className="text-sm text-gray-600">{receipt.notes}</p>}
+                  <ul className="mt-2 text-sm text-gray-700">
+                    {receipt.items.map((receiptItem) => {
+                      const item = order.items.find((line) => line.id === receiptItem.purchaseOrderItemId);
+                      return (
+                        <li key={receiptItem.id}>
+                          {item
+                            ? `${item.productName} - ${item.variantName}: ${formatQuantity(receiptItem.quantity, item.unit)}`
+                            : receiptItem.quantity}
+                          {receiptItem.lotNumber && (
+                            <span className="text-gray-500">
+                              {" "}
+                              · Lot {receiptItem.lotNumber}
+                              {receiptItem.expiryDate && `, expires ${formatDate(receiptItem.expiryDate)}`}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReceiveGoodsDialog
+        open={receiveOpen}
+        purchaseOrderId={order.id}
+        items={order.items}
+        onOpenChange={setReceiveOpen}
+        onReceived={fetchOrder}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+// src/components/admin/purchase-orders/purchase-order-form.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { UnitOfMeasure } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { UNIT_SYMBOLS, formatQuantity, isMeasuredUnit } from "@/lib/units";
+import { formatCurrency } from "@/lib/utils";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface SupplierOption {
+  id: string;
+  name: string;
+}
+
+interface FormLine {
+  variantId: string;
+  label: string;
+  sku: string | null;
+  unit: UnitOfMeasure;
+  inventory: number;
+  quantity: string;
+  cost: string;
+}
+
+interface SearchVariant {
+  id: string;
+  name: string;
+  sku: string | null;
+  unit: UnitOfMeasure;
+  inventory: number;
+  cost: number | null;
+}
+
+interface SearchProduct {
+  id: string;
+  name: string;
+  isGiftCard: boolean;
+  variants: SearchVariant[];
+}
+
+export interface EditablePurchaseOrder {
+  id: string;
+  supplierId: string;
+  expectedAt: string | null;
+  notes: string | null;
+  items: {
+    variantId: string | null;
+    productName: string;
+    variantName: string;
+    sku: string | null;
+    unit: UnitOfMeasure;
+    quantity: number;
+    cost: number;
+    variant: { inventory: number } | null;
+  }[];
+}
+
+interface PurchaseOrderFormProps {
+  order?: EditablePurchaseOrder; // Draft being edited
+}
+
+/**
+ * Supplier, delivery date and the variants to order at their negotiated cost
+ */
+export default function PurchaseOrderForm({ order }: PurchaseOrderFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
+  const [supplierId, setSupplierId] = useState(order?.supplierId ?? "");
+  const [expectedAt, setExpectedAt] = useState(order?.expectedAt?.slice(0, 10) ?? "");
+  const [notes, setNotes] = useState(order?.notes ?? "");
+  const [lines, setLines] = useState<FormLine[]>(
+    (order?.items ?? [])
+      .filter((item) => item.variantId)
+      .map((item) => ({
+        variantId: item.variantId!,
+        label: `${item.productName} - ${item.variantName}`,
+        sku: item.sku,
+        unit: item.unit,
+        inventory: item.variant?.inventory ?? 0,
+        quantity: String(item.quantity),
+        cost: String(item.cost),
+      }))
+  );
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchProduct[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/suppliers")
+      .then((response) => response.json())
+      .then((data) => Array.isArray(data) && setSuppliers(data))
+      .catch((error) => console.error("Error fetching suppliers:", error));
+  }, []);
+
+  useEffect(() => {
+    const search = query.trim();
+    if (!search) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch(`/api/pos/products?query=${encodeURIComponent(search)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to search products");
+        }
+        setResults((data.products as SearchProduct[]).filter((product) => !product.isGiftCard));
+      } catch (error) {
+        console.error("Error searching products:", error);
+      } finally {
+        setIsSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const addLine = (product: SearchProduct, variant: SearchVariant) => {
+    if (lines.some((line) => line.variantId === variant.id)) {
+      toast({
+        title: "Already on the order",
+        description: `${product.name} - ${variant.name}`,
+      });
+      return;
+    }
+    setLines((current) => [
+      ...current,
+      {
+        variantId: variant.id,
+        label: `${product.name} - ${variant.name}`,
+        sku: variant.sku,
+        unit: variant.unit,
+        inventory: variant.inventory,
+        quantity: "1",
+        cost: variant.cost !== null ? String(variant.cost) : "",
+      },
+    ]);
+    setQuery("");
+    setResults([]);
+  };
+
+  const updateLine = (variantId: string, field: "quantity" | "cost", value: string) => {
+    setLines((current) =>
+      current.map((line) => (line.variantId === variantId ? { ...line, [field]: value } : line))
+    );
+  };
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.cost) || 0),
+    0
+  );
+
+  const handleSubmit = async () => {
+    if (!supplierId) {
+      toast({
+        title: "Error",
+        description: "Choose the supplier",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(order ? `/api/purchase-orders/${order.id}` : "/api/purchase-orders", {
+        method: order ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          supplierId,
+          expectedAt: expectedAt || null,
+          notes,
+          items: lines.map((line) => ({
+            variantId: line.variantId,
+            quantity: parseFloat(line.quantity),
+            cost: parseFloat(line.cost),
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save the purchase order");
+      }
+
+      toast({
+        title: order ? "Purchase Order Updated" : "Purchase Order Created",
+        description: data.number,
+      });
+      router.push(`/admin/purchase-orders/${data.id}`);
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Order</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expectedAt">Delivery by</Label>
+              <Input
+                id="expectedAt"
+                type="date"
+                value={expectedAt}
+                onChange={(e) => setExpectedAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="purchaseOrderNotes">Notes</Label>
+            <Textarea
+              id="purchaseOrderNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Printed on the purchase order"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-md">
+            <Input
+              placeholder="Search products by name, SKU or barcode..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            {isSearching && (
+              <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin text-gray-400" />
+            )}
+            {results.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full max-h-72 overflow-y-auto rounded-md border bg-white shadow-lg">
+                {results.flatMap((product) =>
+                  product.variants.map((variant) => (
+                    <button
+                      key={variant.id}
+                      type="button"
+                      className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                      onClick={() => addLine(product, variant)}
+                    >
+                      <span>
+                        {product.name} - {variant.name}
+                        {variant.sku && <span className="ml-2 text-xs text-gray-500">{variant.sku}</span>}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        In stock: {formatQuantity(variant.inventory, variant.unit)}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          {lines.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">Search for the products to order</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">In stock</TableHead>
+                    <TableHead className="w-36">Quantity</TableHead>
+                    <TableHead className="w-36">Unit cost</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.variantId}>
+                      <TableCell>
+                        <div className="font-medium">{line.label}</div>
+                        {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatQuantity(line.inventory, line.unit)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            step={isMeasuredUnit(line.unit) ? "0.001" : "1"}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.variantId, "quantity", e.target.value)}
+                          />
+                          {isMeasuredUnit(line.unit) && (
+                            <span className="text-xs text-gray-500">{UNIT_SYMBOLS[line.unit]}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={line.cost}
+                          onChange={(e) => updateLine(line.variantId, "cost", e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency((parseFloat(line.quantity) || 0) * (parseFloat(line.cost) || 0))}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setLines((current) => current.filter((other) => other.variantId !== line.variantId))
+                          }
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex justify-end pt-4 text-lg font-bold text-gray-800">
+                Total: {formatCurrency(total)}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => router.back()} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {order ? "Save Changes" : "Create Purchase Order"}
+        </Button>
+      </div>
+    </div>
+  );
+}
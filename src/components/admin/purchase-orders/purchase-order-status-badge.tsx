@@ -0,0 +1,20 @@
+// src/components/admin/purchase-orders/purchase-order-status-badge.tsx
+import type { PurchaseOrderStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { PURCHASE_ORDER_STATUS_LABELS } from "@/lib/purchase-order";
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "bg-gray-50 text-gray-700 border-gray-200",
+  SENT: "bg-blue-50 text-blue-700 border-blue-200",
+  PARTIALLY_RECEIVED: "bg-amber-50 text-amber-700 border-amber-200",
+  RECEIVED: "bg-green-50 text-green-700 border-green-200",
+  CANCELLED: "bg-red-50 text-red-700 border-red-200",
+};
+
+export default function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return (
+    <Badge variant="outline" className={STATUS_CLASSES[status]}>
+      {PURCHASE_ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
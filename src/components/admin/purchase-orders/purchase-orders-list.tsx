@@ -0,0 +1,175 @@
+// src/components/admin/purchase-orders/purchase-orders-list.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { PurchaseOrderStatus } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { PURCHASE_ORDER_STATUS_LABELS } from "@/lib/purchase-order";
+import { formatCurrency } from "@/lib/utils";
+import { Loader2, Plus } from "lucide-react";
+import PurchaseOrderStatusBadge from "./purchase-order-status-badge";
+
+interface ListPurchaseOrder {
+  id: string;
+  number: string;
+  status: PurchaseOrderStatus;
+  expectedAt: string | null;
+  total: number;
+  createdAt: string;
+  supplier: { id: string; name: string };
+  _count: { items: number };
+}
+
+type ListView = PurchaseOrderStatus | "ALL";
+
+const VIEWS: { value: ListView; label: string }[] = [
+  { value: "ALL", label: "All" },
+  { value: "DRAFT", label: PURCHASE_ORDER_STATUS_LABELS.DRAFT },
+  { value: "SENT", label: PURCHASE_ORDER_STATUS_LABELS.SENT },
+  { value: "PARTIALLY_RECEIVED", label: PURCHASE_ORDER_STATUS_LABELS.PARTIALLY_RECEIVED },
+  { value: "RECEIVED", label: PURCHASE_ORDER_STATUS_LABELS.RECEIVED },
+  { value: "CANCELLED", label: PURCHASE_ORDER_STATUS_LABELS.CANCELLED },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+interface PurchaseOrdersListProps {
+  isAdmin: boolean;
+  supplierId?: string;
+}
+
+/**
+ * Purchase orders of the shop, latest first
+ */
+export default function PurchaseOrdersList({ isAdmin, supplierId }: PurchaseOrdersListProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [view, setView] = useState<ListView>("ALL");
+  const [search, setSearch] = useState("");
+  const [orders, setOrders] = useState<ListPurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchOrders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (view !== "ALL") params.set("status", view);
+      if (supplierId) params.set("supplierId", supplierId);
+      if (search.trim()) params.set("search", search.trim());
+
+      const response = await fetch(`/api/purchase-orders?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the purchase orders");
+      }
+      setOrders(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the purchase orders",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [view, supplierId, search, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchOrders, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchOrders]);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {VIEWS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={view === option.value ? "default" : "outline"}
+              onClick={() => setView(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Input
+            placeholder="Search by number, supplier or product..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-md"
+          />
+          {isAdmin && (
+            <Link href="/admin/purchase-orders/new">
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                New Purchase Order
+              </Button>
+            </Link>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No purchase orders</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Delivery by</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow
+                    key={order.id}
+                    className="cursor-pointer"
+                    onClick={() => router.push(`/admin/purchase-orders/${order.id}`)}
+                  >
+                    <TableCell className="font-medium">{order.number}</TableCell>
+                    <TableCell>{order.supplier.name}</TableCell>
+                    <TableCell>{formatDate(order.createdAt)}</TableCell>
+                    <TableCell>{order.expectedAt ? formatDate(order.expectedAt) : "-"}</TableCell>
+                    <TableCell>
+                      <PurchaseOrderStatusBadge status={order.status} />
+                    </TableCell>
+                    <TableCell className="text-right">{order._count.items}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(order.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+// src/components/admin/purchase-orders/receive-goods-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { UnitOfMeasure } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { formatQuantity, isMeasuredUnit, roundQuantity } from "@/lib/units";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { Loader2 } from "lucide-react";
+
+export interface ReceivableItem {
+  id: string;
+  productName: string;
+  variantName: string;
+  unit: UnitOfMeasure;
+  quantity: number;
+  receivedQuantity: number;
+}
+
+interface ReceiveGoodsDialogProps {
+  open: boolean;
+  purchaseOrderId: string;
+  items: ReceivableItem[];
+  onOpenChange: (open: boolean) => void;
+  onReceived: () => void;
+}
+
+/**
+ * Quantities delivered for each line still expected, prefilled with what is left
+ */
+export default function ReceiveGoodsDialog({
+  open,
+  purchaseOrderId,
+  items,
+  onOpenChange,
+  onReceived,
+}: ReceiveGoodsDialogProps) {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [lots, setLots] = useState<Record<string, { lotNumber: string; expiryDate: string }>>({});
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { getKey, resetKey } = useIdempotencyKey();
+
+  const pending = items.filter((item) => item.receivedQuantity < item.quantity);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuantities(
+      Object.fromEntries(
+        items.map((item) => [item.id, String(roundQuantity(Math.max(item.quantity - item.receivedQuantity, 0)))])
+      )
+    );
+    setLots({});
+    setNotes("");
+    resetKey();
+  }, [open, items, resetKey]);
+
+  const setLot = (itemId: string, field: "lotNumber" | "expiryDate", value: string) => {
+    setLots((current) => ({
+      ...current,
+      [itemId]: { ...(current[itemId] ?? { lotNumber: "", expiryDate: "" }), [field]: value },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const lines = pending
+      .map((item) => ({
+        purchaseOrderItemId: item.id,
+        quantity: parseFloat(quantities[item.id]) || 0,
+        lotNumber: lots[item.id]?.lotNumber.trim() || null,
+        expiryDate: lots[item.id]?.expiryDate || null,
+      }))
+      .filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter the quantities received",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const requestKey = getKey();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}/receipts`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": requestKey,
+        },
+        body: JSON.stringify({ items: lines, notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to receive the goods");
+      }
+
+      toast({
+        title: "Goods Received",
+        description: "The stock and costs of the items were updated",
+      });
+      onOpenChange(false);
+      onReceived();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            Enter what was delivered. Lines left at zero stay expected for a later delivery. Items
+            with a lot number are sold first expired first out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="w-32">Delivered now</TableHead>
+                  <TableHead className="w-36">Lot</TableHead>
+                  <TableHead className="w-40">Expires</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      {item.productName} - {item.variantName}
+                    </TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.quantity, item.unit)}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.receivedQuantity, item.unit)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step={isMeasuredUnit(item.unit) ? "0.001" : "1"}
+                        value={quantities[item.id] ?? ""}
+                        onChange={(e) =>
+                          setQuantities((current) => ({ ...current, [item.id]: e.target.value }))
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={lots[item.id]?.lotNumber ?? ""}
+                        onChange={(e) => setLot(item.id, "lotNumber", e.target.value)}
+                        placeholder="Optional"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        value={lots[item.id]?.expiryDate ?? ""}
+                        onChange={(e) => setLot(item.id, "expiryDate", e.target.value)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="receiptNotes">Notes</Label>
+            <Textarea
+              id="receiptNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Delivery note number, damaged items..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Receive Goods
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,6 +16,11 @@ import {
   Tag,
   Ticket,
   CreditCard,
+  Gift,
+  Landmark,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -29,10 +34,15 @@ export default function AdminSidebar() {
     { name: "Dashboard", href: "/admin", icon: Home },
     { name: "Products", href: "/admin/products", icon: Package },
     { name: "Categories", href: "/admin/categories", icon: List },
+    { name: "Suppliers", href: "/admin/suppliers", icon: Truck },
+    { name: "Purchase Orders", href: "/admin/purchase-orders", icon: ClipboardList },
+    { name: "Stocktakes", href: "/admin/stocktakes", icon: ClipboardCheck },
     { name: "Point of Sale", href: "/admin/pos", icon: CreditCard },
     { name: "Discounts", href: "/admin/discounts", icon: Tag },
     { name: "Discount Codes", href: "/admin/discount-codes", icon: Ticket },
     { name: "Orders", href: "/admin/orders", icon: ShoppingCart },
+    { name: "Checks", href: "/admin/checks", icon: Landmark },
+    { name: "Gift Cards", href: "/admin/gift-cards", icon: Gift },
     { name: "Customers", href: "/admin/customers", icon: Users },
     { name: "Settings", href: "/admin/settings", icon: Settings },
     // Advanced & Premium features
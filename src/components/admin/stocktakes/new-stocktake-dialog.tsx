@@ -0,0 +1,172 @@
+// src/components/admin/stocktakes/new-stocktake-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface Category {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+interface NewStocktakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Scope of a new count: all variants or some categories, frozen right away or not
+ */
+export default function NewStocktakeDialog({ open, onOpenChange }: NewStocktakeDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [freeze, setFreeze] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected([]);
+    setFreeze(true);
+    setNotes("");
+
+    fetch("/api/categories")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data) => setCategories(Array.isArray(data) ? data : []))
+      .catch(() => setCategories([]));
+  }, [open]);
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    setSelected((current) =>
+      checked ? [...current, categoryId] : current.filter((id) => id !== categoryId)
+    );
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/stocktakes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categoryIds: selected, notes, freeze }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start the stocktake");
+      }
+
+      onOpenChange(false);
+      router.push(`/admin/stocktakes/${data.id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const parentName = (category: Category) =>
+    categories.find((candidate) => candidate.id === category.parentId)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Stocktake</DialogTitle>
+          <DialogDescription>
+            Count every variant, or only the categories selected and their subcategories.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <div className="max-h-56 overflow-y-auto rounded-md border p-3 space-y-2">
+              {categories.length === 0 ? (
+                <div className="text-sm text-gray-500">No categories</div>
+              ) : (
+                categories.map((category) => (
+                  <div key={category.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`category-${category.id}`}
+                      checked={selected.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    <Label htmlFor={`category-${category.id}`} className="font-normal text-gray-800">
+                      {category.name}
+                      {parentName(category) && (
+                        <span className="text-gray-500"> ({parentName(category)})</span>
+                      )}
+                    </Label>
+                  </div>
+                ))
+              )}
+            </div>
+            <p className="text-sm text-gray-500">
+              {selected.length === 0
+                ? "No category selected: all variants will be counted."
+                : `${selected.length} ${selected.length === 1 ? "category" : "categories"} selected.`}
+            </p>
+          </div>
+
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="freezeStocktake"
+              checked={freeze}
+              onCheckedChange={(checked) => setFreeze(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="freezeStocktake" className="text-gray-800">
+                Freeze the stock now
+              </Label>
+              <p className="text-sm text-gray-500">
+                The count is compared with the stock at this moment. Sales made at the register
+                while counting are kept when the count is approved.
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stocktakeNotes">Notes</Label>
+            <Textarea
+              id="stocktakeNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Year-end count, back room..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Start Count
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,505 @@
+// src/components/admin/stocktakes/stocktake-detail.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { StocktakeStatus, UnitOfMeasure } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { summarizeStocktake } from "@/lib/stocktake";
+import { formatQuantity, isMeasuredUnit } from "@/lib/units";
+import { cn, formatCurrency } from "@/lib/utils";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { Ban, CheckCircle2, Loader2, Snowflake } from "lucide-react";
+import StocktakeScanner from "./stocktake-scanner";
+import StocktakeStatusBadge from "./stocktake-status-badge";
+
+interface StocktakeLine {
+  id: string;
+  productName: string;
+  variantName: string;
+  sku: string | null;
+  barcode: string | null;
+  unit: UnitOfMeasure;
+  countedQuantity: number | null;
+  countedAt: string | null;
+  adjustment: number | null;
+  expectedQuantity: number | null;
+  variance: number | null;
+  varianceValue: number | null;
+  variant: { id: string; productId: string; inventory: number; cost: number | null } | null;
+  countedBy: { name: string | null; email: string } | null;
+}
+
+interface StocktakeDetails {
+  id: string;
+  number: string;
+  status: StocktakeStatus;
+  frozenAt: string | null;
+  notes: string | null;
+  createdAt: string;
+  approvedAt: string | null;
+  categories: { id: string; name: string }[];
+  createdBy: { name: string | null; email: string } | null;
+  approvedBy: { name: string | null; email: string } | null;
+  items: StocktakeLine[];
+  summary: ReturnType<typeof summarizeStocktake>;
+}
+
+type LineView = "ALL" | "UNCOUNTED" | "VARIANCES";
+
+const VIEWS: { value: LineView; label: string }[] = [
+  { value: "ALL", label: "All" },
+  { value: "UNCOUNTED", label: "Not counted" },
+  { value: "VARIANCES", label: "Variances" },
+];
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function formatVariance(variance: number, unit: UnitOfMeasure) {
+  return `${variance > 0 ? "+" : ""}${formatQuantity(variance, unit)}`;
+}
+
+/**
+ * Counted quantity of a line, saved when the field is left or Enter is pressed
+ */
+function CountInput({
+  line,
+  disabled,
+  onSave,
+}: {
+  line: StocktakeLine;
+  disabled: boolean;
+  onSave: (line: StocktakeLine, value: string) => Promise<boolean>;
+}) {
+  const saved = line.countedQuantity === null ? "" : String(line.countedQuantity);
+  const [value, setValue] = useState(saved);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setValue(saved);
+  }, [saved]);
+
+  const save = async () => {
+    if (value.trim() === saved) return;
+    setIsSaving(true);
+    if (!(await onSave(line, value.trim()))) {
+      setValue(saved);
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <Input
+      type="number"
+      min="0"
+      step={isMeasuredUnit(line.unit) ? "0.001" : "1"}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      disabled={disabled || isSaving}
+      className="w-28 ml-auto text-right"
+    />
+  );
+}
+
+interface StocktakeDetailProps {
+  stocktakeId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * An inventory count: scanning, the variance of each line and its approval
+ */
+export default function StocktakeDetail({ stocktakeId, isAdmin }: StocktakeDetailProps) {
+  const { toast } = useToast();
+  const [stocktake, setStocktake] = useState<StocktakeDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [view, setView] = useState<LineView>("ALL");
+  const [search, setSearch] = useState("");
+  const { getKey: getApproveKey } = useIdempotencyKey();
+
+  const fetchStocktake = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/stocktakes/${stocktakeId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the stocktake");
+      }
+      setStocktake(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the stocktake",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [stocktakeId, toast]);
+
+  useEffect(() => {
+    fetchStocktake();
+  }, [fetchStocktake]);
+
+  // Counting a line does not reload the whole count, which can be the full catalog
+  const replaceLine = (line: StocktakeLine) => {
+    setStocktake((current) => {
+      if (!current) return current;
+      const items = current.items.map((item) => (item.id === line.id ? line : item));
+      return { ...current, items, summary: summarizeStocktake(items) };
+    });
+  };
+
+  const saveCount = async (line: StocktakeLine, value: string) => {
+    const countedQuantity = value === "" ? null : parseFloat(value);
+    try {
+      const response = await fetch(`/api/stocktakes/${stocktakeId}/items/${line.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ countedQuantity }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save the count");
+      }
+      replaceLine(data);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const runAction = async (path: string, init: RequestInit, failure: string) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/stocktakes/${stocktakeId}${path}`, init);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || failure);
+      }
+      setStocktake(data);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+  if (!stocktake) {
+    return <div className="text-center py-8 text-gray-500">Stocktake not found</div>;
+  }
+
+  const { summary } = stocktake;
+  const inProgress = stocktake.status === "IN_PROGRESS";
+  const showCurrentStock = inProgress && !!stocktake.frozenAt;
+
+  const handleFreeze = () => {
+    if (
+      confirm(
+        `Freeze stocktake ${stocktake.number}? The stock of every line is captured now and the count is compared with it.`
+      )
+    ) {
+      runAction("/freeze", { method: "POST" }, "Failed to freeze the stocktake");
+    }
+  };
+
+  const handleApprove = async () => {
+    const uncounted = summary.lines - summary.counted;
+    if (
+      !confirm(
+        [
+          `Approve stocktake ${stocktake.number}?`,
+          `${summary.withVariance} line(s) with a variance of ${formatCurrency(summary.netValue)} will be posted to the stock.`,
+          uncounted > 0 ? `${uncounted} line(s) not counted are left unchanged.` : null,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      )
+    ) {
+      return;
+    }
+
+    const requestKey = getApproveKey();
+    const approved = await runAction(
+      "/approve",
+      { method: "POST", headers: { "Idempotency-Key": requestKey } },
+      "Failed to approve the stocktake"
+    );
+    if (approved) {
+      toast({
+        title: "Stocktake Approved",
+        description: "The variances were posted to the stock",
+      });
+    }
+  };
+
+  const handleCancel = () => {
+    if (confirm(`Cancel stocktake ${stocktake.number}? The stock is not changed.`)) {
+      runAction(
+        "",
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: "CANCELLED" }),
+        },
+        "Failed to cancel the stocktake"
+      );
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const lines = stocktake.items.filter((line) => {
+    if (view === "UNCOUNTED" && line.countedQuantity !== null) return false;
+    if (view === "VARIANCES" && (line.variance === null || line.variance === 0)) return false;
+    if (!query) return true;
+    return [line.productName, line.variantName, line.sku, line.barcode].some((value) =>
+      value?.toLowerCase().includes(query)
+    );
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-bold text-gray-800">{stocktake.number}</h2>
+            <StocktakeStatusBadge status={stocktake.status} />
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {stocktake.categories.length > 0
+              ? stocktake.categories.map((category) => category.name).join(", ")
+              : "All variants"}
+            {` · Started ${formatDateTime(stocktake.createdAt)}`}
+            {stocktake.createdBy && ` by ${stocktake.createdBy.name || stocktake.createdBy.email}`}
+            {stocktake.frozenAt && ` · Frozen ${formatDateTime(stocktake.frozenAt)}`}
+            {stocktake.approvedAt &&
+              ` · Approved ${formatDateTime(stocktake.approvedAt)}${
+                stocktake.approvedBy ? ` by ${stocktake.approvedBy.name || stocktake.approvedBy.email}` : ""
+              }`}
+          </p>
+          {stocktake.notes && <p className="text-sm text-gray-700 mt-1">{stocktake.notes}</p>}
+        </div>
+        {isAdmin && inProgress && (
+          <div className="flex flex-wrap gap-2">
+            {!stocktake.frozenAt && summary.counted === 0 && (
+              <Button variant="outline" onClick={handleFreeze} disabled={isUpdating}>
+                <Snowflake className="h-4 w-4 mr-2" />
+                Freeze Stock
+              </Button>
+            )}
+            <Button variant="destructive" onClick={handleCancel} disabled={isUpdating}>
+              <Ban className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={handleApprove} disabled={isUpdating || summary.counted === 0}>
+              {isUpdating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+              )}
+              Approve
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Counted</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-800">
+              {summary.counted} / {summary.lines}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Shortages</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(summary.shortageValue)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Surpluses</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(summary.surplusValue)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Net variance at cost</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div
+              className={cn(
+                "text-2xl font-bold",
+                summary.netValue < 0 ? "text-red-600" : summary.netValue > 0 ? "text-green-600" : "text-gray-800"
+              )}
+            >
+              {formatCurrency(summary.netValue)}
+            </div>
+            <p className="text-sm text-gray-500">{summary.withVariance} line(s) with a variance</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {inProgress && (
+        <>
+          {stocktake.frozenAt ? (
+            <p className="text-sm text-gray-500">
+              Counts are compared with the stock frozen on {formatDateTime(stocktake.frozenAt)}. Sales
+              and deliveries since then show in the current stock and are kept on approval.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Counts are compared with the current stock. Avoid selling counted items until the count
+              is approved, or freeze the stock before counting.
+            </p>
+          )}
+          <StocktakeScanner stocktakeId={stocktake.id} onCounted={replaceLine} />
+        </>
+      )}
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              {VIEWS.map((option) => (
+                <Button
+                  key={option.value}
+                  size="sm"
+                  variant={view === option.value ? "default" : "outline"}
+                  onClick={() => setView(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <Input
+              placeholder="Search by product, SKU or barcode..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-sm"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {lines.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No items</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">
+                      {stocktake.frozenAt ? "Frozen stock" : "Expected"}
+                    </TableHead>
+                    {showCurrentStock && <TableHead className="text-right">Current stock</TableHead>}
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="text-right">Value at cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        {line.variant ? (
+                          <Link
+                            href={`/admin/products/${line.variant.productId}`}
+                            className="font-medium text-gray-800 hover:text-indigo-600 hover:underline"
+                          >
+                            {line.productName} - {line.variantName}
+                          </Link>
+                        ) : (
+                          <span className="font-medium text-gray-800">
+                            {line.productName} - {line.variantName}
+                          </span>
+                        )}
+                        {(line.sku || line.barcode) && (
+                          <div className="text-xs text-gray-500 mt-0.5 font-mono">
+                            {[line.sku, line.barcode].filter(Boolean).join(" · ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.expectedQuantity !== null ? formatQuantity(line.expectedQuantity, line.unit) : "-"}
+                      </TableCell>
+                      {showCurrentStock && (
+                        <TableCell className="text-right text-gray-500">
+                          {line.variant ? formatQuantity(line.variant.inventory, line.unit) : "-"}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right">
+                        {inProgress && line.variant ? (
+                          <CountInput line={line} disabled={isUpdating} onSave={saveCount} />
+                        ) : line.countedQuantity !== null ? (
+                          formatQuantity(line.countedQuantity, line.unit)
+                        ) : (
+                          <span className="text-gray-400">Not counted</span>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          line.variance !== null && line.variance < 0 && "text-red-600",
+                          line.variance !== null && line.variance > 0 && "text-green-600"
+                        )}
+                      >
+                        {line.variance !== null ? formatVariance(line.variance, line.unit) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.varianceValue !== null ? formatCurrency(line.varianceValue) : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+// src/components/admin/stocktakes/stocktake-scanner.tsx
+"use client";
+
+import { useRef, useState } from "react";
+import type { UnitOfMeasure } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key.hook";
+import { formatQuantity } from "@/lib/units";
+import { Loader2, ScanBarcode } from "lucide-react";
+
+export interface ScannedItem {
+  id: string;
+  productName: string;
+  variantName: string;
+  unit: UnitOfMeasure;
+  countedQuantity: number | null;
+}
+
+interface StocktakeScannerProps<T extends ScannedItem> {
+  stocktakeId: string;
+  onCounted: (item: T) => void;
+}
+
+type ScanResult =
+  | { ok: true; label: string; added: string; total: string }
+  | { ok: false; message: string };
+
+/**
+ * Barcode field for counting on a tablet. Scanners type the code and Enter,
+ * so every scan adds the item to its count and the field is ready for the next.
+ * A scan that failed stays in the field, counting it again retries the same scan.
+ */
+export default function StocktakeScanner<T extends ScannedItem>({
+  stocktakeId,
+  onCounted,
+}: StocktakeScannerProps<T>) {
+  const [barcode, setBarcode] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const barcodeRef = useRef<HTMLInputElement>(null);
+  const { getKey, resetKey } = useIdempotencyKey();
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = barcode.trim();
+    if (!code || isScanning) return;
+
+    setIsScanning(true);
+    try {
+      const response = await fetch(`/api/stocktakes/${stocktakeId}/scan`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": getKey(),
+        },
+        body: JSON.stringify({ barcode: code, quantity: quantity ? parseFloat(quantity) : null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to count the item");
+      }
+
+      setResult({
+        ok: true,
+        label: `${data.productName} - ${data.variantName}`,
+        added: quantity ? formatQuantity(parseFloat(quantity), data.unit) : "",
+        total: formatQuantity(data.countedQuantity ?? 0, data.unit),
+      });
+      onCounted(data);
+      resetKey();
+      setBarcode("");
+      setQuantity("");
+      barcodeRef.current?.focus();
+    } catch (error) {
+      setResult({
+        ok: false,
+        message: error instanceof Error ? error.message : "An error occurred",
+      });
+      // Selected, so the next scan replaces it
+      barcodeRef.current?.select();
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <form onSubmit={handleScan} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 flex-1 min-w-[240px]">
+            <Label htmlFor="stocktakeBarcode">Scan a barcode</Label>
+            <div className="relative">
+              <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <Input
+                id="stocktakeBarcode"
+                ref={barcodeRef}
+                value={barcode}
+                onChange={(e) => {
+                  setBarcode(e.target.value);
+                  resetKey();
+                }}
+                className="pl-10 h-12 text-lg font-mono"
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+          </div>
+          <div className="space-y-2 w-32">
+            <Label htmlFor="stocktakeQuantity">Quantity</Label>
+            <Input
+              id="stocktakeQuantity"
+              type="number"
+              min="0"
+              step="any"
+              value={quantity}
+              onChange={(e) => {
+                setQuantity(e.target.value);
+                resetKey();
+              }}
+              placeholder="1"
+              className="h-12 text-lg"
+            />
+          </div>
+          <Button type="submit" className="h-12" disabled={isScanning || !barcode.trim()}>
+            {isScanning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Count
+          </Button>
+        </form>
+
+        {result &&
+          (result.ok ? (
+            <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-green-800">
+              <span className="font-medium">{result.label}</span>
+              {result.added && ` +${result.added}`} · Counted {result.total}
+            </div>
+          ) : (
+            <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+              {result.message}
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,18 @@
+// src/components/admin/stocktakes/stocktake-status-badge.tsx
+import type { StocktakeStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { STOCKTAKE_STATUS_LABELS } from "@/lib/stocktake";
+
+const STATUS_CLASSES: Record<StocktakeStatus, string> = {
+  IN_PROGRESS: "bg-blue-50 text-blue-700 border-blue-200",
+  APPROVED: "bg-green-50 text-green-700 border-green-200",
+  CANCELLED: "bg-red-50 text-red-700 border-red-200",
+};
+
+export default function StocktakeStatusBadge({ status }: { status: StocktakeStatus }) {
+  return (
+    <Badge variant="outline" className={STATUS_CLASSES[status]}>
+      {STOCKTAKE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
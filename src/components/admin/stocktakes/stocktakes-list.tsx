@@ -0,0 +1,163 @@
+// src/components/admin/stocktakes/stocktakes-list.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { StocktakeStatus } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { STOCKTAKE_STATUS_LABELS } from "@/lib/stocktake";
+import { Loader2, Plus } from "lucide-react";
+import NewStocktakeDialog from "./new-stocktake-dialog";
+import StocktakeStatusBadge from "./stocktake-status-badge";
+
+interface ListStocktake {
+  id: string;
+  number: string;
+  status: StocktakeStatus;
+  frozenAt: string | null;
+  createdAt: string;
+  categories: { id: string; name: string }[];
+  createdBy: { name: string | null; email: string } | null;
+  _count: { items: number };
+  countedItems: number;
+}
+
+type ListView = StocktakeStatus | "ALL";
+
+const VIEWS: { value: ListView; label: string }[] = [
+  { value: "ALL", label: "All" },
+  { value: "IN_PROGRESS", label: STOCKTAKE_STATUS_LABELS.IN_PROGRESS },
+  { value: "APPROVED", label: STOCKTAKE_STATUS_LABELS.APPROVED },
+  { value: "CANCELLED", label: STOCKTAKE_STATUS_LABELS.CANCELLED },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR");
+}
+
+/**
+ * Inventory counts of the shop, latest first
+ */
+export default function StocktakesList({ isAdmin }: { isAdmin: boolean }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [view, setView] = useState<ListView>("ALL");
+  const [stocktakes, setStocktakes] = useState<ListStocktake[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newOpen, setNewOpen] = useState(false);
+
+  const fetchStocktakes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (view !== "ALL") params.set("status", view);
+
+      const response = await fetch(`/api/stocktakes?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the stocktakes");
+      }
+      setStocktakes(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the stocktakes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [view, toast]);
+
+  useEffect(() => {
+    fetchStocktakes();
+  }, [fetchStocktakes]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {VIEWS.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={view === option.value ? "default" : "outline"}
+                onClick={() => setView(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          {isAdmin && (
+            <Button onClick={() => setNewOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Stocktake
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : stocktakes.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No stocktakes</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Started by</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktakes.map((stocktake) => (
+                  <TableRow
+                    key={stocktake.id}
+                    className="cursor-pointer"
+                    onClick={() => router.push(`/admin/stocktakes/${stocktake.id}`)}
+                  >
+                    <TableCell className="font-medium">{stocktake.number}</TableCell>
+                    <TableCell>
+                      {stocktake.categories.length > 0
+                        ? stocktake.categories.map((category) => category.name).join(", ")
+                        : "All variants"}
+                      {stocktake.frozenAt && <span className="text-gray-500"> · Frozen</span>}
+                    </TableCell>
+                    <TableCell>{formatDate(stocktake.createdAt)}</TableCell>
+                    <TableCell>{stocktake.createdBy?.name || stocktake.createdBy?.email || "-"}</TableCell>
+                    <TableCell>
+                      <StocktakeStatusBadge status={stocktake.status} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {stocktake.countedItems} / {stocktake._count.items}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {isAdmin && <NewStocktakeDialog open={newOpen} onOpenChange={setNewOpen} />}
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+// src/components/admin/suppliers/supplier-form-dialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+
+export interface SupplierDetails {
+  id: string;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  taxId: string | null;
+  notes: string | null;
+  active: boolean;
+}
+
+interface SupplierFormDialogProps {
+  open: boolean;
+  supplier: SupplierDetails | null; // null to add a supplier
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  taxId: "",
+  notes: "",
+  active: true,
+};
+
+export default function SupplierFormDialog({ open, supplier, onOpenChange, onSaved }: SupplierFormDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      supplier
+        ? {
+            name: supplier.name,
+            contactName: supplier.contactName ?? "",
+            email: supplier.email ?? "",
+            phone: supplier.phone ?? "",
+            address: supplier.address ?? "",
+            taxId: supplier.taxId ?? "",
+            notes: supplier.notes ?? "",
+            active: supplier.active,
+          }
+        : EMPTY_FORM
+    );
+  }, [open, supplier]);
+
+  const setField = (field: keyof typeof EMPTY_FORM, value: string | boolean) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the name of the supplier",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(supplier ? `/api/suppliers/${supplier.id}` : "/api/suppliers", {
+        method: supplier ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save the supplier");
+      }
+
+      toast({
+        title: supplier ? "Supplier Updated" : "Supplier Added",
+        description: data.name,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{supplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+          <DialogDescription>
+            The details printed on purchase orders sent to this supplier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="supplierName">Name</Label>
+            <Input
+              id="supplierName"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplierContact">Contact</Label>
+              <Input
+                id="supplierContact"
+                value={form.contactName}
+                onChange={(e) => setField("contactName", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierTaxId">Tax ID (MF)</Label>
+              <Input
+                id="supplierTaxId"
+                value={form.taxId}
+                onChange={(e) => setField("taxId", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierEmail">Email</Label>
+              <Input
+                id="supplierEmail"
+                type="email"
+                value={form.email}
+                onChange={(e) => setField("email", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierPhone">Phone</Label>
+              <Input
+                id="supplierPhone"
+                value={form.phone}
+                onChange={(e) => setField("phone", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplierAddress">Address</Label>
+            <Textarea
+              id="supplierAddress"
+              value={form.address}
+              onChange={(e) => setField("address", e.target.value)}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplierNotes">Notes</Label>
+            <Textarea
+              id="supplierNotes"
+              value={form.notes}
+              onChange={(e) => setField("notes", e.target.value)}
+              placeholder="Payment terms, delivery days..."
+              rows={2}
+            />
+          </div>
+          {supplier && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="supplierActive"
+                checked={form.active}
+                onCheckedChange={(checked) => setField("active", checked)}
+              />
+              <Label htmlFor="supplierActive">Active (can receive new purchase orders)</Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {supplier ? "Save" : "Add Supplier"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
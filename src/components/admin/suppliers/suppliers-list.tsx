@@ -0,0 +1,177 @@
+// src/components/admin/suppliers/suppliers-list.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus } from "lucide-react";
+import SupplierFormDialog, { type SupplierDetails } from "./supplier-form-dialog";
+
+interface ListSupplier extends SupplierDetails {
+  _count: { purchaseOrders: number };
+}
+
+interface SuppliersListProps {
+  isAdmin: boolean;
+}
+
+/**
+ * Suppliers the shop buys its stock from
+ */
+export default function SuppliersList({ isAdmin }: SuppliersListProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [suppliers, setSuppliers] = useState<ListSupplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<SupplierDetails | null>(null);
+
+  const fetchSuppliers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search.trim()) params.set("search", search.trim());
+      if (includeInactive) params.set("includeInactive", "1");
+
+      const response = await fetch(`/api/suppliers?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the suppliers");
+      }
+      setSuppliers(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the suppliers",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, includeInactive, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchSuppliers, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchSuppliers]);
+
+  const openForm = (supplier: SupplierDetails | null) => {
+    setEditing(supplier);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              <Input
+                placeholder="Search by name, contact, email or phone..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-80"
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="includeInactive"
+                  checked={includeInactive}
+                  onCheckedChange={setIncludeInactive}
+                />
+                <Label htmlFor="includeInactive">Show inactive</Label>
+              </div>
+            </div>
+            {isAdmin && (
+              <Button onClick={() => openForm(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Supplier
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : suppliers.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No suppliers</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead className="text-right">Purchase orders</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map((supplier) => (
+                    <TableRow
+                      key={supplier.id}
+                      className={isAdmin ? "cursor-pointer" : undefined}
+                      onClick={() => isAdmin && openForm(supplier)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{supplier.name}</div>
+                        {!supplier.active && (
+                          <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+                            Inactive
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{supplier.contactName || "-"}</TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {supplier.email ? (
+                          <a href={`mailto:${supplier.email}`} className="text-indigo-600 hover:underline">
+                            {supplier.email}
+                          </a>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{supplier.phone || "-"}</TableCell>
+                      <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                        <Link
+                          href={`/admin/purchase-orders?supplierId=${supplier.id}`}
+                          className="font-medium text-indigo-600 hover:underline"
+                        >
+                          {supplier._count.purchaseOrders}
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SupplierFormDialog
+        open={formOpen}
+        supplier={editing}
+        onOpenChange={setFormOpen}
+        onSaved={fetchSuppliers}
+      />
+    </div>
+  );
+}
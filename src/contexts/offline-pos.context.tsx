@@ -0,0 +1,264 @@
+// src/contexts/offline-pos.context.tsx
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import { CachedCatalog, offlineStore, QueuedSale } from "@/lib/pos/offline-store";
+
+// Must match the batch limit of /api/pos/orders/sync
+const SYNC_BATCH_SIZE = 50;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const CATALOG_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+// Rejections the register retries on the next sync instead of flagging the sale
+const RETRYABLE_CODES = ["SERVER_ERROR"];
+
+interface SyncResult {
+  clientReference: string;
+  status: "CREATED" | "DUPLICATE" | "REJECTED";
+  order?: { id: string; orderNumber: string; total: number };
+  inventoryConflicts?: { variantId: string; productName: string; requested: number; available: number }[];
+  pricingDiff?: { field: string; expected: number; actual: number }[];
+  error?: string;
+  code?: string;
+}
+
+interface OfflinePosContextType {
+  isOnline: boolean;
+  catalog: CachedCatalog | null;
+  pendingSales: QueuedSale[];
+  rejectedSales: QueuedSale[];
+  isSyncing: boolean;
+  lastSyncedAt: Date | null;
+  refreshCatalog: () => Promise<void>;
+  queueSale: (sale: { clientReference: string; total: number; payload: Record<string, unknown> }) => Promise<void>;
+  syncNow: () => Promise<boolean>;
+  discardSale: (clientReference: string) => Promise<void>;
+}
+
+const OfflinePosContext = createContext<OfflinePosContextType | undefined>(undefined);
+
+export function OfflinePosProvider({ children }: { children: React.ReactNode }) {
+  const { toast } = useToast();
+  const [isOnline, setIsOnline] = useState(true);
+  const [catalog, setCatalog] = useState<CachedCatalog | null>(null);
+  const [queue, setQueue] = useState<QueuedSale[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const syncingRef = useRef(false);
+
+  const reloadQueue = useCallback(async () => {
+    setQueue(await offlineStore.listSales());
+  }, []);
+
+  const refreshCatalog = useCallback(async () => {
+    try {
+      const response = await fetch("/api/pos/catalog");
+      if (!response.ok) {
+        throw new Error(`Failed to fetch catalog: ${response.statusText}`);
+      }
+      const data: CachedCatalog = await response.json();
+      await offlineStore.saveCatalog(data);
+      setCatalog(data);
+    } catch (err) {
+      // Keep selling from the last cached catalog
+      console.error("Error refreshing POS catalog:", err);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current) return false;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      const pending = (await offlineStore.listSales()).filter((sale) => sale.status === "PENDING");
+      let created = 0;
+      let rejected = 0;
+      const conflicts: string[] = [];
+      const repriced: string[] = [];
+
+      for (let start = 0; start < pending.length; start += SYNC_BATCH_SIZE) {
+        const batch = pending.slice(start, start + SYNC_BATCH_SIZE);
+        const response = await fetch("/api/pos/orders/sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            orders: batch.map((sale) => ({
+              ...sale.payload,
+              clientReference: sale.clientReference,
+              soldAt: sale.soldAt,
+              registerSessionId: sale.registerSessionId ?? null,
+            })),
+          }),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to sync offline sales: ${response.statusText}`);
+        }
+
+        const { results }: { results: SyncResult[] } = await response.json();
+        for (const result of results) {
+          const sale = batch.find((item) => item.clientReference === result.clientReference);
+          if (!sale) continue;
+
+          if (result.status === "REJECTED") {
+            const retryable = RETRYABLE_CODES.includes(result.code || "");
+            await offlineStore.putSale({
+              ...sale,
+              status: retryable ? "PENDING" : "REJECTED",
+              attempts: sale.attempts + 1,
+              error: result.error,
+              code: result.code,
+            });
+            if (!retryable) rejected++;
+          } else {
+            await offlineStore.removeSale(sale.clientReference);
+            if (result.status === "CREATED") created++;
+            const totalDiff = result.pricingDiff?.find((diff) => diff.field === "total");
+            if (result.order && totalDiff) {
+              repriced.push(
+                `${result.order.orderNumber} (${totalDiff.expected.toFixed(2)} at the till, ${totalDiff.actual.toFixed(2)} recorded)`
+              );
+            }
+            for (const conflict of result.inventoryConflicts ?? []) {
+              conflicts.push(
+                `${conflict.productName} (sold ${conflict.requested}, ${conflict.available} in stock)`
+              );
+            }
+          }
+        }
+      }
+
+      setLastSyncedAt(new Date());
+      if (created > 0) {
+        toast({
+          title: "Offline Sales Synced",
+          description: `${created} sale(s) recorded.`,
+        });
+      }
+      if (conflicts.length > 0) {
+        toast({
+          title: "Stock Conflicts",
+          description: `Check the inventory of: ${conflicts.join(", ")}`,
+          variant: "destructive",
+        });
+      }
+      if (repriced.length > 0) {
+        toast({
+          title: "Price Differences",
+          description: `Prices changed while offline, review: ${repriced.join(", ")}`,
+          variant: "destructive",
+        });
+      }
+      if (rejected > 0) {
+        toast({
+          title: "Offline Sales Rejected",
+          description: `${rejected} sale(s) could not be recorded. Review them before closing the register.`,
+          variant: "destructive",
+        });
+      }
+
+      const remaining = await offlineStore.listSales();
+      setQueue(remaining);
+      return remaining.every((sale) => sale.status !== "PENDING");
+    } catch (err) {
+      console.error("Error syncing offline sales:", err);
+      await reloadQueue();
+      return false;
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [reloadQueue, toast]);
+
+  const queueSale = useCallback(
+    async (sale: { clientReference: string; total: number; payload: Record<string, unknown> }) => {
+      await offlineStore.putSale({
+        ...sale,
+        soldAt: new Date().toISOString(),
+        // The sale counts in this register even if it is closed before syncing
+        registerSessionId: offlineStore.loadRegisterSession()?.id ?? null,
+        status: "PENDING",
+        attempts: 0,
+      });
+      await reloadQueue();
+    },
+    [reloadQueue]
+  );
+
+  const discardSale = useCallback(
+    async (clientReference: string) => {
+      await offlineStore.removeSale(clientReference);
+      await reloadQueue();
+    },
+    [reloadQueue]
+  );
+
+  // Load what was cached before the page was (re)loaded
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    offlineStore
+      .loadCatalog()
+      .then((cached) => setCatalog((current) => current ?? cached))
+      .catch((err) => console.error("Error loading cached POS catalog:", err));
+    reloadQueue().catch((err) => console.error("Error loading offline sales:", err));
+  }, [reloadQueue]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow().then(() => refreshCatalog());
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refreshCatalog, syncNow]);
+
+  useEffect(() => {
+    if (!isOnline) return;
+
+    refreshCatalog();
+    const catalogTimer = setInterval(refreshCatalog, CATALOG_REFRESH_INTERVAL_MS);
+    return () => clearInterval(catalogTimer);
+  }, [isOnline, refreshCatalog]);
+
+  const hasPending = queue.some((sale) => sale.status === "PENDING");
+  useEffect(() => {
+    if (!isOnline || !hasPending) return;
+
+    syncNow();
+    const syncTimer = setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => clearInterval(syncTimer);
+  }, [isOnline, hasPending, syncNow]);
+
+  return (
+    <OfflinePosContext.Provider
+      value={{
+        isOnline,
+        catalog,
+        pendingSales: queue.filter((sale) => sale.status === "PENDING"),
+        rejectedSales: queue.filter((sale) => sale.status === "REJECTED"),
+        isSyncing,
+        lastSyncedAt,
+        refreshCatalog,
+        queueSale,
+        syncNow,
+        discardSale,
+      }}
+    >
+      {children}
+    </OfflinePosContext.Provider>
+  );
+}
+
+export function useOfflinePos() {
+  const context = useContext(OfflinePosContext);
+  if (context === undefined) {
+    throw new Error("useOfflinePos must be used within an OfflinePosProvider");
+  }
+  return context;
+}
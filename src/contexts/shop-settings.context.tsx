@@ -15,6 +15,8 @@ interface ShopSettings {
   contactPhone?: string;
   address?: string;
   socialLinks?: Record<string, string>;
+  maxStaffLineDiscount: number;
+  maxAdminLineDiscount: number;
   createdAt: string;
   updatedAt: string;
 }
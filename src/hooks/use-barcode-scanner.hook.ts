@@ -0,0 +1,73 @@
+// src/hooks/use-barcode-scanner.hook.ts
+import { useEffect, useRef } from "react";
+
+// USB scanners behave as keyboards ("keyboard wedge") typing a whole barcode
+// then Enter, far faster than a person types
+const MAX_KEY_INTERVAL_MS = 35;
+const MIN_BARCODE_LENGTH = 4;
+
+function isEditable(target: EventTarget | null): target is HTMLElement {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement)
+  );
+}
+
+/**
+ * Detect barcodes typed by a scanner anywhere on the page from the timing of
+ * the keystrokes, and hand them to `onScan`. Typing in form fields is left
+ * alone, unless the field opts in with a `data-barcode-scanner` attribute.
+ */
+export function useBarcodeScanner(onScan: (barcode: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target;
+      if (isEditable(target) && !target.closest("[data-barcode-scanner]")) {
+        buffer = "";
+        return;
+      }
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const isFast = event.timeStamp - lastKeyAt <= MAX_KEY_INTERVAL_MS;
+      lastKeyAt = event.timeStamp;
+
+      if (event.key === "Enter") {
+        if (isFast && buffer.length >= MIN_BARCODE_LENGTH) {
+          // The scan is handled here, not as a submit of the focused element
+          event.preventDefault();
+          event.stopPropagation();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+        return;
+      }
+      if (event.key.length !== 1) return;
+
+      if (!isFast) {
+        // A slow keystroke starts a new sequence
+        buffer = event.key;
+        return;
+      }
+      buffer += event.key;
+      // Past the first keystroke it is a scan: keep it out of the focused field
+      if (isEditable(target)) event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [enabled]);
+}
@@ -0,0 +1,73 @@
+// src/hooks/use-customer-display.hook.ts
+import { useEffect, useRef, useState } from "react";
+import {
+  CustomerDisplayMessage,
+  CustomerDisplayState,
+  getCustomerDisplayChannelName,
+  isCustomerDisplayMessage,
+} from "@/lib/pos/customer-display";
+
+function openChannel(shopId: string | null | undefined): BroadcastChannel | null {
+  if (!shopId || typeof BroadcastChannel === "undefined") return null;
+  return new BroadcastChannel(getCustomerDisplayChannelName(shopId));
+}
+
+/**
+ * Mirror the register on the customer display: every change of `state` is
+ * broadcast, and a display opened later gets the current state on request.
+ */
+export function useCustomerDisplayPublisher(
+  shopId: string | null | undefined,
+  state: CustomerDisplayState
+) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+
+  useEffect(() => {
+    const channel = openChannel(shopId);
+    if (!channel) return;
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent) => {
+      if (isCustomerDisplayMessage(event.data) && event.data.type === "REQUEST_STATE") {
+        channel.postMessage({ type: "STATE", state: stateRef.current } satisfies CustomerDisplayMessage);
+      }
+    };
+    // Displays already open pick up the register after a reload
+    channel.postMessage({ type: "STATE", state: stateRef.current } satisfies CustomerDisplayMessage);
+
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, [shopId]);
+
+  useEffect(() => {
+    stateRef.current = state;
+    channelRef.current?.postMessage({ type: "STATE", state } satisfies CustomerDisplayMessage);
+  }, [state]);
+}
+
+/**
+ * State of the register for the customer display, null until the register
+ * has answered
+ */
+export function useCustomerDisplayState(shopId: string | null | undefined) {
+  const [state, setState] = useState<CustomerDisplayState | null>(null);
+
+  useEffect(() => {
+    const channel = openChannel(shopId);
+    if (!channel) return;
+
+    channel.onmessage = (event: MessageEvent) => {
+      if (isCustomerDisplayMessage(event.data) && event.data.type === "STATE") {
+        setState(event.data.state);
+      }
+    };
+    channel.postMessage({ type: "REQUEST_STATE" } satisfies CustomerDisplayMessage);
+
+    return () => channel.close();
+  }, [shopId]);
+
+  return state;
+}
@@ -0,0 +1,19 @@
+// src/hooks/use-idempotency-key.hook.ts
+import { useCallback, useRef } from "react";
+
+/**
+ * Idempotency-Key for a submission that must not be applied twice. `getKey`
+ * keeps returning the same key until `resetKey`, so a retry after an error or
+ * a timeout is answered with the first result instead of being replayed.
+ * Reset once the submission went through or the form starts over.
+ */
+export function useIdempotencyKey() {
+  const keyRef = useRef<string | null>(null);
+
+  const getKey = useCallback(() => (keyRef.current ??= crypto.randomUUID()), []);
+  const resetKey = useCallback(() => {
+    keyRef.current = null;
+  }, []);
+
+  return { getKey, resetKey };
+}
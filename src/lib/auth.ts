@@ -1,9 +1,74 @@
 // src/lib/auth.ts
 import { PrismaAdapter } from "@next-auth/prisma-adapter";
+import { Role } from "@prisma/client";
 import { compare } from "bcrypt";
 import { NextAuthOptions } from "next-auth";
+import { decode } from "next-auth/jwt";
 import CredentialsProvider from "next-auth/providers/credentials";
 import { db } from "@/lib/prisma";
+import { staffPinService, StaffPinError } from "@/lib/services/staff-pin.service";
+
+const SESSION_COOKIES = ["__Secure-next-auth.session-token", "next-auth.session-token"];
+
+// Roles that may switch the register to another staff member
+const REGISTER_ROLES: Role[] = ["SHOP_ADMIN", "SHOP_STAFF"];
+
+/**
+ * Session token of the request. next-auth splits large tokens over numbered
+ * cookies (name.0, name.1...), which are joined back in order.
+ */
+function readSessionToken(cookieHeader: string) {
+  const cookies = new Map(
+    cookieHeader.split(";").map((cookie) => {
+      const separator = cookie.indexOf("=");
+      return [cookie.slice(0, separator).trim(), cookie.slice(separator + 1).trim()];
+    })
+  );
+
+  for (const name of SESSION_COOKIES) {
+    const whole = cookies.get(name);
+    if (whole) return whole;
+
+    const chunks: string[] = [];
+    for (let index = 0; cookies.has(`${name}.${index}`); index++) {
+      chunks.push(cookies.get(`${name}.${index}`)!);
+    }
+    if (chunks.length > 0) return chunks.join("");
+  }
+  return null;
+}
+
+/**
+ * Shop of the staff session the request is already signed in with, read from
+ * the session cookie. Null when there is none, or when the signed-in user is
+ * not (or no longer) a staff member or admin of that shop.
+ */
+async function getSignedInStaffShopId(headers: Record<string, unknown> | undefined) {
+  const cookieHeader = typeof headers?.cookie === "string" ? headers.cookie : "";
+  const token = readSessionToken(cookieHeader);
+  if (!token || !process.env.NEXTAUTH_SECRET) {
+    return null;
+  }
+
+  let session;
+  try {
+    session = await decode({ token, secret: process.env.NEXTAUTH_SECRET });
+  } catch {
+    return null;
+  }
+  const userId = typeof session?.id === "string" ? session.id : null;
+  const shopId = typeof session?.shopId === "string" ? session.shopId : null;
+  if (!userId || !shopId || !REGISTER_ROLES.includes(session?.role as Role)) {
+    return null;
+  }
+
+  // The role in the token may be stale, the account decides
+  const user = await db.user.findFirst({
+    where: { id: userId, shopId, role: { in: REGISTER_ROLES } },
+    select: { id: true },
+  });
+  return user ? shopId : null;
+}
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(db),
@@ -88,6 +153,57 @@ export const authOptions: NextAuthOptions = {
         };
       },
     }),
+    // Quick switch of the cashier on a register already signed in to the shop
+    CredentialsProvider({
+      id: "pos-pin",
+      name: "POS PIN",
+      credentials: {
+        userId: { label: "Staff member", type: "text" },
+        pin: { label: "PIN", type: "password" },
+      },
+      async authorize(credentials, req) {
+        if (!credentials?.userId || !credentials?.pin) {
+          return null;
+        }
+
+        // The shop is the one of the current staff session, never taken from
+        // the form, so customers cannot try PINs
+        const shopId = await getSignedInStaffShopId(req.headers);
+        if (!shopId) {
+          return null;
+        }
+
+        let staff;
+        try {
+          staff = await staffPinService.verifyPin(shopId, credentials.userId, credentials.pin);
+        } catch (error) {
+          if (error instanceof StaffPinError) {
+            // Shown on the register (wrong PIN, locked PIN...)
+            throw new Error(error.message);
+          }
+          throw error;
+        }
+
+        const shop = await db.shop.findUnique({
+          where: { id: shopId },
+          select: { name: true, subdomain: true, planType: true, active: true },
+        });
+        if (!shop?.active) {
+          return null;
+        }
+
+        return {
+          id: staff.id,
+          email: staff.email,
+          name: staff.name,
+          role: staff.role,
+          shopId,
+          shopName: shop.name,
+          shopSubdomain: shop.subdomain,
+          planType: shop.planType,
+        };
+      },
+    }),
   ],
   callbacks: {
     async session({ session, token }) {
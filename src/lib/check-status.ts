@@ -0,0 +1,31 @@
+// src/lib/check-status.ts
+import type { CheckStatus } from "@prisma/client";
+
+// Allowed check status transitions. A bounced check can be deposited again,
+// and a cleared one can still come back unpaid from the bank.
+export const CHECK_STATUS_TRANSITIONS: Record<CheckStatus, CheckStatus[]> = {
+  RECEIVED: ["DEPOSITED", "CANCELLED"],
+  DEPOSITED: ["CLEARED", "BOUNCED"],
+  CLEARED: ["BOUNCED"],
+  BOUNCED: ["DEPOSITED", "CANCELLED"],
+  CANCELLED: [],
+};
+
+export const CHECK_STATUS_LABELS: Record<CheckStatus, string> = {
+  RECEIVED: "Received",
+  DEPOSITED: "Deposited",
+  CLEARED: "Cleared",
+  BOUNCED: "Bounced",
+  CANCELLED: "Cancelled",
+};
+
+export function isCheckStatus(value: unknown): value is CheckStatus {
+  return typeof value === "string" && value in CHECK_STATUS_TRANSITIONS;
+}
+
+/**
+ * Whether a check can move from one status to another
+ */
+export function canTransitionCheck(from: CheckStatus, to: CheckStatus): boolean {
+  return CHECK_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,39 @@
+// src/lib/gift-card.ts
+import type { GiftCardStatus, GiftCardTransactionType } from "@prisma/client";
+
+export const GIFT_CARD_STATUS_LABELS: Record<GiftCardStatus, string> = {
+  ACTIVE: "Active",
+  DISABLED: "Disabled",
+};
+
+export const GIFT_CARD_TRANSACTION_LABELS: Record<GiftCardTransactionType, string> = {
+  ISSUE: "Issued",
+  REDEMPTION: "Redeemed",
+  REFUND: "Refunded",
+  CANCELLATION: "Cancelled",
+};
+
+/**
+ * Code as stored, whatever the way it was typed or scanned
+ */
+export function normalizeGiftCardCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Code grouped by 4 characters, as printed on the card
+ */
+export function formatGiftCardCode(code: string): string {
+  return normalizeGiftCardCode(code).replace(/(.{4})(?=.)/g, "$1-");
+}
+
+/**
+ * Code with only its last characters, for receipts and order pages
+ */
+export function maskGiftCardCode(code: string): string {
+  return `**** ${normalizeGiftCardCode(code).slice(-4)}`;
+}
+
+export function isGiftCardStatus(value: unknown): value is GiftCardStatus {
+  return typeof value === "string" && value in GIFT_CARD_STATUS_LABELS;
+}
@@ -0,0 +1,70 @@
+// src/lib/idempotency.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  hashRequestBody,
+  IdempotencyError,
+  idempotencyService,
+  isValidIdempotencyKey,
+} from "@/lib/services/idempotency.service";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/**
+ * Run a creating route handler at most once per Idempotency-Key header.
+ *
+ * The first successful response is stored and replayed to retries sent with
+ * the same key and body. Failed responses are not stored: nothing was created,
+ * so the request can be retried with the same key. Requests without the header
+ * are handled as usual.
+ */
+export async function withIdempotency(
+  req: NextRequest,
+  actor: { shopId: string; userId: string },
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = req.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) {
+    return handler();
+  }
+  if (!isValidIdempotencyKey(key)) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_HEADER} must be 8 to 255 printable characters` },
+      { status: 400 }
+    );
+  }
+
+  const scope = { ...actor, endpoint: `${req.method} ${req.nextUrl.pathname}` };
+  const requestHash = hashRequestBody(await req.clone().text());
+
+  let claim;
+  try {
+    claim = await idempotencyService.claim(scope, key, requestHash);
+  } catch (error) {
+    if (error instanceof IdempotencyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  if (claim.replay) {
+    return NextResponse.json(claim.body, {
+      status: claim.status,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await idempotencyService.release(claim.id);
+    throw error;
+  }
+
+  if (response.ok) {
+    await idempotencyService.complete(claim.id, response.status, await response.clone().json());
+  } else {
+    await idempotencyService.release(claim.id);
+  }
+  return response;
+}
@@ -0,0 +1,68 @@
+// src/lib/order-status.ts
+import type { OrderStatus, PaymentStatus } from "@prisma/client";
+
+// Allowed order status transitions. CANCELLED and REFUNDED are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ["PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"],
+  PROCESSING: ["SHIPPED", "DELIVERED", "CANCELLED"],
+  SHIPPED: ["DELIVERED", "RETURNED", "REFUNDED"],
+  DELIVERED: ["RETURNED", "REFUNDED"],
+  RETURNED: ["REFUNDED"],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+// Allowed payment status transitions
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ["PARTIALLY_PAID", "COMPLETED", "FAILED"],
+  // Back to pending, or from completed, when a check that paid it bounces
+  PARTIALLY_PAID: ["PENDING", "COMPLETED", "FAILED", "PARTIALLY_REFUNDED", "REFUNDED"],
+  COMPLETED: ["PENDING", "PARTIALLY_PAID", "PARTIALLY_REFUNDED", "REFUNDED"],
+  FAILED: ["PENDING", "PARTIALLY_PAID", "COMPLETED"],
+  PARTIALLY_REFUNDED: ["REFUNDED"],
+  REFUNDED: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: "Pending",
+  PROCESSING: "Processing",
+  SHIPPED: "Shipped",
+  DELIVERED: "Delivered",
+  RETURNED: "Returned",
+  CANCELLED: "Cancelled",
+  REFUNDED: "Refunded",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  PENDING: "Pending",
+  PARTIALLY_PAID: "Partially Paid",
+  COMPLETED: "Completed",
+  FAILED: "Failed",
+  PARTIALLY_REFUNDED: "Partially Refunded",
+  REFUNDED: "Refunded",
+};
+
+// Statuses whose stock goes back to inventory when the order enters them
+export const RESTOCKING_ORDER_STATUSES: OrderStatus[] = ["CANCELLED", "REFUNDED", "RETURNED"];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && value in ORDER_STATUS_TRANSITIONS;
+}
+
+export function isPaymentStatus(value: unknown): value is PaymentStatus {
+  return typeof value === "string" && value in PAYMENT_STATUS_TRANSITIONS;
+}
+
+/**
+ * Whether an order can move from one status to another (staying put is always allowed)
+ */
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether a payment status can move from one value to another
+ */
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return from === to || PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+}
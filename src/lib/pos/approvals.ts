@@ -0,0 +1,47 @@
+// src/lib/pos/approvals.ts
+// POS actions a SHOP_STAFF member can only do with a SHOP_ADMIN PIN approval.
+// Shared by the register and the API.
+import type { PosApprovalAction } from "@prisma/client";
+
+export const POS_APPROVAL_ACTIONS = [
+  "ORDER_DISCOUNT",
+  "PRICE_OVERRIDE",
+  "REFUND",
+  "VOID",
+] as const satisfies readonly PosApprovalAction[];
+
+export const POS_APPROVAL_ACTION_LABELS: Record<PosApprovalAction, string> = {
+  ORDER_DISCOUNT: "Manual order discount",
+  PRICE_OVERRIDE: "Price override",
+  REFUND: "Refund",
+  VOID: "Order cancellation",
+};
+
+// What the approval of each action is limited to: the amount of money given
+// away, or the largest reduction of a line in percent
+export const POS_APPROVAL_VALUE_KINDS: Record<PosApprovalAction, "AMOUNT" | "PERCENTAGE"> = {
+  ORDER_DISCOUNT: "AMOUNT",
+  PRICE_OVERRIDE: "PERCENTAGE",
+  REFUND: "AMOUNT",
+  VOID: "AMOUNT",
+};
+
+// Code of the 403 responses of actions waiting for an approval
+export const APPROVAL_REQUIRED_CODE = "APPROVAL_REQUIRED";
+
+// 4 to 8 digits, typed on the register keypad
+export const POS_PIN_REGEX = /^\d{4,8}$/;
+
+export function isPosApprovalAction(value: unknown): value is PosApprovalAction {
+  return typeof value === "string" && (POS_APPROVAL_ACTIONS as readonly string[]).includes(value);
+}
+
+export function isValidPosPin(value: unknown): value is string {
+  return typeof value === "string" && POS_PIN_REGEX.test(value);
+}
+
+export function formatApprovalValue(action: PosApprovalAction, value: number): string {
+  return POS_APPROVAL_VALUE_KINDS[action] === "PERCENTAGE"
+    ? `${Math.round(value * 100) / 100}%`
+    : value.toFixed(2);
+}
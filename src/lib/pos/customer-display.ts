@@ -0,0 +1,69 @@
+// src/lib/pos/customer-display.ts
+// What the register shows on the customer-facing display. The register and
+// the display run in two windows of the same browser and talk over a
+// BroadcastChannel, so the display works offline too.
+
+export type CustomerDisplayStatus = "IDLE" | "CART" | "COMPLETED";
+
+export interface CustomerDisplayLine {
+  id: string;
+  name: string;
+  quantity: string; // Formatted with its unit, e.g. "0.350 kg"
+  unitPrice: number;
+  originalPrice: number | null; // Catalog price when the line is sold below it
+  total: number;
+  lineDiscount: number; // Manual discount on the line, included in total
+}
+
+export interface CustomerDisplayPayment {
+  tendered: number; // Cash given plus other payments
+  remaining: number;
+  change: number;
+}
+
+export interface CustomerDisplaySale {
+  orderNumber: string | null; // Null for a sale queued offline
+  total: number;
+  tendered: number;
+  change: number;
+}
+
+export interface CustomerDisplayState {
+  status: CustomerDisplayStatus;
+  lines: CustomerDisplayLine[];
+  subtotal: number;
+  discount: number; // Discount code and manual order discount
+  tax: number;
+  total: number;
+  payment: CustomerDisplayPayment | null;
+  sale: CustomerDisplaySale | null;
+}
+
+export type CustomerDisplayMessage =
+  | { type: "STATE"; state: CustomerDisplayState }
+  | { type: "REQUEST_STATE" }; // Sent by a display that just opened
+
+export const IDLE_CUSTOMER_DISPLAY: CustomerDisplayState = {
+  status: "IDLE",
+  lines: [],
+  subtotal: 0,
+  discount: 0,
+  tax: 0,
+  total: 0,
+  payment: null,
+  sale: null,
+};
+
+// One channel per shop, in case several shops are used in the same browser
+export function getCustomerDisplayChannelName(shopId: string): string {
+  return `pos-customer-display:${shopId}`;
+}
+
+export function isCustomerDisplayMessage(value: unknown): value is CustomerDisplayMessage {
+  if (!value || typeof value !== "object") return false;
+  const message = value as { type?: unknown; state?: unknown };
+  return (
+    message.type === "REQUEST_STATE" ||
+    (message.type === "STATE" && !!message.state && typeof message.state === "object")
+  );
+}
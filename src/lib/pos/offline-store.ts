@@ -0,0 +1,258 @@
+// src/lib/pos/offline-store.ts
+// Browser storage of the POS: the catalog cached for offline sales and the
+// queue of sales waiting to be synced. Client-side only (IndexedDB).
+import type { UnitOfMeasure } from "@prisma/client";
+import { parseScaleBarcode, scaleQuantity } from "@/lib/utils/scale-barcode";
+
+export interface CachedDiscountCode {
+  id: string;
+  code: string;
+  title: string | null;
+  description: string | null;
+  percentage: number;
+  endDate: string;
+  categoryId: string | null;
+  productIds: string[];
+  variantIds: string[];
+  userIds: string[];
+}
+
+export interface CachedCatalog {
+  generatedAt: string;
+  // Same shape as the /api/pos/products search results
+  products: Array<{
+    id: string;
+    name: string;
+    sku?: string | null;
+    barcode?: string | null;
+    categories?: { id: string; name: string }[];
+    variants: Array<{
+      id: string;
+      sku?: string | null;
+      barcode?: string | null;
+      unit?: UnitOfMeasure;
+      finalPrice?: number;
+    }>;
+    [key: string]: unknown;
+  }>;
+  discountCodes: CachedDiscountCode[];
+}
+
+export type QueuedSaleStatus = "PENDING" | "REJECTED";
+
+export interface QueuedSale {
+  clientReference: string;
+  soldAt: string;
+  registerSessionId?: string | null; // Register open at the till when the sale was made
+  total: number;
+  payload: Record<string, unknown>; // Body of POST /api/pos/orders
+  status: QueuedSaleStatus;
+  attempts: number;
+  error?: string;
+  code?: string;
+}
+
+export interface CachedRegisterSession {
+  id: string;
+  openingFloat: number;
+  openedAt: string;
+}
+
+const DB_NAME = "pos-offline";
+const DB_VERSION = 1;
+const CATALOG_STORE = "catalog";
+const QUEUE_STORE = "queue";
+const CATALOG_KEY = "current";
+const REGISTER_KEY = "pos-register-session";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(CATALOG_STORE)) {
+          database.createObjectStore(CATALOG_STORE);
+        }
+        if (!database.objectStoreNames.contains(QUEUE_STORE)) {
+          database.createObjectStore(QUEUE_STORE, { keyPath: "clientReference" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openDatabase();
+  return await new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export const offlineStore = {
+  async saveCatalog(catalog: CachedCatalog) {
+    await run(CATALOG_STORE, "readwrite", (store) => store.put(catalog, CATALOG_KEY));
+  },
+
+  async loadCatalog(): Promise<CachedCatalog | null> {
+    return (await run<CachedCatalog | undefined>(CATALOG_STORE, "readonly", (store) =>
+      store.get(CATALOG_KEY)
+    )) ?? null;
+  },
+
+  async putSale(sale: QueuedSale) {
+    await run(QUEUE_STORE, "readwrite", (store) => store.put(sale));
+  },
+
+  async removeSale(clientReference: string) {
+    await run(QUEUE_STORE, "readwrite", (store) => store.delete(clientReference));
+  },
+
+  async listSales(): Promise<QueuedSale[]> {
+    const sales = await run<QueuedSale[]>(QUEUE_STORE, "readonly", (store) => store.getAll());
+    return sales.sort((a, b) => a.soldAt.localeCompare(b.soldAt));
+  },
+
+  // The open register is remembered so the POS keeps working after a reload offline
+  saveRegisterSession(session: CachedRegisterSession | null) {
+    if (session) {
+      localStorage.setItem(REGISTER_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(REGISTER_KEY);
+    }
+  },
+
+  loadRegisterSession(): CachedRegisterSession | null {
+    try {
+      const stored = localStorage.getItem(REGISTER_KEY);
+      return stored ? (JSON.parse(stored) as CachedRegisterSession) : null;
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * Search the cached catalog the way /api/pos/products does
+ */
+export function searchCachedCatalog(
+  catalog: CachedCatalog,
+  search: { barcode?: string; query?: string }
+) {
+  if (search.barcode) {
+    const barcode = search.barcode;
+    const product = catalog.products.find(
+      (item) =>
+        item.barcode === barcode || item.variants.some((variant) => variant.barcode === barcode)
+    );
+    return product ? [product] : [];
+  }
+
+  const query = (search.query || "").trim().toLowerCase();
+  if (!query) return [];
+  const matches = (value?: string | null) => !!value && value.toLowerCase().includes(query);
+
+  return catalog.products
+    .filter(
+      (product) =>
+        matches(product.name) ||
+        matches(product.sku) ||
+        matches(product.barcode) ||
+        product.variants.some((variant) => matches(variant.sku) || matches(variant.barcode))
+    )
+    .slice(0, 10);
+}
+
+/**
+ * Cached variant of a scanned barcode and the quantity to add, in the same
+ * order as the barcode lookup of /api/pos/products: scale labels, variant
+ * barcodes, then product barcodes
+ */
+export function lookupCachedBarcode(catalog: CachedCatalog, barcode: string) {
+  const scale = parseScaleBarcode(barcode);
+  if (scale) {
+    for (const product of catalog.products) {
+      const variant = product.variants.find((candidate) => candidate.barcode === scale.itemCode);
+      if (!variant?.unit) continue;
+      const quantity = scaleQuantity(scale, {
+        unit: variant.unit,
+        finalPrice: variant.finalPrice ?? 0,
+      });
+      if (quantity !== null) return { product, variantId: variant.id, quantity };
+    }
+  }
+
+  for (const product of catalog.products) {
+    const variant = product.variants.find((candidate) => candidate.barcode === barcode);
+    if (variant) return { product, variantId: variant.id, quantity: 1 };
+  }
+  const product = catalog.products.find(
+    (candidate) => candidate.barcode === barcode && candidate.variants.length > 0
+  );
+  return product ? { product, variantId: product.variants[0].id, quantity: 1 } : null;
+}
+
+/**
+ * Apply a cached discount code to the cart with the same targeting rules as
+ * the pricing engine. The server checks it again when the sale is synced.
+ */
+export function applyCachedDiscountCode(
+  catalog: CachedCatalog,
+  code: string,
+  cart: { productId: string; variantId: string; finalPrice: number; quantity: number }[],
+  customerId?: string | null
+): { discountCode: CachedDiscountCode; discountAmount: number } | { error: string } {
+  const discountCode = catalog.discountCodes.find(
+    (candidate) => candidate.code.toLowerCase() === code.trim().toLowerCase()
+  );
+  if (!discountCode || new Date(discountCode.endDate) < new Date()) {
+    return { error: "Invalid discount code" };
+  }
+  if (discountCode.userIds.length > 0 && (!customerId || !discountCode.userIds.includes(customerId))) {
+    return { error: `Discount code ${discountCode.code} is not available for this customer` };
+  }
+
+  const categoriesByProduct = new Map(
+    catalog.products.map((product) => [product.id, (product.categories ?? []).map((c) => c.id)])
+  );
+  const applies = (item: { productId: string; variantId: string }) => {
+    if (discountCode.variantIds.length > 0) {
+      return discountCode.variantIds.includes(item.variantId);
+    }
+    if (discountCode.productIds.length > 0 || discountCode.categoryId) {
+      return (
+        discountCode.productIds.includes(item.productId) ||
+        (!!discountCode.categoryId &&
+          (categoriesByProduct.get(item.productId) ?? []).includes(discountCode.categoryId))
+      );
+    }
+    return true;
+  };
+
+  const applicableSubtotal = cart
+    .filter(applies)
+    .reduce((sum, item) => sum + item.finalPrice * item.quantity, 0);
+  if (applicableSubtotal <= 0) {
+    return { error: `Discount code ${discountCode.code} does not apply to any item` };
+  }
+
+  const discountAmount =
+    Math.round(((applicableSubtotal * discountCode.percentage) / 100 + Number.EPSILON) * 100) / 100;
+  return { discountCode, discountAmount };
+}
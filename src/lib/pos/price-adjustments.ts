@@ -0,0 +1,161 @@
+// src/lib/pos/price-adjustments.ts
+// Manual price changes on a single line of a POS sale: a price override and/or
+// a line discount, always with a reason. Shared by the register and the API so
+// both compute the same line totals.
+import type { PriceAdjustmentReason } from "@prisma/client";
+
+export const PRICE_ADJUSTMENT_REASONS = [
+  "DAMAGED",
+  "PRICE_MATCH",
+  "LOYALTY",
+  "SHORT_DATED",
+  "STAFF_PURCHASE",
+  "OTHER",
+] as const satisfies readonly PriceAdjustmentReason[];
+
+export const PRICE_ADJUSTMENT_REASON_LABELS: Record<PriceAdjustmentReason, string> = {
+  DAMAGED: "Damaged item",
+  PRICE_MATCH: "Price match",
+  LOYALTY: "Loyal customer",
+  SHORT_DATED: "Short dated",
+  STAFF_PURCHASE: "Staff purchase",
+  OTHER: "Other",
+};
+
+export type LineDiscountType = "PERCENTAGE" | "FIXED";
+
+export interface LineAdjustmentInput {
+  priceOverride?: number | null; // New unit price (TVA included), replaces automatic discounts
+  lineDiscount?: number | null;
+  lineDiscountType?: LineDiscountType | null;
+  adjustmentReason?: string | null;
+  adjustmentNote?: string | null;
+}
+
+export interface AdjustedLine {
+  unitPrice: number;
+  lineDiscountAmount: number;
+  lineTotal: number; // unitPrice * quantity - lineDiscountAmount
+  priceOverridden: boolean;
+}
+
+export interface AdjustmentSummary {
+  priceOverridden: boolean;
+  lineDiscountAmount: number;
+  adjustmentReason: PriceAdjustmentReason | null;
+  adjustmentNote?: string | null;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function isPriceAdjustmentReason(value: unknown): value is PriceAdjustmentReason {
+  return (
+    typeof value === "string" && (PRICE_ADJUSTMENT_REASONS as readonly string[]).includes(value)
+  );
+}
+
+export function hasLineAdjustment(input: LineAdjustmentInput): boolean {
+  return (
+    (input.priceOverride !== undefined && input.priceOverride !== null) ||
+    Number(input.lineDiscount) > 0
+  );
+}
+
+/**
+ * Why a line adjustment cannot be applied, or null when it is valid. The
+ * override can only lower the catalog price.
+ */
+export function getLineAdjustmentError(
+  catalogPrice: number,
+  input: LineAdjustmentInput
+): string | null {
+  if (!hasLineAdjustment(input)) return null;
+
+  if (input.priceOverride !== undefined && input.priceOverride !== null) {
+    const override = Number(input.priceOverride);
+    if (!Number.isFinite(override) || override < 0) {
+      return "The new price must be a positive amount";
+    }
+    if (override > catalogPrice) {
+      return "The new price cannot be higher than the catalog price";
+    }
+  }
+
+  const lineDiscount = Number(input.lineDiscount) || 0;
+  if (lineDiscount < 0) {
+    return "The line discount cannot be negative";
+  }
+  if ((input.lineDiscountType ?? "PERCENTAGE") === "PERCENTAGE" && lineDiscount > 100) {
+    return "The line discount percentage cannot exceed 100";
+  }
+
+  if (!isPriceAdjustmentReason(input.adjustmentReason)) {
+    return "A reason is required to change the price of a line";
+  }
+  if (input.adjustmentReason === "OTHER" && !input.adjustmentNote?.trim()) {
+    return "Describe the reason of the price change";
+  }
+  return null;
+}
+
+/**
+ * Unit price and total of a line once its manual adjustment is applied. A
+ * fixed discount is capped at the line total.
+ */
+export function applyLineAdjustment(
+  unitPrice: number,
+  quantity: number,
+  input: LineAdjustmentInput
+): AdjustedLine {
+  const priceOverridden = input.priceOverride !== undefined && input.priceOverride !== null;
+  const price = priceOverridden ? roundAmount(Number(input.priceOverride)) : unitPrice;
+  const grossTotal = roundAmount(price * quantity);
+
+  const lineDiscount = Number(input.lineDiscount) || 0;
+  let lineDiscountAmount = 0;
+  if (lineDiscount > 0) {
+    lineDiscountAmount =
+      (input.lineDiscountType ?? "PERCENTAGE") === "PERCENTAGE"
+        ? roundAmount((grossTotal * Math.min(lineDiscount, 100)) / 100)
+        : roundAmount(Math.min(lineDiscount, grossTotal));
+  }
+
+  return {
+    unitPrice: price,
+    lineDiscountAmount,
+    lineTotal: roundAmount(grossTotal - lineDiscountAmount),
+    priceOverridden,
+  };
+}
+
+/**
+ * Manual reduction of a line in percent of what the register would have
+ * charged without it. This is what the per-role limit is checked against.
+ */
+export function getAdjustmentPercentage(referenceTotal: number, adjustedTotal: number): number {
+  if (referenceTotal <= 0 || adjustedTotal >= referenceTotal) return 0;
+  return roundAmount(((referenceTotal - adjustedTotal) / referenceTotal) * 100);
+}
+
+/**
+ * Short label of a line adjustment for carts, receipts and invoices, e.g.
+ * "Price override - Damaged item", or null when the line was not adjusted
+ */
+export function describeLineAdjustment(line: AdjustmentSummary): string | null {
+  if (!line.priceOverridden && line.lineDiscountAmount <= 0) return null;
+
+  const kind =
+    line.priceOverridden && line.lineDiscountAmount > 0
+      ? "Price override and discount"
+      : line.priceOverridden
+        ? "Price override"
+        : "Manual discount";
+  const reason = line.adjustmentReason
+    ? line.adjustmentReason === "OTHER" && line.adjustmentNote
+      ? line.adjustmentNote
+      : PRICE_ADJUSTMENT_REASON_LABELS[line.adjustmentReason]
+    : null;
+  return reason ? `${kind} - ${reason}` : kind;
+}
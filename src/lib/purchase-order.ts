@@ -0,0 +1,35 @@
+// src/lib/purchase-order.ts
+import type { PurchaseOrderStatus } from "@prisma/client";
+
+// Status changes made by hand. Receiving goods moves an order to
+// PARTIALLY_RECEIVED or RECEIVED; cancelling a partly delivered order closes
+// it without waiting for the rest.
+export const PURCHASE_ORDER_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  DRAFT: ["SENT", "CANCELLED"],
+  SENT: ["CANCELLED"],
+  PARTIALLY_RECEIVED: ["CANCELLED"],
+  RECEIVED: [],
+  CANCELLED: [],
+};
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_RECEIVED: "Partially Received",
+  RECEIVED: "Received",
+  CANCELLED: "Cancelled",
+};
+
+// Orders goods can be received against
+export const RECEIVABLE_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ["SENT", "PARTIALLY_RECEIVED"];
+
+export function isPurchaseOrderStatus(value: unknown): value is PurchaseOrderStatus {
+  return typeof value === "string" && value in PURCHASE_ORDER_STATUS_TRANSITIONS;
+}
+
+/**
+ * Whether a purchase order can be moved by hand from one status to another
+ */
+export function canTransitionPurchaseOrder(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PURCHASE_ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,593 @@
+// src/lib/services/check.service.ts
+import { CheckPayment, CheckStatus, PaymentStatus, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { CHECK_STATUS_LABELS, canTransitionCheck } from "@/lib/check-status";
+import {
+  customerAccountService,
+  CustomerAccountError,
+} from "@/lib/services/customer-account.service";
+import { getShopDocumentLines, getShopWithSettings } from "@/lib/services/invoice.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { orderStatusService, OrderStatusError } from "@/lib/services/order-status.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { createPdfWriter, formatPdfAmount } from "@/lib/utils/pdf";
+
+export class CheckError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CheckError";
+  }
+}
+
+export interface CheckListFilters {
+  status?: CheckStatus;
+  due?: boolean; // Checks still to deposit whose date is reached
+  search?: string;
+}
+
+export interface DepositChecksInput {
+  checkIds: string[];
+  slipNumber: string;
+  bankName?: string | null;
+  depositedAt?: Date;
+  notes?: string | null;
+}
+
+// Deposits go through a deposit slip, the other changes are made one check at a time
+export type CheckResolution = Extract<CheckStatus, "CLEARED" | "BOUNCED" | "CANCELLED">;
+
+export interface CheckStatusInput {
+  status: CheckResolution;
+  date?: Date; // When the bank cleared or returned the check, defaults to now
+  reason?: string | null; // Required for a bounced check
+}
+
+export const CHECK_RESOLUTIONS: CheckResolution[] = ["CLEARED", "BOUNCED", "CANCELLED"];
+
+// Refunds are settled by returns, the checks register leaves those orders alone
+const REFUND_PAYMENT_STATUSES: PaymentStatus[] = ["PARTIALLY_REFUNDED", "REFUNDED"];
+
+// Status of the order payment line a check was taken on
+const ORDER_PAYMENT_STATUSES: Record<CheckStatus, PaymentStatus> = {
+  RECEIVED: "PENDING",
+  DEPOSITED: "PENDING",
+  CLEARED: "COMPLETED",
+  BOUNCED: "FAILED",
+  CANCELLED: "FAILED",
+};
+
+// Checks that did not or will not pay, an account payment made with one is owed again
+const UNPAID_CHECK_STATUSES: CheckStatus[] = ["BOUNCED", "CANCELLED"];
+
+// Closed checks are listed most recent first, open ones by due date
+const CLOSED_CHECK_STATUSES: CheckStatus[] = ["CLEARED", "CANCELLED"];
+
+const MAX_LISTED_CHECKS = 200;
+
+// Check numbers listed in a reminder before summarizing the rest
+const MAX_REMINDER_CHECKS = 5;
+
+const checkInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      total: true,
+      paymentStatus: true,
+      user: {
+        select: { id: true, name: true, email: true, role: true, checksFlaggedAt: true },
+      },
+    },
+  },
+  ledgerEntry: {
+    select: {
+      id: true,
+      customer: {
+        select: { id: true, name: true, email: true, role: true, checksFlaggedAt: true },
+      },
+    },
+  },
+  deposit: { select: { id: true, slipNumber: true, depositedAt: true } },
+} satisfies Prisma.CheckPaymentInclude;
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("fr-FR");
+}
+
+/**
+ * What a check paid for, for notifications and deposit slips
+ */
+function describeCheckPurpose(check: { order: { orderNumber: string } | null }): string {
+  return check.order ? `order ${check.order.orderNumber}` : "account payment";
+}
+
+/**
+ * Payment status of an order from what was actually collected: payments other
+ * than checks count once recorded, checks only once cleared.
+ */
+function derivePaymentStatus(
+  total: number,
+  orderPayments: { paymentMethod: string; amount: number; status: PaymentStatus }[],
+  checks: { amount: number; status: CheckStatus }[]
+): PaymentStatus {
+  const collected = roundMoney(
+    orderPayments
+      .filter((payment) => payment.paymentMethod !== "CHECK" && payment.status !== "FAILED")
+      .reduce((sum, payment) => sum + payment.amount, 0) +
+      checks
+        .filter((check) => check.status === "CLEARED")
+        .reduce((sum, check) => sum + check.amount, 0)
+  );
+
+  if (collected >= roundMoney(total)) return "COMPLETED";
+  return collected > 0 ? "PARTIALLY_PAID" : "PENDING";
+}
+
+/**
+ * Bring the order payment status in line with its checks, through the order
+ * state machine. A bounced check reopens a completed payment.
+ */
+async function syncOrderPaymentStatus(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  shopId: string,
+  message: string,
+  actorId: string
+) {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      total: true,
+      paymentStatus: true,
+      orderPayments: { select: { paymentMethod: true, amount: true, status: true } },
+      checkPayments: { select: { amount: true, status: true } },
+    },
+  });
+  if (REFUND_PAYMENT_STATUSES.includes(order.paymentStatus)) return;
+
+  const paymentStatus = derivePaymentStatus(order.total, order.orderPayments, order.checkPayments);
+  if (paymentStatus === order.paymentStatus) return;
+
+  try {
+    await orderStatusService.applyStatusChange(
+      tx,
+      orderId,
+      shopId,
+      { paymentStatus },
+      { actorId, message }
+    );
+  } catch (error) {
+    if (error instanceof OrderStatusError) {
+      throw new CheckError(error.message, error.status);
+    }
+    throw error;
+  }
+}
+
+/**
+ * An account payment is credited when its check is received. If the check
+ * bounces or is cancelled the amount is owed again, and a bounced check
+ * deposited again pays it again.
+ */
+async function syncAccountSettlement(
+  tx: Prisma.TransactionClient,
+  check: CheckPayment,
+  status: CheckStatus,
+  message: string,
+  actorId: string
+) {
+  const wasPaying = !UNPAID_CHECK_STATUSES.includes(check.status);
+  const paying = !UNPAID_CHECK_STATUSES.includes(status);
+  if (!check.ledgerEntryId || wasPaying === paying) return;
+
+  const settlement = await tx.customerLedgerEntry.findUniqueOrThrow({
+    where: { id: check.ledgerEntryId },
+    select: { customerId: true },
+  });
+  try {
+    await customerAccountService.recordEntry(tx, {
+      shopId: check.shopId,
+      customerId: settlement.customerId,
+      type: paying ? "SETTLEMENT" : "CHECK_RETURNED",
+      amount: paying ? -check.amount : check.amount,
+      paymentMethod: "CHECK",
+      reference: check.checkNumber,
+      notes: message,
+      createdById: actorId,
+    });
+  } catch (error) {
+    if (error instanceof CustomerAccountError) {
+      throw new CheckError(error.message, error.status);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move a check to a new status, along with its order payment line, the order
+ * timeline and the order payment status, or the customer account it paid
+ */
+async function applyCheckStatus(
+  tx: Prisma.TransactionClient,
+  check: CheckPayment,
+  status: CheckStatus,
+  data: Prisma.CheckPaymentUncheckedUpdateInput,
+  actorId: string,
+  message: string
+) {
+  const updated = await tx.checkPayment.update({
+    where: { id: check.id },
+    data: { ...data, status },
+  });
+
+  if (check.orderPaymentId) {
+    await tx.orderPayment.update({
+      where: { id: check.orderPaymentId },
+      data: { checkStatus: status, status: ORDER_PAYMENT_STATUSES[status] },
+    });
+  }
+
+  if (check.orderId) {
+    await orderEventService.record(tx, {
+      orderId: check.orderId,
+      shopId: check.shopId,
+      type: "CHECK_STATUS_CHANGED",
+      fromValue: check.status,
+      toValue: status,
+      message,
+      metadata: { checkId: check.id, checkNumber: check.checkNumber, amount: check.amount },
+      actorId,
+    });
+
+    await syncOrderPaymentStatus(tx, check.orderId, check.shopId, message, actorId);
+  } else {
+    await syncAccountSettlement(tx, check, status, message, actorId);
+  }
+
+  return updated;
+}
+
+export const checkService = {
+  /**
+   * List the checks of the shop, open ones first by due date
+   */
+  async listChecks(shopId: string, filters: CheckListFilters = {}) {
+    const where: Prisma.CheckPaymentWhereInput = { shopId };
+    if (filters.due) {
+      where.status = "RECEIVED";
+      where.checkDate = { lte: endOfDay(new Date()) };
+    } else if (filters.status) {
+      where.status = filters.status;
+    }
+    const search = filters.search?.trim();
+    if (search) {
+      where.OR = [
+        { checkNumber: { contains: search, mode: "insensitive" } },
+        { bankName: { contains: search, mode: "insensitive" } },
+        { order: { orderNumber: { contains: search, mode: "insensitive" } } },
+        { order: { user: { name: { contains: search, mode: "insensitive" } } } },
+        { ledgerEntry: { customer: { name: { contains: search, mode: "insensitive" } } } },
+        { deposit: { slipNumber: { contains: search, mode: "insensitive" } } },
+      ];
+    }
+
+    const closed = !!filters.status && CLOSED_CHECK_STATUSES.includes(filters.status);
+    return await db.checkPayment.findMany({
+      where,
+      include: checkInclude,
+      orderBy: closed ? { updatedAt: "desc" } : { checkDate: "asc" },
+      take: MAX_LISTED_CHECKS,
+    });
+  },
+
+  /**
+   * Number and amount of checks in each status, and of checks due for deposit
+   */
+  async getSummary(shopId: string) {
+    const [groups, due] = await Promise.all([
+      db.checkPayment.groupBy({
+        by: ["status"],
+        where: { shopId },
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+      db.checkPayment.aggregate({
+        where: { shopId, status: "RECEIVED", checkDate: { lte: endOfDay(new Date()) } },
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const byStatus = Object.fromEntries(
+      (Object.keys(CHECK_STATUS_LABELS) as CheckStatus[]).map((status) => {
+        const group = groups.find((entry) => entry.status === status);
+        return [status, { count: group?._count._all ?? 0, amount: roundMoney(group?._sum.amount ?? 0) }];
+      })
+    ) as Record<CheckStatus, { count: number; amount: number }>;
+
+    return {
+      byStatus,
+      due: { count: due._count._all, amount: roundMoney(due._sum.amount ?? 0) },
+    };
+  },
+
+  /**
+   * Notify the shop once about post-dated checks whose date is reached, so
+   * they get deposited. Returns the number of checks reminded.
+   */
+  async sendDueReminders(shopId: string) {
+    const now = new Date();
+    const due = await db.checkPayment.findMany({
+      where: {
+        shopId,
+        status: "RECEIVED",
+        reminderSentAt: null,
+        checkDate: { lte: endOfDay(now) },
+      },
+      select: { id: true, checkNumber: true, amount: true, order: { select: { orderNumber: true } } },
+      orderBy: { checkDate: "asc" },
+    });
+    if (due.length === 0) return 0;
+
+    return await db.$transaction(async (tx) => {
+      // Claim the checks first so two page loads do not send the same reminder
+      const claimed = await tx.checkPayment.updateMany({
+        where: { id: { in: due.map((check) => check.id) }, reminderSentAt: null },
+        data: { reminderSentAt: now },
+      });
+      if (claimed.count === 0) return 0;
+
+      const listed = due
+        .slice(0, MAX_REMINDER_CHECKS)
+        .map((check) => `#${check.checkNumber} (${describeCheckPurpose(check)})`);
+      if (due.length > MAX_REMINDER_CHECKS) {
+        listed.push(`and ${due.length - MAX_REMINDER_CHECKS} more`);
+      }
+      const total = roundMoney(due.reduce((sum, check) => sum + check.amount, 0));
+
+      await tx.notification.create({
+        data: {
+          title: "Checks Ready to Deposit",
+          message: `${due.length} check(s) for ${formatPdfAmount(total)} reached their date: ${listed.join(", ")}`,
+          type: "CHECK_DUE",
+          shopId,
+        },
+      });
+
+      return claimed.count;
+    });
+  },
+
+  /**
+   * Mark checks as deposited with the bank slip they were deposited with
+   */
+  async depositChecks(shopId: string, input: DepositChecksInput, userId: string) {
+    const checkIds = [...new Set(input.checkIds ?? [])];
+    if (checkIds.length === 0) {
+      throw new CheckError("Select at least one check to deposit");
+    }
+    const slipNumber = input.slipNumber?.trim();
+    if (!slipNumber) {
+      throw new CheckError("Enter the number of the deposit slip");
+    }
+    const depositedAt = input.depositedAt ?? new Date();
+
+    return await db.$transaction(async (tx) => {
+      // Lock the checks so one check cannot end up on two slips
+      await tx.$queryRaw`SELECT "id" FROM "CheckPayment" WHERE "id" IN (${Prisma.join(checkIds)}) AND "shopId" = ${shopId} FOR UPDATE`;
+
+      const checks = await tx.checkPayment.findMany({
+        where: { id: { in: checkIds }, shopId },
+        orderBy: { checkDate: "asc" },
+      });
+      if (checks.length !== checkIds.length) {
+        throw new CheckError("Check not found", 404);
+      }
+      for (const check of checks) {
+        if (!canTransitionCheck(check.status, "DEPOSITED")) {
+          throw new CheckError(
+            `Check #${check.checkNumber} is ${CHECK_STATUS_LABELS[check.status].toLowerCase()} and cannot be deposited`
+          );
+        }
+        if (check.checkDate > endOfDay(depositedAt)) {
+          throw new CheckError(
+            `Check #${check.checkNumber} is dated ${formatDate(check.checkDate)} and cannot be deposited before`
+          );
+        }
+      }
+
+      const existing = await tx.checkDeposit.findUnique({
+        where: { shopId_slipNumber: { shopId, slipNumber } },
+      });
+      if (existing) {
+        throw new CheckError(`Deposit slip ${slipNumber} was already recorded`, 409);
+      }
+
+      const deposit = await tx.checkDeposit.create({
+        data: {
+          shopId,
+          slipNumber,
+          bankName: input.bankName?.trim() || null,
+          depositedAt,
+          total: roundMoney(checks.reduce((sum, check) => sum + check.amount, 0)),
+          notes: input.notes?.trim() || null,
+          createdById: userId,
+        },
+      });
+
+      for (const check of checks) {
+        await applyCheckStatus(
+          tx,
+          check,
+          "DEPOSITED",
+          { depositId: deposit.id, depositDate: depositedAt },
+          userId,
+          `Check #${check.checkNumber} deposited with slip ${slipNumber}`
+        );
+      }
+
+      return deposit;
+    });
+  },
+
+  /**
+   * Record the outcome of a check: cleared by the bank, bounced, or cancelled
+   * (given back to the customer). A bounce flags the customer.
+   */
+  async changeStatus(shopId: string, checkId: string, input: CheckStatusInput, userId: string) {
+    if (!CHECK_RESOLUTIONS.includes(input.status)) {
+      throw new CheckError("Checks are deposited with a deposit slip");
+    }
+    const reason = input.reason?.trim() || null;
+    if (input.status === "BOUNCED" && !reason) {
+      throw new CheckError("Enter the reason given by the bank for the bounce");
+    }
+    const date = input.date ?? new Date();
+
+    return await db.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT "id" FROM "CheckPayment" WHERE "id" = ${checkId} AND "shopId" = ${shopId} FOR UPDATE`;
+
+      const check = await tx.checkPayment.findFirst({
+        where: { id: checkId, shopId },
+        include: checkInclude,
+      });
+      if (!check) {
+        throw new CheckError("Check not found", 404);
+      }
+      if (!canTransitionCheck(check.status, input.status)) {
+        throw new CheckError(
+          `A ${CHECK_STATUS_LABELS[check.status].toLowerCase()} check cannot be marked as ${CHECK_STATUS_LABELS[input.status].toLowerCase()}`
+        );
+      }
+
+      let data: Prisma.CheckPaymentUncheckedUpdateInput;
+      let message: string;
+      if (input.status === "CLEARED") {
+        data = { clearanceDate: date };
+        message = `Check #${check.checkNumber} cleared`;
+      } else if (input.status === "BOUNCED") {
+        data = { bouncedAt: date, bounceReason: reason };
+        message = `Check #${check.checkNumber} bounced: ${reason}`;
+      } else {
+        data = { notes: reason ? [check.notes, reason].filter(Boolean).join("\n") : check.notes };
+        message = reason ? `Check #${check.checkNumber} cancelled: ${reason}` : `Check #${check.checkNumber} cancelled`;
+      }
+
+      await applyCheckStatus(tx, check, input.status, data, userId, message);
+
+      if (input.status === "BOUNCED") {
+        // Walk-in sales are recorded on the staff member, only customers are flagged
+        const customer = check.order?.user ?? check.ledgerEntry?.customer;
+        if (customer?.role === "CUSTOMER") {
+          await tx.user.update({
+            where: { id: customer.id },
+            data: { checksFlaggedAt: date, checksFlagReason: message },
+          });
+        }
+
+        await tx.notification.create({
+          data: {
+            title: "Check Bounced",
+            message: `${message} (${describeCheckPurpose(check)}, ${formatPdfAmount(check.amount)})`,
+            type: "CHECK_BOUNCED",
+            shopId,
+          },
+        });
+      }
+
+      return await tx.checkPayment.findUniqueOrThrow({
+        where: { id: check.id },
+        include: checkInclude,
+      });
+    });
+  },
+
+  /**
+   * Lift the bounced check flag of a customer
+   */
+  async clearCustomerFlag(shopId: string, customerId: string) {
+    const result = await db.user.updateMany({
+      where: { id: customerId, shopId, role: "CUSTOMER" },
+      data: { checksFlaggedAt: null, checksFlagReason: null },
+    });
+    if (result.count === 0) {
+      throw new CheckError("Customer not found", 404);
+    }
+  },
+
+  /**
+   * Deposit slip with the checks it carried, as a PDF to hand to the bank
+   */
+  async getDepositSlipPdf(depositId: string, shopId: string) {
+    const [deposit, shop] = await Promise.all([
+      db.checkDeposit.findFirst({
+        where: { id: depositId, shopId },
+        include: {
+          checks: {
+            include: { order: { select: { orderNumber: true } } },
+            orderBy: { checkDate: "asc" },
+          },
+          createdBy: { select: { name: true, email: true } },
+        },
+      }),
+      getShopWithSettings(shopId),
+    ]);
+    if (!deposit || !shop) {
+      return null;
+    }
+
+    const currency = shop.settings?.currency || "DT";
+    const money = (amount: number) => formatPdfAmount(amount, currency);
+    const pdf = await createPdfWriter(`Deposit slip ${deposit.slipNumber}`);
+
+    pdf.header({
+      shopName: shop.name,
+      shopLines: getShopDocumentLines(shop),
+      title: "CHECK DEPOSIT",
+      titleLines: [
+        `Slip No. ${deposit.slipNumber}`,
+        `Date: ${formatDate(deposit.depositedAt)}`,
+        deposit.bankName ? `Bank: ${deposit.bankName}` : null,
+        `By: ${deposit.createdBy.name || deposit.createdBy.email}`,
+      ],
+    });
+
+    pdf.table(
+      [
+        { header: "Check No.", width: 90 },
+        { header: "Bank", width: 130 },
+        { header: "Check date", width: 80 },
+        { header: "Order", width: 110 },
+        { header: "Amount", width: pdf.contentWidth - 410, align: "right" },
+      ],
+      deposit.checks.map((check) => [
+        check.checkNumber,
+        check.bankName ?? "",
+        formatDate(check.checkDate),
+        check.order?.orderNumber ?? "Account payment",
+        money(check.amount),
+      ])
+    );
+
+    pdf.keyValues(
+      [
+        ["Checks", String(deposit.checks.length)],
+        ["Total deposited", money(deposit.total)],
+      ],
+      { boldLast: true }
+    );
+
+    if (deposit.notes) {
+      pdf.moveDown(10);
+      pdf.text(`Notes: ${deposit.notes}`, 0);
+    }
+
+    return { deposit, pdf: await pdf.save() };
+  },
+};
@@ -0,0 +1,356 @@
+// src/lib/services/credit-note.service.ts
+import { CreditNote, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import {
+  buildTvaBreakdown,
+  getShopDocumentLines,
+  getShopWithSettings,
+  invoiceService,
+  ShopWithSettings,
+  writeCustomerBlock,
+} from "@/lib/services/invoice.service";
+import { numberingService } from "@/lib/services/numbering.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { s3EnhancedService } from "@/lib/services/s3-enhanced.service";
+import { formatQuantity, isValidQuantity, roundQuantity } from "@/lib/units";
+import { createPdfWriter, formatPdfAmount } from "@/lib/utils/pdf";
+
+export class CreditNoteError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CreditNoteError";
+  }
+}
+
+export interface CreditNoteItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface CreditNoteInput {
+  items?: CreditNoteItemInput[]; // Omit to credit everything not credited yet
+  includeShipping?: boolean; // Defaults to true for a full credit
+  reason?: string | null;
+  createdById?: string | null;
+}
+
+const creditNoteInclude = {
+  items: {
+    orderBy: { createdAt: "asc" as const },
+  },
+  invoice: {
+    select: {
+      invoiceNumber: true,
+      createdAt: true,
+    },
+  },
+  order: {
+    select: {
+      orderNumber: true,
+      createdAt: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+      address: true,
+    },
+  },
+};
+
+type CreditNoteWithDetails = NonNullable<Awaited<ReturnType<typeof getCreditNote>>>;
+
+async function getCreditNote(creditNoteId: string, shopId: string) {
+  return await db.creditNote.findFirst({
+    where: { id: creditNoteId, shopId },
+    include: creditNoteInclude,
+  });
+}
+
+export const creditNoteService = {
+  /**
+   * List the credit notes issued on an order
+   */
+  async getOrderCreditNotes(orderId: string, shopId: string) {
+    return await db.creditNote.findMany({
+      where: { orderId, shopId },
+      include: { items: true },
+      orderBy: { createdAt: "asc" },
+    });
+  },
+
+  /**
+   * Get the invoice a credit note of the order will refer to, issuing it if needed
+   */
+  async ensureInvoice(orderId: string, shopId: string, actorId?: string | null) {
+    try {
+      const { invoice } = await invoiceService.generateInvoice(orderId, shopId, actorId);
+      return invoice;
+    } catch (error) {
+      if (error instanceof Error && error.message === "Order not found") {
+        throw new CreditNoteError("Order not found", 404);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Credit all or part of an order's invoice. The invoice is issued first if
+   * needed since a credit note always refers to one.
+   */
+  async createCreditNote(orderId: string, shopId: string, input: CreditNoteInput = {}) {
+    const invoice = await this.ensureInvoice(orderId, shopId, input.createdById);
+    const creditNote = await db.$transaction(
+      async (tx) => await this.issueCreditNote(tx, orderId, shopId, invoice.id, input)
+    );
+    return await this.storeCreditNotePdf(creditNote);
+  },
+
+  /**
+   * Create a credit note within the caller's transaction (without its PDF)
+   */
+  async issueCreditNote(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    shopId: string,
+    invoiceId: string,
+    input: CreditNoteInput = {}
+  ) {
+    const issuedAt = new Date();
+
+    // Lock the order so concurrent credits cannot exceed the invoiced quantities
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findFirstOrThrow({
+      where: { id: orderId, shopId },
+      include: {
+        items: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            creditNoteItems: { select: { quantity: true, total: true } },
+          },
+        },
+        creditNotes: { select: { shipping: true } },
+      },
+    });
+
+    // Net line totals as invoiced, after spreading the order discount
+    const { lineNetTotals } = buildTvaBreakdown(order.items, order.discount);
+    const remainingByItem = new Map(
+      order.items.map((item, index) => {
+        const creditedQuantity = item.creditNoteItems.reduce((sum, line) => sum + line.quantity, 0);
+        const creditedAmount = item.creditNoteItems.reduce((sum, line) => sum + line.total, 0);
+        return [
+          item.id,
+          {
+            item,
+            quantity: roundQuantity(item.quantity - creditedQuantity),
+            amount: roundMoney(lineNetTotals[index] - creditedAmount),
+            netTotal: lineNetTotals[index],
+          },
+        ];
+      })
+    );
+
+    const isFullCredit = !input.items;
+    const requested =
+      input.items ??
+      [...remainingByItem.values()]
+        .filter((remaining) => remaining.quantity > 0)
+        .map((remaining) => ({ orderItemId: remaining.item.id, quantity: remaining.quantity }));
+
+    const lines = requested.map(({ orderItemId, quantity }) => {
+      const remaining = remainingByItem.get(orderItemId);
+      if (!remaining) {
+        throw new CreditNoteError("Item does not belong to this order");
+      }
+      if (!isValidQuantity(quantity, remaining.item.unit)) {
+        throw new CreditNoteError(`Invalid quantity for ${remaining.item.productName}`);
+      }
+      if (quantity > remaining.quantity) {
+        throw new CreditNoteError(
+          `Only ${formatQuantity(remaining.quantity, remaining.item.unit)} of ${remaining.item.productName} can still be credited`
+        );
+      }
+
+      // Crediting the rest of a line takes the remaining amount so rounding never drifts
+      const total =
+        quantity === remaining.quantity
+          ? remaining.amount
+          : roundMoney((remaining.netTotal * quantity) / remaining.item.quantity);
+      remaining.quantity = roundQuantity(remaining.quantity - quantity);
+      remaining.amount = roundMoney(remaining.amount - total);
+
+      return {
+        orderItemId,
+        productName: remaining.item.productName,
+        productSku: remaining.item.productSku,
+        productTva: remaining.item.productTva,
+        quantity,
+        unitPrice: roundMoney(total / quantity),
+        total,
+      };
+    });
+
+    const creditedShipping = order.creditNotes.reduce((sum, note) => sum + note.shipping, 0);
+    const includeShipping = input.includeShipping ?? isFullCredit;
+    const shipping = includeShipping ? roundMoney(Math.max(order.shipping - creditedShipping, 0)) : 0;
+
+    if (lines.length === 0 && shipping <= 0) {
+      throw new CreditNoteError("Nothing left to credit on this order");
+    }
+
+    const breakdown = buildTvaBreakdown(lines);
+    const creditNoteNumber = await numberingService.nextCreditNoteNumber(tx, shopId, issuedAt);
+
+    const creditNote = await tx.creditNote.create({
+      data: {
+        creditNoteNumber,
+        shopId,
+        invoiceId,
+        orderId,
+        reason: input.reason || null,
+        subtotal: breakdown.totalExcludingTax,
+        tax: breakdown.totalTax,
+        shipping,
+        total: roundMoney(breakdown.total + shipping),
+        createdById: input.createdById || null,
+        createdAt: issuedAt,
+        items: {
+          create: lines,
+        },
+      },
+    });
+
+    await orderEventService.record(tx, {
+      orderId,
+      shopId,
+      type: "CREDIT_NOTE_ISSUED",
+      toValue: creditNoteNumber,
+      message: input.reason,
+      metadata: { creditNoteId: creditNote.id, total: creditNote.total },
+      actorId: input.createdById,
+    });
+
+    return creditNote;
+  },
+
+  /**
+   * Render and store the PDF of a new credit note. As for invoices, the PDF
+   * can be rebuilt later if storing it fails.
+   */
+  async storeCreditNotePdf(creditNote: CreditNote) {
+    try {
+      const [details, shop] = await Promise.all([
+        getCreditNote(creditNote.id, creditNote.shopId),
+        getShopWithSettings(creditNote.shopId),
+      ]);
+      if (details && shop) {
+        const pdf = await this.renderCreditNotePdf(details, shop);
+        const uploaded = await s3EnhancedService.uploadDocument(
+          pdf,
+          `${creditNote.creditNoteNumber}.pdf`,
+          "credit-notes",
+          creditNote.shopId
+        );
+        return await db.creditNote.update({
+          where: { id: creditNote.id },
+          data: { pdfUrl: uploaded.key },
+        });
+      }
+    } catch (error) {
+      console.error("Error storing credit note PDF:", error);
+    }
+
+    return creditNote;
+  },
+
+  /**
+   * Render the credit note PDF
+   */
+  async renderCreditNotePdf(
+    creditNote: CreditNoteWithDetails,
+    shop: ShopWithSettings
+  ): Promise<Uint8Array> {
+    const currency = shop.settings?.currency || "DT";
+    const money = (amount: number) => formatPdfAmount(amount, currency);
+    const pdf = await createPdfWriter(`Credit note ${creditNote.creditNoteNumber}`);
+
+    pdf.header({
+      shopName: shop.name,
+      shopLines: getShopDocumentLines(shop),
+      title: "CREDIT NOTE",
+      titleLines: [
+        `No. ${creditNote.creditNoteNumber}`,
+        `Date: ${creditNote.createdAt.toLocaleDateString("fr-FR")}`,
+        `Invoice: ${creditNote.invoice.invoiceNumber}`,
+        `Invoice date: ${creditNote.invoice.createdAt.toLocaleDateString("fr-FR")}`,
+        `Order: ${creditNote.order.orderNumber}`,
+      ],
+    });
+
+    writeCustomerBlock(pdf, creditNote.order);
+
+    if (creditNote.reason) {
+      pdf.text(`Reason: ${creditNote.reason}`, 0);
+      pdf.moveDown(20);
+    }
+
+    pdf.table(
+      [
+        { header: "Description", width: 245 },
+        { header: "Qty", width: 40, align: "right" },
+        { header: "Unit price", width: 80, align: "right" },
+        { header: "TVA", width: 50, align: "right" },
+        { header: "Total TTC", width: pdf.contentWidth - 415, align: "right" },
+      ],
+      creditNote.items.map((item) => [
+        item.productSku ? `${item.productName} (${item.productSku})` : item.productName,
+        String(item.quantity),
+        money(item.unitPrice),
+        `${item.productTva}%`,
+        money(item.total),
+      ])
+    );
+
+    const breakdown = buildTvaBreakdown(creditNote.items);
+    const totals: [string, string][] = [["Total HT", money(creditNote.subtotal)]];
+    breakdown.rates.forEach((rate) => {
+      totals.push([`TVA ${rate.rate}% on ${money(rate.base)}`, money(rate.tax)]);
+    });
+    if (creditNote.shipping > 0) {
+      totals.push(["Shipping", money(creditNote.shipping)]);
+    }
+    totals.push(["Total credited TTC", money(creditNote.total)]);
+    pdf.keyValues(totals, { boldLast: true });
+
+    return await pdf.save();
+  },
+
+  /**
+   * Get the PDF of a credit note, from storage or rebuilt from its lines
+   */
+  async getCreditNotePdf(creditNoteId: string, shopId: string) {
+    const creditNote = await getCreditNote(creditNoteId, shopId);
+    if (!creditNote) {
+      return null;
+    }
+
+    if (creditNote.pdfUrl && s3EnhancedService.isS3Key(creditNote.pdfUrl)) {
+      const stored = await s3EnhancedService.getDocument(creditNote.pdfUrl);
+      if (stored) {
+        return { creditNote, pdf: stored };
+      }
+    }
+
+    const shop = await getShopWithSettings(shopId);
+    if (!shop) {
+      return null;
+    }
+
+    const pdf = await this.renderCreditNotePdf(creditNote, shop);
+    return { creditNote, pdf };
+  },
+};
@@ -0,0 +1,316 @@
+// src/lib/services/customer-account.service.ts
+import { CustomerLedgerEntryType, PaymentMethodType, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { getShopDocumentLines, getShopWithSettings } from "@/lib/services/invoice.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { registerService } from "@/lib/services/register.service";
+import { createPdfWriter, formatPdfAmount } from "@/lib/utils/pdf";
+
+export class CustomerAccountError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CustomerAccountError";
+  }
+}
+
+export interface LedgerEntryInput {
+  shopId: string;
+  customerId: string;
+  type: CustomerLedgerEntryType;
+  amount: number; // Positive when the customer owes more
+  orderId?: string | null;
+  returnId?: string | null;
+  paymentMethod?: PaymentMethodType | null;
+  reference?: string | null;
+  notes?: string | null;
+  registerSessionId?: string | null;
+  createdById?: string | null;
+}
+
+export interface SettlementInput {
+  amount: number;
+  paymentMethod: PaymentMethodType;
+  reference?: string | null; // Check number for a check
+  notes?: string | null;
+  bankName?: string | null; // Checks only
+  checkDate?: Date | null; // Date written on a check, defaults to today
+}
+
+export interface StatementPeriod {
+  from?: Date;
+  to?: Date;
+}
+
+// Ways a customer can pay the account off
+export const SETTLEMENT_METHODS: PaymentMethodType[] = [
+  "CASH",
+  "CREDIT_CARD",
+  "BANK_TRANSFER",
+  "CHECK",
+  "OTHER",
+];
+
+export const LEDGER_ENTRY_LABELS: Record<CustomerLedgerEntryType, string> = {
+  CHARGE: "Sale on account",
+  SETTLEMENT: "Payment",
+  STORE_CREDIT: "Store credit",
+  REVERSAL: "Sale cancelled",
+  CHECK_RETURNED: "Check returned",
+};
+
+// Entries shown on the customer page, the statement has them all
+const RECENT_ENTRIES = 50;
+
+const ledgerEntryInclude = {
+  order: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { name: true, email: true } },
+} satisfies Prisma.CustomerLedgerEntryInclude;
+
+export const customerAccountService = {
+  /**
+   * Append an entry to the customer ledger and move the running balance. The
+   * customer row is locked so concurrent entries keep the balance right.
+   */
+  async recordEntry(tx: Prisma.TransactionClient, input: LedgerEntryInput) {
+    const [customer] = await tx.$queryRaw<{ accountBalance: number; creditLimit: number }[]>`
+      SELECT "accountBalance", "creditLimit" FROM "User"
+      WHERE "id" = ${input.customerId} AND "shopId" = ${input.shopId} AND "role" = 'CUSTOMER'
+      FOR UPDATE`;
+    if (!customer) {
+      throw new CustomerAccountError("Customer not found", 404);
+    }
+
+    const amount = roundMoney(input.amount);
+    const balance = roundMoney(customer.accountBalance + amount);
+    await tx.user.update({
+      where: { id: input.customerId },
+      data: { accountBalance: balance },
+    });
+
+    const entry = await tx.customerLedgerEntry.create({
+      data: {
+        shopId: input.shopId,
+        customerId: input.customerId,
+        type: input.type,
+        amount,
+        balanceAfter: balance,
+        orderId: input.orderId ?? null,
+        returnId: input.returnId ?? null,
+        paymentMethod: input.paymentMethod ?? null,
+        reference: input.reference?.trim() || null,
+        notes: input.notes?.trim() || null,
+        registerSessionId: input.registerSessionId ?? null,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    return { entry, balance, creditLimit: customer.creditLimit };
+  },
+
+  /**
+   * Balance, credit limit and latest entries of a customer account
+   */
+  async getAccount(shopId: string, customerId: string) {
+    const customer = await db.user.findFirst({
+      where: { id: customerId, shopId, role: "CUSTOMER" },
+      select: { id: true, name: true, email: true, accountBalance: true, creditLimit: true },
+    });
+    if (!customer) {
+      return null;
+    }
+
+    const entries = await db.customerLedgerEntry.findMany({
+      where: { shopId, customerId },
+      include: ledgerEntryInclude,
+      orderBy: { createdAt: "desc" },
+      take: RECENT_ENTRIES,
+    });
+
+    return {
+      ...customer,
+      available: roundMoney(Math.max(customer.creditLimit - customer.accountBalance, 0)),
+      entries,
+    };
+  },
+
+  /**
+   * Set how much a customer may owe through sales on account
+   */
+  async updateCreditLimit(shopId: string, customerId: string, creditLimit: number) {
+    if (typeof creditLimit !== "number" || !Number.isFinite(creditLimit) || creditLimit < 0) {
+      throw new CustomerAccountError("The credit limit must be zero or more");
+    }
+
+    const result = await db.user.updateMany({
+      where: { id: customerId, shopId, role: "CUSTOMER" },
+      data: { creditLimit: roundMoney(creditLimit) },
+    });
+    if (result.count === 0) {
+      throw new CustomerAccountError("Customer not found", 404);
+    }
+  },
+
+  /**
+   * Record a payment of the customer towards the account. Cash goes into the
+   * register the staff member has open, if any, and checks are tracked in the
+   * checks register.
+   */
+  async recordSettlement(shopId: string, customerId: string, input: SettlementInput, userId: string) {
+    const amount = roundMoney(Number(input.amount));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new CustomerAccountError("The amount must be greater than zero");
+    }
+    if (!SETTLEMENT_METHODS.includes(input.paymentMethod)) {
+      throw new CustomerAccountError("Invalid payment method");
+    }
+    const checkNumber = input.reference?.trim();
+    if (input.paymentMethod === "CHECK" && !checkNumber) {
+      throw new CustomerAccountError("Enter the check number");
+    }
+    if (input.checkDate && isNaN(input.checkDate.getTime())) {
+      throw new CustomerAccountError("Invalid check date");
+    }
+
+    return await db.$transaction(async (tx) => {
+      const register =
+        input.paymentMethod === "CASH"
+          ? await registerService.getOpenSession(tx, shopId, userId)
+          : null;
+
+      const { entry } = await this.recordEntry(tx, {
+        shopId,
+        customerId,
+        type: "SETTLEMENT",
+        amount: -amount,
+        paymentMethod: input.paymentMethod,
+        reference: input.reference,
+        notes: input.notes,
+        registerSessionId: register?.id ?? null,
+        createdById: userId,
+      });
+
+      if (input.paymentMethod === "CHECK") {
+        const now = new Date();
+        await tx.checkPayment.create({
+          data: {
+            ledgerEntryId: entry.id,
+            checkNumber: checkNumber!,
+            bankName: input.bankName?.trim() || null,
+            amount,
+            checkDate: input.checkDate ?? now,
+            receivedDate: now,
+            status: "RECEIVED",
+            notes: input.notes?.trim() || null,
+            shopId,
+          },
+        });
+      }
+
+      return entry;
+    });
+  },
+
+  /**
+   * Account statement of a customer over a period, as a PDF. Defaults to the
+   * current month.
+   */
+  async getStatementPdf(shopId: string, customerId: string, period: StatementPeriod = {}) {
+    const now = new Date();
+    const from = period.from ?? new Date(now.getFullYear(), now.getMonth(), 1);
+    const to = period.to ?? now;
+
+    const [customer, shop] = await Promise.all([
+      db.user.findFirst({
+        where: { id: customerId, shopId, role: "CUSTOMER" },
+        include: { addresses: { where: { isDefault: true }, take: 1 } },
+      }),
+      getShopWithSettings(shopId),
+    ]);
+    if (!customer || !shop) {
+      return null;
+    }
+
+    const [previous, entries] = await Promise.all([
+      db.customerLedgerEntry.findFirst({
+        where: { shopId, customerId, createdAt: { lt: from } },
+        orderBy: { createdAt: "desc" },
+        select: { balanceAfter: true },
+      }),
+      db.customerLedgerEntry.findMany({
+        where: { shopId, customerId, createdAt: { gte: from, lte: to } },
+        include: ledgerEntryInclude,
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+    const openingBalance = previous?.balanceAfter ?? 0;
+    const closingBalance = entries.length > 0 ? entries[entries.length - 1].balanceAfter : openingBalance;
+
+    const currency = shop.settings?.currency || "DT";
+    const money = (amount: number) => formatPdfAmount(amount, currency);
+    const date = (value: Date) => value.toLocaleDateString("fr-FR");
+    const pdf = await createPdfWriter(`Statement ${customer.name || customer.email}`);
+
+    pdf.header({
+      shopName: shop.name,
+      shopLines: getShopDocumentLines(shop),
+      title: "ACCOUNT STATEMENT",
+      titleLines: [`From ${date(from)} to ${date(to)}`, `Issued: ${date(now)}`],
+    });
+
+    const address = customer.addresses[0];
+    pdf.text("Customer", 0, { bold: true });
+    pdf.moveDown(13);
+    for (const line of [
+      customer.name,
+      customer.email,
+      address?.line1,
+      address ? `${address.postalCode} ${address.city}`.trim() : null,
+      address?.phone,
+    ]) {
+      if (!line) continue;
+      pdf.text(line, 0);
+      pdf.moveDown(12);
+    }
+    pdf.moveDown(10);
+
+    pdf.table(
+      [
+        { header: "Date", width: 70 },
+        { header: "Description", width: 215 },
+        { header: "Charges", width: 80, align: "right" },
+        { header: "Payments", width: 80, align: "right" },
+        { header: "Balance", width: pdf.contentWidth - 445, align: "right" },
+      ],
+      [
+        ["", "Opening balance", "", "", money(openingBalance)],
+        ...entries.map((entry) => [
+          date(entry.createdAt),
+          [
+            LEDGER_ENTRY_LABELS[entry.type],
+            entry.order?.orderNumber,
+            entry.reference,
+          ]
+            .filter(Boolean)
+            .join(" - "),
+          entry.amount > 0 ? money(entry.amount) : "",
+          entry.amount < 0 ? money(-entry.amount) : "",
+          money(entry.balanceAfter),
+        ]),
+      ]
+    );
+
+    pdf.keyValues(
+      [
+        ["Opening balance", money(openingBalance)],
+        ["Closing balance", money(closingBalance)],
+      ],
+      { boldLast: true }
+    );
+    if (closingBalance < 0) {
+      pdf.moveDown(10);
+      pdf.text(`Store credit available: ${money(-closingBalance)}`, 0);
+    }
+
+    return { customer, pdf: await pdf.save() };
+  },
+};
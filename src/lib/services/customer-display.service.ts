@@ -0,0 +1,65 @@
+// src/lib/services/customer-display.service.ts
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+
+// Promotions rotated on the idle screen
+const MAX_PROMOTIONS = 10;
+
+/**
+ * Discounts of the shop, whichever way they target its catalog
+ */
+function shopDiscountWhere(shopId: string): Prisma.DiscountWhereInput {
+  return {
+    OR: [
+      { product: { shopId } },
+      { variant: { product: { shopId } } },
+      { products: { some: { shopId } } },
+      { variants: { some: { product: { shopId } } } },
+      { category: { shopId } },
+    ],
+  };
+}
+
+export const customerDisplayService = {
+  /**
+   * Branding and running in-store promotions shown on the customer display
+   * while no sale is in progress
+   */
+  async getIdleContent(shopId: string) {
+    const now = new Date();
+    const [shop, promotions] = await Promise.all([
+      db.shop.findUnique({
+        where: { id: shopId },
+        select: { name: true, logo: true, description: true },
+      }),
+      db.discount.findMany({
+        where: {
+          ...shopDiscountWhere(shopId),
+          enabled: true,
+          isDeleted: false,
+          availableInStore: true,
+          image: { not: null },
+          startDate: { lte: now },
+          endDate: { gte: now },
+        },
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          image: true,
+          percentage: true,
+          endDate: true,
+        },
+        orderBy: { endDate: "asc" },
+        take: MAX_PROMOTIONS,
+      }),
+    ]);
+
+    return {
+      shopName: shop?.name ?? "",
+      logo: shop?.logo ?? null,
+      description: shop?.description ?? null,
+      promotions,
+    };
+  },
+};
@@ -72,7 +72,7 @@ export class DiscountValidationService {
           category: {
             select: { id: true, name: true }
           },
-          user: {
+          users: {
             select: { id: true, name: true }
           },
         },
@@ -125,7 +125,7 @@ export class DiscountValidationService {
       }
 
       // Check if it's user-specific
-      if (discountCode.userId && discountCode.userId !== customerId) {
+      if (discountCode.users.length > 0 && !discountCode.users.some(user => user.id === customerId)) {
         return {
           valid: false,
           error: "This discount code is not available for your account",
@@ -188,14 +188,22 @@ export class DiscountValidationService {
     cartItems: CartItem[],
     shopId: string
   ): Promise<{ applicable: boolean; applicableItems: CartItem[] }> {
+    // Gift cards are sold at face value
+    const giftCards = await db.product.findMany({
+      where: { id: { in: cartItems.map((item) => item.productId) }, shopId, isGiftCard: true },
+      select: { id: true },
+    });
+    const giftCardIds = new Set(giftCards.map((product) => product.id));
+    const eligibleItems = cartItems.filter((item) => !giftCardIds.has(item.productId));
+
     // If no specific targeting, applies to all items
     if (!discountCode.categoryId && discountCode.products.length === 0 && discountCode.variants.length === 0) {
-      return { applicable: true, applicableItems: cartItems };
+      return { applicable: eligibleItems.length > 0, applicableItems: eligibleItems };
     }
 
     const applicableItems: CartItem[] = [];
 
-    for (const item of cartItems) {
+    for (const item of eligibleItems) {
       let itemApplicable = false;
 
       // Check specific variant targeting first (most specific)
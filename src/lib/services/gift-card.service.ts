@@ -0,0 +1,380 @@
+// src/lib/services/gift-card.service.ts
+import { randomInt } from "crypto";
+import { GiftCardStatus, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { normalizeGiftCardCode } from "@/lib/gift-card";
+import { roundMoney } from "@/lib/services/pricing.service";
+
+export class GiftCardError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "GiftCardError";
+  }
+}
+
+export interface IssueGiftCardInput {
+  value: number;
+  code?: string | null; // Generated when not given
+  expiresAt?: Date | null; // Defaults to GIFT_CARD_VALIDITY_MONTHS from now
+  orderId?: string | null;
+  orderItemId?: string | null;
+  notes?: string | null;
+  createdById?: string | null;
+}
+
+export interface RedeemGiftCardInput {
+  shopId: string;
+  code: string;
+  amount: number;
+  orderId: string;
+  createdById?: string | null;
+}
+
+export interface GiftCardFilters {
+  search?: string | null;
+  status?: GiftCardStatus | null;
+}
+
+// How long a card can be used when no expiry date is given
+export const GIFT_CARD_VALIDITY_MONTHS = 12;
+
+// No 0/O or 1/I so codes can be read back over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+const MIN_CODE_LENGTH = 6;
+
+const giftCardListInclude = {
+  order: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { name: true, email: true } },
+} satisfies Prisma.GiftCardInclude;
+
+const giftCardDetailInclude = {
+  ...giftCardListInclude,
+  transactions: {
+    include: {
+      order: { select: { id: true, orderNumber: true } },
+      createdBy: { select: { name: true, email: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  },
+} satisfies Prisma.GiftCardInclude;
+
+type LockedGiftCard = {
+  id: string;
+  code: string;
+  balance: number;
+  expiresAt: Date | null;
+  status: GiftCardStatus;
+};
+
+function isExpired(card: { expiresAt: Date | null }, now = new Date()) {
+  return card.expiresAt !== null && card.expiresAt < now;
+}
+
+function defaultExpiry() {
+  const expiresAt = new Date();
+  expiresAt.setMonth(expiresAt.getMonth() + GIFT_CARD_VALIDITY_MONTHS);
+  expiresAt.setHours(23, 59, 59, 999);
+  return expiresAt;
+}
+
+async function generateCode(tx: Prisma.TransactionClient, shopId: string) {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = Array.from(
+      { length: CODE_LENGTH },
+      () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+    ).join("");
+    const existing = await tx.giftCard.findUnique({
+      where: { shopId_code: { shopId, code } },
+      select: { id: true },
+    });
+    if (!existing) {
+      return code;
+    }
+  }
+  throw new GiftCardError("Could not generate a unique gift card code", 500);
+}
+
+export const giftCardService = {
+  /**
+   * Create a gift card with its opening balance
+   */
+  async issue(tx: Prisma.TransactionClient, shopId: string, input: IssueGiftCardInput) {
+    const value = roundMoney(Number(input.value));
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new GiftCardError("The gift card value must be greater than zero");
+    }
+
+    let code: string;
+    if (input.code) {
+      code = normalizeGiftCardCode(input.code);
+      if (code.length < MIN_CODE_LENGTH) {
+        throw new GiftCardError(`Gift card codes have at least ${MIN_CODE_LENGTH} letters or digits`);
+      }
+      const existing = await tx.giftCard.findUnique({
+        where: { shopId_code: { shopId, code } },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new GiftCardError("A gift card already uses this code", 409);
+      }
+    } else {
+      code = await generateCode(tx, shopId);
+    }
+
+    if (input.expiresAt && input.expiresAt < new Date()) {
+      throw new GiftCardError("The expiry date is in the past");
+    }
+
+    const card = await tx.giftCard.create({
+      data: {
+        shopId,
+        code,
+        initialValue: value,
+        balance: value,
+        expiresAt: input.expiresAt ?? defaultExpiry(),
+        orderId: input.orderId ?? null,
+        orderItemId: input.orderItemId ?? null,
+        notes: input.notes?.trim() || null,
+        createdById: input.createdById ?? null,
+      },
+    });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId: card.id,
+        type: "ISSUE",
+        amount: value,
+        balanceAfter: value,
+        orderId: input.orderId ?? null,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    return card;
+  },
+
+  /**
+   * Issue a voucher from the back office, outside of any sale
+   */
+  async issueVoucher(shopId: string, input: IssueGiftCardInput, userId: string) {
+    return await db.$transaction((tx) =>
+      this.issue(tx, shopId, {
+        value: input.value,
+        code: input.code,
+        expiresAt: input.expiresAt,
+        notes: input.notes,
+        createdById: userId,
+      })
+    );
+  },
+
+  /**
+   * Take an amount off a gift card to pay a sale. The card row is locked so
+   * two registers cannot spend the same balance.
+   */
+  async redeem(tx: Prisma.TransactionClient, input: RedeemGiftCardInput) {
+    const code = normalizeGiftCardCode(input.code);
+    const [card] = await tx.$queryRaw<LockedGiftCard[]>`
+      SELECT "id", "code", "balance", "expiresAt", "status" FROM "GiftCard"
+      WHERE "shopId" = ${input.shopId} AND "code" = ${code}
+      FOR UPDATE`;
+    if (!card) {
+      throw new GiftCardError("Gift card not found", 404);
+    }
+    if (card.status !== "ACTIVE") {
+      throw new GiftCardError(`Gift card ${card.code} is disabled`);
+    }
+    if (isExpired(card)) {
+      throw new GiftCardError(`Gift card ${card.code} has expired`);
+    }
+
+    const amount = roundMoney(input.amount);
+    if (!(amount > 0)) {
+      throw new GiftCardError("The amount must be greater than zero");
+    }
+    if (amount - card.balance > 0.001) {
+      throw new GiftCardError(
+        `Gift card ${card.code} only has ${card.balance.toFixed(2)} left`,
+        409
+      );
+    }
+
+    const balance = roundMoney(card.balance - amount);
+    await tx.giftCard.update({ where: { id: card.id }, data: { balance } });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId: card.id,
+        type: "REDEMPTION",
+        amount: -amount,
+        balanceAfter: balance,
+        orderId: input.orderId,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    return { giftCardId: card.id, balance };
+  },
+
+  /**
+   * Put a refunded amount back on the card it was paid with
+   */
+  async refund(
+    tx: Prisma.TransactionClient,
+    input: { giftCardId: string; amount: number; orderId: string; createdById?: string | null }
+  ) {
+    const [card] = await tx.$queryRaw<LockedGiftCard[]>`
+      SELECT "id", "code", "balance", "expiresAt", "status" FROM "GiftCard"
+      WHERE "id" = ${input.giftCardId}
+      FOR UPDATE`;
+    if (!card) {
+      throw new GiftCardError("Gift card not found", 404);
+    }
+
+    const amount = roundMoney(input.amount);
+    const balance = roundMoney(card.balance + amount);
+    await tx.giftCard.update({ where: { id: card.id }, data: { balance } });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId: card.id,
+        type: "REFUND",
+        amount,
+        balanceAfter: balance,
+        orderId: input.orderId,
+        createdById: input.createdById ?? null,
+      },
+    });
+
+    return { giftCardId: card.id, balance };
+  },
+
+  /**
+   * Void the cards of a returned gift card line. Only cards that were never
+   * used can be given back.
+   */
+  async cancelCards(
+    tx: Prisma.TransactionClient,
+    input: { orderItemId: string; quantity: number; orderId: string; createdById?: string | null }
+  ) {
+    const cards = await tx.$queryRaw<(LockedGiftCard & { initialValue: number })[]>`
+      SELECT "id", "code", "balance", "initialValue", "expiresAt", "status" FROM "GiftCard"
+      WHERE "orderItemId" = ${input.orderItemId} AND "status" = 'ACTIVE'
+      ORDER BY "createdAt" ASC
+      FOR UPDATE`;
+    const unused = cards.filter((card) => Math.abs(card.balance - card.initialValue) < 0.001);
+    if (unused.length < input.quantity) {
+      throw new GiftCardError(
+        unused.length === 0
+          ? "The gift cards of this item were already used"
+          : `Only ${unused.length} gift card(s) of this item are still unused`
+      );
+    }
+
+    const cancelled = unused.slice(0, input.quantity);
+    for (const card of cancelled) {
+      await tx.giftCard.update({
+        where: { id: card.id },
+        data: { balance: 0, status: "DISABLED" },
+      });
+      await tx.giftCardTransaction.create({
+        data: {
+          giftCardId: card.id,
+          type: "CANCELLATION",
+          amount: -card.balance,
+          balanceAfter: 0,
+          orderId: input.orderId,
+          createdById: input.createdById ?? null,
+        },
+      });
+    }
+
+    return cancelled.map((card) => card.code);
+  },
+
+  /**
+   * Balance and validity of a card, as checked at the register
+   */
+  async lookup(shopId: string, code: string) {
+    const normalized = normalizeGiftCardCode(code);
+    if (!normalized) {
+      return null;
+    }
+
+    const card = await db.giftCard.findUnique({
+      where: { shopId_code: { shopId, code: normalized } },
+      select: { id: true, code: true, balance: true, initialValue: true, expiresAt: true, status: true },
+    });
+    if (!card) {
+      return null;
+    }
+
+    const expired = isExpired(card);
+    return { ...card, expired, usable: card.status === "ACTIVE" && !expired && card.balance > 0 };
+  },
+
+  /**
+   * A card with its whole history
+   */
+  async getCard(shopId: string, giftCardId: string) {
+    const card = await db.giftCard.findFirst({
+      where: { id: giftCardId, shopId },
+      include: giftCardDetailInclude,
+    });
+    return card ? { ...card, expired: isExpired(card) } : null;
+  },
+
+  /**
+   * Cards of the shop, latest first
+   */
+  async listCards(shopId: string, filters: GiftCardFilters = {}) {
+    const where: Prisma.GiftCardWhereInput = { shopId };
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    const search = filters.search?.trim();
+    if (search) {
+      const code = normalizeGiftCardCode(search);
+      where.OR = [
+        ...(code ? [{ code: { contains: code } }] : []),
+        { notes: { contains: search, mode: "insensitive" } },
+        { order: { orderNumber: { contains: search, mode: "insensitive" } } },
+      ];
+    }
+
+    const [cards, outstanding] = await Promise.all([
+      db.giftCard.findMany({
+        where,
+        include: giftCardListInclude,
+        orderBy: { createdAt: "desc" },
+        take: 200,
+      }),
+      db.giftCard.aggregate({
+        where: { shopId, status: "ACTIVE", balance: { gt: 0 } },
+        _sum: { balance: true },
+        _count: true,
+      }),
+    ]);
+
+    const now = new Date();
+    return {
+      cards: cards.map((card) => ({ ...card, expired: isExpired(card, now) })),
+      outstanding: { count: outstanding._count, amount: roundMoney(outstanding._sum.balance ?? 0) },
+    };
+  },
+
+  /**
+   * Disable a lost or stolen card, or enable it again
+   */
+  async setStatus(shopId: string, giftCardId: string, status: GiftCardStatus) {
+    if (status !== "ACTIVE" && status !== "DISABLED") {
+      throw new GiftCardError("Invalid gift card status");
+    }
+
+    const result = await db.giftCard.updateMany({
+      where: { id: giftCardId, shopId },
+      data: { status },
+    });
+    if (result.count === 0) {
+      throw new GiftCardError("Gift card not found", 404);
+    }
+  },
+};
@@ -0,0 +1,259 @@
+// src/lib/services/held-cart.service.ts
+import { PriceAdjustmentReason, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import {
+  getLineAdjustmentError,
+  hasLineAdjustment,
+  LineAdjustmentInput,
+} from "@/lib/pos/price-adjustments";
+import { stockLotService } from "@/lib/services/stock-lot.service";
+import { formatQuantity, isValidQuantity, roundQuantity } from "@/lib/units";
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+// How long a parked cart keeps its items reserved, unless the cashier says otherwise
+export const DEFAULT_HOLD_MINUTES = 4 * 60;
+export const MAX_HOLD_MINUTES = 24 * 60;
+
+export class HeldCartError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "HeldCartError";
+  }
+}
+
+export interface HoldCartInput {
+  name: string;
+  customerId?: string | null;
+  notes?: string | null;
+  orderDiscount?: number;
+  orderDiscountType?: "PERCENTAGE" | "FIXED";
+  expiresInMinutes?: number;
+  // unitPrice is the price shown at the register, kept for display
+  items: (LineAdjustmentInput & {
+    productId: string;
+    variantId: string;
+    quantity: number;
+    unitPrice?: number;
+  })[];
+}
+
+const heldCartInclude = {
+  customer: { select: { id: true, name: true, email: true } },
+  heldBy: { select: { id: true, name: true } },
+  items: {
+    include: {
+      product: { select: { name: true } },
+      variant: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.HeldCartInclude;
+
+/**
+ * Columns of a held line for its manual price change, if any
+ */
+function heldAdjustment(adjustment: LineAdjustmentInput | undefined) {
+  if (!adjustment) return {};
+  const priceOverridden =
+    adjustment.priceOverride !== undefined && adjustment.priceOverride !== null;
+  const lineDiscount = Number(adjustment.lineDiscount) || 0;
+  return {
+    priceOverride: priceOverridden ? Number(adjustment.priceOverride) : null,
+    lineDiscount: lineDiscount > 0 ? lineDiscount : null,
+    lineDiscountType:
+      lineDiscount > 0 ? (adjustment.lineDiscountType === "FIXED" ? "FIXED" : "PERCENTAGE") : null,
+    adjustmentReason: adjustment.adjustmentReason as PriceAdjustmentReason,
+    adjustmentNote: adjustment.adjustmentNote?.trim() || null,
+  };
+}
+
+export const heldCartService = {
+  /**
+   * Quantity of each variant reserved by the shop's held carts that have not expired
+   */
+  async getReservedQuantities(
+    client: DbClient,
+    shopId: string,
+    variantIds?: string[]
+  ): Promise<Map<string, number>> {
+    const reserved = await client.heldCartItem.groupBy({
+      by: ["variantId"],
+      where: {
+        ...(variantIds && { variantId: { in: variantIds } }),
+        heldCart: { shopId, expiresAt: { gt: new Date() } },
+      },
+      _sum: { quantity: true },
+    });
+
+    return new Map(reserved.map((row) => [row.variantId, roundQuantity(row._sum.quantity ?? 0)]));
+  },
+
+  /**
+   * Held carts of the shop, from any register; expired ones are dropped
+   */
+  async listHeldCarts(shopId: string) {
+    await db.heldCart.deleteMany({ where: { shopId, expiresAt: { lte: new Date() } } });
+
+    return db.heldCart.findMany({
+      where: { shopId },
+      include: heldCartInclude,
+      orderBy: { createdAt: "desc" },
+    });
+  },
+
+  /**
+   * Park a cart and reserve its items
+   */
+  async holdCart(shopId: string, userId: string, input: HoldCartInput) {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new HeldCartError("Give the held cart a name");
+    }
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new HeldCartError("The cart is empty");
+    }
+    if (input.items.some((item) => !Number.isFinite(item.quantity) || item.quantity <= 0)) {
+      throw new HeldCartError("Item quantities must be positive");
+    }
+
+    const minutes = input.expiresInMinutes ?? DEFAULT_HOLD_MINUTES;
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_HOLD_MINUTES) {
+      throw new HeldCartError(`A cart can be held for at most ${MAX_HOLD_MINUTES / 60} hours`);
+    }
+
+    // Same variant added twice counts once, with both quantities
+    const quantities = new Map<string, number>();
+    for (const item of input.items) {
+      quantities.set(
+        item.variantId,
+        roundQuantity((quantities.get(item.variantId) ?? 0) + item.quantity)
+      );
+    }
+    const variantIds = [...quantities.keys()];
+
+    if (input.customerId) {
+      const customer = await db.user.findUnique({
+        where: { id: input.customerId, shopId, role: "CUSTOMER" },
+      });
+      if (!customer) {
+        throw new HeldCartError("Customer not found", 404);
+      }
+    }
+
+    return db.$transaction(async (tx) => {
+      // Serialize reservations of the same variants
+      await tx.$queryRaw`SELECT "id" FROM "ProductVariant" WHERE "id" IN (${Prisma.join(variantIds)}) FOR UPDATE`;
+
+      const variants = await tx.productVariant.findMany({
+        where: { id: { in: variantIds }, product: { shopId } },
+        select: {
+          id: true,
+          productId: true,
+          price: true,
+          unit: true,
+          inventory: true,
+          allowBackorder: true,
+          product: { select: { name: true, isGiftCard: true } },
+        },
+      });
+      if (variants.length !== variantIds.length) {
+        throw new HeldCartError("Some items are no longer available", 404);
+      }
+
+      // Expired lots cannot be sold, so they cannot be held either
+      const reserved = await stockLotService.holdExpired(
+        tx,
+        await this.getReservedQuantities(tx, shopId, variantIds),
+        variantIds
+      );
+      for (const variant of variants) {
+        const requested = quantities.get(variant.id)!;
+        if (!isValidQuantity(requested, variant.unit)) {
+          throw new HeldCartError(`Invalid quantity for ${variant.product.name}`);
+        }
+        // Gift cards are issued when sold, there is no stock to keep
+        if (variant.product.isGiftCard || variant.allowBackorder) continue;
+        const available = roundQuantity(variant.inventory - (reserved.get(variant.id) ?? 0));
+        if (requested > available) {
+          throw new HeldCartError(
+            `Insufficient inventory for ${variant.product.name}. Available: ${formatQuantity(Math.max(available, 0), variant.unit)}, Requested: ${formatQuantity(requested, variant.unit)}`,
+            409
+          );
+        }
+      }
+
+      const unitPrices = new Map(input.items.map((item) => [item.variantId, item.unitPrice]));
+
+      // Price changes are kept as entered and checked again at checkout
+      const adjustments = new Map<string, LineAdjustmentInput>();
+      for (const item of input.items) {
+        if (!hasLineAdjustment(item) || adjustments.has(item.variantId)) continue;
+        const variant = variants.find((candidate) => candidate.id === item.variantId)!;
+        const adjustmentError = getLineAdjustmentError(variant.price, item);
+        if (adjustmentError) {
+          throw new HeldCartError(`${variant.product.name}: ${adjustmentError}`);
+        }
+        adjustments.set(item.variantId, item);
+      }
+
+      return tx.heldCart.create({
+        data: {
+          shopId,
+          name,
+          customerId: input.customerId || null,
+          heldById: userId,
+          notes: input.notes?.trim() || null,
+          orderDiscount: Math.max(Number(input.orderDiscount) || 0, 0),
+          orderDiscountType: input.orderDiscountType === "FIXED" ? "FIXED" : "PERCENTAGE",
+          expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+          items: {
+            create: variants.map((variant) => ({
+              productId: variant.productId,
+              variantId: variant.id,
+              quantity: quantities.get(variant.id)!,
+              unitPrice: Number(unitPrices.get(variant.id)) || variant.price,
+              ...heldAdjustment(adjustments.get(variant.id)),
+            })),
+          },
+        },
+        include: heldCartInclude,
+      });
+    });
+  },
+
+  /**
+   * Take a held cart back to the register: its reservation is released
+   */
+  async resumeHeldCart(id: string, shopId: string) {
+    return db.$transaction(async (tx) => {
+      const heldCart = await tx.heldCart.findFirst({
+        where: { id, shopId },
+        include: heldCartInclude,
+      });
+      if (!heldCart) {
+        throw new HeldCartError("Held cart not found", 404);
+      }
+      if (heldCart.expiresAt <= new Date()) {
+        throw new HeldCartError("This held cart has expired", 410);
+      }
+
+      // Deleted only once: resuming the same cart from two registers fails on the second
+      const { count } = await tx.heldCart.deleteMany({ where: { id } });
+      if (count === 0) {
+        throw new HeldCartError("This cart was already resumed", 409);
+      }
+
+      return heldCart;
+    });
+  },
+
+  /**
+   * Cancel a held cart and release its reservation
+   */
+  async deleteHeldCart(id: string, shopId: string) {
+    const { count } = await db.heldCart.deleteMany({ where: { id, shopId } });
+    if (count === 0) {
+      throw new HeldCartError("Held cart not found", 404);
+    }
+  },
+};
@@ -0,0 +1,124 @@
+// src/lib/services/idempotency.service.ts
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+
+// How long a stored response is replayed to retries of the same key
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// A key still in progress after this long was left by a crashed request and
+// can be claimed again. Longer than the slowest transaction of any route.
+export const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class IdempotencyError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "IdempotencyError";
+  }
+}
+
+// Who sent the request and where: keys are only unique within this scope
+export interface IdempotencyScope {
+  shopId: string;
+  userId: string;
+  endpoint: string;
+}
+
+export type IdempotencyClaim =
+  | { replay: false; id: string }
+  | { replay: true; status: number; body: Prisma.JsonValue };
+
+// Opaque keys generated by the client, UUIDs in practice
+export function isValidIdempotencyKey(value: string) {
+  return /^[\x21-\x7e]{8,255}$/.test(value);
+}
+
+export function hashRequestBody(body: string) {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+export const idempotencyService = {
+  /**
+   * Claim a key before handling the request, or get the response to replay
+   */
+  async claim(scope: IdempotencyScope, key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const where = {
+      shopId_userId_endpoint_key: {
+        shopId: scope.shopId,
+        userId: scope.userId,
+        endpoint: scope.endpoint,
+        key,
+      },
+    };
+
+    // Keys past the window can be reused
+    await db.idempotencyKey.deleteMany({
+      where: { shopId: scope.shopId, expiresAt: { lt: now } },
+    });
+
+    try {
+      const record = await db.idempotencyKey.create({
+        data: {
+          ...scope,
+          key,
+          requestHash,
+          expiresAt: new Date(now.getTime() + IDEMPOTENCY_WINDOW_MS),
+        },
+      });
+      return { replay: false, id: record.id };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+        throw error;
+      }
+    }
+
+    const existing = await db.idempotencyKey.findUnique({ where });
+    if (!existing) {
+      // Released by the first request in the meantime
+      throw new IdempotencyError("The original request failed, retry it", 409);
+    }
+    if (existing.requestHash !== requestHash) {
+      throw new IdempotencyError(
+        "This Idempotency-Key was already used with a different request",
+        422
+      );
+    }
+    if (existing.status !== "COMPLETED" || existing.responseStatus === null) {
+      // Taken over with a conditional update so only one retry gets the stuck key
+      const stuckSince = new Date(now.getTime() - IN_PROGRESS_TIMEOUT_MS);
+      if (existing.status === "IN_PROGRESS" && existing.createdAt < stuckSince) {
+        const { count } = await db.idempotencyKey.updateMany({
+          where: { id: existing.id, status: "IN_PROGRESS", createdAt: existing.createdAt },
+          data: {
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + IDEMPOTENCY_WINDOW_MS),
+          },
+        });
+        if (count === 1) {
+          return { replay: false, id: existing.id };
+        }
+      }
+      throw new IdempotencyError("A request with this Idempotency-Key is still being processed", 409);
+    }
+
+    return { replay: true, status: existing.responseStatus, body: existing.responseBody };
+  },
+
+  /**
+   * Store the response of a claimed key so retries get the same answer
+   */
+  async complete(id: string, status: number, body: Prisma.InputJsonValue) {
+    await db.idempotencyKey.update({
+      where: { id },
+      data: { status: "COMPLETED", responseStatus: status, responseBody: body },
+    });
+  },
+
+  /**
+   * Forget a claimed key: the request had no effect and may be sent again
+   */
+  async release(id: string) {
+    await db.idempotencyKey.deleteMany({ where: { id } });
+  },
+};
@@ -0,0 +1,358 @@
+// src/lib/services/invoice.service.ts
+import { OrderItem, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { describeLineAdjustment } from "@/lib/pos/price-adjustments";
+import { numberingService } from "@/lib/services/numbering.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { allocateAmount, roundMoney } from "@/lib/services/pricing.service";
+import { s3EnhancedService } from "@/lib/services/s3-enhanced.service";
+import { formatQuantity } from "@/lib/units";
+import { createPdfWriter, formatPdfAmount, PdfWriter } from "@/lib/utils/pdf";
+
+export interface InvoiceLineSource {
+  productName: string;
+  productSku?: string | null;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  productTva: number;
+  discountPercentage?: number | null;
+  netTotal?: number | null; // Set when the line was priced with its share of the order discount
+  taxAmount?: number | null;
+}
+
+export interface TvaLine {
+  rate: number;
+  base: number; // Amount excluding TVA
+  tax: number;
+  total: number; // Amount including TVA
+}
+
+export interface TvaBreakdown {
+  lineNetTotals: number[]; // Line totals after order-level discounts (TVA included)
+  rates: TvaLine[];
+  totalExcludingTax: number;
+  totalTax: number;
+  total: number;
+}
+
+/**
+ * Split a set of TVA-inclusive lines into bases and TVA per rate. Lines use
+ * the net and TVA amounts stored when they were priced; lines of older orders
+ * get the order-level discount spread over them instead.
+ */
+export function buildTvaBreakdown(
+  lines: Pick<InvoiceLineSource, "total" | "productTva" | "netTotal" | "taxAmount">[],
+  orderDiscount = 0
+): TvaBreakdown {
+  const priced = lines.every((line) => line.netTotal != null && line.taxAmount != null);
+  const shares = priced
+    ? lines.map(() => 0)
+    : allocateAmount(
+        lines.map((line) => line.total),
+        orderDiscount
+      );
+  const lineNetTotals = lines.map((line, index) =>
+    priced ? roundMoney(line.netTotal!) : roundMoney(line.total - shares[index])
+  );
+
+  const byRate = new Map<number, TvaLine>();
+  lines.forEach((line, index) => {
+    const total = lineNetTotals[index];
+    const base = priced
+      ? roundMoney(total - line.taxAmount!)
+      : roundMoney(total / (1 + line.productTva / 100));
+    const current = byRate.get(line.productTva) ?? { rate: line.productTva, base: 0, tax: 0, total: 0 };
+    current.base = roundMoney(current.base + base);
+    current.tax = roundMoney(current.tax + total - base);
+    current.total = roundMoney(current.total + total);
+    byRate.set(line.productTva, current);
+  });
+
+  const rates = [...byRate.values()].sort((a, b) => a.rate - b.rate);
+  return {
+    lineNetTotals,
+    rates,
+    totalExcludingTax: roundMoney(rates.reduce((sum, rate) => sum + rate.base, 0)),
+    totalTax: roundMoney(rates.reduce((sum, rate) => sum + rate.tax, 0)),
+    total: roundMoney(rates.reduce((sum, rate) => sum + rate.total, 0)),
+  };
+}
+
+const invoiceOrderInclude = {
+  user: {
+    select: {
+      name: true,
+      email: true,
+    },
+  },
+  address: true,
+  items: {
+    orderBy: { createdAt: "asc" as const },
+  },
+  orderPayments: {
+    orderBy: { createdAt: "asc" as const },
+  },
+  invoice: true,
+};
+
+export type ShopWithSettings = NonNullable<Awaited<ReturnType<typeof getShopWithSettings>>>;
+
+export async function getShopWithSettings(shopId: string) {
+  return await db.shop.findUnique({
+    where: { id: shopId },
+    include: { settings: true },
+  });
+}
+
+type InvoiceOrder = NonNullable<Awaited<ReturnType<typeof getInvoiceOrder>>>;
+
+async function getInvoiceOrder(orderId: string, shopId: string) {
+  return await db.order.findFirst({
+    where: { id: orderId, shopId },
+    include: invoiceOrderInclude,
+  });
+}
+
+/**
+ * Header lines identifying the shop on every generated document
+ */
+export function getShopDocumentLines(shop: ShopWithSettings): string[] {
+  return [
+    shop.settings?.address,
+    shop.settings?.contactPhone ? `Tel: ${shop.settings.contactPhone}` : null,
+    shop.settings?.contactEmail,
+  ].filter((line): line is string => !!line);
+}
+
+/**
+ * "Billed to" block with the customer and address of the order
+ */
+export function writeCustomerBlock(
+  pdf: PdfWriter,
+  order: Pick<InvoiceOrder, "user" | "address">
+) {
+  pdf.text("Billed to", 0, { bold: true });
+  pdf.moveDown(13);
+  const customerLines = [
+    order.user.name || "Walk-in customer",
+    order.user.email,
+    order.address?.line1,
+    order.address?.line2,
+    order.address
+      ? `${order.address.postalCode} ${order.address.city}, ${order.address.country}`
+      : null,
+  ].filter((line): line is string => !!line);
+  customerLines.forEach((line) => {
+    pdf.text(line, 0);
+    pdf.moveDown(12);
+  });
+  pdf.moveDown(10);
+}
+
+/**
+ * Discount column of an invoice line: the automatic percentage, or the whole
+ * reduction off the catalog price when the cashier changed the price
+ */
+function formatLineDiscount(item: OrderItem): string {
+  if (!item.priceOverridden && item.lineDiscountAmount <= 0) {
+    return item.discountPercentage ? `${item.discountPercentage}%` : "-";
+  }
+  const catalogTotal = (item.originalPrice ?? item.unitPrice) * item.quantity;
+  return catalogTotal > 0 ? `${roundMoney(((item.discountAmount ?? 0) / catalogTotal) * 100)}%` : "-";
+}
+
+export const invoiceService = {
+  /**
+   * Render the invoice PDF from the order snapshot stored at sale time
+   */
+  async renderInvoicePdf(
+    order: InvoiceOrder,
+    shop: ShopWithSettings,
+    invoice: { invoiceNumber: string; createdAt: Date }
+  ): Promise<Uint8Array> {
+    const currency = shop.settings?.currency || "DT";
+    const money = (amount: number) => formatPdfAmount(amount, currency);
+    const pdf = await createPdfWriter(`Invoice ${invoice.invoiceNumber}`);
+
+    pdf.header({
+      shopName: shop.name,
+      shopLines: getShopDocumentLines(shop),
+      title: "INVOICE",
+      titleLines: [
+        `No. ${invoice.invoiceNumber}`,
+        `Date: ${invoice.createdAt.toLocaleDateString("fr-FR")}`,
+        `Order: ${order.orderNumber}`,
+        `Order date: ${order.createdAt.toLocaleDateString("fr-FR")}`,
+      ],
+    });
+
+    writeCustomerBlock(pdf, order);
+
+    // Items, with the reason of manual price changes under the line
+    const breakdown = buildTvaBreakdown(order.items, order.discount);
+    pdf.table(
+      [
+        { header: "Description", width: 205 },
+        { header: "Qty", width: 35, align: "right" },
+        { header: "Unit price", width: 75, align: "right" },
+        { header: "Disc.", width: 45, align: "right" },
+        { header: "TVA", width: 40, align: "right" },
+        { header: "Total TTC", width: pdf.contentWidth - 400, align: "right" },
+      ],
+      order.items.flatMap((item) => {
+        const adjustment = describeLineAdjustment(item);
+        const row = [
+          item.productSku ? `${item.productName} (${item.productSku})` : item.productName,
+          formatQuantity(item.quantity, item.unit),
+          money(item.unitPrice),
+          formatLineDiscount(item),
+          `${item.productTva}%`,
+          money(item.total),
+        ];
+        return adjustment ? [row, [`  ${adjustment}`, "", "", "", "", ""]] : [row];
+      })
+    );
+
+    // Totals
+    const subtotal = roundMoney(order.items.reduce((sum, item) => sum + item.total, 0));
+    const totals: [string, string][] = [["Subtotal (TTC)", money(subtotal)]];
+    if (order.discount > 0) {
+      totals.push([
+        order.discountCodeValue ? `Discount (${order.discountCodeValue})` : "Discount",
+        `-${money(order.discount)}`,
+      ]);
+    }
+    totals.push(["Total HT", money(breakdown.totalExcludingTax)]);
+    breakdown.rates.forEach((rate) => {
+      totals.push([`TVA ${rate.rate}% on ${money(rate.base)}`, money(rate.tax)]);
+    });
+    if (order.shipping > 0) {
+      totals.push(["Shipping", money(order.shipping)]);
+    }
+    totals.push(["Total TTC", money(order.total)]);
+    pdf.keyValues(totals, { boldLast: true });
+
+    // Payments
+    if (order.orderPayments.length > 0) {
+      pdf.moveDown(10);
+      pdf.ensureSpace(14 * (order.orderPayments.length + 1));
+      pdf.text("Payments", 0, { bold: true });
+      pdf.moveDown(13);
+      order.orderPayments.forEach((payment) => {
+        const label = payment.paymentMethod.replace("_", " ");
+        const reference = payment.checkNumber ? ` - check #${payment.checkNumber}` : "";
+        pdf.text(`${label}${reference}`, 0);
+        pdf.text(money(payment.amount), 200, { align: "right" });
+        pdf.moveDown(12);
+      });
+    }
+
+    return await pdf.save();
+  },
+
+  /**
+   * Create the invoice of an order (once) and store its PDF
+   */
+  async generateInvoice(orderId: string, shopId: string, actorId?: string | null) {
+    const order = await getInvoiceOrder(orderId, shopId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    if (order.invoice) {
+      return { invoice: order.invoice, created: false };
+    }
+
+    const shop = await getShopWithSettings(shopId);
+    if (!shop) {
+      throw new Error("Shop not found");
+    }
+
+    // The number is allocated in the same transaction as the invoice so a
+    // failed creation never leaves a gap in the sequence
+    const issuedAt = new Date();
+    let invoice;
+    try {
+      invoice = await db.$transaction(async (tx) => {
+        const invoiceNumber = await numberingService.nextInvoiceNumber(tx, shopId, issuedAt);
+        const created = await tx.invoice.create({
+          data: {
+            invoiceNumber,
+            orderId: order.id,
+            shopId,
+            createdAt: issuedAt,
+          },
+        });
+        await orderEventService.record(tx, {
+          orderId: order.id,
+          shopId,
+          type: "INVOICE_ISSUED",
+          toValue: invoiceNumber,
+          metadata: { invoiceId: created.id },
+          actorId,
+        });
+        return created;
+      });
+    } catch (error) {
+      // Another request issued the invoice of this order concurrently
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        const existing = await db.invoice.findUnique({ where: { orderId: order.id } });
+        if (existing) {
+          return { invoice: existing, created: false };
+        }
+      }
+      throw error;
+    }
+
+    // The PDF can always be rebuilt from the snapshot, so a storage failure
+    // must not prevent issuing the invoice
+    try {
+      const pdf = await this.renderInvoicePdf(order, shop, invoice);
+      const uploaded = await s3EnhancedService.uploadDocument(
+        pdf,
+        `${invoice.invoiceNumber}.pdf`,
+        "invoices",
+        shopId
+      );
+      invoice = await db.invoice.update({
+        where: { id: invoice.id },
+        data: { pdfUrl: uploaded.key },
+      });
+    } catch (error) {
+      console.error("Error storing invoice PDF:", error);
+    }
+
+    return { invoice, created: true };
+  },
+
+  /**
+   * Get the PDF of an existing invoice, from storage or rebuilt from the order
+   */
+  async getInvoicePdf(invoiceId: string, shopId: string) {
+    const invoice = await db.invoice.findFirst({
+      where: { id: invoiceId, shopId },
+    });
+    if (!invoice) {
+      return null;
+    }
+
+    if (invoice.pdfUrl && s3EnhancedService.isS3Key(invoice.pdfUrl)) {
+      const stored = await s3EnhancedService.getDocument(invoice.pdfUrl);
+      if (stored) {
+        return { invoice, pdf: stored };
+      }
+    }
+
+    const [order, shop] = await Promise.all([
+      getInvoiceOrder(invoice.orderId, shopId),
+      getShopWithSettings(shopId),
+    ]);
+    if (!order || !shop) {
+      return null;
+    }
+
+    const pdf = await this.renderInvoicePdf(order, shop, invoice);
+    return { invoice, pdf };
+  },
+};
@@ -0,0 +1,193 @@
+// src/lib/services/numbering.service.ts
+import { randomUUID } from "crypto";
+import { DocumentSequenceType, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export const DEFAULT_ORDER_NUMBER_PATTERN = "ORD-{YYYY}-{SEQ:6}";
+export const DEFAULT_INVOICE_NUMBER_PATTERN = "INV-{YYYY}-{SEQ:6}";
+export const DEFAULT_CREDIT_NOTE_PATTERN = "AV-{YYYY}-{SEQ:6}";
+export const DEFAULT_PURCHASE_ORDER_PATTERN = "PO-{YYYY}-{SEQ:5}";
+export const DEFAULT_STOCKTAKE_PATTERN = "ST-{YYYY}-{SEQ:4}";
+
+// Settings field holding the pattern of each document type, with its default.
+// Purchase orders and stocktakes are internal and always use the default pattern.
+const PATTERNS: Record<
+  DocumentSequenceType,
+  { field: "orderNumberPattern" | "invoiceNumberPattern" | "creditNotePattern" | null; fallback: string }
+> = {
+  ORDER: { field: "orderNumberPattern", fallback: DEFAULT_ORDER_NUMBER_PATTERN },
+  INVOICE: { field: "invoiceNumberPattern", fallback: DEFAULT_INVOICE_NUMBER_PATTERN },
+  CREDIT_NOTE: { field: "creditNotePattern", fallback: DEFAULT_CREDIT_NOTE_PATTERN },
+  PURCHASE_ORDER: { field: null, fallback: DEFAULT_PURCHASE_ORDER_PATTERN },
+  STOCKTAKE: { field: null, fallback: DEFAULT_STOCKTAKE_PATTERN },
+};
+
+// Supported tokens: {YYYY} {YY} {MM} {DD} and {SEQ} / {SEQ:n} (zero-padded to n digits)
+const TOKEN_REGEX = /\{(YYYY|YY|MM|DD|SEQ(?::(\d{1,2}))?)\}/g;
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Calendar date of a moment in the shop's timezone, so the fiscal year
+ * switches at local midnight on January 1st
+ */
+function getDateParts(date: Date, timeZone: string): DateParts {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).formatToParts(date);
+  } catch {
+    // Unknown timezone stored in settings
+    return getDateParts(date, "UTC");
+  }
+
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: value("year"), month: value("month"), day: value("day") };
+}
+
+/**
+ * Check a numbering pattern, returning an error message or null when valid.
+ * The pattern must contain the sequence and the year since counters restart every year.
+ */
+export function validateNumberPattern(pattern: unknown): string | null {
+  if (typeof pattern !== "string" || !pattern.trim()) {
+    return "Numbering pattern is required";
+  }
+  if (pattern.length > 50) {
+    return "Numbering pattern must be 50 characters or less";
+  }
+
+  const tokens = [...pattern.matchAll(TOKEN_REGEX)].map((match) => match[1]);
+  if (tokens.filter((token) => token.startsWith("SEQ")).length !== 1) {
+    return "Numbering pattern must contain {SEQ} exactly once";
+  }
+  if (!tokens.includes("YYYY") && !tokens.includes("YY")) {
+    return "Numbering pattern must contain the year ({YYYY} or {YY})";
+  }
+
+  const literal = pattern.replace(TOKEN_REGEX, "");
+  if (/[{}]/.test(literal)) {
+    return "Numbering pattern contains an unknown token";
+  }
+  if (!/^[A-Za-z0-9\-_/.]*$/.test(literal)) {
+    return "Numbering pattern may only contain letters, digits and - _ / .";
+  }
+
+  return null;
+}
+
+/**
+ * Build a document number from a pattern and a sequence value
+ */
+export function formatDocumentNumber(pattern: string, sequence: number, date: DateParts): string {
+  return pattern.replace(TOKEN_REGEX, (_match, token: string, width?: string) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.year);
+      case "YY":
+        return String(date.year).slice(-2);
+      case "MM":
+        return String(date.month).padStart(2, "0");
+      case "DD":
+        return String(date.day).padStart(2, "0");
+      default:
+        return String(sequence).padStart(width ? Number(width) : 1, "0");
+    }
+  });
+}
+
+export const numberingService = {
+  /**
+   * Increment and return the counter of a shop for a document type and year.
+   * Must run inside the transaction creating the document: the row stays locked
+   * until commit and a rollback releases the value, keeping the sequence gapless.
+   */
+  async nextValue(
+    client: DbClient,
+    shopId: string,
+    type: DocumentSequenceType,
+    year: number
+  ): Promise<number> {
+    const rows = await client.$queryRaw<{ lastValue: number }[]>`
+      INSERT INTO "DocumentSequence" ("id", "shopId", "type", "year", "lastValue", "createdAt", "updatedAt")
+      VALUES (${randomUUID()}, ${shopId}, ${type}::"DocumentSequenceType", ${year}, 1, NOW(), NOW())
+      ON CONFLICT ("shopId", "type", "year")
+      DO UPDATE SET "lastValue" = "DocumentSequence"."lastValue" + 1, "updatedAt" = NOW()
+      RETURNING "lastValue"
+    `;
+
+    return rows[0].lastValue;
+  },
+
+  /**
+   * Allocate the next number of a document using the shop's pattern and timezone
+   */
+  async allocateNumber(
+    client: DbClient,
+    shopId: string,
+    type: DocumentSequenceType,
+    date = new Date()
+  ): Promise<string> {
+    const settings = await client.shopSettings.findUnique({
+      where: { shopId },
+      select: {
+        timezone: true,
+        orderNumberPattern: true,
+        invoiceNumberPattern: true,
+        creditNotePattern: true,
+      },
+    });
+
+    const { field, fallback } = PATTERNS[type];
+    const pattern = (field && settings?.[field]) || fallback;
+    const parts = getDateParts(date, settings?.timezone || "Africa/Tunis");
+    const sequence = await this.nextValue(client, shopId, type, parts.year);
+
+    return formatDocumentNumber(pattern, sequence, parts);
+  },
+
+  /**
+   * Allocate the next order number of a shop
+   */
+  async nextOrderNumber(client: DbClient, shopId: string, date?: Date) {
+    return await this.allocateNumber(client, shopId, DocumentSequenceType.ORDER, date);
+  },
+
+  /**
+   * Allocate the next invoice number of a shop
+   */
+  async nextInvoiceNumber(client: DbClient, shopId: string, date?: Date) {
+    return await this.allocateNumber(client, shopId, DocumentSequenceType.INVOICE, date);
+  },
+
+  /**
+   * Allocate the next credit note number of a shop
+   */
+  async nextCreditNoteNumber(client: DbClient, shopId: string, date?: Date) {
+    return await this.allocateNumber(client, shopId, DocumentSequenceType.CREDIT_NOTE, date);
+  },
+
+  /**
+   * Allocate the next purchase order number of a shop
+   */
+  async nextPurchaseOrderNumber(client: DbClient, shopId: string, date?: Date) {
+    return await this.allocateNumber(client, shopId, DocumentSequenceType.PURCHASE_ORDER, date);
+  },
+
+  /**
+   * Allocate the next stocktake number of a shop
+   */
+  async nextStocktakeNumber(client: DbClient, shopId: string, date?: Date) {
+    return await this.allocateNumber(client, shopId, DocumentSequenceType.STOCKTAKE, date);
+  },
+};
@@ -0,0 +1,66 @@
+// src/lib/services/order-event.service.ts
+import { OrderEventType, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface OrderEventInput {
+  orderId: string;
+  shopId: string;
+  type: OrderEventType;
+  fromValue?: string | null;
+  toValue?: string | null;
+  message?: string | null;
+  metadata?: Prisma.InputJsonValue;
+  actorId?: string | null; // Staff member behind the event, none for system events
+}
+
+export interface OrderEventFilters {
+  types?: OrderEventType[];
+  from?: Date;
+  to?: Date;
+}
+
+export function isOrderEventType(value: unknown): value is OrderEventType {
+  return typeof value === "string" && value in OrderEventType;
+}
+
+export const orderEventService = {
+  /**
+   * Append an event to the order timeline. Pass the transaction client so the
+   * event is only kept if the change it describes is committed.
+   */
+  async record(client: DbClient, event: OrderEventInput) {
+    return await client.orderEvent.create({
+      data: {
+        orderId: event.orderId,
+        shopId: event.shopId,
+        type: event.type,
+        fromValue: event.fromValue ?? null,
+        toValue: event.toValue ?? null,
+        message: event.message || null,
+        metadata: event.metadata,
+        actorId: event.actorId || null,
+      },
+    });
+  },
+
+  /**
+   * List the timeline of an order, oldest first, with who did what
+   */
+  async getOrderEvents(orderId: string, shopId: string, filters: OrderEventFilters = {}) {
+    return await db.orderEvent.findMany({
+      where: {
+        orderId,
+        shopId,
+        type: filters.types?.length ? { in: filters.types } : undefined,
+        createdAt:
+          filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+      },
+      include: {
+        actor: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  },
+};
@@ -0,0 +1,382 @@
+// src/lib/services/order-status.service.ts
+import { OrderStatus, PaymentMethodType, PaymentStatus, PosApprovalAction, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import {
+  canTransitionOrder,
+  canTransitionPayment,
+  isOrderStatus,
+  isPaymentStatus,
+  ORDER_STATUS_LABELS,
+  PAYMENT_STATUS_LABELS,
+  RESTOCKING_ORDER_STATUSES,
+} from "@/lib/order-status";
+import { creditNoteService, CreditNoteError } from "@/lib/services/credit-note.service";
+import { customerAccountService } from "@/lib/services/customer-account.service";
+import { GiftCardError, giftCardService } from "@/lib/services/gift-card.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { posApprovalService } from "@/lib/services/pos-approval.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { registerService } from "@/lib/services/register.service";
+import { stockLotService } from "@/lib/services/stock-lot.service";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
+
+export class OrderStatusError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "OrderStatusError";
+  }
+}
+
+export interface OrderStatusChange {
+  status?: string | null;
+  paymentStatus?: string | null;
+  notes?: string | null;
+}
+
+export interface OrderStatusOptions {
+  actorId?: string | null; // Staff member making the change
+  issueCreditNotes?: boolean; // Whether the plan includes invoicing
+  approvalIds?: string[] | null; // Admin approvals of a cancellation or refund made by a staff member
+  message?: string | null; // Why the status changed, shown on the order timeline
+}
+
+/**
+ * Restricted POS action a status change amounts to, if any
+ */
+function getRestrictedAction(
+  previous: { status: OrderStatus; paymentStatus: PaymentStatus },
+  nextStatus: OrderStatus | undefined,
+  nextPaymentStatus: PaymentStatus | undefined
+): PosApprovalAction | null {
+  if (nextStatus === "CANCELLED" && previous.status !== "CANCELLED") {
+    return "VOID";
+  }
+  if (nextStatus === "REFUNDED" && previous.status !== "REFUNDED") {
+    return "REFUND";
+  }
+  if (
+    (nextPaymentStatus === "REFUNDED" || nextPaymentStatus === "PARTIALLY_REFUNDED") &&
+    nextPaymentStatus !== previous.paymentStatus
+  ) {
+    return "REFUND";
+  }
+  return null;
+}
+
+// Payments a refund does not pay back in money: account charges and gift
+// cards are credited back, checks are returned
+const NOT_PAID_BACK_METHODS: PaymentMethodType[] = ["ON_ACCOUNT", "GIFT_CARD", "CHECK"];
+
+/**
+ * What is still kept on a payment once its earlier refunds are deducted
+ */
+function getUnrefundedAmount(payment: { amount: number; refunds: { amount: number }[] }) {
+  return roundMoney(payment.amount - payment.refunds.reduce((sum, refund) => sum + refund.amount, 0));
+}
+
+export const orderStatusService = {
+  /**
+   * Apply a status change through the order state machine: validate the
+   * transitions, log them on the order timeline, restock what left the
+   * inventory, notify the customer and credit the invoice for refunds,
+   * returns and cancellations.
+   */
+  async updateStatus(
+    orderId: string,
+    shopId: string,
+    change: OrderStatusChange,
+    options: OrderStatusOptions = {}
+  ) {
+    const { previous, updatedOrder } = await db.$transaction((tx) =>
+      this.applyStatusChange(tx, orderId, shopId, change, options)
+    );
+    const nextStatus = updatedOrder.status;
+
+    // Refunds and returns must be reflected by a credit note on the invoice, and
+    // cancelling an order that was already invoiced cancels the invoice too
+    const needsCreditNote =
+      nextStatus === "REFUNDED" ||
+      nextStatus === "RETURNED" ||
+      (nextStatus === "CANCELLED" && !!previous.invoice);
+    if (nextStatus !== previous.status && needsCreditNote && options.issueCreditNotes) {
+      try {
+        await creditNoteService.createCreditNote(orderId, shopId, {
+          reason: `Order ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`,
+          createdById: options.actorId,
+        });
+      } catch (error) {
+        // Nothing left to credit when the order was already fully credited
+        if (!(error instanceof CreditNoteError)) {
+          console.error("Error issuing credit note:", error);
+        }
+      }
+    }
+
+    return updatedOrder;
+  },
+
+  /**
+   * The part of a status change made inside the transaction, for changes that
+   * come with other writes (such as a check bouncing). Credit notes are left
+   * to the caller.
+   */
+  async applyStatusChange(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    shopId: string,
+    change: OrderStatusChange,
+    options: OrderStatusOptions = {}
+  ) {
+    if (change.status && !isOrderStatus(change.status)) {
+      throw new OrderStatusError("Invalid order status");
+    }
+    if (change.paymentStatus && !isPaymentStatus(change.paymentStatus)) {
+      throw new OrderStatusError("Invalid payment status");
+    }
+    const nextStatus = (change.status || undefined) as OrderStatus | undefined;
+    const nextPaymentStatus = (change.paymentStatus || undefined) as PaymentStatus | undefined;
+
+    // Lock the order so two concurrent changes cannot both restock it
+    await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+    const previous = await tx.order.findFirst({
+      where: { id: orderId, shopId },
+      include: {
+        items: {
+          select: {
+            id: true,
+            variantId: true,
+            quantity: true,
+            product: { select: { isGiftCard: true } },
+            returnItems: { select: { quantity: true } },
+          },
+        },
+        invoice: { select: { id: true } },
+        orderPayments: {
+          select: {
+            id: true,
+            paymentMethod: true,
+            amount: true,
+            giftCardId: true,
+            refunds: { select: { amount: true } },
+          },
+        },
+      },
+    });
+    if (!previous) {
+      throw new OrderStatusError("Order not found", 404);
+    }
+
+    if (nextStatus && !canTransitionOrder(previous.status, nextStatus)) {
+      throw new OrderStatusError(
+        `Cannot change order status from ${ORDER_STATUS_LABELS[previous.status]} to ${ORDER_STATUS_LABELS[nextStatus]}`
+      );
+    }
+    if (nextPaymentStatus && !canTransitionPayment(previous.paymentStatus, nextPaymentStatus)) {
+      throw new OrderStatusError(
+        `Cannot change payment status from ${PAYMENT_STATUS_LABELS[previous.paymentStatus]} to ${PAYMENT_STATUS_LABELS[nextPaymentStatus]}`
+      );
+    }
+
+    // Cancelling and refunding are restricted to admins, or need their approval
+    const approvalAction = getRestrictedAction(previous, nextStatus, nextPaymentStatus);
+    if (approvalAction && options.actorId) {
+      await posApprovalService.requireApproval(tx, {
+        shopId,
+        userId: options.actorId,
+        action: approvalAction,
+        approvalIds: options.approvalIds,
+        orderId,
+        value: previous.total,
+        details: { status: nextStatus ?? null, paymentStatus: nextPaymentStatus ?? null },
+      });
+    }
+
+    const updatedOrder = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        status: nextStatus,
+        paymentStatus: nextPaymentStatus,
+        notes: change.notes !== undefined ? change.notes : undefined,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        address: true,
+        items: true,
+        invoice: true,
+      },
+    });
+
+    const statusChanged = !!nextStatus && nextStatus !== previous.status;
+    const paymentStatusChanged =
+      !!nextPaymentStatus && nextPaymentStatus !== previous.paymentStatus;
+    const notesChanged =
+      change.notes !== undefined && (change.notes || null) !== (previous.notes || null);
+
+    if (statusChanged) {
+      await orderEventService.record(tx, {
+        orderId,
+        shopId,
+        type: "STATUS_CHANGED",
+        fromValue: previous.status,
+        toValue: nextStatus,
+        message: options.message,
+        actorId: options.actorId,
+      });
+    }
+    if (paymentStatusChanged) {
+      await orderEventService.record(tx, {
+        orderId,
+        shopId,
+        type: "PAYMENT_STATUS_CHANGED",
+        fromValue: previous.paymentStatus,
+        toValue: nextPaymentStatus,
+        message: options.message,
+        actorId: options.actorId,
+      });
+    }
+    if (notesChanged) {
+      await orderEventService.record(tx, {
+        orderId,
+        shopId,
+        type: "NOTE_UPDATED",
+        fromValue: previous.notes,
+        toValue: change.notes || null,
+        actorId: options.actorId,
+      });
+    }
+
+    // Put back what is still out of the inventory, in the lots it was sold
+    // from. Items returned through the returns workflow were already handled
+    // there, and RETURNED orders are settled.
+    if (
+      statusChanged &&
+      RESTOCKING_ORDER_STATUSES.includes(nextStatus) &&
+      previous.status !== "RETURNED"
+    ) {
+      for (const item of previous.items) {
+        const returned = item.returnItems.reduce((sum, line) => sum + line.quantity, 0);
+        const outstanding = item.quantity - returned;
+        if (item.variantId && outstanding > 0 && !item.product?.isGiftCard) {
+          await stockMovementService.record(tx, {
+            shopId,
+            variantId: item.variantId,
+            reason: nextStatus === "CANCELLED" ? "CANCELLATION" : "RETURN",
+            quantity: outstanding,
+            orderId,
+            notes: `Order ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`,
+            createdById: options.actorId,
+          });
+          await stockLotService.restore(tx, item.id, outstanding);
+        }
+      }
+    }
+
+    // A cancelled or refunded sale on account is no longer owed, so what is
+    // still charged is taken back off the customer account
+    if (statusChanged && (nextStatus === "CANCELLED" || nextStatus === "REFUNDED")) {
+      const accountRefunds = previous.orderPayments
+        .filter((payment) => payment.paymentMethod === "ON_ACCOUNT")
+        .map((payment) => ({ orderPaymentId: payment.id, amount: getUnrefundedAmount(payment) }))
+        .filter((refund) => refund.amount > 0);
+      const reversed = roundMoney(accountRefunds.reduce((sum, refund) => sum + refund.amount, 0));
+      if (reversed > 0) {
+        const notes = `Order ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`;
+        await tx.paymentRefund.createMany({
+          data: accountRefunds.map((refund) => ({ ...refund, notes, storeCredit: true })),
+        });
+        await customerAccountService.recordEntry(tx, {
+          shopId,
+          customerId: previous.userId,
+          type: "REVERSAL",
+          amount: -reversed,
+          orderId,
+          notes,
+          createdById: options.actorId,
+        });
+      }
+    }
+
+    // A refunded sale pays back what is still kept on its other payments, from
+    // the register the staff member has open so it leaves its expected cash
+    if (statusChanged && nextStatus === "REFUNDED") {
+      const paidBack = previous.orderPayments
+        .filter((payment) => !NOT_PAID_BACK_METHODS.includes(payment.paymentMethod))
+        .map((payment) => ({ orderPaymentId: payment.id, amount: getUnrefundedAmount(payment) }))
+        .filter((refund) => refund.amount > 0);
+      if (paidBack.length > 0) {
+        const register = options.actorId
+          ? await registerService.getOpenSession(tx, shopId, options.actorId)
+          : null;
+        await tx.paymentRefund.createMany({
+          data: paidBack.map((refund) => ({
+            ...refund,
+            notes: "Order refunded",
+            registerSessionId: register?.id ?? null,
+          })),
+        });
+      }
+    }
+
+    // Gift cards that paid for the order get their amount back, and the cards
+    // it sold are voided so they cannot be spent anymore
+    if (statusChanged && (nextStatus === "CANCELLED" || nextStatus === "REFUNDED")) {
+      for (const payment of previous.orderPayments) {
+        const amount = getUnrefundedAmount(payment);
+        if (payment.paymentMethod !== "GIFT_CARD" || !payment.giftCardId || amount <= 0) continue;
+        await tx.paymentRefund.create({
+          data: {
+            orderPaymentId: payment.id,
+            amount,
+            notes: `Order ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`,
+          },
+        });
+        await giftCardService.refund(tx, {
+          giftCardId: payment.giftCardId,
+          amount,
+          orderId,
+          createdById: options.actorId,
+        });
+      }
+
+      for (const item of previous.items) {
+        const returned = item.returnItems.reduce((sum, line) => sum + line.quantity, 0);
+        const outstanding = item.quantity - returned;
+        if (!item.product?.isGiftCard || outstanding <= 0) continue;
+        try {
+          await giftCardService.cancelCards(tx, {
+            orderItemId: item.id,
+            quantity: outstanding,
+            orderId,
+            createdById: options.actorId,
+          });
+        } catch (error) {
+          if (error instanceof GiftCardError) {
+            throw new OrderStatusError(error.message, error.status);
+          }
+          throw error;
+        }
+      }
+    }
+
+    if (statusChanged) {
+      await tx.notification.create({
+        data: {
+          title: `Order ${previous.orderNumber} Updated`,
+          message: `Your order status has been updated to ${ORDER_STATUS_LABELS[nextStatus]}`,
+          type: nextStatus === "CANCELLED" ? "ORDER_CANCELLED" : "ORDER_UPDATE",
+          userId: previous.userId,
+          shopId,
+        },
+      });
+    }
+
+    return { previous, updatedOrder };
+  },
+};
@@ -1,4 +1,9 @@
 import { db } from "@/lib/prisma";
+import {
+  orderStatusService,
+  OrderStatusChange,
+  OrderStatusOptions,
+} from "@/lib/services/order-status.service";
 
 // Helper functions for date calculations
 function getDateRange(dateFilter: 'today' | 'thisWeek' | 'thisMonth' | 'custom') {
@@ -285,6 +290,7 @@ export const ordersService = {
             id: true,
             name: true,
             email: true,
+            role: true,
           },
         },
         items: {
@@ -304,11 +310,39 @@ export const ordersService = {
                 options: true,
               },
             },
+            returnItems: {
+              select: {
+                quantity: true,
+              },
+            },
           },
         },
         address: true,
         invoice: true,
+        creditNotes: {
+          select: {
+            id: true,
+            creditNoteNumber: true,
+            total: true,
+            createdAt: true,
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
         orderPayments: {
+          include: {
+            refunds: {
+              select: {
+                amount: true,
+              },
+            },
+            giftCard: {
+              select: {
+                code: true,
+              },
+            },
+          },
           orderBy: {
             createdAt: 'asc',
           },
@@ -318,6 +352,46 @@ export const ordersService = {
             createdAt: 'asc',
           },
         },
+        returns: {
+          include: {
+            items: {
+              include: {
+                orderItem: {
+                  select: {
+                    productName: true,
+                  },
+                },
+              },
+            },
+            refunds: {
+              select: {
+                amount: true,
+              },
+            },
+            creditNote: {
+              select: {
+                id: true,
+                creditNoteNumber: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+        events: {
+          include: {
+            actor: {
+              select: {
+                name: true,
+                email: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
       },
     });
   },
@@ -372,126 +446,14 @@ export const ordersService = {
   },
 
   /**
-   * Update order status
+   * Update order status through the order state machine
    */
   async updateOrderStatus(
     orderId: string,
     shopId: string,
-    data: {
-      status?: string;
-      paymentStatus?: string;
-      notes?: string;
-    }
+    data: OrderStatusChange,
+    options?: OrderStatusOptions
   ) {
-    // First check if order exists and belongs to shop
-    const order = await db.order.findFirst({
-      where: {
-        id: orderId,
-        shopId,
-      },
-      select: {
-        id: true,
-        status: true,
-        paymentStatus: true,
-        userId: true,
-        orderNumber: true,
-      },
-    });
-
-    if (!order) {
-      throw new Error("Order not found");
-    }
-
-    // Validate status values against enums
-    if (
-      data.status &&
-      ![
-        "PENDING",
-        "PROCESSING",
-        "SHIPPED",
-        "DELIVERED",
-        "CANCELLED",
-        "REFUNDED",
-      ].includes(data.status)
-    ) {
-      throw new Error("Invalid order status");
-    }
-
-    if (
-      data.paymentStatus &&
-      !["PENDING", "PAID", "FAILED", "REFUNDED", "PARTIALLY_REFUNDED"].includes(
-        data.paymentStatus
-      )
-    ) {
-      throw new Error("Invalid payment status");
-    }
-
-    // Update the order
-    const updatedOrder = await db.order.update({
-      where: { id: orderId },
-      data: {
-        status: (data.status as any) || undefined,
-        paymentStatus: (data.paymentStatus as any) || undefined,
-        notes: data.notes !== undefined ? data.notes : undefined,
-        updatedAt: new Date(),
-      },
-    });
-
-    // Create notification if status changed
-    if (data.status && data.status !== order.status) {
-      await db.notification.create({
-        data: {
-          title: `Order ${order.orderNumber} Updated`,
-          message: `Your order status has been updated to ${data.status}`,
-          type: "ORDER_UPDATE",
-          userId: order.userId,
-          shopId,
-        },
-      });
-    }
-
-    // Handle inventory updates when order status changes to CANCELLED or REFUNDED
-    if (
-      (data.status === "CANCELLED" || data.status === "REFUNDED") &&
-      order.status !== "CANCELLED" &&
-      order.status !== "REFUNDED"
-    ) {
-      // Fetch order items to restore inventory
-      const orderItems = await db.orderItem.findMany({
-        where: { orderId },
-        select: {
-          productId: true,
-          variantId: true,
-          quantity: true,
-        },
-      });
-
-      // Restore inventory for each item
-      for (const item of orderItems) {
-        if (item.variantId) {
-          // Restore variant inventory
-          await db.productVariant.update({
-            where: { id: item.variantId },
-            data: {
-              inventory: {
-                increment: item.quantity,
-              },
-            },
-          });
-        } else if (item.productId) {
-          // Restore product inventory
-          await db.product.update({
-            where: { id: item.productId },
-            data: {
-              inventory: {
-                increment: item.quantity,
-              },
-            },
-          });
-        }
-      }
-    }
-
-    return updatedOrder;
+    return await orderStatusService.updateStatus(orderId, shopId, data, options);
   },
 };
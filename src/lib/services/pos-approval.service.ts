@@ -0,0 +1,174 @@
+// src/lib/services/pos-approval.service.ts
+import { PosApprovalAction, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import {
+  APPROVAL_REQUIRED_CODE,
+  formatApprovalValue,
+  isPosApprovalAction,
+  POS_APPROVAL_ACTION_LABELS,
+} from "@/lib/pos/approvals";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { staffPinService } from "@/lib/services/staff-pin.service";
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export class PosApprovalError extends Error {
+  constructor(
+    message: string,
+    public status: number = 403,
+    public code: string = APPROVAL_REQUIRED_CODE,
+    public action?: PosApprovalAction,
+    public value?: number // Amount or percentage the admin has to approve
+  ) {
+    super(message);
+    this.name = "PosApprovalError";
+  }
+}
+
+export interface ApprovalRequirement {
+  shopId: string;
+  userId: string; // Staff member doing the action
+  action: PosApprovalAction;
+  approvalIds?: string[] | null; // Approvals brought by the staff member, the matching one is used
+  orderId: string;
+  value: number; // Amount or percentage of the action, see POS_APPROVAL_VALUE_KINDS
+  details?: Prisma.InputJsonValue; // What was actually done, kept with the approval
+}
+
+// An approval must be used right after the admin typed their PIN
+const APPROVAL_TTL_MS = 5 * 60 * 1000;
+
+// Rounding noise allowed between the approved value and the one of the action
+const APPROVAL_VALUE_TOLERANCE = 0.01;
+
+export const posApprovalService = {
+  /**
+   * Approve a restricted action for a staff member with the PIN of a shop
+   * admin. The approval can be used once, by that staff member, for that
+   * action, up to the amount or percentage the admin was shown.
+   */
+  async approve(
+    shopId: string,
+    requestedById: string,
+    input: { action: unknown; value: unknown; approverId: string; pin: string }
+  ) {
+    if (!isPosApprovalAction(input.action)) {
+      throw new PosApprovalError("Invalid action", 400, "INVALID_ACTION");
+    }
+    const value = Number(input.value);
+    if (input.value === null || input.value === undefined || !Number.isFinite(value) || value < 0) {
+      throw new PosApprovalError("The amount to approve is required", 400, "INVALID_VALUE");
+    }
+
+    const approver = await staffPinService.verifyPin(shopId, input.approverId, input.pin);
+    if (approver.role !== "SHOP_ADMIN") {
+      throw new PosApprovalError("Only a shop admin can approve this action", 403, "NOT_AN_ADMIN");
+    }
+
+    const approval = await db.posApproval.create({
+      data: {
+        shopId,
+        action: input.action,
+        requestedById,
+        approvedById: approver.id,
+        approvedValue: value,
+        expiresAt: new Date(Date.now() + APPROVAL_TTL_MS),
+      },
+    });
+
+    return {
+      id: approval.id,
+      action: approval.action,
+      approvedValue: approval.approvedValue,
+      expiresAt: approval.expiresAt,
+      approvedBy: { id: approver.id, name: approver.name },
+    };
+  },
+
+  /**
+   * Make sure a restricted action on an order is allowed: admins need no
+   * approval, staff members must bring an unused one covering the value of the
+   * action. The approval is used up and recorded on the order timeline, so pass
+   * the transaction client of the action itself.
+   */
+  async requireApproval(client: DbClient, requirement: ApprovalRequirement) {
+    const { shopId, userId, action, orderId, value } = requirement;
+    const label = POS_APPROVAL_ACTION_LABELS[action];
+    const shownValue = formatApprovalValue(action, value);
+
+    const user = await client.user.findFirst({
+      where: { id: userId, shopId },
+      select: { role: true },
+    });
+    if (user?.role === "SHOP_ADMIN") {
+      return null;
+    }
+    // Sent by the register as is, so only string ids are kept
+    const approvalIds = Array.isArray(requirement.approvalIds)
+      ? requirement.approvalIds.filter((id): id is string => typeof id === "string")
+      : [];
+    if (approvalIds.length === 0) {
+      throw new PosApprovalError(
+        `${label} of ${shownValue} needs the approval of a shop admin`,
+        403,
+        APPROVAL_REQUIRED_CODE,
+        action,
+        value
+      );
+    }
+
+    // Claimed atomically so an approval cannot be used twice
+    const now = new Date();
+    const usable = {
+      shopId,
+      action,
+      requestedById: userId,
+      usedAt: null,
+      expiresAt: { gt: now },
+      approvedValue: { gte: value - APPROVAL_VALUE_TOLERANCE },
+    } satisfies Prisma.PosApprovalWhereInput;
+    const candidate = await client.posApproval.findFirst({
+      where: { id: { in: approvalIds }, ...usable },
+      select: { id: true },
+    });
+    const { count } = candidate
+      ? await client.posApproval.updateMany({
+          where: { id: candidate.id, ...usable },
+          data: { usedAt: now, orderId, details: requirement.details },
+        })
+      : { count: 0 };
+    if (!candidate || count === 0) {
+      throw new PosApprovalError(
+        `No valid approval covers this ${label.toLowerCase()} of ${shownValue}. Ask a shop admin to approve it again.`,
+        403,
+        APPROVAL_REQUIRED_CODE,
+        action,
+        value
+      );
+    }
+
+    const approval = await client.posApproval.findUniqueOrThrow({
+      where: { id: candidate.id },
+      include: { approvedBy: { select: { id: true, name: true } } },
+    });
+
+    await orderEventService.record(client, {
+      orderId,
+      shopId,
+      type: "APPROVED",
+      toValue: action,
+      message: `${label} approved by ${approval.approvedBy.name || "a shop admin"}`,
+      metadata: {
+        approvalId: approval.id,
+        action,
+        value,
+        approvedValue: approval.approvedValue,
+        requestedById: userId,
+        ...(requirement.details !== undefined && { details: requirement.details }),
+      },
+      actorId: approval.approvedBy.id,
+    });
+
+    return approval;
+  },
+};
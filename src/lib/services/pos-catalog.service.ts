@@ -0,0 +1,310 @@
+// src/lib/services/pos-catalog.service.ts
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { heldCartService } from "@/lib/services/held-cart.service";
+import { applyPercentage, resolveAutomaticDiscount } from "@/lib/services/pricing.service";
+import { roundQuantity } from "@/lib/units";
+import { parseScaleBarcode, ScaleBarcode, scaleQuantity } from "@/lib/utils/scale-barcode";
+
+export class PosCatalogError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PosCatalogError";
+  }
+}
+
+// Printable characters without spaces, as typed by barcode scanners
+const BARCODE_REGEX = /^[\x21-\x7E]{4,64}$/;
+
+// Same discount candidates as the pricing engine uses at checkout
+const discountInclude = {
+  where: { enabled: true, isDeleted: false },
+};
+
+const posProductInclude = {
+  variants: {
+    include: {
+      discounts: discountInclude,
+      multiDiscounts: discountInclude,
+    },
+  },
+  discounts: discountInclude,
+  multiDiscounts: discountInclude,
+  categories: {
+    select: {
+      id: true,
+      name: true,
+      discounts: discountInclude,
+    },
+  },
+} satisfies Prisma.ProductInclude;
+
+type PosProductRecord = Prisma.ProductGetPayload<{ include: typeof posProductInclude }>;
+
+/**
+ * Product with the in-store price of each variant after automatic discounts,
+ * and the stock left once held carts are served
+ */
+function withPosPrices(product: PosProductRecord, now: Date, reserved: Map<string, number>) {
+  const productDiscounts = [...product.discounts, ...product.multiDiscounts];
+  const categoryDiscounts = product.categories.flatMap((category) => category.discounts);
+  const productDiscountPercentage = resolveAutomaticDiscount(
+    [productDiscounts, categoryDiscounts],
+    "IN_STORE",
+    now
+  );
+
+  // Process variants with their individual discounts
+  const variantsWithDiscounts = product.variants.map((variant) => {
+    // Variant-specific discounts take priority over product and category ones
+    const discountPercentage = resolveAutomaticDiscount(
+      [[...variant.discounts, ...variant.multiDiscounts], productDiscounts, categoryDiscounts],
+      "IN_STORE",
+      now
+    );
+    const finalPrice = applyPercentage(variant.price, discountPercentage);
+    const reservedQuantity = reserved.get(variant.id) ?? 0;
+
+    return {
+      ...variant,
+      inventory: Math.max(roundQuantity(variant.inventory - reservedQuantity), 0),
+      reservedQuantity,
+      finalPrice,
+      discountPercentage,
+      discountAmount: Number((variant.price - finalPrice).toFixed(2)),
+      hasDiscount: discountPercentage > 0,
+      // Remove the discounts arrays from the response to keep it clean
+      discounts: undefined,
+      multiDiscounts: undefined,
+    };
+  });
+
+  return {
+    ...product,
+    variants: variantsWithDiscounts,
+    categories: product.categories.map(({ id, name }) => ({ id, name })),
+    // Product-level discount info (for display purposes)
+    hasDiscount: productDiscountPercentage > 0,
+    discountPercentage: productDiscountPercentage,
+    // Remove the discounts arrays from the response to keep it clean
+    discounts: undefined,
+    multiDiscounts: undefined,
+  };
+}
+
+type PosProduct = ReturnType<typeof withPosPrices>;
+
+// Variant designated by a scanned barcode and the quantity to add to the cart
+export interface BarcodeMatch {
+  product: PosProduct;
+  variantId: string;
+  quantity: number;
+}
+
+async function withPricesAndReservations(shopId: string, products: PosProductRecord[]) {
+  const reserved = await heldCartService.getReservedQuantities(
+    db,
+    shopId,
+    products.flatMap((product) => product.variants.map((variant) => variant.id))
+  );
+  const now = new Date();
+  return products.map((product) => withPosPrices(product, now, reserved));
+}
+
+export const posCatalogService = {
+  /**
+   * Search products by barcode (exact) or by name, SKU and barcode
+   */
+  async searchProducts(shopId: string, search: { barcode?: string | null; query?: string | null }) {
+    const where: Prisma.ProductWhereInput = { shopId };
+
+    if (search.barcode) {
+      // Search in both product and variant barcodes
+      where.OR = [
+        { barcode: search.barcode },
+        { variants: { some: { barcode: search.barcode } } },
+      ];
+    } else if (search.query) {
+      const query = search.query;
+      where.OR = [
+        { name: { contains: query, mode: "insensitive" } },
+        { sku: { contains: query, mode: "insensitive" } },
+        { barcode: { contains: query, mode: "insensitive" } },
+        { variants: { some: { sku: { contains: query, mode: "insensitive" } } } },
+        { variants: { some: { barcode: { contains: query, mode: "insensitive" } } } },
+      ];
+    }
+
+    const products = await db.product.findMany({
+      where,
+      include: posProductInclude,
+      take: search.barcode ? 1 : 10, // If searching by barcode, return only one
+    });
+
+    return withPricesAndReservations(shopId, products);
+  },
+
+  /**
+   * Product of a scale label and the quantity it sells, or null when no
+   * variant sold by weight or volume carries its item code
+   */
+  async findByScaleBarcode(shopId: string, scale: ScaleBarcode): Promise<BarcodeMatch | null> {
+    const products = await db.product.findMany({
+      where: { shopId, variants: { some: { barcode: scale.itemCode } } },
+      include: posProductInclude,
+      take: 1,
+    });
+    const [product] = await withPricesAndReservations(shopId, products);
+    const variant = product?.variants.find((candidate) => candidate.barcode === scale.itemCode);
+    if (!product || !variant) return null;
+
+    const quantity = scaleQuantity(scale, variant);
+    return quantity === null ? null : { product, variantId: variant.id, quantity };
+  },
+
+  /**
+   * Variant of a scanned barcode: scale labels first, then variant barcodes,
+   * then product barcodes (first variant). Null for unknown barcodes.
+   */
+  async lookupBarcode(shopId: string, barcode: string): Promise<BarcodeMatch | null> {
+    const scale = parseScaleBarcode(barcode);
+    if (scale) {
+      const scaleItem = await this.findByScaleBarcode(shopId, scale);
+      if (scaleItem) return scaleItem;
+    }
+
+    const products = await db.product.findMany({
+      where: { shopId, OR: [{ barcode }, { variants: { some: { barcode } } }] },
+      include: posProductInclude,
+      orderBy: { createdAt: "asc" },
+      take: 5,
+    });
+    const priced = await withPricesAndReservations(shopId, products);
+
+    for (const product of priced) {
+      const variant = product.variants.find((candidate) => candidate.barcode === barcode);
+      if (variant) return { product, variantId: variant.id, quantity: 1 };
+    }
+    const product = priced.find((candidate) => candidate.variants.length > 0);
+    return product ? { product, variantId: product.variants[0].id, quantity: 1 } : null;
+  },
+
+  /**
+   * Give a variant the barcode just scanned at the register, replacing its
+   * previous one. A barcode designates a single variant of the shop.
+   */
+  async linkBarcode(shopId: string, variantId: string, barcode: string): Promise<BarcodeMatch> {
+    const code = barcode.trim();
+    if (!BARCODE_REGEX.test(code)) {
+      throw new PosCatalogError("Invalid barcode");
+    }
+
+    const variant = await db.productVariant.findFirst({
+      where: { id: variantId, product: { shopId } },
+      select: { id: true },
+    });
+    if (!variant) {
+      throw new PosCatalogError("Variant not found", 404);
+    }
+
+    const existing = await db.productVariant.findFirst({
+      where: { barcode: code, product: { shopId }, id: { not: variantId } },
+      select: { name: true, product: { select: { name: true } } },
+    });
+    if (existing) {
+      throw new PosCatalogError(
+        `Barcode ${code} is already used by ${existing.product.name} - ${existing.name}`,
+        409
+      );
+    }
+    const existingProduct = await db.product.findFirst({
+      where: { shopId, barcode: code },
+      select: { name: true },
+    });
+    if (existingProduct) {
+      throw new PosCatalogError(`Barcode ${code} is already used by ${existingProduct.name}`, 409);
+    }
+
+    await db.productVariant.update({
+      where: { id: variantId },
+      data: { barcode: code },
+    });
+
+    const match = await this.lookupBarcode(shopId, code);
+    if (!match) {
+      throw new PosCatalogError("Variant not found", 404);
+    }
+    return match;
+  },
+
+  /**
+   * Given products with their current prices, e.g. to rebuild a resumed cart
+   */
+  async getProducts(shopId: string, productIds: string[]) {
+    const products = await db.product.findMany({
+      where: { shopId, id: { in: productIds } },
+      include: posProductInclude,
+    });
+
+    return withPricesAndReservations(shopId, products);
+  },
+
+  /**
+   * Everything the register needs to keep selling offline: the priced catalog
+   * and the discount codes usable in store
+   */
+  async getCatalog(shopId: string) {
+    const now = new Date();
+    const [products, discountCodes, reserved] = await Promise.all([
+      db.product.findMany({
+        where: { shopId },
+        include: posProductInclude,
+        orderBy: { name: "asc" },
+      }),
+      db.discountCode.findMany({
+        where: {
+          shopId,
+          isActive: true,
+          isDeleted: false,
+          availableInStore: true,
+          startDate: { lte: now },
+          endDate: { gte: now },
+        },
+        select: {
+          id: true,
+          code: true,
+          title: true,
+          description: true,
+          percentage: true,
+          usageLimit: true,
+          usedCount: true,
+          endDate: true,
+          categoryId: true,
+          products: { select: { id: true } },
+          variants: { select: { id: true } },
+          users: { select: { id: true } },
+        },
+      }),
+      heldCartService.getReservedQuantities(db, shopId),
+    ]);
+
+    return {
+      generatedAt: now.toISOString(),
+      products: products.map((product) => withPosPrices(product, now, reserved)),
+      discountCodes: discountCodes
+        .filter((code) => code.usageLimit === null || code.usedCount < code.usageLimit)
+        .map(({ products, variants, users, ...code }) => ({
+          id: code.id,
+          code: code.code,
+          title: code.title,
+          description: code.description,
+          percentage: code.percentage,
+          endDate: code.endDate,
+          categoryId: code.categoryId,
+          productIds: products.map((product) => product.id),
+          variantIds: variants.map((variant) => variant.id),
+          userIds: users.map((user) => user.id),
+        })),
+    };
+  },
+};
@@ -0,0 +1,792 @@
+// src/lib/services/pos-order.service.ts
+import { PaymentMethodType, PaymentStatus, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { heldCartService } from "@/lib/services/held-cart.service";
+import { numberingService } from "@/lib/services/numbering.service";
+import { customerAccountService } from "@/lib/services/customer-account.service";
+import { GiftCardError, giftCardService } from "@/lib/services/gift-card.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { PosApprovalError, posApprovalService } from "@/lib/services/pos-approval.service";
+import {
+  ManualDiscountType,
+  PricingDifference,
+  PricingError,
+  PricingItemInput,
+  PricingTotals,
+  pricingService,
+  roundMoney,
+} from "@/lib/services/pricing.service";
+import { registerService } from "@/lib/services/register.service";
+import { settingsService } from "@/lib/services/settings.service";
+import { formatLotNumbers, LotAllocation, stockLotService } from "@/lib/services/stock-lot.service";
+import { StockError, stockMovementService } from "@/lib/services/stock-movement.service";
+
+export class PosOrderError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public code: string = "INVALID_ORDER",
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "PosOrderError";
+  }
+}
+
+export interface PosPaymentInput {
+  method: PaymentMethodType;
+  amount: number;
+  cashGiven?: number | null;
+  cashChange?: number | null;
+  checkNumber?: string | null;
+  checkBankName?: string | null;
+  checkDate?: string | Date | null;
+  giftCardCode?: string | null;
+  notes?: string | null;
+}
+
+export interface LegacyCheckInput {
+  checkNumber: string;
+  bankName?: string;
+  amount: number;
+  checkDate: string | Date;
+  notes?: string;
+}
+
+export interface PosOrderInput {
+  customerId?: string | null;
+  items: PricingItemInput[];
+  paymentMethods?: PosPaymentInput[];
+  discountCodeId?: string | null;
+  orderDiscount?: number;
+  orderDiscountType?: ManualDiscountType;
+  approvalIds?: string[] | null; // Admin approvals of manual discounts and price overrides, for staff members
+  // Totals computed by the register, only used to detect price drift
+  expectedSubtotal?: number;
+  expectedDiscountCodeAmount?: number;
+  expectedManualDiscountAmount?: number;
+  expectedTotal?: number;
+  notes?: string | null;
+  // Legacy single payment fields
+  paymentMethodType?: PaymentMethodType | null;
+  cashAmountGiven?: number | null;
+  cashAmountChange?: number | null;
+  checkPayments?: LegacyCheckInput[];
+}
+
+export interface PosOrderOptions {
+  clientReference?: string | null; // Key generated by the register for this sale
+  soldAt?: Date; // When an offline sale actually happened
+  registerSessionId?: string | null; // Register the till had open when an offline sale was made
+  offline?: boolean; // Goods already left the store, so stock shortages are reported instead of refused
+}
+
+export interface InventoryConflict {
+  variantId: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export interface OfflineOrderInput extends PosOrderInput {
+  clientReference: string;
+  soldAt: string;
+  registerSessionId?: string | null;
+}
+
+export type OfflineSyncStatus = "CREATED" | "DUPLICATE" | "REJECTED";
+
+export interface OfflineSyncResult {
+  clientReference: string;
+  status: OfflineSyncStatus;
+  order?: { id: string; orderNumber: string; total: number };
+  inventoryConflicts?: InventoryConflict[];
+  pricingDiff?: PricingDifference[]; // Till totals that differ from the recorded ones
+  error?: string;
+  code?: string;
+  details?: Record<string, unknown>;
+}
+
+// Client references are UUIDs or similar opaque keys
+const CLIENT_REFERENCE_REGEX = /^[A-Za-z0-9_-]{8,100}$/;
+
+// Offline sales older than this are refused, they must be entered by hand
+const MAX_OFFLINE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const posOrderInclude = {
+  items: {
+    include: {
+      product: true,
+      variant: true,
+    },
+  },
+  user: true,
+  processedBy: true,
+  orderPayments: true,
+  giftCards: {
+    select: { id: true, code: true, initialValue: true, expiresAt: true },
+  },
+} satisfies Prisma.OrderInclude;
+
+export type PosOrder = Prisma.OrderGetPayload<{ include: typeof posOrderInclude }>;
+
+export function isValidClientReference(value: unknown): value is string {
+  return typeof value === "string" && CLIENT_REFERENCE_REGEX.test(value);
+}
+
+/**
+ * Payments of the sale, from the multi-payment list or the legacy single payment fields
+ */
+function normalizePayments(input: PosOrderInput): PosPaymentInput[] {
+  if (input.paymentMethods && input.paymentMethods.length > 0 && input.paymentMethods[0].method) {
+    return input.paymentMethods.map((payment) => ({ ...payment, amount: Number(payment.amount) || 0 }));
+  }
+  if (input.paymentMethodType) {
+    return [
+      {
+        method: input.paymentMethodType,
+        amount: 0, // Set to the order total below
+        cashGiven: input.cashAmountGiven,
+        cashChange: input.cashAmountChange,
+      },
+    ];
+  }
+  if (!input.paymentMethods) {
+    return [{ method: "CASH", amount: 0 }];
+  }
+  throw new PosOrderError("No payment methods specified");
+}
+
+/**
+ * Checks stay pending until cleared
+ */
+function derivePaymentStatus(payments: PosPaymentInput[]): PaymentStatus {
+  if (payments.every((payment) => payment.method === "CHECK")) return "PENDING";
+  if (payments.some((payment) => payment.method === "CHECK")) return "PARTIALLY_PAID";
+  return "COMPLETED";
+}
+
+async function findByClientReference(shopId: string, clientReference: string) {
+  return await db.order.findUnique({
+    where: { shopId_clientReference: { shopId, clientReference } },
+    include: posOrderInclude,
+  });
+}
+
+export const posOrderService = {
+  /**
+   * Record an in-store sale: reprice it from the database, check the payments,
+   * take the stock out and count it in the cashier's open register. A sale
+   * already recorded under the same client reference is returned as is.
+   */
+  async createOrder(
+    shopId: string,
+    userId: string,
+    input: PosOrderInput,
+    options: PosOrderOptions = {}
+  ): Promise<{
+    order: PosOrder;
+    duplicate: boolean;
+    inventoryConflicts: InventoryConflict[];
+    pricingDiff: PricingDifference[];
+  }> {
+    const { clientReference } = options;
+    if (clientReference !== undefined && clientReference !== null && !isValidClientReference(clientReference)) {
+      throw new PosOrderError("Invalid client reference");
+    }
+    if (clientReference) {
+      const existing = await findByClientReference(shopId, clientReference);
+      if (existing) {
+        return { order: existing, duplicate: true, inventoryConflicts: [], pricingDiff: [] };
+      }
+    }
+
+    if (!input.items || !Array.isArray(input.items) || input.items.length === 0) {
+      throw new PosOrderError("Order must contain at least one item");
+    }
+
+    if (input.customerId) {
+      const customer = await db.user.findUnique({
+        where: { id: input.customerId, shopId, role: "CUSTOMER" },
+      });
+      if (!customer) {
+        throw new PosOrderError("Customer not found", 404, "CUSTOMER_NOT_FOUND");
+      }
+    }
+
+    const payments = normalizePayments(input);
+    if (!input.customerId && payments.some((payment) => payment.method === "ON_ACCOUNT")) {
+      throw new PosOrderError("Sales on account need a customer", 400, "CUSTOMER_REQUIRED");
+    }
+    if (payments.some((payment) => payment.method === "GIFT_CARD" && !payment.giftCardCode?.trim())) {
+      throw new PosOrderError("Enter the code of the gift card", 400, "GIFT_CARD_REQUIRED");
+    }
+
+    const now = new Date();
+    const soldAt = options.soldAt && options.soldAt < now ? options.soldAt : now;
+
+    // Prices, discounts and TVA are always recomputed from the database;
+    // the totals sent by the register are only used to detect drift. A sale
+    // made offline is priced with the discounts that applied when it was made.
+    const pricing = await pricingService.calculateOrderPricing({
+      shopId,
+      orderSource: "IN_STORE",
+      items: input.items,
+      customerId: input.customerId,
+      discountCodeId: input.discountCodeId,
+      orderDiscount: Number(input.orderDiscount) || 0,
+      orderDiscountType: input.orderDiscountType,
+      pricedAt: options.offline ? soldAt : undefined,
+    });
+
+    // Manual line prices are limited per role. Above their own limit, staff
+    // members need an admin approval and stay within the admin limit.
+    const adjustedLines = pricing.lines.filter((line) => line.adjustmentPercentage > 0);
+    let lineAdjustmentsNeedApproval = false;
+    if (adjustedLines.length > 0) {
+      const [user, settings] = await Promise.all([
+        db.user.findFirst({ where: { id: userId, shopId }, select: { role: true } }),
+        settingsService.getShopSettings(shopId),
+      ]);
+      const largest = Math.max(...adjustedLines.map((line) => line.adjustmentPercentage));
+      if (largest > settings.maxAdminLineDiscount) {
+        throw new PosOrderError(
+          `Line price changes are limited to ${settings.maxAdminLineDiscount}% of the line`,
+          403,
+          "LINE_DISCOUNT_LIMIT"
+        );
+      }
+      lineAdjustmentsNeedApproval =
+        user?.role !== "SHOP_ADMIN" && largest > settings.maxStaffLineDiscount;
+    }
+
+    // Gift cards are issued one per unit and cannot buy other gift cards
+    const giftCardLines = pricing.lines.filter((line) => line.isGiftCard);
+    if (giftCardLines.some((line) => line.unit !== "UNIT" || !Number.isInteger(line.quantity))) {
+      throw new PosOrderError("Gift cards are sold by the unit");
+    }
+    if (giftCardLines.length > 0 && payments.some((payment) => payment.method === "GIFT_CARD")) {
+      throw new PosOrderError("Gift cards cannot be paid with a gift card", 400, "GIFT_CARD_INVALID");
+    }
+
+    const pricingDiff = pricingService.compareWithExpected(pricing.totals, {
+      subtotal: input.expectedSubtotal,
+      discountCodeAmount: input.expectedDiscountCodeAmount,
+      manualDiscountAmount: input.expectedManualDiscountAmount,
+      total: input.expectedTotal,
+    });
+    // An offline sale already happened at the till's prices (a price may have
+    // changed meanwhile), so the difference is recorded and flagged instead
+    if (pricingDiff.length > 0 && !options.offline) {
+      throw new PosOrderError(
+        "Order totals do not match current prices. Please refresh the cart and try again.",
+        409,
+        "PRICE_CHANGED",
+        { pricingDiff, totals: pricing.totals } satisfies {
+          pricingDiff: PricingDifference[];
+          totals: PricingTotals;
+        }
+      );
+    }
+
+    const { discount: totalDiscount, tax: totalTax, total, subtotalExcludingTax } = pricing.totals;
+
+    // Set payment amounts if using legacy single payment
+    if (payments.length === 1 && payments[0].amount === 0) {
+      payments[0].amount = total;
+    }
+
+    // Validate payment amounts
+    let totalPaymentAmount = 0;
+    for (const payment of payments) {
+      if (payment.method === "CASH" && payment.amount === 0) {
+        continue; // Valid - covered by other payments
+      }
+      if (!payment.amount || payment.amount <= 0) {
+        throw new PosOrderError(`Invalid payment amount: ${payment.amount}`);
+      }
+      totalPaymentAmount += payment.amount;
+    }
+
+    // Payment validation with tolerance. What an offline sale collected is
+    // kept as is, any difference with the recorded total is flagged below.
+    const paymentDifference = Math.abs(totalPaymentAmount - total);
+    if (paymentDifference > 0.01 && !options.offline) {
+      throw new PosOrderError(
+        `Payment total (${totalPaymentAmount.toFixed(2)}) does not match order total (${total.toFixed(2)}) - difference: ${paymentDifference.toFixed(2)}`
+      );
+    }
+
+    const inventoryConflicts: InventoryConflict[] = [];
+
+    try {
+      const order = await db.$transaction(async (tx) => {
+        // Sales are counted in the cashier's open register. An offline sale is
+        // counted in the register the till had open when it was made.
+        const register = options.offline
+          ? await registerService.findSaleSession(
+              tx,
+              shopId,
+              userId,
+              options.registerSessionId,
+              soldAt
+            )
+          : await registerService.requireOpenSession(tx, shopId, userId);
+
+        // Stock kept in lots is sold first expired first out
+        const lotAllocations: LotAllocation[][] = [];
+        for (const line of pricing.lines) {
+          lotAllocations.push(
+            line.isGiftCard ? [] : await stockLotService.allocate(tx, line.variantId, line.quantity)
+          );
+        }
+
+        const orderItems = pricing.lines.map((line, index) => ({
+          productId: line.productId,
+          variantId: line.variantId,
+          lotNumber: formatLotNumbers(lotAllocations[index]),
+          lots: {
+            create: lotAllocations[index].map(({ lotId, quantity }) => ({ lotId, quantity })),
+          },
+          quantity: line.quantity,
+          unit: line.unit,
+          unitPrice: line.unitPrice,
+          total: line.lineTotal,
+          netTotal: line.netTotal,
+          taxAmount: line.taxAmount,
+          productName: line.productName,
+          productSku: line.productSku,
+          productBarcode: line.productBarcode,
+          productDescription: line.productDescription,
+          productImage: line.productImage,
+          productTva: line.tva,
+          productOptions: line.productOptions ?? undefined,
+          originalPrice: line.originalPrice,
+          discountPercentage: line.discountPercentage,
+          discountAmount: line.discountAmount,
+          priceOverridden: line.priceOverridden,
+          lineDiscountAmount: line.lineDiscountAmount,
+          adjustmentReason: line.adjustmentReason,
+          adjustmentNote: line.adjustmentNote,
+          discountCode: line.discountCodeApplies ? pricing.discountCode?.code ?? null : null,
+        }));
+
+        // Gift cards are issued, not taken from the stock
+        const stockLines = pricing.lines.filter((line) => !line.isGiftCard);
+
+        // Items parked in held carts are kept for those customers, and expired
+        // lots are not for sale
+        const stockVariantIds = stockLines.map((line) => line.variantId);
+        const reserved = options.offline
+          ? new Map<string, number>()
+          : await stockLotService.holdExpired(
+              tx,
+              await heldCartService.getReservedQuantities(tx, shopId, stockVariantIds),
+              stockVariantIds
+            );
+
+        // Allocate the next order number of the shop (rolled back with the order on failure)
+        const orderNumber = await numberingService.nextOrderNumber(tx, shopId, soldAt);
+
+        const newOrder = await tx.order.create({
+          data: {
+            orderNumber,
+            clientReference: clientReference || null,
+            // In-store sales leave with the customer, payments decide the rest
+            status: "DELIVERED",
+            paymentStatus: derivePaymentStatus(payments),
+            paymentMethodType: payments.length === 1 ? payments[0].method : null,
+            orderSource: "IN_STORE",
+            subtotal: subtotalExcludingTax,
+            tax: totalTax,
+            shipping: 0,
+            discount: totalDiscount,
+            total,
+            discountCodeId: pricing.discountCode?.id ?? null,
+            discountCodeValue: pricing.discountCode?.code ?? null,
+            notes: input.notes || null,
+            shopId,
+            userId: input.customerId || userId,
+            processedByUserId: userId,
+            registerSessionId: register?.id ?? null,
+            createdAt: soldAt,
+            syncedAt: options.offline ? now : null,
+            items: {
+              create: orderItems,
+            },
+            // Legacy cash fields
+            cashAmountGiven: payments.find((p) => p.method === "CASH")?.cashGiven,
+            cashAmountChange: payments.find((p) => p.method === "CASH")?.cashChange,
+            orderPayments: {
+              create: payments.map((payment) => ({
+                paymentMethod: payment.method,
+                amount: payment.amount,
+                // Sales on account are collected through the customer ledger, gift
+                // cards are taken off their balance below
+                status:
+                  payment.method === "CASH" ||
+                  payment.method === "ON_ACCOUNT" ||
+                  payment.method === "GIFT_CARD"
+                    ? "COMPLETED"
+                    : "PENDING",
+                notes: payment.notes || null,
+                cashGiven: payment.cashGiven || null,
+                cashChange: payment.cashChange || null,
+                checkNumber: payment.checkNumber || null,
+                checkBankName: payment.checkBankName || null,
+                checkDate: payment.checkDate ? new Date(payment.checkDate) : null,
+                checkStatus: payment.method === "CHECK" ? "RECEIVED" : null,
+              })),
+            },
+          },
+          include: posOrderInclude,
+        });
+
+        // Take the stock out, each line checked and decremented in one statement
+        // so concurrent sales cannot oversell. An offline sale already happened,
+        // so a shortage only empties the stock and is reported for a recount.
+        try {
+          const shortages = await stockMovementService.takeOutLines(tx, {
+            shopId,
+            orderId: newOrder.id,
+            lines: stockLines,
+            reserved,
+            emptyOnShortage: options.offline,
+            createdById: userId,
+          });
+          inventoryConflicts.push(...shortages);
+        } catch (error) {
+          if (error instanceof StockError) {
+            throw new PosOrderError(error.message, error.status, "INSUFFICIENT_INVENTORY", {
+              lines: error.lines,
+            });
+          }
+          throw error;
+        }
+
+        // Manual discounts given by staff members need an admin approval. An
+        // offline sale could not ask for one, so it is recorded and flagged.
+        let unapprovedDiscount = false;
+        if (pricing.totals.manualDiscountAmount > 0) {
+          try {
+            await posApprovalService.requireApproval(tx, {
+              shopId,
+              userId,
+              action: "ORDER_DISCOUNT",
+              approvalIds: input.approvalIds,
+              orderId: newOrder.id,
+              value: pricing.totals.manualDiscountAmount,
+              details: {
+                orderDiscount: Number(input.orderDiscount) || 0,
+                orderDiscountType: input.orderDiscountType ?? "PERCENTAGE",
+                amount: pricing.totals.manualDiscountAmount,
+              },
+            });
+          } catch (error) {
+            if (!(options.offline && error instanceof PosApprovalError)) throw error;
+            unapprovedDiscount = true;
+          }
+        }
+        let unapprovedLineAdjustments = false;
+        if (lineAdjustmentsNeedApproval) {
+          try {
+            await posApprovalService.requireApproval(tx, {
+              shopId,
+              userId,
+              action: "PRICE_OVERRIDE",
+              approvalIds: input.approvalIds,
+              orderId: newOrder.id,
+              value: Math.max(...adjustedLines.map((line) => line.adjustmentPercentage)),
+              details: {
+                lines: adjustedLines.map((line) => ({
+                  variantId: line.variantId,
+                  productName: line.productName,
+                  unitPrice: line.unitPrice,
+                  lineDiscountAmount: line.lineDiscountAmount,
+                  percentage: line.adjustmentPercentage,
+                  reason: line.adjustmentReason,
+                })),
+              },
+            });
+          } catch (error) {
+            if (!(options.offline && error instanceof PosApprovalError)) throw error;
+            unapprovedLineAdjustments = true;
+          }
+        }
+
+        // Charge the customer account within its credit limit. An offline sale
+        // already happened, so going over the limit is recorded and flagged.
+        const onAccount = roundMoney(
+          payments
+            .filter((payment) => payment.method === "ON_ACCOUNT")
+            .reduce((sum, payment) => sum + payment.amount, 0)
+        );
+        let creditLimitExceeded = false;
+        if (onAccount > 0 && input.customerId) {
+          const { balance, creditLimit } = await customerAccountService.recordEntry(tx, {
+            shopId,
+            customerId: input.customerId,
+            type: "CHARGE",
+            amount: onAccount,
+            orderId: newOrder.id,
+            registerSessionId: register?.id ?? null,
+            createdById: userId,
+          });
+          if (balance - creditLimit > 0.001) {
+            if (!options.offline) {
+              const available = roundMoney(Math.max(creditLimit - (balance - onAccount), 0));
+              throw new PosOrderError(
+                `Credit limit exceeded. Available on account: ${available.toFixed(2)}`,
+                409,
+                "CREDIT_LIMIT_EXCEEDED",
+                { creditLimit, balance: roundMoney(balance - onAccount), available }
+              );
+            }
+            creditLimitExceeded = true;
+          }
+        }
+
+        // Spend the gift cards used to pay
+        const giftCardPaymentIds = new Set<string>();
+        for (const payment of payments) {
+          if (payment.method !== "GIFT_CARD" || !payment.giftCardCode) continue;
+          const orderPayment = newOrder.orderPayments.find(
+            (row) =>
+              row.paymentMethod === "GIFT_CARD" &&
+              row.amount === payment.amount &&
+              !giftCardPaymentIds.has(row.id)
+          );
+          if (!orderPayment) continue;
+          giftCardPaymentIds.add(orderPayment.id);
+          try {
+            const { giftCardId } = await giftCardService.redeem(tx, {
+              shopId,
+              code: payment.giftCardCode,
+              amount: payment.amount,
+              orderId: newOrder.id,
+              createdById: userId,
+            });
+            await tx.orderPayment.update({
+              where: { id: orderPayment.id },
+              data: { giftCardId },
+            });
+          } catch (error) {
+            if (error instanceof GiftCardError) {
+              throw new PosOrderError(error.message, 409, "GIFT_CARD_INVALID", {
+                giftCardCode: payment.giftCardCode,
+              });
+            }
+            throw error;
+          }
+        }
+
+        // Issue the gift cards sold, one per unit, worth the price paid for it
+        const giftCardItemIds = new Set<string>();
+        for (const line of giftCardLines) {
+          const item = newOrder.items.find(
+            (orderItem) => orderItem.variantId === line.variantId && !giftCardItemIds.has(orderItem.id)
+          );
+          if (!item) continue;
+          giftCardItemIds.add(item.id);
+          for (let unit = 0; unit < line.quantity; unit++) {
+            await giftCardService.issue(tx, shopId, {
+              value: roundMoney(line.netTotal / line.quantity),
+              orderId: newOrder.id,
+              orderItemId: item.id,
+              createdById: userId,
+            });
+          }
+        }
+
+        await orderEventService.record(tx, {
+          orderId: newOrder.id,
+          shopId,
+          type: "CREATED",
+          toValue: newOrder.status,
+          message: options.offline
+            ? `Offline sale with ${orderItems.length} item(s) synced`
+            : `Order created in store with ${orderItems.length} item(s)`,
+          metadata: {
+            total,
+            paymentMethods: payments.map((p) => ({ method: p.method, amount: p.amount })),
+            ...(options.offline && {
+              soldAt: soldAt.toISOString(),
+              ...(!register && { noRegister: true }),
+              inventoryConflicts: inventoryConflicts.map((conflict) => ({ ...conflict })),
+            }),
+            ...(unapprovedDiscount && { unapprovedDiscount: pricing.totals.manualDiscountAmount }),
+            ...(unapprovedLineAdjustments && {
+              unapprovedLineAdjustments: adjustedLines.map((line) => line.variantId),
+            }),
+            ...(creditLimitExceeded && { creditLimitExceeded: onAccount }),
+            ...(options.offline &&
+              pricingDiff.length > 0 && {
+                pricingDiff: pricingDiff.map((diff) => ({ ...diff })),
+                collected: roundMoney(totalPaymentAmount),
+              }),
+          },
+          actorId: userId,
+        });
+
+        // Track the checks in the checks register. Legacy check rows already
+        // detail the checks of a single check payment.
+        if (!input.checkPayments?.length) {
+          for (const payment of newOrder.orderPayments) {
+            if (payment.paymentMethod !== "CHECK") continue;
+            await tx.checkPayment.create({
+              data: {
+                orderId: newOrder.id,
+                orderPaymentId: payment.id,
+                checkNumber: payment.checkNumber ?? "",
+                bankName: payment.checkBankName,
+                amount: payment.amount,
+                checkDate: payment.checkDate ?? soldAt,
+                receivedDate: soldAt,
+                status: "RECEIVED",
+                shopId,
+              },
+            });
+          }
+        }
+
+        // Handle legacy check payments
+        for (const check of input.checkPayments ?? []) {
+          await tx.checkPayment.create({
+            data: {
+              orderId: newOrder.id,
+              checkNumber: check.checkNumber,
+              bankName: check.bankName,
+              amount: check.amount,
+              checkDate: new Date(check.checkDate),
+              receivedDate: new Date(),
+              status: "RECEIVED",
+              notes: check.notes,
+              shopId,
+            },
+          });
+        }
+
+        // Increment discount code usage
+        if (pricing.discountCode) {
+          await tx.discountCode.update({
+            where: { id: pricing.discountCode.id },
+            data: {
+              usedCount: {
+                increment: 1,
+              },
+            },
+          });
+        }
+
+        await tx.notification.create({
+          data: {
+            title: "New In-Store Order",
+            message: `Order ${orderNumber} created for ${total.toFixed(2)}`,
+            type: "ORDER_CREATED",
+            shopId,
+          },
+        });
+
+        // Reload with the issued cards and the card of each payment
+        if (giftCardLines.length > 0 || giftCardPaymentIds.size > 0) {
+          return await tx.order.findUniqueOrThrow({
+            where: { id: newOrder.id },
+            include: posOrderInclude,
+          });
+        }
+        return newOrder;
+      });
+
+      return { order, duplicate: false, inventoryConflicts, pricingDiff };
+    } catch (error) {
+      // The same sale was recorded concurrently (e.g. a retry racing the first attempt)
+      if (
+        clientReference &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        const existing = await findByClientReference(shopId, clientReference);
+        if (existing) {
+          return { order: existing, duplicate: true, inventoryConflicts: [], pricingDiff: [] };
+        }
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Record the sales made while the register was offline, oldest first. Each
+   * sale is saved on its own so one rejection does not block the others.
+   */
+  async syncOfflineOrders(
+    shopId: string,
+    userId: string,
+    orders: OfflineOrderInput[]
+  ): Promise<OfflineSyncResult[]> {
+    const sorted = [...orders].sort(
+      (a, b) => new Date(a.soldAt).getTime() - new Date(b.soldAt).getTime()
+    );
+
+    const results: OfflineSyncResult[] = [];
+    for (const offlineOrder of sorted) {
+      const clientReference = offlineOrder.clientReference;
+      try {
+        if (!isValidClientReference(clientReference)) {
+          throw new PosOrderError("Invalid client reference");
+        }
+        const soldAt = new Date(offlineOrder.soldAt);
+        if (isNaN(soldAt.getTime())) {
+          throw new PosOrderError("Invalid sale date");
+        }
+        if (Date.now() - soldAt.getTime() > MAX_OFFLINE_AGE_MS) {
+          throw new PosOrderError("Offline sale is too old to be synced", 400, "TOO_OLD");
+        }
+
+        const { order, duplicate, inventoryConflicts, pricingDiff } = await this.createOrder(
+          shopId,
+          userId,
+          offlineOrder,
+          {
+            clientReference,
+            soldAt,
+            registerSessionId:
+              typeof offlineOrder.registerSessionId === "string"
+                ? offlineOrder.registerSessionId
+                : null,
+            offline: true,
+          }
+        );
+
+        results.push({
+          clientReference,
+          status: duplicate ? "DUPLICATE" : "CREATED",
+          order: { id: order.id, orderNumber: order.orderNumber, total: order.total },
+          inventoryConflicts: inventoryConflicts.length > 0 ? inventoryConflicts : undefined,
+          pricingDiff: pricingDiff.length > 0 ? pricingDiff : undefined,
+        });
+      } catch (error) {
+        if (error instanceof PosOrderError) {
+          results.push({
+            clientReference,
+            status: "REJECTED",
+            error: error.message,
+            code: error.code,
+            details: error.details,
+          });
+        } else if (error instanceof PricingError) {
+          results.push({ clientReference, status: "REJECTED", error: error.message, code: "PRICING" });
+        } else {
+          console.error("Error syncing offline order:", error);
+          results.push({
+            clientReference,
+            status: "REJECTED",
+            error: "Failed to create order",
+            code: "SERVER_ERROR",
+          });
+        }
+      }
+    }
+
+    return results;
+  },
+};
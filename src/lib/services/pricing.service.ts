@@ -0,0 +1,449 @@
+// src/lib/services/pricing.service.ts
+import { PriceAdjustmentReason, Prisma, UnitOfMeasure } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import {
+  applyLineAdjustment,
+  getAdjustmentPercentage,
+  getLineAdjustmentError,
+  hasLineAdjustment,
+  isPriceAdjustmentReason,
+  LineAdjustmentInput,
+} from "@/lib/pos/price-adjustments";
+import { isValidQuantity } from "@/lib/units";
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export type PricingOrderSource = "ONLINE" | "IN_STORE";
+export type ManualDiscountType = "PERCENTAGE" | "FIXED";
+
+export interface PricingItemInput extends LineAdjustmentInput {
+  productId: string;
+  variantId: string;
+  quantity: number;
+}
+
+export interface PricingInput {
+  shopId: string;
+  orderSource: PricingOrderSource;
+  items: PricingItemInput[];
+  customerId?: string | null;
+  discountCodeId?: string | null;
+  orderDiscount?: number;
+  orderDiscountType?: ManualDiscountType;
+  pricedAt?: Date; // Discounts and codes as they were then, for sales made offline
+}
+
+export interface PricedLine {
+  productId: string;
+  variantId: string;
+  quantity: number; // In the unit of the variant, decimal for weights and volumes
+  unit: UnitOfMeasure;
+  productName: string;
+  productSku: string;
+  productBarcode: string;
+  productDescription: string;
+  productImage: string | null;
+  productOptions: Prisma.JsonValue;
+  inventory: number;
+  isGiftCard: boolean; // Issues a gift card worth the net total per unit, no stock is kept
+  tva: number;
+  originalPrice: number; // Catalog unit price (TVA included)
+  unitPrice: number; // Unit price after automatic discounts or the override (TVA included)
+  discountPercentage: number; // Automatic discount percentage, 0 when the price is overridden
+  discountAmount: number; // Automatic and manual discount amount for the whole line
+  priceOverridden: boolean;
+  lineDiscountAmount: number; // Manual discount on the line, part of discountAmount
+  adjustmentReason: PriceAdjustmentReason | null;
+  adjustmentNote: string | null;
+  adjustmentPercentage: number; // Manual reduction in percent of the automatic line total
+  lineTotal: number; // unitPrice * quantity - lineDiscountAmount
+  discountCodeApplies: boolean;
+  orderDiscountShare: number; // Part of code + manual discount allocated to this line
+  netTotal: number; // lineTotal - orderDiscountShare (TVA included)
+  taxAmount: number; // TVA contained in netTotal
+}
+
+export interface PricingTotals {
+  subtotal: number; // Sum of line totals (TVA included, before order-level discounts)
+  discountCodeAmount: number;
+  manualDiscountAmount: number;
+  discount: number; // discountCodeAmount + manualDiscountAmount
+  subtotalExcludingTax: number; // Net total without TVA
+  tax: number;
+  total: number;
+}
+
+export interface PricingResult {
+  lines: PricedLine[];
+  totals: PricingTotals;
+  discountCode: { id: string; code: string; percentage: number } | null;
+}
+
+export interface ExpectedTotals {
+  subtotal?: number;
+  discountCodeAmount?: number;
+  manualDiscountAmount?: number;
+  total?: number;
+}
+
+export interface PricingDifference {
+  field: keyof ExpectedTotals;
+  expected: number;
+  actual: number;
+}
+
+export class PricingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+// Client totals within this tolerance are accepted (float and rounding noise)
+const PRICE_TOLERANCE = 0.01;
+
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+interface DiscountLike {
+  percentage: number;
+  enabled: boolean;
+  isDeleted: boolean;
+  startDate: Date;
+  endDate: Date;
+  availableOnline: boolean;
+  availableInStore: boolean;
+}
+
+function isDiscountActive(
+  discount: DiscountLike,
+  orderSource: PricingOrderSource,
+  now: Date
+) {
+  return (
+    discount.enabled &&
+    !discount.isDeleted &&
+    discount.startDate <= now &&
+    discount.endDate >= now &&
+    (orderSource === "IN_STORE" ? discount.availableInStore : discount.availableOnline)
+  );
+}
+
+/**
+ * Pick the automatic discount for a variant. The most specific target wins
+ * (variant, then product, then category); within a level the highest
+ * percentage is used.
+ */
+export function resolveAutomaticDiscount(
+  levels: DiscountLike[][],
+  orderSource: PricingOrderSource,
+  now: Date = new Date()
+): number {
+  for (const discounts of levels) {
+    const active = discounts.filter((d) => isDiscountActive(d, orderSource, now));
+    if (active.length > 0) {
+      return Math.min(100, Math.max(...active.map((d) => d.percentage)));
+    }
+  }
+  return 0;
+}
+
+/**
+ * Unit price after an automatic discount, rounded the same way the catalog
+ * endpoints display it.
+ */
+export function applyPercentage(price: number, percentage: number): number {
+  return roundMoney(price * (1 - percentage / 100));
+}
+
+/**
+ * Spread an order-level amount over lines proportionally to their totals.
+ * The rounding remainder is put on the last line so shares sum exactly.
+ */
+export function allocateAmount(lineTotals: number[], amount: number): number[] {
+  const base = lineTotals.reduce((sum, value) => sum + value, 0);
+  if (base <= 0 || amount <= 0) return lineTotals.map(() => 0);
+
+  const shares = lineTotals.map((value) => roundMoney((amount * value) / base));
+  const allocated = shares.reduce((sum, value) => sum + value, 0);
+  const lastIndex = shares.length - 1;
+  shares[lastIndex] = roundMoney(shares[lastIndex] + amount - allocated);
+  return shares;
+}
+
+export const pricingService = {
+  /**
+   * Compute authoritative prices, discounts and TVA for an order from the database
+   */
+  async calculateOrderPricing(
+    input: PricingInput,
+    client: DbClient = db
+  ): Promise<PricingResult> {
+    const {
+      shopId,
+      orderSource,
+      items,
+      customerId,
+      discountCodeId,
+      orderDiscount = 0,
+      orderDiscountType = "PERCENTAGE",
+      pricedAt,
+    } = input;
+
+    if (!items || items.length === 0) {
+      throw new PricingError("Order must contain at least one item");
+    }
+
+    const now = pricedAt ?? new Date();
+    const discountInclude = {
+      where: { enabled: true, isDeleted: false },
+    };
+
+    const variantIds = [...new Set(items.map((item) => item.variantId))];
+    const variants = await client.productVariant.findMany({
+      where: { id: { in: variantIds }, product: { shopId } },
+      include: {
+        discounts: discountInclude,
+        multiDiscounts: discountInclude,
+        product: {
+          include: {
+            discounts: discountInclude,
+            multiDiscounts: discountInclude,
+            categories: {
+              include: { discounts: discountInclude },
+            },
+          },
+        },
+      },
+    });
+    const variantsById = new Map(variants.map((variant) => [variant.id, variant]));
+
+    const lines: PricedLine[] = items.map((item) => {
+      const variant = variantsById.get(item.variantId);
+      if (!variant || variant.productId !== item.productId) {
+        throw new PricingError(
+          `Variant ${item.variantId} not found for product ${item.productId}`,
+          404
+        );
+      }
+
+      const quantity = Number(item.quantity);
+      if (!isValidQuantity(quantity, variant.unit)) {
+        throw new PricingError(`Invalid quantity for variant ${item.variantId}`);
+      }
+      const product = variant.product;
+      if (product.isGiftCard && orderSource !== "IN_STORE") {
+        throw new PricingError(`${product.name} can only be sold in store`);
+      }
+
+      const discountPercentage = resolveAutomaticDiscount(
+        [
+          [...variant.discounts, ...variant.multiDiscounts],
+          [...product.discounts, ...product.multiDiscounts],
+          product.categories.flatMap((category) => category.discounts),
+        ],
+        orderSource,
+        now
+      );
+      const automaticPrice = applyPercentage(variant.price, discountPercentage);
+
+      // Manual price changes are only made by a cashier at the register
+      const adjusted = hasLineAdjustment(item);
+      if (adjusted) {
+        if (orderSource !== "IN_STORE") {
+          throw new PricingError("Line price adjustments are only allowed in store");
+        }
+        const adjustmentError = getLineAdjustmentError(variant.price, item);
+        if (adjustmentError) {
+          throw new PricingError(`${product.name}: ${adjustmentError}`);
+        }
+      }
+      const { unitPrice, lineDiscountAmount, lineTotal, priceOverridden } = applyLineAdjustment(
+        automaticPrice,
+        quantity,
+        adjusted ? item : {}
+      );
+
+      return {
+        productId: product.id,
+        variantId: variant.id,
+        quantity,
+        unit: variant.unit,
+        productName: `${product.name} - ${variant.name}`,
+        productSku: variant.sku || product.sku || "",
+        productBarcode: variant.barcode || product.barcode || "",
+        productDescription: product.description || "",
+        productImage:
+          variant.images.length > 0
+            ? variant.images[0]
+            : product.images.length > 0
+              ? product.images[0]
+              : null,
+        productOptions: variant.options,
+        inventory: variant.inventory,
+        isGiftCard: product.isGiftCard,
+        // A gift card is a means of payment, TVA is due on what it buys later
+        tva: product.isGiftCard ? 0 : variant.tva,
+        originalPrice: variant.price,
+        unitPrice,
+        discountPercentage: priceOverridden ? 0 : discountPercentage,
+        discountAmount: roundMoney(variant.price * quantity - lineTotal),
+        priceOverridden,
+        lineDiscountAmount,
+        adjustmentReason:
+          adjusted && isPriceAdjustmentReason(item.adjustmentReason) ? item.adjustmentReason : null,
+        adjustmentNote: adjusted ? item.adjustmentNote?.trim() || null : null,
+        adjustmentPercentage: getAdjustmentPercentage(
+          roundMoney(automaticPrice * quantity),
+          lineTotal
+        ),
+        lineTotal,
+        discountCodeApplies: false,
+        orderDiscountShare: 0,
+        netTotal: lineTotal,
+        taxAmount: 0,
+      };
+    });
+    const lineCategoryIds = lines.map(
+      (line) =>
+        variantsById.get(line.variantId)?.product.categories.map((category) => category.id) ?? []
+    );
+
+    const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+    // Discount code: percentage of the lines it targets
+    let discountCode: PricingResult["discountCode"] = null;
+    let discountCodeAmount = 0;
+    if (discountCodeId) {
+      const code = await client.discountCode.findFirst({
+        where: { id: discountCodeId, shopId, isActive: true, isDeleted: false },
+        include: {
+          products: { select: { id: true } },
+          variants: { select: { id: true } },
+          users: { select: { id: true } },
+        },
+      });
+
+      if (!code) {
+        throw new PricingError("Invalid discount code");
+      }
+      if (code.startDate > now || code.endDate < now) {
+        throw new PricingError(`Discount code ${code.code} is not active`);
+      }
+      if (orderSource === "IN_STORE" ? !code.availableInStore : !code.availableOnline) {
+        throw new PricingError(`Discount code ${code.code} is not available for this order type`);
+      }
+      if (code.usageLimit !== null && code.usedCount >= code.usageLimit) {
+        throw new PricingError(`Discount code ${code.code} has reached its usage limit`);
+      }
+      if (code.users.length > 0 && !code.users.some((user) => user.id === customerId)) {
+        throw new PricingError(`Discount code ${code.code} is not available for this customer`);
+      }
+
+      const targetVariants = new Set(code.variants.map((v) => v.id));
+      const targetProducts = new Set(code.products.map((p) => p.id));
+      lines.forEach((line, index) => {
+        // Gift cards are sold at face value
+        if (line.isGiftCard) {
+          line.discountCodeApplies = false;
+        } else if (targetVariants.size > 0) {
+          line.discountCodeApplies = targetVariants.has(line.variantId);
+        } else if (targetProducts.size > 0 || code.categoryId) {
+          line.discountCodeApplies =
+            targetProducts.has(line.productId) ||
+            (!!code.categoryId && lineCategoryIds[index].includes(code.categoryId));
+        } else {
+          line.discountCodeApplies = true;
+        }
+      });
+
+      const applicableSubtotal = lines
+        .filter((line) => line.discountCodeApplies)
+        .reduce((sum, line) => sum + line.lineTotal, 0);
+      if (applicableSubtotal <= 0) {
+        throw new PricingError(`Discount code ${code.code} does not apply to any item`);
+      }
+
+      discountCodeAmount = roundMoney((applicableSubtotal * code.percentage) / 100);
+      discountCode = { id: code.id, code: code.code, percentage: code.percentage };
+    }
+
+    // Manual order discount is applied on what remains after the code, gift
+    // cards excluded as they are sold at face value
+    const giftCardSubtotal = lines
+      .filter((line) => line.isGiftCard)
+      .reduce((sum, line) => sum + line.lineTotal, 0);
+    const afterCode = roundMoney(subtotal - giftCardSubtotal - discountCodeAmount);
+    let manualDiscountAmount = 0;
+    if (orderDiscount < 0) {
+      throw new PricingError("Order discount cannot be negative");
+    }
+    if (orderDiscount > 0 && afterCode > 0) {
+      if (orderDiscountType === "PERCENTAGE") {
+        if (orderDiscount > 100) {
+          throw new PricingError("Order discount percentage cannot exceed 100");
+        }
+        manualDiscountAmount = roundMoney((afterCode * orderDiscount) / 100);
+      } else {
+        manualDiscountAmount = roundMoney(Math.min(orderDiscount, afterCode));
+      }
+    }
+
+    // Allocate both order-level discounts to lines so TVA is computed per rate
+    const codeShares = allocateAmount(
+      lines.map((line) => (line.discountCodeApplies ? line.lineTotal : 0)),
+      discountCodeAmount
+    );
+    const manualShares = allocateAmount(
+      lines.map((line, index) => (line.isGiftCard ? 0 : line.lineTotal - codeShares[index])),
+      manualDiscountAmount
+    );
+
+    const pricedLines: PricedLine[] = lines.map((line, index) => {
+      const orderDiscountShare = roundMoney(codeShares[index] + manualShares[index]);
+      const netTotal = roundMoney(line.lineTotal - orderDiscountShare);
+      const taxAmount = roundMoney(netTotal - netTotal / (1 + line.tva / 100));
+      return { ...line, orderDiscountShare, netTotal, taxAmount };
+    });
+
+    const discount = roundMoney(discountCodeAmount + manualDiscountAmount);
+    const total = roundMoney(subtotal - discount);
+    const tax = roundMoney(pricedLines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+    return {
+      lines: pricedLines,
+      totals: {
+        subtotal,
+        discountCodeAmount,
+        manualDiscountAmount,
+        discount,
+        subtotalExcludingTax: roundMoney(total - tax),
+        tax,
+        total,
+      },
+      discountCode,
+    };
+  },
+
+  /**
+   * List the client-provided totals that disagree with the computed ones
+   */
+  compareWithExpected(totals: PricingTotals, expected: ExpectedTotals): PricingDifference[] {
+    const actual: Required<ExpectedTotals> = {
+      subtotal: totals.subtotal,
+      discountCodeAmount: totals.discountCodeAmount,
+      manualDiscountAmount: totals.manualDiscountAmount,
+      total: totals.total,
+    };
+
+    return (Object.keys(actual) as (keyof ExpectedTotals)[])
+      .filter((field) => expected[field] !== undefined && expected[field] !== null)
+      .map((field) => ({
+        field,
+        expected: roundMoney(Number(expected[field])),
+        actual: actual[field],
+      }))
+      .filter((diff) => Math.abs(diff.expected - diff.actual) > PRICE_TOLERANCE);
+  },
+};
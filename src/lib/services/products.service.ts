@@ -1,5 +1,7 @@
 // src/lib/services/products.service.ts (Updated with getProductById)
+import { Prisma } from "@prisma/client";
 import { db } from "@/lib/prisma";
+import { expiringSoonCutoff } from "@/lib/stock-lot";
 import { s3ImageService } from "@/lib/services/s3-image.service";
 
 export interface ProductsFilter {
@@ -22,6 +24,25 @@ export interface ProductsPagination {
   perPage: number;
 }
 
+/**
+ * Products with a lot still in stock that expires within EXPIRING_SOON_DAYS,
+ * or has already expired and should come off the shelves
+ */
+function expiringSoonFilter(): Prisma.ProductWhereInput {
+  return {
+    variants: {
+      some: {
+        lots: {
+          some: {
+            quantity: { gt: 0 },
+            expiryDate: { lte: expiringSoonCutoff() },
+          },
+        },
+      },
+    },
+  };
+}
+
 export const productsService = {
   /**
    * Get total products count based on filters
@@ -57,15 +78,7 @@ export const productsService = {
     }
 
     if (filters.expiringSoon) {
-      // Products expiring in the next 30 days
-      const today = new Date();
-      const thirtyDaysLater = new Date();
-      thirtyDaysLater.setDate(today.getDate() + 30);
-
-      where.expiryDate = {
-        gte: today,
-        lte: thirtyDaysLater,
-      };
+      where.AND = [expiringSoonFilter()];
     }
 
     return await db.product.count({ where });
@@ -105,15 +118,7 @@ export const productsService = {
     }
 
     if (filters.expiringSoon) {
-      // Products expiring in the next 30 days
-      const today = new Date();
-      const thirtyDaysLater = new Date();
-      thirtyDaysLater.setDate(today.getDate() + 30);
-
-      where.expiryDate = {
-        gte: today,
-        lte: thirtyDaysLater,
-      };
+      where.AND = [expiringSoonFilter()];
     }
 
     const products = await db.product.findMany({
@@ -0,0 +1,476 @@
+// src/lib/services/purchase-order.service.ts
+import { Prisma, PurchaseOrderStatus } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  RECEIVABLE_PURCHASE_ORDER_STATUSES,
+  canTransitionPurchaseOrder,
+} from "@/lib/purchase-order";
+import { getShopDocumentLines, getShopWithSettings } from "@/lib/services/invoice.service";
+import { numberingService } from "@/lib/services/numbering.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { normalizeLotNumber, stockLotService } from "@/lib/services/stock-lot.service";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
+import { formatQuantity, isValidQuantity, roundQuantity } from "@/lib/units";
+import { createPdfWriter, formatPdfAmount } from "@/lib/utils/pdf";
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+export interface PurchaseOrderItemInput {
+  variantId: string;
+  quantity: number; // In the unit of the variant
+  cost: number; // Negotiated unit cost
+}
+
+export interface PurchaseOrderInput {
+  supplierId?: string | null;
+  expectedAt?: Date | null;
+  notes?: string | null;
+  items?: PurchaseOrderItemInput[];
+}
+
+export interface ReceiveGoodsInput {
+  items?: {
+    purchaseOrderItemId: string;
+    quantity: number;
+    lotNumber?: string | null; // Puts the quantity in stock under this lot
+    expiryDate?: Date | null;
+  }[];
+  notes?: string | null;
+}
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus | null;
+  supplierId?: string | null;
+  search?: string | null;
+}
+
+const purchaseOrderListInclude = {
+  supplier: { select: { id: true, name: true } },
+  _count: { select: { items: true } },
+} satisfies Prisma.PurchaseOrderInclude;
+
+const purchaseOrderDetailInclude = {
+  supplier: true,
+  createdBy: { select: { name: true, email: true } },
+  items: {
+    include: { variant: { select: { id: true, productId: true, inventory: true } } },
+    orderBy: [{ productName: "asc" }, { variantName: "asc" }],
+  },
+  receipts: {
+    include: {
+      items: true,
+      createdBy: { select: { name: true, email: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+type LockedPurchaseOrder = {
+  id: string;
+  number: string;
+  status: PurchaseOrderStatus;
+};
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("fr-FR");
+}
+
+/**
+ * Unit cost of the stock once a delivery is added to what is on hand, each
+ * quantity weighted by what it cost. Stock at zero or below, or without a
+ * known cost, takes the cost of the delivery.
+ */
+export function weightedAverageCost(
+  onHand: number,
+  currentCost: number | null,
+  received: number,
+  receivedCost: number
+): number {
+  if (currentCost === null || onHand <= 0) {
+    return roundMoney(receivedCost);
+  }
+  return roundMoney((onHand * currentCost + received * receivedCost) / (onHand + received));
+}
+
+async function lockPurchaseOrder(tx: Prisma.TransactionClient, shopId: string, purchaseOrderId: string) {
+  const [order] = await tx.$queryRaw<LockedPurchaseOrder[]>`
+    SELECT "id", "number", "status" FROM "PurchaseOrder"
+    WHERE "id" = ${purchaseOrderId} AND "shopId" = ${shopId}
+    FOR UPDATE`;
+  if (!order) {
+    throw new PurchaseOrderError("Purchase order not found", 404);
+  }
+  return order;
+}
+
+async function requireActiveSupplier(
+  tx: Prisma.TransactionClient,
+  shopId: string,
+  supplierId: string | null | undefined
+) {
+  const supplier = supplierId
+    ? await tx.supplier.findFirst({ where: { id: supplierId, shopId } })
+    : null;
+  if (!supplier) {
+    throw new PurchaseOrderError("Supplier not found", 404);
+  }
+  if (!supplier.active) {
+    throw new PurchaseOrderError(`${supplier.name} is inactive and cannot receive new orders`);
+  }
+  return supplier;
+}
+
+/**
+ * Order lines with a snapshot of their variant, checked against the catalog
+ */
+async function buildItems(
+  tx: Prisma.TransactionClient,
+  shopId: string,
+  items: PurchaseOrderItemInput[] | undefined
+) {
+  if (!items || items.length === 0) {
+    throw new PurchaseOrderError("Add at least one item to the purchase order");
+  }
+  const variantIds = items.map((item) => item.variantId);
+  if (new Set(variantIds).size !== variantIds.length) {
+    throw new PurchaseOrderError("A variant is listed more than once");
+  }
+
+  const variants = await tx.productVariant.findMany({
+    where: { id: { in: variantIds }, product: { shopId } },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      unit: true,
+      product: { select: { name: true, sku: true, isGiftCard: true } },
+    },
+  });
+  if (variants.length !== variantIds.length) {
+    throw new PurchaseOrderError("Some items are no longer in the catalog", 404);
+  }
+
+  return items.map((item) => {
+    const variant = variants.find((candidate) => candidate.id === item.variantId)!;
+    if (variant.product.isGiftCard) {
+      throw new PurchaseOrderError(`${variant.product.name} is a gift card and has no stock to order`);
+    }
+    const quantity = roundQuantity(Number(item.quantity));
+    if (!isValidQuantity(quantity, variant.unit)) {
+      throw new PurchaseOrderError(`Invalid quantity for ${variant.product.name}`);
+    }
+    const cost = roundMoney(Number(item.cost));
+    if (!Number.isFinite(cost) || cost < 0) {
+      throw new PurchaseOrderError(`Invalid cost for ${variant.product.name}`);
+    }
+
+    return {
+      variantId: variant.id,
+      productName: variant.product.name,
+      variantName: variant.name,
+      sku: variant.sku || variant.product.sku || null,
+      unit: variant.unit,
+      quantity,
+      cost,
+      total: roundMoney(quantity * cost),
+    };
+  });
+}
+
+export const purchaseOrderService = {
+  /**
+   * Purchase orders of the shop, latest first
+   */
+  async listOrders(shopId: string, filters: PurchaseOrderFilters = {}) {
+    const where: Prisma.PurchaseOrderWhereInput = { shopId };
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.supplierId) {
+      where.supplierId = filters.supplierId;
+    }
+    const search = filters.search?.trim();
+    if (search) {
+      where.OR = [
+        { number: { contains: search, mode: "insensitive" } },
+        { supplier: { name: { contains: search, mode: "insensitive" } } },
+        { items: { some: { productName: { contains: search, mode: "insensitive" } } } },
+      ];
+    }
+
+    return await db.purchaseOrder.findMany({
+      where,
+      include: purchaseOrderListInclude,
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    });
+  },
+
+  /**
+   * A purchase order with its lines and the deliveries received so far
+   */
+  async getOrder(shopId: string, purchaseOrderId: string) {
+    return await db.purchaseOrder.findFirst({
+      where: { id: purchaseOrderId, shopId },
+      include: purchaseOrderDetailInclude,
+    });
+  },
+
+  /**
+   * Create a draft purchase order with the next PO number of the shop
+   */
+  async createOrder(shopId: string, input: PurchaseOrderInput, userId: string) {
+    return await db.$transaction(async (tx) => {
+      const supplier = await requireActiveSupplier(tx, shopId, input.supplierId);
+      const items = await buildItems(tx, shopId, input.items);
+      const number = await numberingService.nextPurchaseOrderNumber(tx, shopId);
+
+      return await tx.purchaseOrder.create({
+        data: {
+          shopId,
+          number,
+          supplierId: supplier.id,
+          expectedAt: input.expectedAt ?? null,
+          notes: input.notes?.trim() || null,
+          total: roundMoney(items.reduce((sum, item) => sum + item.total, 0)),
+          createdById: userId,
+          items: { create: items },
+        },
+        include: purchaseOrderDetailInclude,
+      });
+    });
+  },
+
+  /**
+   * Replace the supplier, dates and lines of an order not sent yet
+   */
+  async updateOrder(shopId: string, purchaseOrderId: string, input: PurchaseOrderInput) {
+    return await db.$transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, shopId, purchaseOrderId);
+      if (order.status !== "DRAFT") {
+        throw new PurchaseOrderError("Only draft purchase orders can be edited");
+      }
+
+      const supplier = await requireActiveSupplier(tx, shopId, input.supplierId);
+      const items = await buildItems(tx, shopId, input.items);
+
+      await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId } });
+      return await tx.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: {
+          supplierId: supplier.id,
+          expectedAt: input.expectedAt ?? null,
+          notes: input.notes?.trim() || null,
+          total: roundMoney(items.reduce((sum, item) => sum + item.total, 0)),
+          items: { create: items },
+        },
+        include: purchaseOrderDetailInclude,
+      });
+    });
+  },
+
+  /**
+   * Mark an order as sent to the supplier, or cancel what is left of it
+   */
+  async setStatus(shopId: string, purchaseOrderId: string, status: PurchaseOrderStatus) {
+    return await db.$transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, shopId, purchaseOrderId);
+      if (!canTransitionPurchaseOrder(order.status, status)) {
+        throw new PurchaseOrderError(
+          `A ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} purchase order cannot be marked as ${PURCHASE_ORDER_STATUS_LABELS[status].toLowerCase()}`
+        );
+      }
+
+      return await tx.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: {
+          status,
+          ...(status === "SENT" && { sentAt: new Date() }),
+        },
+        include: purchaseOrderDetailInclude,
+      });
+    });
+  },
+
+  /**
+   * Check in a delivery. Received quantities go into the stock through the
+   * ledger and update the cost of their variant to the weighted average of
+   * the stock on hand and the delivery. Lines with a lot number go into that lot.
+   */
+  async receiveGoods(shopId: string, purchaseOrderId: string, input: ReceiveGoodsInput, userId: string) {
+    return await db.$transaction(async (tx) => {
+      const order = await lockPurchaseOrder(tx, shopId, purchaseOrderId);
+      if (!RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(order.status)) {
+        throw new PurchaseOrderError(
+          `Goods cannot be received on a ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} purchase order`
+        );
+      }
+
+      const items = await tx.purchaseOrderItem.findMany({ where: { purchaseOrderId } });
+      const lines = (input.items ?? []).filter((line) => Number(line.quantity) !== 0);
+      if (lines.length === 0) {
+        throw new PurchaseOrderError("Enter the quantities received");
+      }
+
+      const receipt = await tx.purchaseReceipt.create({
+        data: {
+          purchaseOrderId,
+          notes: input.notes?.trim() || null,
+          createdById: userId,
+        },
+      });
+
+      for (const line of lines) {
+        const item = items.find((candidate) => candidate.id === line.purchaseOrderItemId);
+        if (!item) {
+          throw new PurchaseOrderError("Item not found on this purchase order", 404);
+        }
+        const quantity = roundQuantity(Number(line.quantity));
+        if (!isValidQuantity(quantity, item.unit)) {
+          throw new PurchaseOrderError(`Invalid quantity received for ${item.productName}`);
+        }
+        const lotNumber = normalizeLotNumber(line.lotNumber);
+        if (line.expiryDate && !lotNumber) {
+          throw new PurchaseOrderError(`Enter the lot number of ${item.productName} with its expiry date`);
+        }
+        const remaining = roundQuantity(item.quantity - item.receivedQuantity);
+        if (quantity > remaining) {
+          throw new PurchaseOrderError(
+            `Only ${formatQuantity(remaining, item.unit)} of ${item.productName} - ${item.variantName} are still expected`
+          );
+        }
+
+        // Cost before the delivery enters the stock
+        const [variant] = item.variantId
+          ? await tx.$queryRaw<{ inventory: number; cost: number | null }[]>`
+              SELECT "inventory", "cost" FROM "ProductVariant"
+              WHERE "id" = ${item.variantId}
+              FOR UPDATE`
+          : [];
+        if (!item.variantId || !variant) {
+          throw new PurchaseOrderError(`${item.productName} - ${item.variantName} is no longer in the catalog`);
+        }
+        await tx.productVariant.update({
+          where: { id: item.variantId },
+          data: { cost: weightedAverageCost(variant.inventory, variant.cost, quantity, item.cost) },
+        });
+        await stockMovementService.record(tx, {
+          shopId,
+          variantId: item.variantId,
+          reason: "RECEIPT",
+          quantity,
+          receiptId: receipt.id,
+          notes: lotNumber ? `Purchase order ${order.number}, lot ${lotNumber}` : `Purchase order ${order.number}`,
+          createdById: userId,
+        });
+        if (lotNumber) {
+          await stockLotService.addToLot(tx, {
+            variantId: item.variantId,
+            lotNumber,
+            expiryDate: line.expiryDate,
+            quantity,
+          });
+        }
+
+        await tx.purchaseReceiptItem.create({
+          data: {
+            receiptId: receipt.id,
+            purchaseOrderItemId: item.id,
+            quantity,
+            lotNumber,
+            expiryDate: line.expiryDate ?? null,
+          },
+        });
+        item.receivedQuantity = roundQuantity(item.receivedQuantity + quantity);
+        await tx.purchaseOrderItem.update({
+          where: { id: item.id },
+          data: { receivedQuantity: item.receivedQuantity },
+        });
+      }
+
+      const complete = items.every((item) => item.receivedQuantity >= item.quantity);
+      await tx.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: { status: complete ? "RECEIVED" : "PARTIALLY_RECEIVED" },
+      });
+
+      return receipt;
+    });
+  },
+
+  /**
+   * Purchase order as a PDF to send to the supplier
+   */
+  async getPdf(shopId: string, purchaseOrderId: string) {
+    const [order, shop] = await Promise.all([
+      this.getOrder(shopId, purchaseOrderId),
+      getShopWithSettings(shopId),
+    ]);
+    if (!order || !shop) {
+      return null;
+    }
+
+    const currency = shop.settings?.currency || "DT";
+    const money = (amount: number) => formatPdfAmount(amount, currency);
+    const pdf = await createPdfWriter(`Purchase order ${order.number}`);
+
+    pdf.header({
+      shopName: shop.name,
+      shopLines: getShopDocumentLines(shop),
+      title: "PURCHASE ORDER",
+      titleLines: [
+        `No. ${order.number}`,
+        `Date: ${formatDate(order.sentAt ?? order.createdAt)}`,
+        order.expectedAt ? `Delivery by: ${formatDate(order.expectedAt)}` : null,
+      ],
+    });
+
+    pdf.text("Supplier", 0, { bold: true });
+    pdf.moveDown(13);
+    const supplierLines = [
+      order.supplier.name,
+      order.supplier.contactName ? `Attn: ${order.supplier.contactName}` : null,
+      order.supplier.address,
+      order.supplier.phone ? `Tel: ${order.supplier.phone}` : null,
+      order.supplier.email,
+      order.supplier.taxId ? `MF: ${order.supplier.taxId}` : null,
+    ].filter((line): line is string => !!line);
+    supplierLines.forEach((line) => {
+      pdf.text(line, 0);
+      pdf.moveDown(12);
+    });
+    pdf.moveDown(10);
+
+    pdf.table(
+      [
+        { header: "Item", width: 200 },
+        { header: "SKU", width: 85 },
+        { header: "Quantity", width: 70, align: "right" },
+        { header: "Unit cost", width: 80, align: "right" },
+        { header: "Total", width: pdf.contentWidth - 435, align: "right" },
+      ],
+      order.items.map((item) => [
+        `${item.productName} - ${item.variantName}`,
+        item.sku ?? "",
+        formatQuantity(item.quantity, item.unit),
+        money(item.cost),
+        money(item.total),
+      ])
+    );
+
+    pdf.keyValues([["Total", money(order.total)]], { boldLast: true });
+
+    if (order.notes) {
+      pdf.moveDown(10);
+      pdf.text(`Notes: ${order.notes}`, 0);
+    }
+
+    return { order, pdf: await pdf.save() };
+  },
+};
@@ -0,0 +1,366 @@
+// src/lib/services/receipt.service.ts
+import { PaymentMethodType } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { formatGiftCardCode, maskGiftCardCode } from "@/lib/gift-card";
+import { describeLineAdjustment } from "@/lib/pos/price-adjustments";
+import {
+  buildTvaBreakdown,
+  getShopDocumentLines,
+  getShopWithSettings,
+  TvaLine,
+} from "@/lib/services/invoice.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { code128Svg } from "@/lib/utils/barcode";
+import { formatQuantity } from "@/lib/units";
+import { createEscPosWriter, wrapText } from "@/lib/utils/escpos";
+
+export type ReceiptPaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font
+const PAPER_COLUMNS: Record<ReceiptPaperWidth, number> = { 58: 32, 80: 48 };
+
+export function isReceiptPaperWidth(value: number): value is ReceiptPaperWidth {
+  return value === 58 || value === 80;
+}
+
+export interface ReceiptPayment {
+  label: string;
+  amount: number;
+  cashGiven: number | null;
+  cashChange: number | null;
+}
+
+export interface ReceiptGiftCard {
+  code: string;
+  value: number;
+  expiresAt: Date | null;
+}
+
+export interface Receipt {
+  shopName: string;
+  shopLines: string[];
+  currency: string;
+  orderNumber: string;
+  date: Date;
+  cashier: string | null;
+  customer: string | null;
+  items: {
+    name: string;
+    quantity: string;
+    unitPrice: number;
+    total: number;
+    tva: number;
+    adjustment: string | null; // Manual price change made by the cashier, with its reason
+    originalPrice: number | null; // Catalog unit price, when it was overridden
+    lineDiscount: number; // Manual discount on the line, included in total
+  }[];
+  subtotal: number;
+  discount: number;
+  discountCode: string | null;
+  tva: TvaLine[];
+  total: number;
+  payments: ReceiptPayment[];
+  change: number;
+  giftCards: ReceiptGiftCard[]; // Cards sold in this sale
+}
+
+const PAYMENT_LABELS: Record<PaymentMethodType, string> = {
+  CASH: "Cash",
+  BANK_TRANSFER: "Bank transfer",
+  REMITLY: "Remitly",
+  CREDIT_CARD: "Card",
+  PAYPAL: "PayPal",
+  CHECK: "Check",
+  ON_ACCOUNT: "On account",
+  GIFT_CARD: "Gift card",
+  OTHER: "Other",
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// "Price override - Damaged item (was 12.00)"
+function adjustmentLabel(item: Receipt["items"][number]) {
+  return item.originalPrice !== null
+    ? `${item.adjustment} (was ${item.originalPrice.toFixed(2)})`
+    : item.adjustment ?? "";
+}
+
+function formatDateTime(date: Date) {
+  return date.toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function paymentLabel(payment: {
+  paymentMethod: PaymentMethodType;
+  checkNumber: string | null;
+  giftCard: { code: string } | null;
+}) {
+  if (payment.checkNumber) {
+    return `${PAYMENT_LABELS[payment.paymentMethod]} #${payment.checkNumber}`;
+  }
+  if (payment.giftCard) {
+    return `${PAYMENT_LABELS[payment.paymentMethod]} ${maskGiftCardCode(payment.giftCard.code)}`;
+  }
+  return PAYMENT_LABELS[payment.paymentMethod];
+}
+
+export const receiptService = {
+  /**
+   * Receipt content of an order, from the snapshot stored at sale time
+   */
+  async getReceipt(orderId: string, shopId: string): Promise<Receipt | null> {
+    const [order, shop] = await Promise.all([
+      db.order.findFirst({
+        where: { id: orderId, shopId },
+        include: {
+          user: { select: { name: true, email: true } },
+          processedBy: { select: { name: true } },
+          items: { orderBy: { createdAt: "asc" } },
+          orderPayments: {
+            include: { giftCard: { select: { code: true } } },
+            orderBy: { createdAt: "asc" },
+          },
+          giftCards: {
+            select: { code: true, initialValue: true, expiresAt: true },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      }),
+      getShopWithSettings(shopId),
+    ]);
+    if (!order || !shop) return null;
+
+    const breakdown = buildTvaBreakdown(order.items, order.discount);
+    const payments = order.orderPayments.map((payment) => ({
+      label: paymentLabel(payment),
+      amount: payment.amount,
+      cashGiven: payment.paymentMethod === "CASH" ? payment.cashGiven : null,
+      cashChange: payment.paymentMethod === "CASH" ? payment.cashChange : null,
+    }));
+
+    return {
+      shopName: shop.name,
+      shopLines: getShopDocumentLines(shop),
+      currency: shop.settings?.currency || "DT",
+      orderNumber: order.orderNumber,
+      date: order.createdAt,
+      cashier: order.processedBy?.name ?? null,
+      // Sales without a customer are recorded on the cashier's account
+      customer:
+        order.userId === order.processedByUserId ? null : order.user.name || order.user.email,
+      items: order.items.map((item) => ({
+        name: item.productName,
+        quantity: formatQuantity(item.quantity, item.unit),
+        unitPrice: item.unitPrice,
+        total: item.total,
+        tva: item.productTva,
+        adjustment: describeLineAdjustment(item),
+        originalPrice: item.priceOverridden ? item.originalPrice : null,
+        lineDiscount: item.lineDiscountAmount,
+      })),
+      subtotal: roundMoney(order.items.reduce((sum, item) => sum + item.total, 0)),
+      discount: order.discount,
+      discountCode: order.discountCodeValue,
+      tva: breakdown.rates,
+      total: order.total,
+      payments,
+      change: roundMoney(payments.reduce((sum, payment) => sum + (payment.cashChange ?? 0), 0)),
+      giftCards: order.giftCards.map((card) => ({
+        code: formatGiftCardCode(card.code),
+        value: card.initialValue,
+        expiresAt: card.expiresAt,
+      })),
+    };
+  },
+
+  /**
+   * Printable HTML page sized for the thermal paper roll
+   */
+  renderHtml(receipt: Receipt, width: ReceiptPaperWidth, options: { autoPrint?: boolean } = {}) {
+    const money = (amount: number) => `${amount.toFixed(2)} ${escapeHtml(receipt.currency)}`;
+    const row = (left: string, right: string, className = "") =>
+      `<div class="row ${className}"><span>${left}</span><span>${right}</span></div>`;
+
+    const items = receipt.items
+      .map(
+        (item) => `
+      <div class="item">
+        <div>${escapeHtml(item.name)}</div>
+        ${row(`${item.quantity} x ${money(item.unitPrice)} <small>TVA ${item.tva}%</small>`, money(roundMoney(item.total + item.lineDiscount)))}
+        ${item.adjustment ? row(`<small>${escapeHtml(adjustmentLabel(item))}</small>`, item.lineDiscount > 0 ? `-${money(item.lineDiscount)}` : "") : ""}
+      </div>`
+      )
+      .join("");
+
+    const totals = [
+      row("Subtotal", money(receipt.subtotal)),
+      receipt.discount > 0
+        ? row(
+            receipt.discountCode ? `Discount (${escapeHtml(receipt.discountCode)})` : "Discount",
+            `-${money(receipt.discount)}`
+          )
+        : "",
+      ...receipt.tva.map((rate) => row(`TVA ${rate.rate}% on ${money(rate.base)}`, money(rate.tax))),
+      row("TOTAL", money(receipt.total), "total"),
+    ].join("");
+
+    const payments = receipt.payments
+      .map((payment) =>
+        [
+          row(escapeHtml(payment.label), money(payment.amount)),
+          payment.cashGiven ? row("&nbsp;&nbsp;Given", money(payment.cashGiven)) : "",
+        ].join("")
+      )
+      .join("");
+
+    const giftCards = receipt.giftCards
+      .map((card) =>
+        [
+          row("Gift card", money(card.value)),
+          `<div class="center code">${escapeHtml(card.code)}</div>`,
+          card.expiresAt
+            ? `<div class="center"><small>Valid until ${card.expiresAt.toLocaleDateString("fr-FR")}</small></div>`
+            : "",
+        ].join("")
+      )
+      .join("");
+
+    return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(receipt.orderNumber)}</title>
+<style>
+  @page { size: ${width}mm auto; margin: 0; }
+  * { box-sizing: border-box; }
+  body { width: ${width}mm; margin: 0; padding: 3mm; font-family: "Courier New", monospace; font-size: ${width === 58 ? 10 : 12}px; color: #000; }
+  .center { text-align: center; }
+  .shop { font-size: 1.4em; font-weight: bold; }
+  .row { display: flex; justify-content: space-between; gap: 4px; }
+  .row span:last-child { white-space: nowrap; }
+  .item { margin-bottom: 2px; }
+  .total { font-weight: bold; font-size: 1.2em; margin-top: 2px; }
+  hr { border: none; border-top: 1px dashed #000; margin: 4px 0; }
+  .barcode svg { max-width: 100%; height: auto; }
+  small { font-size: 0.8em; }
+  .code { font-size: 1.3em; font-weight: bold; letter-spacing: 1px; }
+</style>
+</head>
+<body>
+  <div class="center">
+    <div class="shop">${escapeHtml(receipt.shopName)}</div>
+    ${receipt.shopLines.map((line) => `<div>${escapeHtml(line)}</div>`).join("")}
+  </div>
+  <hr>
+  ${row("Order", escapeHtml(receipt.orderNumber))}
+  ${row("Date", formatDateTime(receipt.date))}
+  ${receipt.cashier ? row("Cashier", escapeHtml(receipt.cashier)) : ""}
+  ${receipt.customer ? row("Customer", escapeHtml(receipt.customer)) : ""}
+  <hr>
+  ${items}
+  <hr>
+  ${totals}
+  <hr>
+  ${payments}
+  ${receipt.change > 0 ? row("Change", money(receipt.change), "total") : ""}
+  <hr>
+  ${giftCards ? `${giftCards}<hr>` : ""}
+  <div class="center barcode">${code128Svg(receipt.orderNumber, { height: 40 })}</div>
+  <div class="center">${escapeHtml(receipt.orderNumber)}</div>
+  <p class="center">Thank you for your visit!</p>
+  ${options.autoPrint ? "<script>window.addEventListener('load', () => window.print());</script>" : ""}
+</body>
+</html>`;
+  },
+
+  /**
+   * Raw ESC/POS commands, to send as is to the receipt printer
+   */
+  renderEscPos(receipt: Receipt, width: ReceiptPaperWidth): Uint8Array {
+    const printer = createEscPosWriter(PAPER_COLUMNS[width]);
+    const money = (amount: number) => `${amount.toFixed(2)} ${receipt.currency}`;
+
+    printer.align("center");
+    printer.doubleSize(true);
+    printer.line(receipt.shopName);
+    printer.doubleSize(false);
+    receipt.shopLines.forEach((line) => wrapText(line, printer.columns).forEach((part) => printer.line(part)));
+    printer.align("left");
+    printer.separator();
+
+    printer.columnsLine("Order", receipt.orderNumber);
+    printer.columnsLine("Date", formatDateTime(receipt.date));
+    if (receipt.cashier) printer.columnsLine("Cashier", receipt.cashier);
+    if (receipt.customer) printer.columnsLine("Customer", receipt.customer);
+    printer.separator();
+
+    receipt.items.forEach((item) => {
+      wrapText(item.name, printer.columns).forEach((part) => printer.line(part));
+      printer.columnsLine(
+        `  ${item.quantity} x ${item.unitPrice.toFixed(2)} (TVA ${item.tva}%)`,
+        money(roundMoney(item.total + item.lineDiscount))
+      );
+      if (item.adjustment) {
+        wrapText(adjustmentLabel(item), printer.columns - 2).forEach((part) =>
+          printer.line(`  ${part}`)
+        );
+        if (item.lineDiscount > 0) {
+          printer.columnsLine("  Line discount", `-${money(item.lineDiscount)}`);
+        }
+      }
+    });
+    printer.separator();
+
+    printer.columnsLine("Subtotal", money(receipt.subtotal));
+    if (receipt.discount > 0) {
+      printer.columnsLine(
+        receipt.discountCode ? `Discount (${receipt.discountCode})` : "Discount",
+        `-${money(receipt.discount)}`
+      );
+    }
+    receipt.tva.forEach((rate) => {
+      printer.columnsLine(`TVA ${rate.rate}% on ${rate.base.toFixed(2)}`, money(rate.tax));
+    });
+    printer.bold(true);
+    printer.columnsLine("TOTAL", money(receipt.total));
+    printer.bold(false);
+    printer.separator();
+
+    receipt.payments.forEach((payment) => {
+      printer.columnsLine(payment.label, money(payment.amount));
+      if (payment.cashGiven) printer.columnsLine("  Given", money(payment.cashGiven));
+    });
+    if (receipt.change > 0) {
+      printer.bold(true);
+      printer.columnsLine("Change", money(receipt.change));
+      printer.bold(false);
+    }
+    printer.separator();
+
+    if (receipt.giftCards.length > 0) {
+      receipt.giftCards.forEach((card) => {
+        printer.columnsLine("Gift card", money(card.value));
+        printer.align("center");
+        printer.bold(true);
+        printer.line(card.code);
+        printer.bold(false);
+        if (card.expiresAt) printer.line(`Valid until ${card.expiresAt.toLocaleDateString("fr-FR")}`);
+        printer.align("left");
+      });
+      printer.separator();
+    }
+
+    printer.align("center");
+    printer.barcode(receipt.orderNumber);
+    printer.line("Thank you for your visit!");
+    printer.feed(3);
+    printer.cut();
+
+    return printer.toBytes();
+  },
+};
@@ -0,0 +1,452 @@
+// src/lib/services/register.service.ts
+import { CashMovementType, PaymentMethodType, Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { buildTvaBreakdown, TvaLine } from "@/lib/services/invoice.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export class RegisterError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RegisterError";
+  }
+}
+
+// Staff member operating a register; admins may operate any register of the shop
+export interface RegisterActor {
+  id: string;
+  isAdmin?: boolean;
+}
+
+export interface OpenSessionInput {
+  openingFloat: number;
+  notes?: string | null;
+}
+
+export interface CashMovementInput {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+}
+
+export interface CloseSessionInput {
+  countedCash: number;
+  notes?: string | null;
+}
+
+export interface ZReportPaymentLine {
+  method: PaymentMethodType;
+  count: number;
+  amount: number; // Collected with this method
+  refunded: number; // Paid back with this method from this register
+  net: number;
+}
+
+export interface ZReport {
+  sessionId: string;
+  cashier: string;
+  openedAt: string;
+  closedAt: string | null;
+  orders: {
+    count: number;
+    subtotal: number; // Excluding TVA
+    tax: number;
+    discount: number;
+    total: number;
+  };
+  tva: TvaLine[];
+  payments: ZReportPaymentLine[];
+  refunds: {
+    count: number;
+    total: number;
+  };
+  cash: {
+    openingFloat: number;
+    sales: number;
+    refunds: number;
+    settlements: number; // Customer account payments taken in cash
+    cashIn: number;
+    cashOut: number;
+    expected: number;
+    counted: number | null;
+    difference: number | null;
+  };
+}
+
+/**
+ * Amounts must be positive numbers with at most cent precision
+ */
+function parseAmount(value: number, label: string, allowZero = false): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new RegisterError(`${label} must be ${allowZero ? "zero or more" : "greater than zero"}`);
+  }
+  return roundMoney(value);
+}
+
+function assertCanOperate(session: { userId: string }, actor: RegisterActor) {
+  if (session.userId !== actor.id && !actor.isAdmin) {
+    throw new RegisterError("This register belongs to another staff member", 403);
+  }
+}
+
+export const registerService = {
+  /**
+   * Get the register the staff member currently has open in the shop
+   */
+  async getOpenSession(client: DbClient, shopId: string, userId: string) {
+    return await client.registerSession.findFirst({
+      where: { shopId, userId, status: "OPEN" },
+    });
+  },
+
+  /**
+   * Get the open register of a staff member or fail, for recording sales. The
+   * row is share-locked so the register cannot be closed while the sale is saved.
+   */
+  async requireOpenSession(tx: Prisma.TransactionClient, shopId: string, userId: string) {
+    const [locked] = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "RegisterSession"
+      WHERE "shopId" = ${shopId} AND "userId" = ${userId} AND "status" = 'OPEN'
+      FOR SHARE`;
+    if (!locked) {
+      throw new RegisterError("Open the register before recording sales", 409);
+    }
+    return await tx.registerSession.findUniqueOrThrow({ where: { id: locked.id } });
+  },
+
+  /**
+   * Register a sale made offline is counted in: the session the till had open,
+   * or else the cashier's session that was open when the sale was made. It may
+   * have been closed since. Null when none matches, the sale is still recorded.
+   */
+  async findSaleSession(
+    client: DbClient,
+    shopId: string,
+    userId: string,
+    sessionId: string | null | undefined,
+    soldAt: Date
+  ) {
+    if (sessionId) {
+      const session = await client.registerSession.findFirst({
+        where: { id: sessionId, shopId, openedAt: { lte: soldAt } },
+      });
+      if (session) return session;
+    }
+    return await client.registerSession.findFirst({
+      where: {
+        shopId,
+        userId,
+        openedAt: { lte: soldAt },
+        OR: [{ closedAt: null }, { closedAt: { gte: soldAt } }],
+      },
+      orderBy: { openedAt: "desc" },
+    });
+  },
+
+  /**
+   * List the register sessions of the shop, most recent first
+   */
+  async listSessions(
+    shopId: string,
+    filters: { userId?: string; status?: "OPEN" | "CLOSED"; skip?: number; take?: number } = {}
+  ) {
+    const where: Prisma.RegisterSessionWhereInput = {
+      shopId,
+      userId: filters.userId,
+      status: filters.status,
+    };
+    const [sessions, total] = await Promise.all([
+      db.registerSession.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          closedBy: { select: { id: true, name: true } },
+          _count: { select: { orders: true } },
+        },
+        orderBy: { openedAt: "desc" },
+        skip: filters.skip,
+        take: filters.take,
+      }),
+      db.registerSession.count({ where }),
+    ]);
+    return { sessions, total };
+  },
+
+  /**
+   * Get a register session with its cash movements
+   */
+  async getSession(sessionId: string, shopId: string) {
+    return await db.registerSession.findFirst({
+      where: { id: sessionId, shopId },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        closedBy: { select: { id: true, name: true } },
+        movements: {
+          include: { createdBy: { select: { name: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+  },
+
+  /**
+   * Open a register shift with the cash put in the drawer
+   */
+  async openSession(shopId: string, actor: RegisterActor, input: OpenSessionInput) {
+    const openingFloat = parseAmount(input.openingFloat, "Opening float", true);
+
+    const existing = await this.getOpenSession(db, shopId, actor.id);
+    if (existing) {
+      throw new RegisterError("You already have an open register", 409);
+    }
+
+    try {
+      return await db.registerSession.create({
+        data: {
+          shopId,
+          userId: actor.id,
+          openingFloat,
+          openingNotes: input.notes || null,
+        },
+      });
+    } catch (error) {
+      // Opened concurrently (one open register per staff member is enforced by the database)
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new RegisterError("You already have an open register", 409);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Record cash added to or taken out of an open register
+   */
+  async addMovement(
+    sessionId: string,
+    shopId: string,
+    actor: RegisterActor,
+    input: CashMovementInput
+  ) {
+    if (input.type !== "CASH_IN" && input.type !== "CASH_OUT") {
+      throw new RegisterError("Invalid cash movement type");
+    }
+    const amount = parseAmount(input.amount, "Amount");
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new RegisterError("A reason is required for cash movements");
+    }
+
+    return await db.$transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId, shopId);
+      assertCanOperate(session, actor);
+
+      if (input.type === "CASH_OUT") {
+        const { cash } = await buildReport(tx, session);
+        if (amount > cash.expected) {
+          throw new RegisterError(
+            `Only ${cash.expected.toFixed(2)} is expected in the drawer`
+          );
+        }
+      }
+
+      return await tx.cashMovement.create({
+        data: {
+          sessionId,
+          type: input.type,
+          amount,
+          reason,
+          createdById: actor.id,
+        },
+      });
+    });
+  },
+
+  /**
+   * Running report of a register (X-report) while it is open, or the Z-report
+   * stored when it was closed
+   */
+  async getReport(sessionId: string, shopId: string): Promise<ZReport | null> {
+    const session = await db.registerSession.findFirst({
+      where: { id: sessionId, shopId },
+    });
+    if (!session) {
+      return null;
+    }
+    if (session.status === "CLOSED" && session.zReport) {
+      return session.zReport as unknown as ZReport;
+    }
+    return await buildReport(db, session);
+  },
+
+  /**
+   * Close a register with the cash counted in the drawer and freeze its Z-report
+   */
+  async closeSession(
+    sessionId: string,
+    shopId: string,
+    actor: RegisterActor,
+    input: CloseSessionInput
+  ) {
+    const countedCash = parseAmount(input.countedCash, "Counted cash", true);
+
+    return await db.$transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId, shopId);
+      assertCanOperate(session, actor);
+
+      const closedAt = new Date();
+      const report = await buildReport(tx, { ...session, closedAt });
+      const cashDifference = roundMoney(countedCash - report.cash.expected);
+      report.cash.counted = countedCash;
+      report.cash.difference = cashDifference;
+
+      return await tx.registerSession.update({
+        where: { id: sessionId },
+        data: {
+          status: "CLOSED",
+          expectedCash: report.cash.expected,
+          countedCash,
+          cashDifference,
+          closingNotes: input.notes || null,
+          zReport: report as unknown as Prisma.InputJsonValue,
+          closedAt,
+          closedById: actor.id,
+        },
+      });
+    });
+  },
+};
+
+/**
+ * Lock an open register so sales, movements and its closing are serialized
+ */
+async function lockSession(tx: Prisma.TransactionClient, sessionId: string, shopId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "RegisterSession" WHERE "id" = ${sessionId} FOR UPDATE`;
+
+  const session = await tx.registerSession.findFirst({
+    where: { id: sessionId, shopId },
+  });
+  if (!session) {
+    throw new RegisterError("Register session not found", 404);
+  }
+  if (session.status !== "OPEN") {
+    throw new RegisterError("This register is already closed");
+  }
+  return session;
+}
+
+/**
+ * Totals of a register session: sales, TVA, payments per method and the cash
+ * that should be in the drawer
+ */
+async function buildReport(
+  client: DbClient,
+  session: {
+    id: string;
+    userId: string;
+    openingFloat: number;
+    openedAt: Date;
+    closedAt: Date | null;
+    countedCash?: number | null;
+    cashDifference?: number | null;
+  }
+): Promise<ZReport> {
+  const [cashier, orders, refunds, movements, settlements] = await Promise.all([
+    client.user.findUnique({ where: { id: session.userId }, select: { name: true, email: true } }),
+    // Voided sales were handed back, they neither count as sales nor as cash
+    client.order.findMany({
+      where: { registerSessionId: session.id, status: { not: "CANCELLED" } },
+      select: {
+        subtotal: true,
+        tax: true,
+        discount: true,
+        total: true,
+        items: { select: { total: true, productTva: true, netTotal: true, taxAmount: true } },
+        orderPayments: { select: { paymentMethod: true, amount: true } },
+      },
+    }),
+    client.paymentRefund.findMany({
+      where: { registerSessionId: session.id },
+      select: { amount: true, orderPayment: { select: { paymentMethod: true } } },
+    }),
+    client.cashMovement.findMany({
+      where: { sessionId: session.id },
+      select: { type: true, amount: true },
+    }),
+    client.customerLedgerEntry.findMany({
+      where: { registerSessionId: session.id, type: "SETTLEMENT", paymentMethod: "CASH" },
+      select: { amount: true },
+    }),
+  ]);
+
+  const payments = new Map<PaymentMethodType, ZReportPaymentLine>();
+  const paymentLine = (method: PaymentMethodType) => {
+    const line = payments.get(method) ?? { method, count: 0, amount: 0, refunded: 0, net: 0 };
+    payments.set(method, line);
+    return line;
+  };
+
+  const tvaByRate = new Map<number, TvaLine>();
+  for (const order of orders) {
+    for (const payment of order.orderPayments) {
+      const line = paymentLine(payment.paymentMethod);
+      line.count += 1;
+      line.amount = roundMoney(line.amount + payment.amount);
+    }
+    for (const rate of buildTvaBreakdown(order.items, order.discount).rates) {
+      const current = tvaByRate.get(rate.rate) ?? { rate: rate.rate, base: 0, tax: 0, total: 0 };
+      current.base = roundMoney(current.base + rate.base);
+      current.tax = roundMoney(current.tax + rate.tax);
+      current.total = roundMoney(current.total + rate.total);
+      tvaByRate.set(rate.rate, current);
+    }
+  }
+  for (const refund of refunds) {
+    const line = paymentLine(refund.orderPayment.paymentMethod);
+    line.refunded = roundMoney(line.refunded + refund.amount);
+  }
+  payments.forEach((line) => {
+    line.net = roundMoney(line.amount - line.refunded);
+  });
+
+  const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0));
+  const cashIn = sum(movements.filter((m) => m.type === "CASH_IN").map((m) => m.amount));
+  const cashOut = sum(movements.filter((m) => m.type === "CASH_OUT").map((m) => m.amount));
+  const cashSales = payments.get("CASH")?.amount ?? 0;
+  const cashRefunds = payments.get("CASH")?.refunded ?? 0;
+  // Settlements lower the customer balance, so their amounts are negative
+  const cashSettlements = sum(settlements.map((entry) => -entry.amount));
+
+  return {
+    sessionId: session.id,
+    cashier: cashier?.name || cashier?.email || "",
+    openedAt: session.openedAt.toISOString(),
+    closedAt: session.closedAt ? session.closedAt.toISOString() : null,
+    orders: {
+      count: orders.length,
+      subtotal: sum(orders.map((order) => order.subtotal)),
+      tax: sum(orders.map((order) => order.tax)),
+      discount: sum(orders.map((order) => order.discount)),
+      total: sum(orders.map((order) => order.total)),
+    },
+    tva: [...tvaByRate.values()].sort((a, b) => a.rate - b.rate),
+    payments: [...payments.values()].sort((a, b) => a.method.localeCompare(b.method)),
+    refunds: {
+      count: refunds.length,
+      total: sum(refunds.map((refund) => refund.amount)),
+    },
+    cash: {
+      openingFloat: session.openingFloat,
+      sales: cashSales,
+      refunds: cashRefunds,
+      settlements: cashSettlements,
+      cashIn,
+      cashOut,
+      expected: roundMoney(
+        session.openingFloat + cashSales - cashRefunds + cashSettlements + cashIn - cashOut
+      ),
+      counted: session.countedCash ?? null,
+      difference: session.cashDifference ?? null,
+    },
+  };
+}
@@ -0,0 +1,440 @@
+// src/lib/services/returns.service.ts
+import { db } from "@/lib/prisma";
+import { canTransitionOrder, canTransitionPayment } from "@/lib/order-status";
+import { creditNoteService } from "@/lib/services/credit-note.service";
+import { customerAccountService } from "@/lib/services/customer-account.service";
+import { GiftCardError, giftCardService } from "@/lib/services/gift-card.service";
+import { orderEventService } from "@/lib/services/order-event.service";
+import { posApprovalService } from "@/lib/services/pos-approval.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { registerService } from "@/lib/services/register.service";
+import { stockLotService } from "@/lib/services/stock-lot.service";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
+import { formatQuantity, isValidQuantity, roundQuantity } from "@/lib/units";
+
+export class ReturnError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ReturnError";
+  }
+}
+
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  restock?: boolean; // Defaults to true
+}
+
+export interface RefundInput {
+  orderPaymentId: string;
+  amount: number;
+  notes?: string | null;
+  storeCredit?: boolean; // Credit the customer account instead of giving money back
+}
+
+export interface CreateReturnInput {
+  items: ReturnItemInput[];
+  refunds?: RefundInput[];
+  reason?: string | null;
+  issueCreditNote?: boolean; // Credit the returned items on the invoice
+  createdById?: string | null;
+  approvalIds?: string[] | null; // Admin approval of the refunds, for staff members
+}
+
+// Derived from the returned quantities, the order status is only changed once everything came back
+export type ReturnState = "NONE" | "PARTIAL" | "FULL";
+
+// Only goods the customer actually received can be returned
+const RETURNABLE_STATUSES = ["SHIPPED", "DELIVERED"];
+
+/**
+ * Whether none, some or all of the order items were returned
+ */
+export function getReturnState(
+  items: { quantity: number; returnItems: { quantity: number }[] }[]
+): ReturnState {
+  const ordered = items.reduce((sum, item) => sum + item.quantity, 0);
+  const returned = items.reduce(
+    (sum, item) => sum + item.returnItems.reduce((total, line) => total + line.quantity, 0),
+    0
+  );
+
+  if (returned === 0) return "NONE";
+  return returned >= ordered ? "FULL" : "PARTIAL";
+}
+
+export const returnsService = {
+  /**
+   * List the returns of an order with their items and refunds
+   */
+  async getOrderReturns(orderId: string, shopId: string) {
+    return await db.orderReturn.findMany({
+      where: { orderId, shopId },
+      include: {
+        items: {
+          include: {
+            orderItem: { select: { productName: true, productSku: true } },
+          },
+        },
+        refunds: {
+          include: {
+            orderPayment: { select: { paymentMethod: true } },
+          },
+        },
+        creditNote: { select: { id: true, creditNoteNumber: true, total: true } },
+        createdBy: { select: { name: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  },
+
+  /**
+   * Record items given back by the customer: restock them if asked, refund
+   * the payments and credit the invoice, all in one transaction.
+   */
+  async createReturn(orderId: string, shopId: string, input: CreateReturnInput) {
+    if (!input.items?.length) {
+      throw new ReturnError("Select at least one item to return");
+    }
+
+    const order = await db.order.findFirst({
+      where: { id: orderId, shopId },
+      select: { id: true, status: true },
+    });
+    if (!order) {
+      throw new ReturnError("Order not found", 404);
+    }
+    if (!RETURNABLE_STATUSES.includes(order.status)) {
+      throw new ReturnError(`Items of a ${order.status.toLowerCase()} order cannot be returned`);
+    }
+
+    // Issued before the transaction since invoices have their own
+    const invoice = input.issueCreditNote
+      ? await creditNoteService.ensureInvoice(orderId, shopId, input.createdById)
+      : null;
+
+    const { orderReturn, creditNote } = await db.$transaction(async (tx) => {
+      // Lock the order so concurrent returns cannot exceed the sold quantities
+      await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+
+      const current = await tx.order.findFirstOrThrow({
+        where: { id: orderId, shopId },
+        include: {
+          items: {
+            include: {
+              returnItems: { select: { quantity: true } },
+              product: { select: { isGiftCard: true } },
+            },
+          },
+          orderPayments: {
+            include: { refunds: { select: { amount: true } } },
+          },
+          user: { select: { id: true, role: true } },
+        },
+      });
+      if (!RETURNABLE_STATUSES.includes(current.status)) {
+        throw new ReturnError(`Items of a ${current.status.toLowerCase()} order cannot be returned`);
+      }
+
+      // Validate the returned quantities
+      const returnedByItem = new Map(
+        current.items.map((item) => [
+          item.id,
+          {
+            item,
+            remaining: roundQuantity(
+              item.quantity - item.returnItems.reduce((sum, line) => sum + line.quantity, 0)
+            ),
+          },
+        ])
+      );
+      const items = input.items.map(({ orderItemId, quantity, restock }) => {
+        const entry = returnedByItem.get(orderItemId);
+        if (!entry) {
+          throw new ReturnError("Item does not belong to this order");
+        }
+        if (!isValidQuantity(quantity, entry.item.unit)) {
+          throw new ReturnError(`Invalid quantity for ${entry.item.productName}`);
+        }
+        if (quantity > entry.remaining) {
+          throw new ReturnError(
+            `Only ${formatQuantity(entry.remaining, entry.item.unit)} of ${entry.item.productName} can still be returned`
+          );
+        }
+        entry.remaining = roundQuantity(entry.remaining - quantity);
+        // Gift cards were never in stock, their unused cards are voided below
+        const isGiftCard = entry.item.product?.isGiftCard === true;
+        return {
+          orderItemId,
+          quantity,
+          restock: restock !== false && !isGiftCard,
+          variantId: entry.item.variantId,
+          isGiftCard,
+        };
+      });
+
+      // Validate the refunds against what was paid with each payment
+      const refundableByPayment = new Map(
+        current.orderPayments.map((payment) => [
+          payment.id,
+          roundMoney(payment.amount - payment.refunds.reduce((sum, refund) => sum + refund.amount, 0)),
+        ])
+      );
+      const paymentsById = new Map(current.orderPayments.map((payment) => [payment.id, payment]));
+      const refunds = (input.refunds ?? [])
+        .filter((refund) => refund.amount !== 0)
+        .map((refund) => {
+          const refundable = refundableByPayment.get(refund.orderPaymentId);
+          if (refundable === undefined) {
+            throw new ReturnError("Payment does not belong to this order");
+          }
+          const amount = roundMoney(refund.amount);
+          if (!(amount > 0)) {
+            throw new ReturnError("Refund amounts must be positive");
+          }
+          if (amount > refundable) {
+            throw new ReturnError(`Only ${refundable.toFixed(2)} can still be refunded on this payment`);
+          }
+          refundableByPayment.set(refund.orderPaymentId, roundMoney(refundable - amount));
+          const payment = paymentsById.get(refund.orderPaymentId);
+          // What was paid with a gift card goes back on the card, and what was
+          // charged to the account can only go back to the account
+          const giftCardId = payment?.paymentMethod === "GIFT_CARD" ? payment.giftCardId : null;
+          const storeCredit =
+            !giftCardId && (refund.storeCredit === true || payment?.paymentMethod === "ON_ACCOUNT");
+          return {
+            orderPaymentId: refund.orderPaymentId,
+            amount,
+            notes: refund.notes || null,
+            storeCredit,
+            giftCardId,
+          };
+        });
+
+      const storeCreditTotal = roundMoney(
+        refunds.filter((refund) => refund.storeCredit).reduce((sum, refund) => sum + refund.amount, 0)
+      );
+      if (storeCreditTotal > 0 && current.user.role !== "CUSTOMER") {
+        throw new ReturnError("Store credit can only be given to a registered customer");
+      }
+
+      // Giving money back is restricted to admins, or needs their approval
+      if (refunds.length > 0 && input.createdById) {
+        const refundTotal = roundMoney(refunds.reduce((sum, refund) => sum + refund.amount, 0));
+        await posApprovalService.requireApproval(tx, {
+          shopId,
+          userId: input.createdById,
+          action: "REFUND",
+          approvalIds: input.approvalIds,
+          orderId,
+          value: refundTotal,
+          details: { refundTotal },
+        });
+      }
+
+      // Refunds are paid from the register the staff member has open, if any
+      const register = input.createdById
+        ? await registerService.getOpenSession(tx, shopId, input.createdById)
+        : null;
+
+      const creditNote = invoice
+        ? await creditNoteService.issueCreditNote(tx, orderId, shopId, invoice.id, {
+            items: items.map(({ orderItemId, quantity }) => ({ orderItemId, quantity })),
+            includeShipping: false,
+            reason: input.reason || "Items returned",
+            createdById: input.createdById,
+          })
+        : null;
+
+      const orderReturn = await tx.orderReturn.create({
+        data: {
+          orderId,
+          shopId,
+          reason: input.reason || null,
+          refundTotal: roundMoney(refunds.reduce((sum, refund) => sum + refund.amount, 0)),
+          creditNoteId: creditNote?.id,
+          createdById: input.createdById || null,
+          items: {
+            create: items.map(({ orderItemId, quantity, restock }) => ({
+              orderItemId,
+              quantity,
+              restock,
+            })),
+          },
+          refunds: {
+            create: refunds.map(({ giftCardId, ...refund }) => ({
+              ...refund,
+              registerSessionId: refund.storeCredit || giftCardId ? null : register?.id ?? null,
+            })),
+          },
+        },
+      });
+
+      if (storeCreditTotal > 0) {
+        await customerAccountService.recordEntry(tx, {
+          shopId,
+          customerId: current.user.id,
+          type: "STORE_CREDIT",
+          amount: -storeCreditTotal,
+          orderId,
+          returnId: orderReturn.id,
+          notes: input.reason,
+          createdById: input.createdById,
+        });
+      }
+
+      for (const refund of refunds) {
+        if (!refund.giftCardId) continue;
+        await giftCardService.refund(tx, {
+          giftCardId: refund.giftCardId,
+          amount: refund.amount,
+          orderId,
+          createdById: input.createdById,
+        });
+      }
+
+      // Gift cards given back are voided so they cannot be spent anymore
+      for (const item of items) {
+        if (!item.isGiftCard) continue;
+        try {
+          await giftCardService.cancelCards(tx, {
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+            orderId,
+            createdById: input.createdById,
+          });
+        } catch (error) {
+          if (error instanceof GiftCardError) {
+            throw new ReturnError(error.message, error.status);
+          }
+          throw error;
+        }
+      }
+
+      // Put the restocked units back on their variants and in the lots they were sold from
+      for (const item of items) {
+        if (item.restock && item.variantId) {
+          await stockMovementService.record(tx, {
+            shopId,
+            variantId: item.variantId,
+            reason: "RETURN",
+            quantity: item.quantity,
+            orderId,
+            returnId: orderReturn.id,
+            createdById: input.createdById,
+          });
+          await stockLotService.restore(tx, item.orderItemId, item.quantity);
+        }
+      }
+
+      // The order only becomes RETURNED once every item came back
+      const state = getReturnState(
+        current.items.map((item) => ({
+          quantity: item.quantity,
+          returnItems: [{ quantity: item.quantity - (returnedByItem.get(item.id)?.remaining ?? 0) }],
+        }))
+      );
+      const refundedAny = refunds.length > 0 || current.orderPayments.some((payment) => payment.refunds.length > 0);
+      const fullyRefunded =
+        current.orderPayments.length > 0 &&
+        [...refundableByPayment.values()].every((refundable) => refundable <= 0);
+      const paymentStatus = fullyRefunded
+        ? "REFUNDED"
+        : refundedAny
+          ? "PARTIALLY_REFUNDED"
+          : current.paymentStatus;
+
+      await orderEventService.record(tx, {
+        orderId,
+        shopId,
+        type: "RETURNED",
+        message: input.reason,
+        metadata: {
+          returnId: orderReturn.id,
+          items: items.map(({ orderItemId, quantity, restock }) => ({
+            orderItemId,
+            productName: returnedByItem.get(orderItemId)?.item.productName ?? null,
+            quantity,
+            restock,
+          })),
+        },
+        actorId: input.createdById,
+      });
+      if (refunds.length > 0) {
+        await orderEventService.record(tx, {
+          orderId,
+          shopId,
+          type: "REFUNDED",
+          toValue: orderReturn.refundTotal.toFixed(2),
+          metadata: {
+            returnId: orderReturn.id,
+            refunds: refunds.map(({ orderPaymentId, amount, storeCredit, giftCardId }) => ({
+              orderPaymentId,
+              amount,
+              storeCredit,
+              giftCardId,
+            })),
+          },
+          actorId: input.createdById,
+        });
+      }
+
+      // Statuses follow the order state machine; the stock was handled above
+      const nextStatus =
+        state === "FULL" && canTransitionOrder(current.status, "RETURNED") ? "RETURNED" : undefined;
+      const nextPaymentStatus =
+        paymentStatus !== current.paymentStatus &&
+        canTransitionPayment(current.paymentStatus, paymentStatus)
+          ? paymentStatus
+          : undefined;
+      await tx.order.update({
+        where: { id: orderId },
+        data: {
+          status: nextStatus,
+          paymentStatus: nextPaymentStatus,
+        },
+      });
+      if (nextStatus) {
+        await orderEventService.record(tx, {
+          orderId,
+          shopId,
+          type: "STATUS_CHANGED",
+          fromValue: current.status,
+          toValue: nextStatus,
+          actorId: input.createdById,
+        });
+      }
+      if (nextPaymentStatus) {
+        await orderEventService.record(tx, {
+          orderId,
+          shopId,
+          type: "PAYMENT_STATUS_CHANGED",
+          fromValue: current.paymentStatus,
+          toValue: nextPaymentStatus,
+          actorId: input.createdById,
+        });
+      }
+
+      await tx.notification.create({
+        data: {
+          title: `Order ${current.orderNumber} Return`,
+          message:
+            state === "FULL"
+              ? "All items of your order have been returned"
+              : "Some items of your order have been returned",
+          type: "ORDER_UPDATE",
+          userId: current.userId,
+          shopId,
+        },
+      });
+
+      return { orderReturn, creditNote };
+    });
+
+    if (creditNote) {
+      await creditNoteService.storeCreditNotePdf(creditNote);
+    }
+
+    return orderReturn;
+  },
+};
@@ -46,6 +46,15 @@ export interface ImageMetadata {
 
 export type ImageFolder = 'products' | 'categories' | 'shops' | 'users' | 'logos' | 'banners' | 'temp' | 'discounts' | 'discount-codes';
 
+export type DocumentFolder = 'invoices' | 'credit-notes';
+
+export interface UploadedDocument {
+  key: string;
+  size: number;
+  contentType: string;
+  folder: DocumentFolder;
+}
+
 export const s3EnhancedService = {
   // Configuration
   config: {
@@ -508,6 +517,65 @@ export const s3EnhancedService = {
       throw error;
     }
   },
+
+  /**
+   * Upload a generated document (PDF...) under a fixed, shop-scoped key.
+   * Documents are private: they are served through our API, never by public URL.
+   */
+  async uploadDocument(
+    body: Uint8Array,
+    fileName: string,
+    folder: DocumentFolder,
+    shopId: string,
+    contentType = 'application/pdf'
+  ): Promise<UploadedDocument> {
+    const key = `${shopId}/${folder}/${fileName}`;
+
+    try {
+      const command = new PutObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        Metadata: {
+          uploadDate: new Date().toISOString(),
+          folder,
+        },
+      });
+
+      await s3Client.send(command);
+
+      return {
+        key,
+        size: body.length,
+        contentType,
+        folder,
+      };
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Download a stored document, or null if it cannot be read
+   */
+  async getDocument(key: string): Promise<Uint8Array | null> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      });
+
+      const response = await s3Client.send(command);
+      if (!response.Body) return null;
+
+      return await response.Body.transformToByteArray();
+    } catch (error) {
+      console.error('Error downloading document:', error);
+      return null;
+    }
+  },
 };
 
 export default s3EnhancedService;
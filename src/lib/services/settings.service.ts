@@ -10,6 +10,11 @@ export interface ShopSettingsData {
   contactPhone?: string;
   address?: string;
   socialLinks?: Record<string, string>;
+  orderNumberPattern?: string;
+  invoiceNumberPattern?: string;
+  creditNotePattern?: string;
+  maxStaffLineDiscount?: number;
+  maxAdminLineDiscount?: number;
 }
 
 export const settingsService = {
@@ -0,0 +1,152 @@
+// src/lib/services/staff-pin.service.ts
+import { compare, hash } from "bcrypt";
+import { Role } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { isValidPosPin } from "@/lib/pos/approvals";
+
+export class StaffPinError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "StaffPinError";
+  }
+}
+
+// Wrong PINs in a row before the PIN is locked, and for how long
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCK_MS = 15 * 60 * 1000;
+
+const POS_ROLES: Role[] = ["SHOP_ADMIN", "SHOP_STAFF"];
+
+export const staffPinService = {
+  /**
+   * Staff members of the shop as shown on the register's switch screen
+   */
+  async listStaff(shopId: string) {
+    const users = await db.user.findMany({
+      where: { shopId, role: { in: POS_ROLES } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        posPinHash: true,
+        posPinLockedUntil: true,
+      },
+      orderBy: { name: "asc" },
+    });
+
+    const now = new Date();
+    return users.map(({ posPinHash, posPinLockedUntil, ...user }) => ({
+      ...user,
+      hasPin: !!posPinHash,
+      locked: !!posPinLockedUntil && posPinLockedUntil > now,
+    }));
+  },
+
+  /**
+   * Set or replace the POS PIN of a staff member, which also lifts a lock
+   */
+  async setPin(shopId: string, userId: string, pin: string) {
+    if (!isValidPosPin(pin)) {
+      throw new StaffPinError("The PIN must be 4 to 8 digits");
+    }
+    const user = await db.user.findFirst({
+      where: { id: userId, shopId, role: { in: POS_ROLES } },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new StaffPinError("Staff member not found", 404);
+    }
+
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        posPinHash: await hash(pin, 10),
+        posPinFailedAttempts: 0,
+        posPinLockedUntil: null,
+      },
+    });
+  },
+
+  /**
+   * Remove the POS PIN of a staff member, who then has to sign in with their password
+   */
+  async clearPin(shopId: string, userId: string) {
+    const { count } = await db.user.updateMany({
+      where: { id: userId, shopId, role: { in: POS_ROLES } },
+      data: { posPinHash: null, posPinFailedAttempts: 0, posPinLockedUntil: null },
+    });
+    if (count === 0) {
+      throw new StaffPinError("Staff member not found", 404);
+    }
+  },
+
+  /**
+   * Check the PIN of a staff member of the shop and return them. The PIN is
+   * locked for a while after too many wrong attempts.
+   */
+  async verifyPin(shopId: string, userId: string, pin: string) {
+    const user = await db.user.findFirst({
+      where: { id: userId, shopId, role: { in: POS_ROLES } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        shopId: true,
+        posPinHash: true,
+        posPinFailedAttempts: true,
+        posPinLockedUntil: true,
+      },
+    });
+    if (!user?.posPinHash) {
+      throw new StaffPinError("No PIN is set for this staff member", 404);
+    }
+
+    const now = new Date();
+    if (user.posPinLockedUntil && user.posPinLockedUntil > now) {
+      throw new StaffPinError(
+        `Too many wrong PINs. Try again after ${user.posPinLockedUntil.toLocaleTimeString("fr-FR", {
+          hour: "2-digit",
+          minute: "2-digit",
+        })}`,
+        423
+      );
+    }
+
+    if (!isValidPosPin(pin) || !(await compare(pin, user.posPinHash))) {
+      // Counted atomically so parallel guesses cannot get past the limit
+      const { posPinFailedAttempts } = await db.user.update({
+        where: { id: user.id },
+        data: { posPinFailedAttempts: { increment: 1 } },
+        select: { posPinFailedAttempts: true },
+      });
+      if (posPinFailedAttempts >= MAX_PIN_ATTEMPTS) {
+        await db.user.update({
+          where: { id: user.id },
+          data: {
+            posPinFailedAttempts: 0,
+            posPinLockedUntil: new Date(now.getTime() + PIN_LOCK_MS),
+          },
+        });
+        throw new StaffPinError("Too many wrong PINs. The PIN is locked for 15 minutes.", 423);
+      }
+      throw new StaffPinError("Wrong PIN", 401);
+    }
+
+    if (user.posPinFailedAttempts > 0 || user.posPinLockedUntil) {
+      await db.user.update({
+        where: { id: user.id },
+        data: { posPinFailedAttempts: 0, posPinLockedUntil: null },
+      });
+    }
+
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      shopId: user.shopId,
+    };
+  },
+};
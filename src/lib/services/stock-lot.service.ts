@@ -0,0 +1,310 @@
+// src/lib/services/stock-lot.service.ts
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
+import { formatQuantity, isValidQuantity, roundQuantity } from "@/lib/units";
+
+export class StockLotError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "StockLotError";
+  }
+}
+
+export interface LotStockInput {
+  variantId: string;
+  lotNumber: string;
+  expiryDate?: Date | null;
+  quantity: number; // In the unit of the variant
+}
+
+const lotInclude = {
+  variant: { select: { id: true, name: true, unit: true, inventory: true } },
+} satisfies Prisma.StockLotInclude;
+
+// Quantity of a sale taken from one lot
+export interface LotAllocation {
+  lotId: string;
+  lotNumber: string;
+  quantity: number;
+}
+
+type LockedLot = {
+  id: string;
+  lotNumber: string;
+  quantity: number;
+};
+
+/**
+ * Lot numbers of an order line as shown on the order, or null without lots
+ */
+export function formatLotNumbers(allocations: LotAllocation[]): string | null {
+  return allocations.length > 0 ? allocations.map((allocation) => allocation.lotNumber).join(", ") : null;
+}
+
+/**
+ * Lot number as stored, or null when none was entered
+ */
+export function normalizeLotNumber(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Lots of a variant still in stock, first to expire first. Lots without an
+ * expiry date come last, oldest first. Expired lots are left out unless asked.
+ */
+async function lockLotsInStock(
+  tx: Prisma.TransactionClient,
+  variantId: string,
+  options: { includeExpired?: boolean } = {}
+) {
+  const notExpired = options.includeExpired
+    ? Prisma.empty
+    : Prisma.sql`AND ("expiryDate" IS NULL OR "expiryDate" >= NOW())`;
+  return await tx.$queryRaw<LockedLot[]>`
+    SELECT "id", "lotNumber", "quantity" FROM "StockLot"
+    WHERE "variantId" = ${variantId} AND "quantity" > 0 ${notExpired}
+    ORDER BY "expiryDate" ASC NULLS LAST, "createdAt" ASC
+    FOR UPDATE`;
+}
+
+/**
+ * Take a quantity out of locked lots in their order, returning what was taken
+ * from each lot
+ */
+async function takeFromLots(tx: Prisma.TransactionClient, lots: LockedLot[], quantity: number) {
+  let remaining = roundQuantity(quantity);
+  const allocations: LotAllocation[] = [];
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const taken = Math.min(roundQuantity(lot.quantity), remaining);
+    await tx.stockLot.update({
+      where: { id: lot.id },
+      data: { quantity: roundQuantity(lot.quantity - taken) },
+    });
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, quantity: taken });
+    remaining = roundQuantity(remaining - taken);
+  }
+
+  return allocations;
+}
+
+export const stockLotService = {
+  /**
+   * Take a sold quantity out of the lots of a variant, first expired first
+   * out. Expired lots are never sold. Returns the quantity taken from each lot,
+   * to be kept on the order line; whatever the lots do not cover is stock
+   * outside of any lot.
+   */
+  async allocate(tx: Prisma.TransactionClient, variantId: string, quantity: number): Promise<LotAllocation[]> {
+    if (roundQuantity(quantity) <= 0) {
+      return [];
+    }
+    return await takeFromLots(tx, await lockLotsInStock(tx, variantId), quantity);
+  },
+
+  /**
+   * Put a restocked quantity of an order line back in the lots it was sold
+   * from. Only what was taken from each lot and not given back yet is put
+   * back; the rest goes to the stock outside of any lot.
+   */
+  async restore(tx: Prisma.TransactionClient, orderItemId: string, quantity: number) {
+    let remaining = roundQuantity(quantity);
+    const allocations = await tx.$queryRaw<
+      { id: string; lotId: string; quantity: number; restoredQuantity: number }[]
+    >`
+      SELECT "id", "lotId", "quantity", "restoredQuantity" FROM "OrderItemLot"
+      WHERE "orderItemId" = ${orderItemId}
+      ORDER BY "createdAt" ASC, "id" ASC
+      FOR UPDATE`;
+
+    for (const allocation of allocations) {
+      if (remaining <= 0) break;
+      const restored = Math.min(
+        roundQuantity(allocation.quantity - allocation.restoredQuantity),
+        remaining
+      );
+      if (restored <= 0) continue;
+      await tx.orderItemLot.update({
+        where: { id: allocation.id },
+        data: { restoredQuantity: roundQuantity(allocation.restoredQuantity + restored) },
+      });
+      await tx.stockLot.update({
+        where: { id: allocation.lotId },
+        data: { quantity: { increment: restored } },
+      });
+      remaining = roundQuantity(remaining - restored);
+    }
+  },
+
+  /**
+   * Add the stock of expired lots to the quantities held back from sale, so a
+   * sale cannot take them through the stock outside of any lot
+   */
+  async holdExpired(
+    tx: Prisma.TransactionClient,
+    reserved: Map<string, number>,
+    variantIds: string[]
+  ): Promise<Map<string, number>> {
+    const expired = await tx.stockLot.groupBy({
+      by: ["variantId"],
+      where: { variantId: { in: variantIds }, quantity: { gt: 0 }, expiryDate: { lt: new Date() } },
+      _sum: { quantity: true },
+    });
+    for (const row of expired) {
+      reserved.set(
+        row.variantId,
+        roundQuantity((reserved.get(row.variantId) ?? 0) + (row._sum.quantity ?? 0))
+      );
+    }
+    return reserved;
+  },
+
+  /**
+   * Add stock to a lot of a variant, creating the lot on its first delivery.
+   * The caller records the stock movement.
+   */
+  async addToLot(tx: Prisma.TransactionClient, input: LotStockInput) {
+    const quantity = roundQuantity(input.quantity);
+    return await tx.stockLot.upsert({
+      where: { variantId_lotNumber: { variantId: input.variantId, lotNumber: input.lotNumber } },
+      create: {
+        variantId: input.variantId,
+        lotNumber: input.lotNumber,
+        expiryDate: input.expiryDate ?? null,
+        quantity,
+      },
+      update: {
+        quantity: { increment: quantity },
+        ...(input.expiryDate && { expiryDate: input.expiryDate }),
+      },
+      include: lotInclude,
+    });
+  },
+
+  /**
+   * Keep the lots of a variant within its stock once it was counted lower.
+   * The missing quantity is taken from the lots that expire first.
+   */
+  async trimToStock(tx: Prisma.TransactionClient, variantId: string) {
+    const [variant] = await tx.$queryRaw<{ inventory: number }[]>`
+      SELECT "inventory" FROM "ProductVariant"
+      WHERE "id" = ${variantId}
+      FOR UPDATE`;
+    if (!variant) {
+      return;
+    }
+
+    const lots = await tx.stockLot.aggregate({
+      where: { variantId, quantity: { gt: 0 } },
+      _sum: { quantity: true },
+    });
+    const excess = roundQuantity((lots._sum.quantity ?? 0) - Math.max(variant.inventory, 0));
+    if (excess > 0) {
+      await takeFromLots(tx, await lockLotsInStock(tx, variantId, { includeExpired: true }), excess);
+    }
+  },
+
+  /**
+   * Lots of the variants of a product, first to expire first. Null when the
+   * product is not in the shop.
+   */
+  async getProductLots(shopId: string, productId: string, options: { includeEmpty?: boolean } = {}) {
+    const product = await db.product.findFirst({
+      where: { id: productId, shopId },
+      select: { id: true },
+    });
+    if (!product) {
+      return null;
+    }
+
+    return await db.stockLot.findMany({
+      where: {
+        variant: { productId },
+        ...(!options.includeEmpty && { quantity: { gt: 0 } }),
+      },
+      include: lotInclude,
+      orderBy: [{ expiryDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    });
+  },
+
+  /**
+   * Put stock received outside of a purchase order in a lot
+   */
+  async addLot(shopId: string, productId: string, input: LotStockInput, userId: string) {
+    const lotNumber = normalizeLotNumber(input.lotNumber);
+    if (!lotNumber) {
+      throw new StockLotError("The lot number is required");
+    }
+
+    return await db.$transaction(async (tx) => {
+      const variant = await tx.productVariant.findFirst({
+        where: { id: input.variantId, productId, product: { shopId } },
+        select: { id: true, name: true, unit: true, product: { select: { isGiftCard: true } } },
+      });
+      if (!variant) {
+        throw new StockLotError("Variant not found", 404);
+      }
+      if (variant.product.isGiftCard) {
+        throw new StockLotError("Gift cards have no stock");
+      }
+      const quantity = roundQuantity(Number(input.quantity));
+      if (!isValidQuantity(quantity, variant.unit)) {
+        throw new StockLotError(`Invalid quantity for ${variant.name}`);
+      }
+
+      await stockMovementService.record(tx, {
+        shopId,
+        variantId: variant.id,
+        reason: "RECEIPT",
+        quantity,
+        notes: `Lot ${lotNumber}`,
+        createdById: userId,
+      });
+      return await this.addToLot(tx, {
+        variantId: variant.id,
+        lotNumber,
+        expiryDate: input.expiryDate,
+        quantity,
+      });
+    });
+  },
+
+  /**
+   * Take what is left of a lot out of the stock, typically once it expired
+   */
+  async writeOffLot(shopId: string, productId: string, lotId: string, userId: string) {
+    return await db.$transaction(async (tx) => {
+      const lot = await tx.stockLot.findFirst({
+        where: { id: lotId, variant: { productId, product: { shopId } } },
+        include: { variant: { select: { unit: true } } },
+      });
+      if (!lot) {
+        throw new StockLotError("Lot not found", 404);
+      }
+
+      const [locked] = await tx.$queryRaw<LockedLot[]>`
+        SELECT "id", "lotNumber", "quantity" FROM "StockLot"
+        WHERE "id" = ${lot.id}
+        FOR UPDATE`;
+      const quantity = roundQuantity(locked.quantity);
+      if (quantity <= 0) {
+        throw new StockLotError(`Lot ${lot.lotNumber} is no longer in stock`);
+      }
+
+      await stockMovementService.record(tx, {
+        shopId,
+        variantId: lot.variantId,
+        reason: "ADJUSTMENT",
+        quantity: -quantity,
+        notes: `Lot ${lot.lotNumber} written off (${formatQuantity(quantity, lot.variant.unit)})`,
+        createdById: userId,
+      });
+      return await tx.stockLot.update({
+        where: { id: lot.id },
+        data: { quantity: 0 },
+        include: lotInclude,
+      });
+    });
+  },
+};
@@ -0,0 +1,236 @@
+// src/lib/services/stock-movement.service.ts
+import { Prisma, StockMovementReason, UnitOfMeasure } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { formatQuantity, roundQuantity } from "@/lib/units";
+
+export interface StockShortage {
+  variantId: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export class StockError extends Error {
+  constructor(message: string, public status: number = 409, public lines: StockShortage[] = []) {
+    super(message);
+    this.name = "StockError";
+  }
+}
+
+export interface StockMovementInput {
+  shopId: string;
+  variantId: string;
+  reason: StockMovementReason;
+  quantity: number; // Positive when stock comes in
+  orderId?: string | null;
+  returnId?: string | null;
+  receiptId?: string | null; // Delivery of a purchase order
+  stocktakeId?: string | null; // Approved inventory count
+  notes?: string | null;
+  createdById?: string | null;
+}
+
+export interface SoldLine {
+  variantId: string;
+  productName: string;
+  unit: UnitOfMeasure;
+  quantity: number;
+}
+
+export interface TakeOutLinesInput {
+  shopId: string;
+  orderId: string;
+  lines: SoldLine[];
+  reserved?: Map<string, number>; // Held for other customers, by variant
+  emptyOnShortage?: boolean; // For sales that already happened
+  createdById?: string | null;
+}
+
+export interface StockMovementFilters {
+  variantId?: string | null;
+  reason?: StockMovementReason | null;
+}
+
+const stockMovementInclude = {
+  variant: { select: { id: true, name: true, unit: true } },
+  order: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { name: true, email: true } },
+} satisfies Prisma.StockMovementInclude;
+
+async function appendMovement(
+  tx: Prisma.TransactionClient,
+  input: StockMovementInput,
+  levelAfter: number
+) {
+  return await tx.stockMovement.create({
+    data: {
+      shopId: input.shopId,
+      variantId: input.variantId,
+      reason: input.reason,
+      quantity: roundQuantity(input.quantity),
+      levelAfter: roundQuantity(levelAfter),
+      orderId: input.orderId ?? null,
+      returnId: input.returnId ?? null,
+      receiptId: input.receiptId ?? null,
+      stocktakeId: input.stocktakeId ?? null,
+      notes: input.notes?.trim() || null,
+      createdById: input.createdById ?? null,
+    },
+  });
+}
+
+export const stockMovementService = {
+  /**
+   * Move stock in or out of a variant and append the movement to its ledger.
+   * The inventory is incremented in place so concurrent movements add up.
+   */
+  async record(tx: Prisma.TransactionClient, input: StockMovementInput) {
+    const quantity = roundQuantity(input.quantity);
+    if (quantity === 0) {
+      return null;
+    }
+
+    const variant = await tx.productVariant.update({
+      where: { id: input.variantId },
+      data: { inventory: { increment: quantity } },
+      select: { inventory: true },
+    });
+
+    return await appendMovement(tx, { ...input, quantity }, variant.inventory);
+  },
+
+  /**
+   * Take sold stock out of a variant, only if enough is left besides the
+   * quantity held for other customers. The check and the decrement are a
+   * single statement, so two registers cannot both sell the last unit.
+   * Returns null when the stock is short and the variant takes no backorders.
+   */
+  async takeOut(
+    tx: Prisma.TransactionClient,
+    input: StockMovementInput & { reserved?: number } // quantity is the amount taken out
+  ) {
+    const quantity = roundQuantity(input.quantity);
+    const required = roundQuantity(quantity + (input.reserved ?? 0));
+    const [variant] = await tx.$queryRaw<{ inventory: number }[]>`
+      UPDATE "ProductVariant"
+      SET "inventory" = "inventory" - ${quantity}, "updatedAt" = NOW()
+      WHERE "id" = ${input.variantId}
+        AND ("allowBackorder" OR ROUND("inventory"::numeric, 3) >= ${required})
+      RETURNING "inventory"`;
+    if (!variant) {
+      return null;
+    }
+
+    return await appendMovement(tx, { ...input, quantity: -quantity }, variant.inventory);
+  },
+
+  /**
+   * Take the lines of a sale out of the stock. Every line short of stock is
+   * reported in one StockError. A sale that already happened (offline) cannot
+   * be refused: its shortages empty the stock and are returned for a recount.
+   */
+  async takeOutLines(tx: Prisma.TransactionClient, input: TakeOutLinesInput) {
+    const shortages: StockShortage[] = [];
+    const labels: string[] = [];
+    for (const line of input.lines) {
+      const reserved = input.emptyOnShortage ? 0 : input.reserved?.get(line.variantId) ?? 0;
+      const movement = await this.takeOut(tx, {
+        shopId: input.shopId,
+        variantId: line.variantId,
+        reason: "SALE",
+        quantity: line.quantity,
+        reserved,
+        orderId: input.orderId,
+        createdById: input.createdById,
+      });
+      if (movement) continue;
+
+      const variant = await tx.productVariant.findUnique({
+        where: { id: line.variantId },
+        select: { inventory: true },
+      });
+      // Weights and volumes are compared to the gram / milliliter
+      const inventory = roundQuantity(variant?.inventory ?? 0);
+      const available = Math.max(roundQuantity(inventory - reserved), 0);
+      shortages.push({
+        variantId: line.variantId,
+        productName: line.productName,
+        requested: line.quantity,
+        available,
+      });
+      labels.push(
+        `${line.productName} (available: ${formatQuantity(available, line.unit)}, requested: ${formatQuantity(line.quantity, line.unit)})`
+      );
+
+      if (input.emptyOnShortage) {
+        await this.setLevel(tx, {
+          shopId: input.shopId,
+          variantId: line.variantId,
+          reason: "SALE",
+          level: 0,
+          orderId: input.orderId,
+          notes: `Sold ${formatQuantity(line.quantity, line.unit)} with ${formatQuantity(inventory, line.unit)} in stock`,
+          createdById: input.createdById,
+        });
+      }
+    }
+
+    if (shortages.length > 0 && !input.emptyOnShortage) {
+      throw new StockError(`Insufficient inventory for ${labels.join(", ")}`, 409, shortages);
+    }
+    return shortages;
+  },
+
+  /**
+   * Bring a variant to a counted level, recording the difference
+   */
+  async setLevel(
+    tx: Prisma.TransactionClient,
+    input: Omit<StockMovementInput, "quantity"> & { level: number }
+  ) {
+    const [variant] = await tx.$queryRaw<{ inventory: number }[]>`
+      SELECT "inventory" FROM "ProductVariant"
+      WHERE "id" = ${input.variantId}
+      FOR UPDATE`;
+    if (!variant) {
+      return null;
+    }
+
+    const { level, ...movement } = input;
+    return await this.record(tx, {
+      ...movement,
+      quantity: roundQuantity(level) - roundQuantity(variant.inventory),
+    });
+  },
+
+  /**
+   * Movements of the variants of a product, latest first
+   */
+  async getProductHistory(shopId: string, productId: string, filters: StockMovementFilters = {}) {
+    const product = await db.product.findFirst({
+      where: { id: productId, shopId },
+      select: { id: true },
+    });
+    if (!product) {
+      return null;
+    }
+
+    const where: Prisma.StockMovementWhereInput = {
+      shopId,
+      variant: { productId },
+    };
+    if (filters.variantId) {
+      where.variantId = filters.variantId;
+    }
+    if (filters.reason) {
+      where.reason = filters.reason;
+    }
+
+    return await db.stockMovement.findMany({
+      where,
+      include: stockMovementInclude,
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    });
+  },
+};
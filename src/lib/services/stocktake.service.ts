@@ -0,0 +1,453 @@
+// src/lib/services/stocktake.service.ts
+import { Prisma, StocktakeStatus } from "@prisma/client";
+import { db } from "@/lib/prisma";
+import { numberingService } from "@/lib/services/numbering.service";
+import { posCatalogService } from "@/lib/services/pos-catalog.service";
+import { roundMoney } from "@/lib/services/pricing.service";
+import { stockLotService } from "@/lib/services/stock-lot.service";
+import { stockMovementService } from "@/lib/services/stock-movement.service";
+import { STOCKTAKE_STATUS_LABELS, summarizeStocktake } from "@/lib/stocktake";
+import { isValidQuantity, roundQuantity } from "@/lib/units";
+
+export class StocktakeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "StocktakeError";
+  }
+}
+
+export interface StocktakeInput {
+  categoryIds?: string[]; // All variants are counted when empty
+  notes?: string | null;
+  freeze?: boolean; // Capture the stock right away
+}
+
+export interface StocktakeFilters {
+  status?: StocktakeStatus | null;
+}
+
+const stocktakeListInclude = {
+  categories: { select: { id: true, name: true } },
+  createdBy: { select: { name: true, email: true } },
+  _count: { select: { items: true } },
+} satisfies Prisma.StocktakeInclude;
+
+const stocktakeDetailInclude = {
+  categories: { select: { id: true, name: true } },
+  createdBy: { select: { name: true, email: true } },
+  approvedBy: { select: { name: true, email: true } },
+  items: {
+    include: {
+      variant: { select: { id: true, productId: true, inventory: true, cost: true } },
+      countedBy: { select: { name: true, email: true } },
+    },
+    orderBy: [{ productName: "asc" }, { variantName: "asc" }],
+  },
+} satisfies Prisma.StocktakeInclude;
+
+type StocktakeDetail = Prisma.StocktakeGetPayload<{ include: typeof stocktakeDetailInclude }>;
+type StocktakeDetailItem = StocktakeDetail["items"][number];
+
+type LockedStocktake = {
+  id: string;
+  number: string;
+  status: StocktakeStatus;
+  frozenAt: Date | null;
+};
+
+// A count of the whole catalog creates, and on approval posts, one line per variant
+const COUNT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+async function lockStocktake(tx: Prisma.TransactionClient, shopId: string, stocktakeId: string) {
+  const [stocktake] = await tx.$queryRaw<LockedStocktake[]>`
+    SELECT "id", "number", "status", "frozenAt" FROM "Stocktake"
+    WHERE "id" = ${stocktakeId} AND "shopId" = ${shopId}
+    FOR UPDATE`;
+  if (!stocktake) {
+    throw new StocktakeError("Stocktake not found", 404);
+  }
+  return stocktake;
+}
+
+function requireInProgress(stocktake: LockedStocktake) {
+  if (stocktake.status !== "IN_PROGRESS") {
+    throw new StocktakeError(
+      `Stocktake ${stocktake.number} is ${STOCKTAKE_STATUS_LABELS[stocktake.status].toLowerCase()}`
+    );
+  }
+}
+
+/**
+ * Categories a count covers: the selected ones and all their subcategories
+ */
+async function expandCategories(tx: Prisma.TransactionClient, shopId: string, categoryIds: string[]) {
+  const categories = await tx.category.findMany({
+    where: { shopId },
+    select: { id: true, parentId: true },
+  });
+  if (categoryIds.some((id) => !categories.some((category) => category.id === id))) {
+    throw new StocktakeError("Category not found", 404);
+  }
+
+  const scope = new Set(categoryIds);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && scope.has(category.parentId) && !scope.has(category.id)) {
+        scope.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return [...scope];
+}
+
+/**
+ * Stock a counted line is compared with. An approved line keeps what it was
+ * compared with at the time; a frozen count uses the stock when it was
+ * frozen, otherwise the current stock.
+ */
+function expectedQuantity(item: StocktakeDetailItem, stocktake: { status: StocktakeStatus; frozenAt: Date | null }) {
+  if (stocktake.status === "APPROVED" && item.countedQuantity !== null && item.adjustment !== null) {
+    return roundQuantity(item.countedQuantity - item.adjustment);
+  }
+  if (stocktake.frozenAt) {
+    return item.frozenQuantity;
+  }
+  return stocktake.status === "IN_PROGRESS" ? item.variant?.inventory ?? null : null;
+}
+
+/**
+ * Stocktake with the variance of each counted line and its value at cost
+ */
+function withVariances(stocktake: StocktakeDetail) {
+  const items = stocktake.items.map((item) => {
+    const expected = expectedQuantity(item, stocktake);
+    const variance =
+      item.countedQuantity !== null && expected !== null
+        ? roundQuantity(item.countedQuantity - expected)
+        : null;
+    const cost = stocktake.status === "APPROVED" ? item.cost : item.variant?.cost ?? item.cost;
+    return {
+      ...item,
+      expectedQuantity: expected,
+      variance,
+      varianceValue: variance !== null && cost !== null ? roundMoney(variance * cost) : null,
+    };
+  });
+
+  return { ...stocktake, items, summary: summarizeStocktake(items) };
+}
+
+export const stocktakeService = {
+  /**
+   * Stocktakes of the shop with how many of their lines are counted, latest first
+   */
+  async listStocktakes(shopId: string, filters: StocktakeFilters = {}) {
+    const where: Prisma.StocktakeWhereInput = { shopId };
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const stocktakes = await db.stocktake.findMany({
+      where,
+      include: stocktakeListInclude,
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    });
+    const counted = await db.stocktakeItem.groupBy({
+      by: ["stocktakeId"],
+      where: {
+        stocktakeId: { in: stocktakes.map((stocktake) => stocktake.id) },
+        countedQuantity: { not: null },
+      },
+      _count: { _all: true },
+    });
+
+    return stocktakes.map((stocktake) => ({
+      ...stocktake,
+      countedItems: counted.find((group) => group.stocktakeId === stocktake.id)?._count._all ?? 0,
+    }));
+  },
+
+  /**
+   * A stocktake with its lines and their variances
+   */
+  async getStocktake(shopId: string, stocktakeId: string) {
+    const stocktake = await db.stocktake.findFirst({
+      where: { id: stocktakeId, shopId },
+      include: stocktakeDetailInclude,
+    });
+    return stocktake ? withVariances(stocktake) : null;
+  },
+
+  /**
+   * Start a count of the variants of some categories, or of all of them.
+   * Only one count can be in progress at a time, so approving it never
+   * corrects a variant twice.
+   */
+  async createStocktake(shopId: string, input: StocktakeInput, userId: string) {
+    const stocktake = await db.$transaction(async (tx) => {
+      const running = await tx.stocktake.findFirst({
+        where: { shopId, status: "IN_PROGRESS" },
+        select: { number: true },
+      });
+      if (running) {
+        throw new StocktakeError(`Stocktake ${running.number} is still in progress`, 409);
+      }
+
+      const categoryIds = [...new Set(input.categoryIds ?? [])];
+      const scope = categoryIds.length > 0 ? await expandCategories(tx, shopId, categoryIds) : null;
+      const variants = await tx.productVariant.findMany({
+        where: {
+          product: {
+            shopId,
+            isGiftCard: false,
+            ...(scope && { categories: { some: { id: { in: scope } } } }),
+          },
+        },
+        select: {
+          id: true,
+          name: true,
+          sku: true,
+          barcode: true,
+          unit: true,
+          cost: true,
+          inventory: true,
+          product: { select: { name: true, sku: true, barcode: true } },
+        },
+      });
+      if (variants.length === 0) {
+        throw new StocktakeError("There is nothing to count in the selected categories");
+      }
+
+      const number = await numberingService.nextStocktakeNumber(tx, shopId);
+      return await tx.stocktake.create({
+        data: {
+          shopId,
+          number,
+          notes: input.notes?.trim() || null,
+          frozenAt: input.freeze ? new Date() : null,
+          createdById: userId,
+          categories: { connect: categoryIds.map((id) => ({ id })) },
+          items: {
+            create: variants.map((variant) => ({
+              variantId: variant.id,
+              productName: variant.product.name,
+              variantName: variant.name,
+              sku: variant.sku || variant.product.sku || null,
+              barcode: variant.barcode || variant.product.barcode || null,
+              unit: variant.unit,
+              cost: variant.cost,
+              frozenQuantity: input.freeze ? variant.inventory : null,
+            })),
+          },
+        },
+      });
+    }, { timeout: COUNT_TRANSACTION_TIMEOUT_MS });
+
+    return (await this.getStocktake(shopId, stocktake.id))!;
+  },
+
+  /**
+   * Capture the stock of every line before counting starts. Sales made while
+   * counting then show on top of the count instead of as a variance.
+   */
+  async freeze(shopId: string, stocktakeId: string) {
+    await db.$transaction(async (tx) => {
+      const stocktake = await lockStocktake(tx, shopId, stocktakeId);
+      requireInProgress(stocktake);
+      if (stocktake.frozenAt) {
+        throw new StocktakeError(`Stocktake ${stocktake.number} is already frozen`);
+      }
+      const counted = await tx.stocktakeItem.count({
+        where: { stocktakeId, countedQuantity: { not: null } },
+      });
+      if (counted > 0) {
+        throw new StocktakeError("Counting has started, a count can only be frozen before its first line is counted");
+      }
+
+      await tx.$executeRaw`
+        UPDATE "StocktakeItem" AS item
+        SET "frozenQuantity" = variant."inventory"
+        FROM "ProductVariant" AS variant
+        WHERE item."variantId" = variant."id" AND item."stocktakeId" = ${stocktakeId}`;
+      await tx.stocktake.update({
+        where: { id: stocktakeId },
+        data: { frozenAt: new Date() },
+      });
+    });
+
+    return (await this.getStocktake(shopId, stocktakeId))!;
+  },
+
+  /**
+   * Add a scanned item to its counted quantity. Scale labels count the weight
+   * they carry, other barcodes one unit unless a quantity is given.
+   */
+  async scan(shopId: string, stocktakeId: string, barcode: string, quantity: number | null, userId: string) {
+    const match = await posCatalogService.lookupBarcode(shopId, barcode.trim());
+    if (!match) {
+      throw new StocktakeError(`Unknown barcode ${barcode.trim()}`, 404);
+    }
+
+    const itemId = await db.$transaction(async (tx) => {
+      const stocktake = await lockStocktake(tx, shopId, stocktakeId);
+      requireInProgress(stocktake);
+
+      const item = await tx.stocktakeItem.findFirst({
+        where: { stocktakeId, variantId: match.variantId },
+      });
+      if (!item) {
+        const variant = match.product.variants.find((candidate) => candidate.id === match.variantId);
+        throw new StocktakeError(
+          `${match.product.name}${variant ? ` - ${variant.name}` : ""} is not part of this count`,
+          404
+        );
+      }
+      const counted = roundQuantity(quantity ?? match.quantity);
+      if (!isValidQuantity(counted, item.unit)) {
+        throw new StocktakeError(`Invalid quantity for ${item.productName}`);
+      }
+
+      await tx.stocktakeItem.update({
+        where: { id: item.id },
+        data: {
+          countedQuantity: roundQuantity((item.countedQuantity ?? 0) + counted),
+          countedAt: new Date(),
+          countedById: userId,
+        },
+      });
+      return item.id;
+    });
+
+    const stocktake = (await this.getStocktake(shopId, stocktakeId))!;
+    return stocktake.items.find((item) => item.id === itemId)!;
+  },
+
+  /**
+   * Set the counted quantity of a line, or clear it with null
+   */
+  async setCount(
+    shopId: string,
+    stocktakeId: string,
+    itemId: string,
+    countedQuantity: number | null,
+    userId: string
+  ) {
+    await db.$transaction(async (tx) => {
+      const stocktake = await lockStocktake(tx, shopId, stocktakeId);
+      requireInProgress(stocktake);
+
+      const item = await tx.stocktakeItem.findFirst({ where: { id: itemId, stocktakeId } });
+      if (!item) {
+        throw new StocktakeError("Item not found on this stocktake", 404);
+      }
+
+      if (countedQuantity === null) {
+        await tx.stocktakeItem.update({
+          where: { id: item.id },
+          data: { countedQuantity: null, countedAt: null, countedById: null },
+        });
+        return;
+      }
+
+      const counted = roundQuantity(Number(countedQuantity));
+      // Zero is a valid count: the item was not found on the shelf
+      if (counted !== 0 && !isValidQuantity(counted, item.unit)) {
+        throw new StocktakeError(`Invalid quantity for ${item.productName}`);
+      }
+      await tx.stocktakeItem.update({
+        where: { id: item.id },
+        data: { countedQuantity: counted, countedAt: new Date(), countedById: userId },
+      });
+    });
+
+    const stocktake = (await this.getStocktake(shopId, stocktakeId))!;
+    return stocktake.items.find((item) => item.id === itemId)!;
+  },
+
+  /**
+   * Post the variances of the counted lines to the stock as adjustments.
+   * A frozen count adds its variances to the current stock, keeping what was
+   * sold or received since it was frozen; otherwise the stock is set to what
+   * was counted. Lines left uncounted are not changed.
+   */
+  async approve(shopId: string, stocktakeId: string, userId: string) {
+    await db.$transaction(
+      async (tx) => {
+        const stocktake = await lockStocktake(tx, shopId, stocktakeId);
+        requireInProgress(stocktake);
+
+        const items = await tx.stocktakeItem.findMany({
+          where: { stocktakeId, countedQuantity: { not: null } },
+          include: { variant: { select: { id: true, cost: true } } },
+        });
+        if (items.length === 0) {
+          throw new StocktakeError("Count at least one item before approving the stocktake");
+        }
+
+        const notes = `Stocktake ${stocktake.number}`;
+        for (const item of items) {
+          if (!item.variant || item.countedQuantity === null) continue;
+
+          const movement =
+            stocktake.frozenAt && item.frozenQuantity !== null
+              ? await stockMovementService.record(tx, {
+                  shopId,
+                  variantId: item.variant.id,
+                  reason: "ADJUSTMENT",
+                  quantity: item.countedQuantity - item.frozenQuantity,
+                  stocktakeId,
+                  notes,
+                  createdById: userId,
+                })
+              : await stockMovementService.setLevel(tx, {
+                  shopId,
+                  variantId: item.variant.id,
+                  reason: "ADJUSTMENT",
+                  level: item.countedQuantity,
+                  stocktakeId,
+                  notes,
+                  createdById: userId,
+                });
+          const adjustment = movement?.quantity ?? 0;
+          if (adjustment < 0) {
+            await stockLotService.trimToStock(tx, item.variant.id);
+          }
+
+          await tx.stocktakeItem.update({
+            where: { id: item.id },
+            data: { adjustment, cost: item.variant.cost },
+          });
+        }
+
+        await tx.stocktake.update({
+          where: { id: stocktakeId },
+          data: { status: "APPROVED", approvedById: userId, approvedAt: new Date() },
+        });
+      },
+      { timeout: COUNT_TRANSACTION_TIMEOUT_MS }
+    );
+
+    return (await this.getStocktake(shopId, stocktakeId))!;
+  },
+
+  /**
+   * Drop a count in progress without changing the stock
+   */
+  async cancel(shopId: string, stocktakeId: string) {
+    await db.$transaction(async (tx) => {
+      const stocktake = await lockStocktake(tx, shopId, stocktakeId);
+      requireInProgress(stocktake);
+
+      await tx.stocktake.update({
+        where: { id: stocktakeId },
+        data: { status: "CANCELLED" },
+      });
+    });
+
+    return (await this.getStocktake(shopId, stocktakeId))!;
+  },
+};
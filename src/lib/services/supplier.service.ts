@@ -0,0 +1,117 @@
+// src/lib/services/supplier.service.ts
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/prisma";
+
+export class SupplierError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "SupplierError";
+  }
+}
+
+export interface SupplierInput {
+  name?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  taxId?: string | null;
+  notes?: string | null;
+  active?: boolean;
+}
+
+export interface SupplierFilters {
+  search?: string | null;
+  includeInactive?: boolean;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function optionalText(value: string | null | undefined) {
+  return value?.trim() || null;
+}
+
+/**
+ * Fields of a supplier as stored, checked the same way on create and update
+ */
+function toSupplierData(input: SupplierInput) {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new SupplierError("The supplier name is required");
+  }
+  const email = optionalText(input.email);
+  if (email && !EMAIL_REGEX.test(email)) {
+    throw new SupplierError("Invalid email address");
+  }
+
+  return {
+    name,
+    contactName: optionalText(input.contactName),
+    email,
+    phone: optionalText(input.phone),
+    address: optionalText(input.address),
+    taxId: optionalText(input.taxId),
+    notes: optionalText(input.notes),
+    active: input.active ?? true,
+  };
+}
+
+export const supplierService = {
+  /**
+   * Suppliers of the shop by name, with how many purchase orders they have
+   */
+  async listSuppliers(shopId: string, filters: SupplierFilters = {}) {
+    const where: Prisma.SupplierWhereInput = { shopId };
+    if (!filters.includeInactive) {
+      where.active = true;
+    }
+    const search = filters.search?.trim();
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: "insensitive" } },
+        { contactName: { contains: search, mode: "insensitive" } },
+        { email: { contains: search, mode: "insensitive" } },
+        { phone: { contains: search } },
+      ];
+    }
+
+    return await db.supplier.findMany({
+      where,
+      include: { _count: { select: { purchaseOrders: true } } },
+      orderBy: { name: "asc" },
+    });
+  },
+
+  /**
+   * A supplier of the shop
+   */
+  async getSupplier(shopId: string, supplierId: string) {
+    return await db.supplier.findFirst({
+      where: { id: supplierId, shopId },
+      include: { _count: { select: { purchaseOrders: true } } },
+    });
+  },
+
+  /**
+   * Add a supplier to the shop
+   */
+  async createSupplier(shopId: string, input: SupplierInput) {
+    return await db.supplier.create({
+      data: { shopId, ...toSupplierData(input) },
+    });
+  },
+
+  /**
+   * Update the details of a supplier, or deactivate it to keep it off new orders
+   */
+  async updateSupplier(shopId: string, supplierId: string, input: SupplierInput) {
+    const result = await db.supplier.updateMany({
+      where: { id: supplierId, shopId },
+      data: toSupplierData(input),
+    });
+    if (result.count === 0) {
+      throw new SupplierError("Supplier not found", 404);
+    }
+    return await db.supplier.findUniqueOrThrow({ where: { id: supplierId } });
+  },
+};
@@ -0,0 +1,22 @@
+// src/lib/stock-lot.ts
+
+// Lots expiring within this many days are flagged as expiring soon
+export const EXPIRING_SOON_DAYS = 30;
+
+/**
+ * Last expiry date flagged as expiring soon on a given day
+ */
+export function expiringSoonCutoff(now: Date = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() + EXPIRING_SOON_DAYS);
+  return cutoff;
+}
+
+export type LotExpiryState = "EXPIRED" | "EXPIRING_SOON" | "OK";
+
+export function lotExpiryState(expiryDate: Date | string | null, now: Date = new Date()): LotExpiryState {
+  if (!expiryDate) return "OK";
+  const expiry = new Date(expiryDate);
+  if (expiry < now) return "EXPIRED";
+  return expiry <= expiringSoonCutoff(now) ? "EXPIRING_SOON" : "OK";
+}
@@ -0,0 +1,15 @@
+// src/lib/stock-movement.ts
+import type { StockMovementReason } from "@prisma/client";
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  SALE: "Sale",
+  RETURN: "Return",
+  ADJUSTMENT: "Adjustment",
+  RECEIPT: "Receipt",
+  TRANSFER: "Transfer",
+  CANCELLATION: "Cancellation",
+};
+
+export function isStockMovementReason(value: unknown): value is StockMovementReason {
+  return typeof value === "string" && value in STOCK_MOVEMENT_REASON_LABELS;
+}
@@ -0,0 +1,38 @@
+// src/lib/stocktake.ts
+import type { StocktakeStatus } from "@prisma/client";
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  IN_PROGRESS: "In Progress",
+  APPROVED: "Approved",
+  CANCELLED: "Cancelled",
+};
+
+export function isStocktakeStatus(value: unknown): value is StocktakeStatus {
+  return typeof value === "string" && value in STOCKTAKE_STATUS_LABELS;
+}
+
+export interface StocktakeLineVariance {
+  countedQuantity: number | null;
+  variance: number | null; // Counted minus expected, null until counted
+  varianceValue: number | null; // Variance at cost, null without a known cost
+}
+
+// Same rounding as roundMoney, which cannot be imported on the client
+function roundAmount(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Counting progress of a stocktake and the value of its shortages and surpluses
+ */
+export function summarizeStocktake(items: StocktakeLineVariance[]) {
+  const values = items.map((item) => item.varianceValue ?? 0);
+  return {
+    lines: items.length,
+    counted: items.filter((item) => item.countedQuantity !== null).length,
+    withVariance: items.filter((item) => item.variance !== null && item.variance !== 0).length,
+    shortageValue: roundAmount(values.filter((value) => value < 0).reduce((sum, value) => sum + value, 0)),
+    surplusValue: roundAmount(values.filter((value) => value > 0).reduce((sum, value) => sum + value, 0)),
+    netValue: roundAmount(values.reduce((sum, value) => sum + value, 0)),
+  };
+}
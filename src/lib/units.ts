@@ -0,0 +1,96 @@
+// src/lib/units.ts
+import type { UnitOfMeasure } from "@prisma/client";
+
+export const UNITS_OF_MEASURE = [
+  "UNIT",
+  "KILOGRAM",
+  "GRAM",
+  "LITER",
+  "MILLILITER",
+] as const satisfies readonly UnitOfMeasure[];
+
+export const UNIT_LABELS: Record<UnitOfMeasure, string> = {
+  UNIT: "Unit",
+  KILOGRAM: "Kilogram",
+  GRAM: "Gram",
+  LITER: "Liter",
+  MILLILITER: "Milliliter",
+};
+
+export const UNIT_SYMBOLS: Record<UnitOfMeasure, string> = {
+  UNIT: "pc",
+  KILOGRAM: "kg",
+  GRAM: "g",
+  LITER: "L",
+  MILLILITER: "ml",
+};
+
+// Grams or milliliters in one unit, as weighed by the scale
+const BASE_QUANTITY: Record<UnitOfMeasure, number> = {
+  UNIT: 1,
+  KILOGRAM: 1000,
+  GRAM: 1,
+  LITER: 1000,
+  MILLILITER: 1,
+};
+
+// Quantities are kept to the gram / milliliter of a kilogram or liter
+export const QUANTITY_DECIMALS = 3;
+
+export function isUnitOfMeasure(value: unknown): value is UnitOfMeasure {
+  return typeof value === "string" && (UNITS_OF_MEASURE as readonly string[]).includes(value);
+}
+
+/**
+ * Whether the unit is sold in decimal quantities (by weight or volume)
+ */
+export function isMeasuredUnit(unit: UnitOfMeasure | null | undefined): boolean {
+  return !!unit && unit !== "UNIT";
+}
+
+export function roundQuantity(quantity: number): number {
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round((quantity + Number.EPSILON) * factor) / factor;
+}
+
+/**
+ * Positive quantity in the unit of the variant: whole numbers for units,
+ * up to three decimals for weights and volumes
+ */
+export function isValidQuantity(quantity: number, unit: UnitOfMeasure | null | undefined): boolean {
+  if (!Number.isFinite(quantity) || quantity <= 0) return false;
+  if (!isMeasuredUnit(unit)) return Number.isInteger(quantity);
+  return roundQuantity(quantity) === quantity;
+}
+
+/**
+ * Quantity of the variant for a weight (grams) or volume (milliliters) read by a scale
+ */
+export function quantityFromScale(baseQuantity: number, unit: UnitOfMeasure): number {
+  return roundQuantity(baseQuantity / BASE_QUANTITY[unit]);
+}
+
+/**
+ * Price per kilogram or liter of a variant sold by weight or volume, the
+ * reference price shown next to bulk products. Null for units.
+ */
+export function referencePrice(
+  price: number,
+  unit: UnitOfMeasure | null | undefined
+): { price: number; per: string } | null {
+  if (unit === "KILOGRAM" || unit === "GRAM") {
+    return { price: (price * 1000) / BASE_QUANTITY[unit], per: "kg" };
+  }
+  if (unit === "LITER" || unit === "MILLILITER") {
+    return { price: (price * 1000) / BASE_QUANTITY[unit], per: "L" };
+  }
+  return null;
+}
+
+/**
+ * "3", "0.25 kg", "750 g"
+ */
+export function formatQuantity(quantity: number, unit: UnitOfMeasure | null | undefined): string {
+  const value = String(roundQuantity(quantity));
+  return unit && unit !== "UNIT" ? `${value} ${UNIT_SYMBOLS[unit]}` : value;
+}
@@ -0,0 +1,57 @@
+// src/lib/utils/barcode.ts
+
+// Code 128 symbols: widths of bar, space, bar, space, bar, space (stop has a final bar)
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const START_B = 104;
+const STOP = 106;
+
+/**
+ * Bar widths (in modules, bars and spaces alternating, starting with a bar)
+ * of a Code 128 set B barcode. Characters outside printable ASCII are dropped.
+ */
+export function encodeCode128(value: string): number[] {
+  const codes = [...value]
+    .map((char) => char.charCodeAt(0))
+    .filter((code) => code >= 32 && code <= 126)
+    .map((code) => code - 32);
+
+  const checksum =
+    codes.reduce((sum, code, index) => sum + code * (index + 1), START_B) % 103;
+
+  return [START_B, ...codes, checksum, STOP].flatMap((symbol) =>
+    [...CODE128_PATTERNS[symbol]].map(Number)
+  );
+}
+
+/**
+ * Code 128 barcode as an inline SVG, for HTML documents
+ */
+export function code128Svg(value: string, options: { height?: number; moduleWidth?: number } = {}) {
+  const height = options.height ?? 40;
+  const moduleWidth = options.moduleWidth ?? 1;
+  const quietZone = 10 * moduleWidth;
+
+  let x = quietZone;
+  const bars: string[] = [];
+  encodeCode128(value).forEach((width, index) => {
+    if (index % 2 === 0) {
+      bars.push(`<rect x="${x}" y="0" width="${width * moduleWidth}" height="${height}"/>`);
+    }
+    x += width * moduleWidth;
+  });
+
+  const totalWidth = x + quietZone;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${height}" viewBox="0 0 ${totalWidth} ${height}" fill="#000">${bars.join("")}</svg>`;
+}
@@ -0,0 +1,135 @@
+// src/lib/utils/escpos.ts
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export interface EscPosWriter {
+  readonly columns: number;
+  align(value: "left" | "center" | "right"): void;
+  bold(on: boolean): void;
+  doubleSize(on: boolean): void;
+  line(value?: string): void;
+  columnsLine(left: string, right: string): void;
+  separator(char?: string): void;
+  barcode(value: string): void;
+  feed(lines: number): void;
+  cut(): void;
+  toBytes(): Uint8Array;
+}
+
+/**
+ * Printers are set to their default code page, which only reliably covers
+ * ASCII: strip accents and replace anything else.
+ */
+export function toEscPosText(value: string | null | undefined): string {
+  if (!value) return "";
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/€/g, "EUR")
+    .replace(/[^\x20-\x7E]/g, "?");
+}
+
+/**
+ * Left text and right text on one line, the left one cut to fit
+ */
+export function padColumns(left: string, right: string, columns: number): string {
+  const room = Math.max(columns - right.length - 1, 0);
+  const leftText = left.length > room ? left.slice(0, room) : left;
+  return leftText + " ".repeat(columns - leftText.length - right.length) + right;
+}
+
+/**
+ * Break text into lines of at most `columns` characters, on spaces when possible
+ */
+export function wrapText(value: string, columns: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= columns) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Byte stream builder for ESC/POS thermal printers (Epson TM and compatibles).
+ * `columns` is the number of characters per line in font A: 48 on 80mm paper,
+ * 32 on 58mm paper.
+ */
+export function createEscPosWriter(columns: number): EscPosWriter {
+  const bytes: number[] = [ESC, 0x40]; // Initialize
+  const push = (...values: number[]) => bytes.push(...values);
+  const pushText = (value: string) => {
+    for (const char of toEscPosText(value)) push(char.charCodeAt(0));
+  };
+
+  return {
+    columns,
+
+    align(value) {
+      push(ESC, 0x61, value === "center" ? 1 : value === "right" ? 2 : 0);
+    },
+
+    bold(on) {
+      push(ESC, 0x45, on ? 1 : 0);
+    },
+
+    doubleSize(on) {
+      push(GS, 0x21, on ? 0x11 : 0x00);
+    },
+
+    line(value = "") {
+      pushText(value);
+      push(LF);
+    },
+
+    columnsLine(left, right) {
+      pushText(padColumns(toEscPosText(left), toEscPosText(right), columns));
+      push(LF);
+    },
+
+    separator(char = "-") {
+      pushText(char.repeat(columns));
+      push(LF);
+    },
+
+    barcode(value) {
+      const data = toEscPosText(value);
+      push(GS, 0x68, 60); // Height in dots
+      push(GS, 0x77, 2); // Module width
+      push(GS, 0x48, 2); // Human readable text below the bars
+      // CODE128 (m = 73) with the data length, starting in code set B
+      push(GS, 0x6b, 73, data.length + 2, 0x7b, 0x42);
+      pushText(data);
+      push(LF);
+    },
+
+    feed(lines) {
+      push(ESC, 0x64, Math.min(Math.max(lines, 0), 255));
+    },
+
+    cut() {
+      push(GS, 0x56, 66, 0); // Feed to the cutter then partial cut
+    },
+
+    toBytes() {
+      return Uint8Array.from(bytes);
+    },
+  };
+}
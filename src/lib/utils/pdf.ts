@@ -0,0 +1,241 @@
+// src/lib/utils/pdf.ts
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+
+// A4 portrait, in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+
+const COLORS = {
+  text: rgb(0.13, 0.13, 0.13),
+  muted: rgb(0.45, 0.45, 0.45),
+  border: rgb(0.82, 0.82, 0.82),
+  headerFill: rgb(0.94, 0.95, 0.97),
+};
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+  align?: "left" | "right";
+}
+
+export interface PdfColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+export interface PdfDocumentHeader {
+  shopName: string;
+  shopLines: (string | null | undefined)[];
+  title: string;
+  titleLines: (string | null | undefined)[];
+}
+
+export interface PdfWriter {
+  readonly contentWidth: number;
+  text(value: string, x: number, options?: PdfTextOptions): void;
+  moveDown(height: number): void;
+  ensureSpace(height: number): void;
+  separator(): void;
+  header(header: PdfDocumentHeader): void;
+  table(columns: PdfColumn[], rows: string[][]): void;
+  keyValues(rows: [string, string][], options?: { boldLast?: boolean }): void;
+  save(): Promise<Uint8Array>;
+}
+
+/**
+ * Standard PDF fonts only cover WinAnsi (Latin-1 + a few symbols); replace
+ * anything else so a product name in another script never breaks rendering.
+ */
+export function toPdfText(value: string | null | undefined): string {
+  if (!value) return "";
+  return value
+    .normalize("NFC")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7E\xA0-\xFF€\n]/g, "?");
+}
+
+/**
+ * Format an amount for documents. PDFs always use the currency code since the
+ * local symbol (د.ت) is not printable with standard fonts.
+ */
+export function formatPdfAmount(amount: number, currency = "DT"): string {
+  return `${Number(amount || 0).toFixed(2)} ${currency}`;
+}
+
+function truncateToWidth(value: string, font: PDFFont, size: number, width: number) {
+  if (font.widthOfTextAtSize(value, size) <= width) return value;
+  let truncated = value;
+  while (truncated.length > 1 && font.widthOfTextAtSize(`${truncated}...`, size) > width) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+}
+
+/**
+ * Create a top-to-bottom A4 document writer with automatic page breaks
+ */
+export async function createPdfWriter(title: string): Promise<PdfWriter> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(toPdfText(title));
+  doc.setCreationDate(new Date());
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  const addPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const writer: PdfWriter = {
+    contentWidth,
+
+    text(value, x, options = {}) {
+      const size = options.size ?? 9;
+      const font = options.bold ? bold : regular;
+      const content = toPdfText(value);
+      const drawX =
+        options.align === "right"
+          ? MARGIN + x - font.widthOfTextAtSize(content, size)
+          : MARGIN + x;
+
+      page.drawText(content, {
+        x: drawX,
+        y: y - size,
+        size,
+        font,
+        color: options.muted ? COLORS.muted : COLORS.text,
+      });
+    },
+
+    moveDown(height) {
+      y -= height;
+    },
+
+    ensureSpace(height) {
+      if (y - height < MARGIN) addPage();
+    },
+
+    separator() {
+      page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: PAGE_WIDTH - MARGIN, y },
+        thickness: 0.5,
+        color: COLORS.border,
+      });
+      y -= 8;
+    },
+
+    header({ shopName, shopLines, title, titleLines }) {
+      const top = y;
+      writer.text(shopName, 0, { size: 16, bold: true });
+      writer.text(title, contentWidth, { size: 16, bold: true, align: "right" });
+      y -= 22;
+
+      const left = shopLines.filter((line): line is string => !!line);
+      const right = titleLines.filter((line): line is string => !!line);
+      const start = y;
+      left.forEach((line) => {
+        writer.text(line, 0, { muted: true });
+        y -= 12;
+      });
+      const leftEnd = y;
+      y = start;
+      right.forEach((line) => {
+        writer.text(line, contentWidth, { align: "right" });
+        y -= 12;
+      });
+      y = Math.min(leftEnd, y, top - 40) - 8;
+      writer.separator();
+    },
+
+    table(columns, rows) {
+      const rowHeight = 16;
+      const size = 8.5;
+
+      const drawHeader = () => {
+        page.drawRectangle({
+          x: MARGIN,
+          y: y - rowHeight + 4,
+          width: contentWidth,
+          height: rowHeight,
+          color: COLORS.headerFill,
+        });
+        let x = 0;
+        for (const column of columns) {
+          const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+          writer.text(column.header, textX, { size, bold: true, align: column.align });
+          x += column.width;
+        }
+        y -= rowHeight;
+      };
+
+      writer.ensureSpace(rowHeight * 2);
+      drawHeader();
+
+      for (const row of rows) {
+        if (y - rowHeight < MARGIN) {
+          addPage();
+          drawHeader();
+        }
+        let x = 0;
+        columns.forEach((column, index) => {
+          const content = truncateToWidth(toPdfText(row[index]), regular, size, column.width - 8);
+          const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+          writer.text(content, textX, { size, align: column.align });
+          x += column.width;
+        });
+        y -= rowHeight;
+        page.drawLine({
+          start: { x: MARGIN, y: y + 4 },
+          end: { x: PAGE_WIDTH - MARGIN, y: y + 4 },
+          thickness: 0.3,
+          color: COLORS.border,
+        });
+      }
+      y -= 6;
+    },
+
+    keyValues(rows, options = {}) {
+      const labelX = contentWidth - 220;
+      rows.forEach(([label, value], index) => {
+        const isLast = index === rows.length - 1;
+        const emphasize = !!options.boldLast && isLast;
+        writer.ensureSpace(14);
+        writer.text(label, labelX, { bold: emphasize, size: emphasize ? 10.5 : 9 });
+        writer.text(value, contentWidth, {
+          bold: emphasize,
+          size: emphasize ? 10.5 : 9,
+          align: "right",
+        });
+        y -= emphasize ? 16 : 13;
+      });
+    },
+
+    async save() {
+      const pages = doc.getPages();
+      pages.forEach((current, index) => {
+        const label = `Page ${index + 1} / ${pages.length}`;
+        current.drawText(label, {
+          x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 7.5),
+          y: MARGIN / 2,
+          size: 7.5,
+          font: regular,
+          color: COLORS.muted,
+        });
+      });
+      return await doc.save();
+    },
+  };
+
+  return writer;
+}
@@ -0,0 +1,61 @@
+// src/lib/utils/scale-barcode.ts
+import type { UnitOfMeasure } from "@prisma/client";
+import { isMeasuredUnit, quantityFromScale, roundQuantity } from "@/lib/units";
+
+// In-store EAN-13 printed by the scales: "2" + type digit + 5-digit item code
+// + 5-digit value + check digit. Types 0-4 embed the weight in grams (or the
+// volume in milliliters), types 5-9 embed the price in hundredths.
+// Variants sold this way carry the first 7 digits ("2" + type + item code)
+// as their barcode.
+const SCALE_BARCODE_REGEX = /^2\d{12}$/;
+
+export interface ScaleBarcode {
+  itemCode: string; // First 7 digits, as stored on the variant
+  weight: number | null; // Grams or milliliters
+  price: number | null;
+}
+
+export function ean13CheckDigit(digits: string): number {
+  const sum = [...digits.slice(0, 12)].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3),
+    0
+  );
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Item code and embedded weight or price of a scale label, or null when the
+ * barcode is not a valid in-store EAN-13
+ */
+export function parseScaleBarcode(barcode: string): ScaleBarcode | null {
+  const value = barcode.trim();
+  if (!SCALE_BARCODE_REGEX.test(value) || ean13CheckDigit(value) !== Number(value[12])) {
+    return null;
+  }
+
+  const embedded = Number(value.slice(7, 12));
+  const embedsPrice = Number(value[1]) >= 5;
+  return {
+    itemCode: value.slice(0, 7),
+    weight: embedsPrice ? null : embedded,
+    price: embedsPrice ? embedded / 100 : null,
+  };
+}
+
+/**
+ * Quantity of the variant a scale label sells: the weighed quantity, or what
+ * the printed price pays for at the current price. Null when the variant is
+ * not sold by weight or volume.
+ */
+export function scaleQuantity(
+  scale: ScaleBarcode,
+  variant: { unit: UnitOfMeasure; finalPrice: number }
+): number | null {
+  if (!isMeasuredUnit(variant.unit)) return null;
+  if (scale.weight !== null) {
+    return scale.weight > 0 ? quantityFromScale(scale.weight, variant.unit) : null;
+  }
+  if (!scale.price || variant.finalPrice <= 0) return null;
+  const quantity = roundQuantity(scale.price / variant.finalPrice);
+  return quantity > 0 ? quantity : null;
+}
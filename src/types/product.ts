@@ -52,7 +52,6 @@ export interface Product {
   weight?: number | null;
   dimensions?: Record<string, any> | null;
   images: string[];        // Common product images
-  expiryDate?: string | Date | null;
   categories: Category[];
   variants: ProductVariant[]; // All pricing/inventory is in variants
   customFields: CustomField[];
@@ -94,7 +93,6 @@ export interface ProductFormValues {
   categoryIds: string[];
   images: string[];
   variants: ProductVariant[]; // Required - at least one variant
-  expiryDate?: string | null;
   customFieldValues: CustomField[];
 }
 